@@ -20,10 +20,14 @@ import ExpenseTracker from './components/ExpenseTracker';
 import ExpenseWizard from './components/ExpenseWizard';
 import ClientWizard from './components/ClientWizard';
 import AccountantDashboard from './components/AccountantDashboard';
+import ItbmsReturnWorksheet from './components/ItbmsReturnWorksheet';
+import DgiInformesExport from './components/DgiInformesExport';
+import BankReconciliation from './components/BankReconciliation';
 import AiTaskManager from './components/AiTaskManager';
 import FiscalCalculators from './components/FiscalCalculators';
 import TaxCalendar from './components/TaxCalendar';
 import { AlertProvider, useAlert } from './components/AlertSystem';
+import { createReferenceTimelineEvent, getDocumentTypeLabel } from './services/creditNoteService';
 import {
   createUserInDb,
   updateUserProfileInDb,
@@ -38,10 +42,13 @@ import {
   deleteClientFromDb,
   fetchCatalogItemsFromDb,
   saveCatalogItemToDb,
-  deleteCatalogItemFromDb
+  deleteCatalogItemFromDb,
+  allocateDocumentIdInDb
 } from './services/neon';
-import { processInvoicesFollowUp } from './services/followUpService';
 import { performAutomatedStripeSync } from './services/stripeSyncService';
+import { DOCUMENT_ID_UNAVAILABLE } from './services/documentNumberingService';
+import { getImmutableViolation, getEditMode, DOCUMENT_LOCKED_FE } from './services/documentVersionService';
+import { hasPaymentSecret } from './services/paymentSecretService';
 import { fetchExchangeRates } from './services/currencyService';
 import { useKindeAuth } from '@kinde-oss/kinde-auth-react';
 
@@ -58,6 +65,9 @@ const viewToPath: Record<string, string> = {
   [AppView.AI_TASKS]: '/tasks',
   [AppView.FISCAL_CALCULATORS]: '/calculators',
   [AppView.TAX_CALENDAR]: '/calendar',
+  [AppView.ITBMS_RETURN]: '/itbms-return',
+  [AppView.DGI_REPORTS]: '/dgi-reports',
+  [AppView.BANK_RECONCILIATION]: '/reconciliation',
   [AppView.INVOICE_DETAIL]: '/documents', // Base for details
   [AppView.CLIENT_DETAIL]: '/clients',    // Base for details
   [AppView.EXPENSE_WIZARD]: '/expenses/new',
@@ -105,9 +115,9 @@ const AppContent: React.FC = () => {
 
     if (isAccountant) {
       setManagedCompanies([
-        { id: 'c1', name: 'Mi Dulce Hogar S.A.', taxId: '123456-1-123456', fiscalConfig: { entityType: 'JURIDICA' } } as UserProfile,
-        { id: 'c2', name: 'Tech Solutions Panamá', taxId: '654321-2-654321', fiscalConfig: { entityType: 'JURIDICA' } } as UserProfile,
-        { id: 'c3', name: 'Dr. Roberto Mendoza', taxId: '8-888-888', fiscalConfig: { entityType: 'NATURAL' } } as UserProfile,
+        { id: 'c1', name: 'Mi Dulce Hogar S.A.', taxId: '123456-1-123456', fiscalConfig: { entityType: 'JURIDICA', companyForm: 'SA', itbmsRegistered: true, hasEmployees: true } } as UserProfile,
+        { id: 'c2', name: 'Tech Solutions Panamá', taxId: '654321-2-654321', fiscalConfig: { entityType: 'JURIDICA', companyForm: 'SAS', itbmsRegistered: true } } as UserProfile,
+        { id: 'c3', name: 'Dr. Roberto Mendoza', taxId: '8-888-888', fiscalConfig: { entityType: 'NATURAL', itbmsRegistered: true } } as UserProfile,
       ]);
       setAccountantTasks([
         { id: 't1', userId: finalUser.id, title: 'Presentar ITBMS Enero', dueDate: '2026-01-15', priority: 'HIGH', status: 'PENDING', linkedClientId: 'Mi Dulce Hogar S.A.', aiSuggestion: 'Priorizar por flujo de caja' },
@@ -243,6 +253,9 @@ const AppContent: React.FC = () => {
       [AppView.CATALOG]: 'Catálogo',
       [AppView.EXPENSES]: 'Gastos',
       [AppView.ACCOUNTANT_DASHBOARD]: 'Contador',
+      [AppView.ITBMS_RETURN]: 'Declaración ITBMS',
+      [AppView.DGI_REPORTS]: 'Informes DGI',
+      [AppView.BANK_RECONCILIATION]: 'Conciliación',
     };
 
     // Main Category
@@ -251,7 +264,7 @@ const AppContent: React.FC = () => {
       items.push({ label: selectedClientName || 'Detalle', view: AppView.CLIENT_DETAIL });
     } else if (activeView === AppView.INVOICE_DETAIL) {
       items.push({ label: 'Documentos', view: AppView.INVOICES, icon: <FileText className="w-3 h-3" /> });
-      items.push({ label: selectedInvoice ? `${selectedInvoice.type === 'Quote' ? 'Cotización' : 'Factura'} #${selectedInvoice.id}` : 'Detalle', view: AppView.INVOICE_DETAIL });
+      items.push({ label: selectedInvoice ? `${getDocumentTypeLabel(selectedInvoice.type)} #${selectedInvoice.id}` : 'Detalle', view: AppView.INVOICE_DETAIL });
     } else if (labels[activeView]) {
       items.push({ label: labels[activeView], view: activeView });
     } else {
@@ -356,19 +369,7 @@ const AppContent: React.FC = () => {
           setInvoices(docs);
           setIsOffline(false);
 
-          // NEW: RUN AUTOMATED FOLLOW-UP PROCESS
-          // Only if not offline and has a profile set
-          if (currentUser.followUpProfile && currentUser.followUpProfile !== 'OFF') {
-            const count = await processInvoicesFollowUp(docs, currentUser, (updated) => {
-              setInvoices(prev => prev.map(i => i.id === updated.id ? updated : i));
-            });
-
-            if (count > 0) {
-              setTimeout(() => {
-                alert.addToast('info', 'Seguimiento de Pagos', `IA: Se han enviado ${count} recordatorios de pago automáticamente.`);
-              }, 2000);
-            }
-          }
+          // Reminders and late fees run server-side (api/cron/follow-up.js)
         } else {
           setIsOffline(true);
         }
@@ -395,8 +396,15 @@ const AppContent: React.FC = () => {
           });
         }
 
+        // Managed companies (accountant). Keeps the demo list when none are linked yet.
+        if (currentUser.isAccountant && currentUser.managedUserIds?.length) {
+          const profiles = await Promise.all(currentUser.managedUserIds.map(id => getUserById(id)));
+          const linked = profiles.filter((p): p is UserProfile => !!p);
+          if (linked.length > 0) setManagedCompanies(linked);
+        }
+
         // --- AUTOMATED STRIPE SYNC (NEW) ---
-        if (!isOffline && currentUser.paymentIntegration?.stripeSecretKey) {
+        if (!isOffline && hasPaymentSecret(currentUser.paymentIntegration, 'stripeSecretKey')) {
           const syncResult = await performAutomatedStripeSync(
             currentUser,
             docs || [], // current invoices from DB
@@ -445,47 +453,17 @@ const AppContent: React.FC = () => {
     if (!currentUser) return;
 
     const exists = invoices.find(i => i.id === invoice.id);
+    const violation = exists ? getImmutableViolation(exists, invoice) : null;
+    if (violation) {
+      alert.addToast('error', 'Documento emitido', violation);
+      return;
+    }
     let newInvoices = [];
 
     if (exists) {
       newInvoices = invoices.map(i => i.id === invoice.id ? invoice : i);
     } else {
       newInvoices = [invoice, ...invoices];
-
-      const currentSequences = currentUser.documentSequences || {
-        invoicePrefix: 'FAC', invoiceNextNumber: 1,
-        quotePrefix: 'COT', quoteNextNumber: 1
-      };
-
-      let updatedSequences = { ...currentSequences };
-      let profileUpdated = false;
-
-      const idParts = invoice.id.split('-');
-      const idNum = parseInt(idParts[idParts.length - 1] || '0', 10);
-
-      if (!isNaN(idNum)) {
-        if (invoice.type === 'Invoice') {
-          if (idNum >= updatedSequences.invoiceNextNumber) {
-            updatedSequences.invoiceNextNumber = idNum + 1;
-            profileUpdated = true;
-          }
-        } else if (invoice.type === 'Quote') {
-          if (idNum >= updatedSequences.quoteNextNumber) {
-            updatedSequences.quoteNextNumber = idNum + 1;
-            profileUpdated = true;
-          }
-        }
-      } else {
-        if (invoice.type === 'Invoice') { updatedSequences.invoiceNextNumber += 1; profileUpdated = true; }
-        if (invoice.type === 'Quote') { updatedSequences.quoteNextNumber += 1; profileUpdated = true; }
-      }
-
-      if (profileUpdated) {
-        const updatedUser = { ...currentUser, documentSequences: updatedSequences };
-        setCurrentUser(updatedUser);
-        localStorage.setItem('konsul_user_data', JSON.stringify(updatedUser));
-        updateUserProfileInDb(updatedUser);
-      }
     }
 
     setInvoices(newInvoices);
@@ -551,11 +529,6 @@ const AppContent: React.FC = () => {
     if (!currentUser || invoicesToSave.length === 0) return;
 
     let newInvoices = [...invoices];
-    let profileUpdated = false;
-    let updatedSequences = { ...(currentUser.documentSequences || {
-        invoicePrefix: 'FAC', invoiceNextNumber: 1,
-        quotePrefix: 'COT', quoteNextNumber: 1
-    }) };
 
     for (const invoice of invoicesToSave) {
         const exists = newInvoices.find(i => i.id === invoice.id);
@@ -563,34 +536,9 @@ const AppContent: React.FC = () => {
             newInvoices = newInvoices.map(i => i.id === invoice.id ? invoice : i);
         } else {
             newInvoices = [invoice, ...newInvoices];
-            const idParts = invoice.id.split('-');
-            const idNum = parseInt(idParts[idParts.length - 1] || '0', 10);
-            if (!isNaN(idNum)) {
-                if (invoice.type === 'Invoice') {
-                    if (idNum >= updatedSequences.invoiceNextNumber) {
-                        updatedSequences.invoiceNextNumber = idNum + 1;
-                        profileUpdated = true;
-                    }
-                } else if (invoice.type === 'Quote') {
-                    if (idNum >= updatedSequences.quoteNextNumber) {
-                        updatedSequences.quoteNextNumber = idNum + 1;
-                        profileUpdated = true;
-                    }
-                }
-            } else {
-                if (invoice.type === 'Invoice') { updatedSequences.invoiceNextNumber += 1; profileUpdated = true; }
-                if (invoice.type === 'Quote') { updatedSequences.quoteNextNumber += 1; profileUpdated = true; }
-            }
         }
     }
 
-    if (profileUpdated) {
-        const updatedUser = { ...currentUser, documentSequences: updatedSequences };
-        setCurrentUser(updatedUser);
-        localStorage.setItem('konsul_user_data', JSON.stringify(updatedUser));
-        await updateUserProfileInDb(updatedUser);
-    }
-
     setInvoices(newInvoices);
 
     // Save to DB in parallel
@@ -659,13 +607,11 @@ const AppContent: React.FC = () => {
     if (!targetInvoice) return;
 
     if (targetInvoice.type === 'Quote' && newStatus === 'Aceptada' && targetInvoice.status !== 'Aceptada') {
-      const sequences = currentUser.documentSequences || { invoicePrefix: 'FAC', invoiceNextNumber: 1, quotePrefix: 'COT', quoteNextNumber: 1 };
-      let nextNum = sequences.invoiceNextNumber;
-      let newInvoiceId = `${sequences.invoicePrefix}-${String(nextNum).padStart(4, '0')}`;
-
-      while (invoices.some(i => i.id === newInvoiceId)) {
-        nextNum++;
-        newInvoiceId = `${sequences.invoicePrefix}-${String(nextNum).padStart(4, '0')}`;
+      const invoiceDate = new Date().toISOString();
+      const newInvoiceId = await allocateDocumentIdInDb(currentUser.id, 'Invoice', invoiceDate);
+      if (!newInvoiceId) {
+        alert.addToast('error', 'No se pudo convertir la cotización', DOCUMENT_ID_UNAVAILABLE);
+        return;
       }
 
       const newInvoice: Invoice = {
@@ -673,7 +619,7 @@ const AppContent: React.FC = () => {
         id: newInvoiceId,
         type: 'Invoice',
         status: 'Enviada',
-        date: new Date().toISOString(),
+        date: invoiceDate,
         timeline: [
           { id: Date.now().toString(), type: 'CREATED', title: `Convertida desde ${targetInvoice.id}`, timestamp: new Date().toISOString() }
         ]
@@ -830,7 +776,30 @@ const AppContent: React.FC = () => {
     }
   };
 
+  // Credit/Debit note issued from InvoiceDetail: save the note (bumps its NC/ND sequence)
+  // and record it on the original invoice's timeline.
+  // `updatedOriginal` carries changes made to the invoice together with the note (e.g. a late-fee waiver)
+  const handleCreateAdjustmentNote = async (note: Invoice, updatedOriginal?: Invoice) => {
+    if (!currentUser) return;
+
+    const original = updatedOriginal || invoices.find(i => i.id === note.referenceInvoiceId);
+    await handleSaveInvoice(note);
+    if (!original) return;
+
+    const linkedOriginal: Invoice = {
+      ...original,
+      timeline: [...(original.timeline || []), createReferenceTimelineEvent(note)]
+    };
+    setInvoices(prev => prev.map(i => i.id === linkedOriginal.id ? linkedOriginal : i));
+    setSelectedInvoice(linkedOriginal);
+    await saveInvoiceToDb({ ...linkedOriginal, userId: currentUser.id });
+  };
+
   const handleEditInvoice = (invoice: Invoice) => {
+    if (getEditMode(invoice) === 'LOCKED') {
+      alert.addToast('info', 'Documento bloqueado', DOCUMENT_LOCKED_FE);
+      return;
+    }
     setDocumentToEdit(invoice);
     handleNavigate(AppView.WIZARD);
   };
@@ -1003,6 +972,12 @@ const AppContent: React.FC = () => {
           onUpdateStatus={handleUpdateStatus}
           onEdit={handleEditInvoice}
           onDelete={handleDeleteInvoice}
+          relatedDocuments={invoices}
+          onCreateAdjustmentNote={handleCreateAdjustmentNote}
+          onSelectDocument={(doc) => {
+            setSelectedInvoice(doc);
+            handleNavigate(AppView.INVOICE_DETAIL, { id: doc.id });
+          }}
         />
       )}
 
@@ -1041,6 +1016,7 @@ const AppContent: React.FC = () => {
         <ClientWizard
           onSave={handleSaveNewClient}
           onCancel={() => handleNavigate(AppView.CLIENTS)}
+          currentUser={currentUser}
         />
       )}
 
@@ -1053,6 +1029,8 @@ const AppContent: React.FC = () => {
           onViewCalculator={(type) => { setCalcType(type); handleNavigate(AppView.FISCAL_CALCULATORS); }}
           onViewTasks={() => handleNavigate(AppView.AI_TASKS)}
           onViewCalendar={() => handleNavigate(AppView.TAX_CALENDAR)}
+          onViewItbmsReturn={() => handleNavigate(AppView.ITBMS_RETURN)}
+          onViewDgiReports={() => handleNavigate(AppView.DGI_REPORTS)}
         />
       )}
 
@@ -1068,8 +1046,46 @@ const AppContent: React.FC = () => {
         <FiscalCalculators initialType={calcType} onBack={() => handleNavigate(AppView.ACCOUNTANT_DASHBOARD)} />
       )}
 
-      {activeView === AppView.TAX_CALENDAR && (
-        <TaxCalendar onBack={() => handleNavigate(AppView.ACCOUNTANT_DASHBOARD)} />
+      {activeView === AppView.TAX_CALENDAR && currentUser && (
+        <TaxCalendar
+          currentUser={currentUser}
+          managedCompanies={managedCompanies}
+          onBack={() => handleNavigate(currentUser.isAccountant ? AppView.ACCOUNTANT_DASHBOARD : AppView.DASHBOARD)}
+        />
+      )}
+
+      {activeView === AppView.ITBMS_RETURN && currentUser && (
+        <ItbmsReturnWorksheet
+          currentUser={currentUser}
+          managedCompanies={managedCompanies}
+          ownDocuments={invoices}
+          onBack={() => handleNavigate(AppView.ACCOUNTANT_DASHBOARD)}
+        />
+      )}
+
+      {activeView === AppView.DGI_REPORTS && currentUser && (
+        <DgiInformesExport
+          currentUser={currentUser}
+          managedCompanies={managedCompanies}
+          ownDocuments={invoices}
+          ownClients={dbClients}
+          onBack={() => handleNavigate(AppView.ACCOUNTANT_DASHBOARD)}
+        />
+      )}
+
+      {activeView === AppView.BANK_RECONCILIATION && currentUser && (
+        <BankReconciliation
+          currentUser={currentUser}
+          documents={invoices}
+          onUpdateDocument={(updated) => {
+            setInvoices(prev => prev.map(i => i.id === updated.id ? updated : i));
+            saveInvoiceToDb({ ...updated, userId: currentUser.id });
+          }}
+          onSelectDocument={(doc) => {
+            setSelectedInvoice(doc);
+            handleNavigate(AppView.INVOICE_DETAIL, { id: doc.id });
+          }}
+        />
       )}
 
       {activeView === AppView.CLIENT_DETAIL && selectedClientName && currentUser && (
@@ -1090,7 +1106,7 @@ const AppContent: React.FC = () => {
           onCreateDocument={(type, data) => handleCreateDocumentForClient(data, type)}
           onDeleteClient={handleDeleteClient}
           currencySymbol={currentUser.defaultCurrency === 'EUR' ? '€' : '$'}
-          stripeSecretKey={currentUser.paymentIntegration?.stripeSecretKey}
+          hasStripe={hasPaymentSecret(currentUser.paymentIntegration, 'stripeSecretKey')}
           onUpdateStatus={handleUpdateStatus}
           onSaveBatch={handleSaveInvoiceBatch}
         />
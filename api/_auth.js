@@ -55,3 +55,62 @@ export async function validateApiKey(req, res) {
 
   return { userId };
 }
+
+/**
+ * Strict auth for endpoints that read or change a user's secrets (signing certificate,
+ * payment gateway keys). Only the user's own API key (Perfil > API Key) identifies the
+ * caller: x-user-id, the user id/email and the shared workspace key are not accepted,
+ * since anyone can send them. An x-user-id naming another user is rejected.
+ * `allowQueryKey` also accepts ?api_key= for clients that cannot send headers (calendar feeds).
+ */
+export async function requireUserApiKey(req, res, { allowQueryKey = false } = {}) {
+  setCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return null;
+  }
+
+  const apiKey = req.headers['x-api-key'] ||
+                 (req.headers['authorization'] ? req.headers['authorization'].replace('Bearer ', '').trim() : null) ||
+                 (allowQueryKey ? req.query.api_key : null);
+
+  if (!apiKey) {
+    res.status(401).json({ error: 'Unauthorized: your personal API key (x-api-key) is required' });
+    return null;
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+    return null;
+  }
+
+  let rows = [];
+  try {
+    const client = new Client(dbUrl);
+    await client.connect();
+    ({ rows } = await client.query(
+      `SELECT id FROM users WHERE profile_data->'apiKeys'->>'konsul' = $1 LIMIT 1`,
+      [apiKey]
+    ));
+    await client.end();
+  } catch (e) {
+    console.error("API Auth DB Lookup Error:", e);
+    res.status(500).json({ error: 'Internal Server Error', details: e.message });
+    return null;
+  }
+
+  if (rows.length === 0) {
+    res.status(401).json({ error: 'Unauthorized: Invalid API Key' });
+    return null;
+  }
+
+  const claimedUserId = req.headers['x-user-id'];
+  if (claimedUserId && claimedUserId !== rows[0].id) {
+    res.status(403).json({ error: 'Forbidden: the API key belongs to another user' });
+    return null;
+  }
+
+  return { userId: rows[0].id };
+}
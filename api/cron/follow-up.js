@@ -0,0 +1,216 @@
+import { Client } from '@neondatabase/serverless';
+import { randomUUID } from 'crypto';
+import { processInvoicesFollowUp } from '../../services/followUpService';
+import { ensureDocumentSequencesTable, allocateDocumentId } from '../../services/documentSequenceStore';
+
+/**
+ * Scheduled follow-up run (Vercel Cron, hourly - see vercel.json).
+ * Applies late fees and fires dunning steps for every user with follow-up or a late-fee
+ * policy enabled. Dunning steps only fire inside each user's business hours.
+ *
+ * Local runs: `?now=2026-03-02T14:00:00Z` fakes the clock (ignored in production).
+ */
+
+const sendWithResend = async ({ to, cc, subject, html, senderName }) => {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.error('Follow-up cron: missing RESEND_API_KEY');
+    return false;
+  }
+  const fromEmail = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      from: `${senderName || 'Kônsul Bills'} <${fromEmail}>`,
+      to: [to],
+      cc: cc ? [cc] : undefined,
+      subject,
+      html
+    })
+  });
+
+  if (!response.ok) {
+    console.error('Follow-up cron: Resend error', response.status, await response.text());
+  }
+  return response.ok;
+};
+
+const createNeonStore = (client) => ({
+  saveDocument: async (invoice) => {
+    await client.query(`
+      INSERT INTO invoices (id, user_id, client_name, client_tax_id, total, status, date, type, data)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (id) DO UPDATE SET
+        user_id = EXCLUDED.user_id, client_name = EXCLUDED.client_name, client_tax_id = EXCLUDED.client_tax_id,
+        total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data;
+    `, [invoice.id, invoice.userId, invoice.clientName, invoice.clientTaxId, invoice.total, invoice.status, invoice.date, invoice.type, JSON.stringify(invoice)]);
+  },
+
+  allocateDocumentId: (userId, type, date) => allocateDocumentId(client, userId, type, date),
+
+  // Takes the lock if it is free or expired; RETURNING is empty when another run holds it
+  acquireLock: async (invoiceId, owner, expiresAt) => {
+    const res = await client.query(`
+      INSERT INTO follow_up_locks (invoice_id, owner, expires_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (invoice_id) DO UPDATE SET owner = EXCLUDED.owner, expires_at = EXCLUDED.expires_at
+      WHERE follow_up_locks.expires_at < NOW()
+      RETURNING invoice_id;
+    `, [invoiceId, owner, expiresAt.toISOString()]);
+    return res.rows.length > 0;
+  },
+
+  releaseLock: async (invoiceId, owner) => {
+    await client.query(`DELETE FROM follow_up_locks WHERE invoice_id = $1 AND owner = $2`, [invoiceId, owner]);
+  },
+
+  claimMilestone: async (key, userId, invoiceId) => {
+    const res = await client.query(`
+      INSERT INTO follow_up_milestones (key, user_id, invoice_id)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO NOTHING
+      RETURNING key;
+    `, [key, userId, invoiceId]);
+    return res.rows.length > 0;
+  },
+
+  releaseMilestone: async (key) => {
+    await client.query(`DELETE FROM follow_up_milestones WHERE key = $1`, [key]);
+  }
+});
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Vercel sends "Authorization: Bearer <CRON_SECRET>" on scheduled invocations; without the
+  // secret configured the endpoint stays closed
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  let now = new Date();
+  if (req.query.now && process.env.VERCEL_ENV !== 'production') {
+    now = new Date(req.query.now);
+    if (isNaN(now.getTime())) {
+      return res.status(400).json({ error: 'Invalid now parameter' });
+    }
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+    await ensureDocumentSequencesTable(client);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS follow_up_locks (
+        invoice_id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS follow_up_milestones (
+        key TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        invoice_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE TABLE IF NOT EXISTS clients (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS prospects (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL);
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS email TEXT;
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS phone TEXT;
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS dunning_sequence_id TEXT;
+      ALTER TABLE prospects ADD COLUMN IF NOT EXISTS email TEXT;
+      ALTER TABLE prospects ADD COLUMN IF NOT EXISTS phone TEXT;
+      ALTER TABLE prospects ADD COLUMN IF NOT EXISTS dunning_sequence_id TEXT;
+    `);
+
+    const usersRes = await client.query(`
+      SELECT id, name, email, profile_data FROM users
+      WHERE COALESCE(profile_data->>'followUpProfile', 'OFF') <> 'OFF'
+         OR profile_data->>'defaultDunningSequenceId' IS NOT NULL
+         OR jsonb_array_length(COALESCE(profile_data->'dunningSequences', '[]'::jsonb)) > 0
+         OR (profile_data->'lateFeePolicy'->>'enabled')::boolean IS TRUE
+    `);
+
+    const deps = {
+      store: createNeonStore(client),
+      mailer: { send: sendWithResend },
+      now: () => now,
+      runId: randomUUID()
+    };
+
+    const summary = { users: 0, remindersSent: 0, stepsFired: 0, escalated: 0, lateFeesApplied: 0, skippedLocked: 0, errors: 0 };
+
+    for (const row of usersRes.rows) {
+      const user = { ...(row.profile_data || {}), id: row.id, name: row.name, email: row.email };
+      // Same lock as the payment webhooks: the invoices read below are saved back after each
+      // late fee or step, so no payment may land on them in between
+      const lockKey = `stripe-webhook:${row.id}`;
+      let locked = false;
+      try {
+        await client.query(`SELECT pg_advisory_lock(hashtext($1))`, [lockKey]);
+        locked = true;
+
+        const invoicesRes = await client.query(
+          `SELECT * FROM invoices WHERE user_id = $1 OR data->>'userId' = $1`,
+          [row.id]
+        );
+        const invoices = invoicesRes.rows.map(r => {
+          const doc = { ...(r.data || r), id: r.id };
+          return { ...doc, total: parseFloat(doc.total) || 0, items: doc.items || [] };
+        });
+
+        // Per-client sequences and phone numbers (WhatsApp steps)
+        const clientsRes = await client.query(`
+          SELECT id, name, email, phone, dunning_sequence_id FROM clients WHERE user_id = $1
+          UNION ALL
+          SELECT id, name, email, phone, dunning_sequence_id FROM prospects WHERE user_id = $1
+        `, [row.id]);
+        const clients = clientsRes.rows.map(r => ({
+          id: r.id,
+          name: r.name,
+          email: r.email,
+          phone: r.phone,
+          dunningSequenceId: r.dunning_sequence_id || undefined
+        }));
+
+        const result = await processInvoicesFollowUp(invoices, user, deps, clients);
+        summary.users++;
+        summary.remindersSent += result.remindersSent;
+        summary.stepsFired += result.stepsFired;
+        summary.escalated += result.escalated;
+        summary.lateFeesApplied += result.lateFeesApplied;
+        summary.skippedLocked += result.skippedLocked;
+      } catch (error) {
+        // One broken account must not stop the run for everyone else
+        console.error(`Follow-up cron failed for user ${row.id}:`, error);
+        summary.errors++;
+      } finally {
+        if (locked) {
+          try { await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lockKey]); } catch (e) {}
+        }
+      }
+    }
+
+    await client.end();
+    return res.status(200).json({ success: true, now: now.toISOString(), ...summary });
+
+  } catch (error) {
+    console.error("API Follow-up Cron Error:", error);
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
@@ -0,0 +1,257 @@
+import { Client } from '@neondatabase/serverless';
+import Stripe from 'stripe';
+import { processRecurringInvoices } from '../../services/recurringInvoiceService';
+import { processRecurringExpenses } from '../../services/recurringExpenseService';
+import { ensurePaymentSecretsTable, getPaymentSecret } from '../../services/paymentSecretStore';
+import { ensureDocumentSequencesTable, allocateDocumentId } from '../../services/documentSequenceStore';
+
+/**
+ * Scheduled recurring invoice run (Vercel Cron, daily - see vercel.json).
+ * Generates the invoices of every recurrence cycle that is due and, when enabled on the
+ * recurring invoice, charges the client's saved Stripe card and emails the new invoice.
+ * Recurring expenses get their coming occurrences as pending entries, and the owner is
+ * emailed before those fall due.
+ *
+ * Local runs: `?now=2026-03-02T14:00:00Z` fakes the clock (ignored in production).
+ */
+
+const sendWithResend = async ({ to, cc, subject, html, senderName }) => {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.error('Recurring invoices cron: missing RESEND_API_KEY');
+    return false;
+  }
+  const fromEmail = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      from: `${senderName || 'Kônsul Bills'} <${fromEmail}>`,
+      to: [to],
+      cc: cc ? [cc] : undefined,
+      subject,
+      html
+    })
+  });
+
+  if (!response.ok) {
+    console.error('Recurring invoices cron: Resend error', response.status, await response.text());
+  }
+  return response.ok;
+};
+
+const createNeonStore = (client) => ({
+  saveDocument: async (invoice) => {
+    await client.query(`
+      INSERT INTO invoices (id, user_id, client_name, client_tax_id, total, status, date, type, data)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (id) DO UPDATE SET
+        user_id = EXCLUDED.user_id, client_name = EXCLUDED.client_name, client_tax_id = EXCLUDED.client_tax_id,
+        total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data;
+    `, [invoice.id, invoice.userId, invoice.clientName, invoice.clientTaxId, invoice.total, invoice.status, invoice.date, invoice.type, JSON.stringify(invoice)]);
+  },
+
+  allocateDocumentId: (userId, type, date) => allocateDocumentId(client, userId, type, date)
+});
+
+// Expenses live in their own table, keyed by data->>'userId' (same as services/neon.ts)
+const createExpenseStore = (client) => ({
+  saveDocument: async (expense) => {
+    await client.query(`
+      INSERT INTO expenses (id, provider_name, date, total, currency, category, receipt_url, status, data)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (id) DO UPDATE SET
+        provider_name = EXCLUDED.provider_name, total = EXCLUDED.total, date = EXCLUDED.date,
+        category = EXCLUDED.category, receipt_url = EXCLUDED.receipt_url, status = EXCLUDED.status, data = EXCLUDED.data;
+    `, [expense.id, expense.clientName, expense.date, expense.total, expense.currency, expense.items[0]?.description || 'General', expense.receiptUrl, expense.status, JSON.stringify(expense)]);
+  }
+});
+
+// Off-session charge to the customer's default card (or the first one saved)
+const createStripeCharger = (stripe) => ({
+  charge: async (invoice, stripeCustomerId) => {
+    const customer = await stripe.customers.retrieve(stripeCustomerId);
+    let paymentMethod = customer.deleted ? null : customer.invoice_settings?.default_payment_method;
+    if (paymentMethod && typeof paymentMethod !== 'string') paymentMethod = paymentMethod.id;
+    if (!paymentMethod) {
+      const methods = await stripe.paymentMethods.list({ customer: stripeCustomerId, type: 'card', limit: 1 });
+      paymentMethod = methods.data[0]?.id;
+    }
+    if (!paymentMethod) {
+      return { status: 'failed', error: 'El cliente no tiene un método de pago guardado en Stripe' };
+    }
+
+    try {
+      const intent = await stripe.paymentIntents.create({
+        amount: Math.round(invoice.total * 100),
+        currency: (invoice.currency || 'USD').toLowerCase(),
+        customer: stripeCustomerId,
+        payment_method: paymentMethod,
+        off_session: true,
+        confirm: true,
+        description: `Factura #${invoice.id}`,
+        metadata: { invoiceId: invoice.id, konsulSystem: 'true' }
+      }, { idempotencyKey: `recurring-${invoice.userId}-${invoice.id}` });
+
+      if (intent.status === 'succeeded') return { status: 'succeeded', paymentIntentId: intent.id };
+      if (intent.status === 'processing') return { status: 'processing', paymentIntentId: intent.id };
+      return { status: 'failed', paymentIntentId: intent.id, error: `Estado de Stripe: ${intent.status}` };
+    } catch (error) {
+      // Declines (and 3DS required) come back as errors carrying the payment intent
+      return { status: 'failed', paymentIntentId: error.raw?.payment_intent?.id, error: error.message };
+    }
+  }
+});
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Vercel sends "Authorization: Bearer <CRON_SECRET>" on scheduled invocations. This run charges
+  // saved cards and sends email, so without the secret configured it stays closed
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  let now = new Date();
+  if (req.query.now && process.env.VERCEL_ENV !== 'production') {
+    now = new Date(req.query.now);
+    if (isNaN(now.getTime())) {
+      return res.status(400).json({ error: 'Invalid now parameter' });
+    }
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+    await ensureDocumentSequencesTable(client);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS clients (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL);
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS tax_id TEXT;
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS email TEXT;
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+      CREATE TABLE IF NOT EXISTS expenses (
+        id TEXT PRIMARY KEY,
+        provider_name TEXT,
+        date TEXT,
+        total NUMERIC,
+        currency TEXT,
+        category TEXT,
+        receipt_url TEXT,
+        status TEXT,
+        data JSONB,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    const usersRes = await client.query(`
+      SELECT DISTINCT u.id, u.name, u.email, u.profile_data FROM users u
+      JOIN invoices i ON i.user_id = u.id OR i.data->>'userId' = u.id
+      WHERE (i.data->'recurrence'->>'isRecurrent')::boolean IS TRUE
+      UNION
+      SELECT u.id, u.name, u.email, u.profile_data FROM users u
+      JOIN expenses e ON e.data->>'userId' = u.id
+      WHERE (e.data->'recurrence'->>'isRecurrent')::boolean IS TRUE
+    `);
+
+    const deps = {
+      store: createNeonStore(client),
+      mailer: { send: sendWithResend },
+      now: () => now
+    };
+
+    const summary = { users: 0, generated: 0, sent: 0, charged: 0, chargeFailed: 0, pendingExpenses: 0, billReminders: 0, errors: 0 };
+
+    for (const row of usersRes.rows) {
+      const user = { ...(row.profile_data || {}), id: row.id, name: row.name, email: row.email };
+      // Same lock as the Stripe webhook: payments for one user are applied one at a time
+      const lockKey = `stripe-webhook:${row.id}`;
+      let locked = false;
+      try {
+        await client.query(`SELECT pg_advisory_lock(hashtext($1))`, [lockKey]);
+        locked = true;
+
+        const invoicesRes = await client.query(
+          `SELECT * FROM invoices WHERE user_id = $1 OR data->>'userId' = $1`,
+          [row.id]
+        );
+        const invoices = invoicesRes.rows.map(r => {
+          const doc = { ...(r.data || r), id: r.id };
+          return { ...doc, total: parseFloat(doc.total) || 0, items: doc.items || [] };
+        });
+
+        const clientsRes = await client.query(
+          `SELECT id, name, tax_id, email, stripe_customer_id FROM clients WHERE user_id = $1`,
+          [row.id]
+        );
+        const clients = clientsRes.rows.map(r => ({
+          id: r.id,
+          name: r.name,
+          taxId: r.tax_id,
+          email: r.email,
+          stripeCustomerId: r.stripe_customer_id || undefined
+        }));
+
+        const needsCharger = invoices.some(d => d.recurrence?.isRecurrent && d.recurrence?.autoCharge);
+        const stripeSecretKey = needsCharger ? await getPaymentSecret(client, row.id, 'stripeSecretKey') : null;
+        const charger = stripeSecretKey
+          ? createStripeCharger(new Stripe(stripeSecretKey, { apiVersion: '2023-10-16' }))
+          : undefined;
+
+        const result = await processRecurringInvoices(invoices, user, { ...deps, charger }, clients);
+        summary.users++;
+        summary.generated += result.generated;
+        summary.sent += result.sent;
+        summary.charged += result.charged;
+        summary.chargeFailed += result.chargeFailed;
+
+        const expensesRes = await client.query(`SELECT * FROM expenses WHERE data->>'userId' = $1`, [row.id]);
+        const expenseDocs = expensesRes.rows.map(r => ({
+          ...(r.data || {}),
+          id: r.id,
+          userId: row.id,
+          clientName: r.provider_name,
+          total: parseFloat(r.total) || 0,
+          status: r.status,
+          date: r.date,
+          type: 'Expense',
+          receiptUrl: r.receipt_url,
+          items: r.data?.items || []
+        }));
+        const expenses = await processRecurringExpenses(expenseDocs, user, { ...deps, store: createExpenseStore(client) });
+        summary.pendingExpenses += expenses.generated;
+        summary.billReminders += expenses.remindersSent;
+      } catch (error) {
+        // One broken account must not stop the run for everyone else
+        console.error(`Recurring invoices cron failed for user ${row.id}:`, error);
+        summary.errors++;
+      } finally {
+        if (locked) {
+          try { await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lockKey]); } catch (e) {}
+        }
+      }
+    }
+
+    await client.end();
+    return res.status(200).json({ success: true, now: now.toISOString(), ...summary });
+
+  } catch (error) {
+    console.error("API Recurring Invoices Cron Error:", error);
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
@@ -0,0 +1,40 @@
+import { Client } from '@neondatabase/serverless';
+import { ensurePaymentSecretsTable, migratePlaintextPaymentSecrets } from '../../services/paymentSecretStore';
+
+/**
+ * One-off migration: moves plaintext gateway keys from users.profile_data into the
+ * encrypted payment_secrets store. Safe to re-run (already migrated users are skipped).
+ *
+ *   curl -X POST -H "Authorization: Bearer $CRON_SECRET" https://<host>/api/migrations/payment-secrets
+ *
+ * Keys not migrated here are moved lazily the first time a server endpoint needs them.
+ */
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+    const result = await migratePlaintextPaymentSecrets(client);
+    await client.end();
+    return res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error("API Payment Secrets Migration Error:", error);
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
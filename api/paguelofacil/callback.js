@@ -0,0 +1,123 @@
+import { Client } from '@neondatabase/serverless';
+import { ensurePaymentSecretsTable, getPaymentSecret } from '../../services/paymentSecretStore';
+import {
+  getPagueloFacilGateway, reconcilePagueloFacilPayment, matchesPagueloFacilLink, ensurePagueloFacilLinksTable,
+  getPagueloFacilLinkRecord, claimPagueloFacilLink, releasePagueloFacilLink
+} from '../../services/pagueloFacilService';
+
+/**
+ * PagueloFacil return URL: GET /api/paguelofacil/callback?ref&Oper&Estado...
+ * Built by api/paguelofacil/link.js. The query only tells us which link and operation to look up:
+ * user, invoice and amount come from the registered link; status, amount and fee come from
+ * PagueloFacil (MerchantTransactions) with the merchant token, and both must agree.
+ * Each link settles once: replays of the return URL are redirected without effect.
+ * The customer is then redirected to the document with ?payment=success|failed.
+ */
+
+const saveDocument = async (client, invoice) => {
+  await client.query(`
+    INSERT INTO invoices (id, user_id, client_name, client_tax_id, total, status, date, type, data)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (id) DO UPDATE SET
+      user_id = EXCLUDED.user_id, client_name = EXCLUDED.client_name, client_tax_id = EXCLUDED.client_tax_id,
+      total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data;
+  `, [invoice.id, invoice.userId, invoice.clientName, invoice.clientTaxId, invoice.total, invoice.status, invoice.date, invoice.type, JSON.stringify(invoice)]);
+};
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { ref, Oper } = req.query;
+  if (!ref || !Oper) {
+    return res.status(400).json({ error: 'Missing required fields (ref, Oper)' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const proto = req.headers['x-forwarded-proto'] || 'https';
+  const origin = `${proto}://${req.headers.host}`;
+  const redirectTo = (invoiceId, outcome) => {
+    res.setHeader('Location', `${origin}/#/documents/${encodeURIComponent(invoiceId)}?payment=${outcome}`);
+    return res.status(302).end();
+  };
+
+  const client = new Client(dbUrl);
+  let userId = null;
+  let locked = false;
+  let claimed = false;
+
+  try {
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+    await ensurePagueloFacilLinksTable(client);
+
+    const link = await getPagueloFacilLinkRecord(client, String(ref));
+    if (!link) {
+      await client.end();
+      return res.status(404).json({ error: 'Link not found' });
+    }
+    userId = link.userId;
+    const invoiceId = link.invoiceId;
+
+    const userRes = await client.query(`SELECT profile_data FROM users WHERE id = $1`, [userId]);
+    const integration = userRes.rows[0]?.profile_data?.paymentIntegration || {};
+    const token = await getPaymentSecret(client, userId, 'token');
+
+    const env = process.env.PAGUELOFACIL_ENV || 'production';
+    const gateway = getPagueloFacilGateway(env, integration.cclw, token, origin);
+    const tx = await gateway.getTransaction(String(Oper));
+
+    // The operation must have been paid through this link, for its invoice and amount
+    if (!tx || tx.status !== 'APPROVED' || !matchesPagueloFacilLink(link, tx)) {
+      await client.end();
+      return redirectTo(invoiceId, 'failed');
+    }
+
+    // Same lock as the Stripe webhook: payments for one user are applied one at a time
+    await client.query(`SELECT pg_advisory_lock(hashtext($1))`, [`stripe-webhook:${userId}`]);
+    locked = true;
+
+    claimed = await claimPagueloFacilLink(client, link.linkId, tx.operationCode);
+    if (!claimed) {
+      // Already settled: the customer reloaded the return URL
+      await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [`stripe-webhook:${userId}`]);
+      await client.end();
+      return redirectTo(invoiceId, 'success');
+    }
+
+    const invoicesRes = await client.query(
+      `SELECT * FROM invoices WHERE user_id = $1 OR data->>'userId' = $1`,
+      [userId]
+    );
+    const documents = invoicesRes.rows.map(r => {
+      const doc = { ...(r.data || r), id: r.id };
+      return { ...doc, total: parseFloat(doc.total) || 0, items: doc.items || [] };
+    });
+    const invoice = documents.find(d => d.id === invoiceId);
+
+    if (invoice) {
+      const updated = reconcilePagueloFacilPayment(invoice, documents, tx, integration.gatewayFeeRate || 0);
+      if (updated) {
+        await saveDocument(client, { ...updated, userId });
+      }
+    } else {
+      console.error(`PagueloFacil callback: invoice ${invoiceId} not found for operation ${Oper}`);
+    }
+
+    await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [`stripe-webhook:${userId}`]);
+    await client.end();
+    return redirectTo(invoiceId, 'success');
+
+  } catch (error) {
+    console.error("API PagueloFacil Callback Error:", error);
+    try { if (claimed) await releasePagueloFacilLink(client, String(ref)); } catch (e) {}
+    try { if (locked) await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [`stripe-webhook:${userId}`]); } catch (e) {}
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
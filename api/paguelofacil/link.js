@@ -0,0 +1,79 @@
+import { Client } from '@neondatabase/serverless';
+import { randomUUID } from 'crypto';
+import { requireUserApiKey } from '../_auth.js';
+import { ensurePaymentSecretsTable, getPaymentSecret } from '../../services/paymentSecretStore';
+import { getPagueloFacilGateway, ensurePagueloFacilLinksTable, createPagueloFacilLinkRecord } from '../../services/pagueloFacilService';
+
+/**
+ * PagueloFacil payment link: POST /api/paguelofacil/link { invoiceId, amount, description }
+ * Uses the user's CCLW and the token from the encrypted store. The link is registered with its
+ * invoice and amount, and returns the customer to api/paguelofacil/callback.js, which settles
+ * the invoice only for an operation paid through that link.
+ */
+
+const getRequestOrigin = (req) => {
+  const proto = req.headers['x-forwarded-proto'] || 'https';
+  return `${proto}://${req.headers.host}`;
+};
+
+export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { invoiceId, amount, description } = req.body;
+  if (!invoiceId || !(Number(amount) > 0)) {
+    return res.status(400).json({ error: 'Missing required fields (invoiceId, amount)' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+    await ensurePagueloFacilLinksTable(client);
+
+    const userRes = await client.query(`SELECT profile_data FROM users WHERE id = $1`, [auth.userId]);
+    const cclw = userRes.rows[0]?.profile_data?.paymentIntegration?.cclw;
+    const token = await getPaymentSecret(client, auth.userId, 'token');
+
+    const env = process.env.PAGUELOFACIL_ENV || 'production';
+    if (env !== 'mock' && (!cclw || !token)) {
+      await client.end();
+      return res.status(400).json({ error: 'PagueloFacil no está configurado para este usuario.' });
+    }
+
+    const linkId = randomUUID();
+    const linkAmount = Math.round(Number(amount) * 100) / 100;
+    await createPagueloFacilLinkRecord(client, { linkId, userId: auth.userId, invoiceId, amount: linkAmount });
+    await client.end();
+
+    const origin = getRequestOrigin(req);
+    const returnUrl = new URL('/api/paguelofacil/callback', origin);
+    returnUrl.searchParams.set('ref', linkId);
+
+    const gateway = getPagueloFacilGateway(env, cclw, token, origin);
+    const link = await gateway.createLink({
+      linkId,
+      amount: linkAmount,
+      description: description || `Factura ${invoiceId}`,
+      returnUrl: returnUrl.toString(),
+      invoiceId,
+      userId: auth.userId
+    });
+
+    return res.status(200).json(link);
+  } catch (error) {
+    console.error("API PagueloFacil Link Error:", error);
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
@@ -0,0 +1,30 @@
+import { mockPagueloFacilCheckout } from '../../services/pagueloFacilService';
+
+/**
+ * Local PagueloFacil checkout: GET /api/paguelofacil/mock?code=<link code>[&result=declined]
+ * Only active with PAGUELOFACIL_ENV=mock. "Pays" the link at once and returns the customer to
+ * the callback exactly like PagueloFacil does, so links, callback and settlement run end to end.
+ */
+
+export default async function handler(req, res) {
+  if (process.env.PAGUELOFACIL_ENV !== 'mock') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { code, result } = req.query;
+  if (!code) {
+    return res.status(400).json({ error: 'Missing code parameter' });
+  }
+
+  try {
+    res.setHeader('Location', mockPagueloFacilCheckout(String(code), result !== 'declined'));
+    return res.status(302).end();
+  } catch (error) {
+    console.error("API PagueloFacil Mock Error:", error);
+    return res.status(400).json({ error: 'Invalid link code' });
+  }
+}
@@ -1,15 +1,22 @@
 import Stripe from 'stripe';
+import { requireUserApiKey } from './_auth.js';
+import { getPaymentSecretForUser } from '../services/paymentSecretStore';
 
 export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { invoiceId, amount, currency, invoiceDesc, clientEmail, stripeSecretKey, successUrl, cancelUrl } = req.body;
+    // The key never travels from the browser: it is looked up for the authenticated user
+    const stripeSecretKey = await getPaymentSecretForUser(auth.userId, 'stripeSecretKey');
+    const { invoiceId, amount, currency, invoiceDesc, clientEmail, successUrl, cancelUrl } = req.body;
 
     if (!stripeSecretKey) {
-      return res.status(400).json({ error: 'Stripe Secret Key no enviada.' });
+      return res.status(400).json({ error: 'Stripe no está configurado para este usuario.' });
     }
 
     const stripe = new Stripe(stripeSecretKey, {
@@ -36,6 +43,13 @@ export default async function handler(req, res) {
         invoiceId: invoiceId,
         konsulSystem: 'true'
       },
+      // Also on the PaymentIntent, so payment_intent.succeeded can be matched on its own
+      payment_intent_data: {
+        metadata: {
+          invoiceId: invoiceId,
+          konsulSystem: 'true'
+        }
+      },
       success_url: successUrl || req.headers.referer || 'https://konsul.app/success',
       cancel_url: cancelUrl || req.headers.referer || 'https://konsul.app/cancel',
     });
@@ -1,15 +1,19 @@
 import Stripe from 'stripe';
+import { requireUserApiKey } from './_auth.js';
+import { getPaymentSecretForUser } from '../services/paymentSecretStore';
 
 export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { stripeSecretKey } = req.body;
-
+    const stripeSecretKey = await getPaymentSecretForUser(auth.userId, 'stripeSecretKey');
     if (!stripeSecretKey) {
-      return res.status(400).json({ error: 'Stripe Secret Key no enviada.' });
+      return res.status(400).json({ error: 'Stripe no está configurado para este usuario.' });
     }
 
     const stripe = new Stripe(stripeSecretKey, {
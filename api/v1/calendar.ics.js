@@ -0,0 +1,119 @@
+import { Client } from '@neondatabase/serverless';
+import { requireUserApiKey } from '../_auth.js';
+import { buildCalendarFeedEvents, parseFeedCategories, renderIcsCalendar } from '../../services/icsService';
+
+// Feed window: recent past (late items stay visible) and the year ahead
+const MONTHS_BACK = 3;
+const MONTHS_AHEAD = 12;
+
+const toProfile = (row) => {
+  const data = row.profile_data || {};
+  return {
+    id: row.id,
+    name: row.name,
+    managedUserIds: data.managedUserIds || [],
+    fiscalConfig: data.fiscalConfig || {
+      entityType: row.type === 'COMPANY' ? 'JURIDICA' : 'NATURAL',
+      specialRegime: 'NONE',
+      annualRevenue: 0,
+      declaredCapital: 0,
+      hasEmployees: false,
+      itbmsRegistered: false,
+      companyForm: 'SA'
+    }
+  };
+};
+
+export default async function handler(req, res) {
+  // Calendar clients cannot send headers: the personal key comes as ?api_key=
+  const auth = await requireUserApiKey(req, res, { allowQueryKey: true });
+  if (!auth) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+
+    const requesterId = auth.userId;
+    const companyId = req.query.companyId || requesterId;
+
+    const usersRes = await client.query(
+      `SELECT id, name, type, profile_data FROM users WHERE id = ANY($1)`,
+      [[requesterId, companyId]]
+    );
+    const requester = usersRes.rows.find(r => r.id === requesterId);
+    const companyRow = usersRes.rows.find(r => r.id === companyId);
+
+    // Accountants can only subscribe to the companies they manage
+    if (companyId !== requesterId && (!requester || !toProfile(requester).managedUserIds.includes(companyId))) {
+      await client.end();
+      return res.status(403).json({ error: 'Forbidden: company is not managed by this user' });
+    }
+    if (!companyRow) {
+      await client.end();
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS tax_filings (
+        user_id TEXT NOT NULL,
+        form TEXT NOT NULL,
+        period TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'DRAFT',
+        data JSONB,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, form, period)
+      );
+    `);
+
+    const invoicesRes = await client.query(
+      `SELECT * FROM invoices WHERE user_id = $1 OR data->>'userId' = $1`,
+      [companyId]
+    );
+    const filingsRes = await client.query(
+      `SELECT * FROM tax_filings WHERE user_id = $1`,
+      [companyId]
+    );
+
+    await client.end();
+
+    const documents = invoicesRes.rows.map(r => {
+      const doc = { ...(r.data || r), id: r.id };
+      return { ...doc, total: parseFloat(doc.total) || 0, items: doc.items || [] };
+    });
+    const filings = filingsRes.rows.map(r => ({
+      ...(r.data || {}),
+      userId: r.user_id,
+      form: r.form,
+      period: r.period,
+      status: r.status
+    }));
+
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth() - MONTHS_BACK, 1);
+    const to = new Date(now.getFullYear(), now.getMonth() + MONTHS_AHEAD + 1, 0);
+    const company = toProfile(companyRow);
+
+    const events = buildCalendarFeedEvents(company, documents, filings, parseFeedCategories(req.query.categories), from, to, now);
+    const ics = renderIcsCalendar(`KônsulBills · ${company.name}`, events, now);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="konsul-${companyId}.ics"`);
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    return res.status(200).send(ics);
+
+  } catch (error) {
+    console.error("API Calendar Feed Error:", error);
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
@@ -1,5 +1,6 @@
 import { Client } from '@neondatabase/serverless';
 import { validateApiKey } from '../_auth.js';
+import { isItbmsRateCode, DEFAULT_ITBMS_RATE_CODE } from '../../services/itbmsService';
 
 export default async function handler(req, res) {
   const auth = await validateApiKey(req, res);
@@ -25,10 +26,12 @@ export default async function handler(req, res) {
         description TEXT,
         is_recurring BOOLEAN DEFAULT FALSE,
         sku TEXT,
+        tax_rate_code TEXT,
         created_at TIMESTAMP DEFAULT NOW(),
         updated_at TIMESTAMP DEFAULT NOW()
       );
     `);
+    await client.query(`ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS tax_rate_code TEXT;`);
 
     const userId = req.body?.userId || req.query.userId || auth.userId;
 
@@ -55,7 +58,8 @@ export default async function handler(req, res) {
         cost: r.cost ? parseFloat(r.cost) : undefined,
         description: r.description,
         isRecurring: r.is_recurring,
-        sku: r.sku
+        sku: r.sku,
+        taxRateCode: r.tax_rate_code || DEFAULT_ITBMS_RATE_CODE
       }));
 
       return res.status(200).json({ success: true, count: items.length, data: items });
@@ -77,9 +81,15 @@ export default async function handler(req, res) {
       const isRecurring = body.isRecurring || false;
       const sku = body.sku || null;
 
+      if (body.taxRateCode !== undefined && !isItbmsRateCode(body.taxRateCode)) {
+        await client.end();
+        return res.status(400).json({ error: 'Invalid taxRateCode', details: 'Use TASA_7, TASA_10, TASA_15, TASA_0 or EXENTO' });
+      }
+      const taxRateCode = body.taxRateCode || DEFAULT_ITBMS_RATE_CODE;
+
       const upsert = `
-        INSERT INTO catalog_items (id, user_id, name, price, cost, description, is_recurring, sku, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+        INSERT INTO catalog_items (id, user_id, name, price, cost, description, is_recurring, sku, tax_rate_code, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
         ON CONFLICT (id) DO UPDATE SET
           name = EXCLUDED.name,
           price = EXCLUDED.price,
@@ -87,16 +97,17 @@ export default async function handler(req, res) {
           description = EXCLUDED.description,
           is_recurring = EXCLUDED.is_recurring,
           sku = EXCLUDED.sku,
+          tax_rate_code = EXCLUDED.tax_rate_code,
           updated_at = NOW();
       `;
 
-      await client.query(upsert, [id, userId, name, price, cost, description, isRecurring, sku]);
+      await client.query(upsert, [id, userId, name, price, cost, description, isRecurring, sku, taxRateCode]);
       await client.end();
 
       return res.status(201).json({
         success: true,
         message: 'Item de catálogo guardado',
-        data: { id, name, price, cost, description, isRecurring, sku }
+        data: { id, name, price, cost, description, isRecurring, sku, taxRateCode }
       });
     }
 
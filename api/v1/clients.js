@@ -1,5 +1,6 @@
 import { Client } from '@neondatabase/serverless';
 import { validateApiKey } from '../_auth.js';
+import { validateRuc, formatRuc } from '../../services/dgiService';
 
 export default async function handler(req, res) {
   const auth = await validateApiKey(req, res);
@@ -156,6 +157,17 @@ export default async function handler(req, res) {
         return res.status(400).json({ error: 'Client name is required' });
       }
 
+      // RUC is optional, but when present it must parse and carry a matching DV
+      let taxId = body.taxId || body.tax_id || null;
+      if (taxId) {
+        const rucCheck = validateRuc(taxId);
+        if (!rucCheck.valid) {
+          await client.end();
+          return res.status(400).json({ error: 'Invalid taxId (RUC)', details: rucCheck.error, expectedDv: rucCheck.expectedDv });
+        }
+        taxId = formatRuc(rucCheck.parsed);
+      }
+
       const name = body.name;
       const status = (body.status || 'PROSPECT').toUpperCase(); // 'CLIENT' or 'PROSPECT'
       const safeName = name.toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -181,7 +193,7 @@ export default async function handler(req, res) {
         id,
         userId,
         name,
-        body.taxId || body.tax_id || null,
+        taxId,
         body.email || null,
         body.address || null,
         body.phone || null,
@@ -1,5 +1,16 @@
 import { Client } from '@neondatabase/serverless';
 import { validateApiKey } from '../_auth.js';
+import { validateRuc, formatRuc } from '../../services/dgiService';
+import { applyItbmsRate, calculateItbmsBreakdown, isItbmsRateCode, resolveItbmsRateCode } from '../../services/itbmsService';
+import { isNumberedDocumentType } from '../../services/documentNumberingService';
+import { ensureDocumentSequencesTable, allocateDocumentId } from '../../services/documentSequenceStore';
+import { isIssuedDocument, createDocumentVersion, getImmutableViolation } from '../../services/documentVersionService';
+
+// Every document returned by the API carries its per-rate ITBMS subtotals
+const withTaxBreakdown = (doc) => ({
+  ...doc,
+  taxBreakdown: calculateItbmsBreakdown(doc.items || [], doc.discountRate || 0)
+});
 
 export default async function handler(req, res) {
   const auth = await validateApiKey(req, res);
@@ -46,7 +57,7 @@ export default async function handler(req, res) {
         if (rows.length === 0) {
           return res.status(404).json({ error: 'Invoice not found' });
         }
-        return res.status(200).json({ success: true, data: rows[0].data || rows[0] });
+        return res.status(200).json({ success: true, data: withTaxBreakdown(rows[0].data || rows[0]) });
       }
 
       let queryStr = `SELECT * FROM invoices WHERE (user_id = $1 OR data->>'userId' = $1)`;
@@ -85,7 +96,7 @@ export default async function handler(req, res) {
       return res.status(200).json({
         success: true,
         count: items.length,
-        data: items
+        data: items.map(withTaxBreakdown)
       });
     }
 
@@ -187,6 +198,18 @@ export default async function handler(req, res) {
       }
 
       const clientName = body.clientName || body.client_name;
+
+      // Empty RUC = Consumidor Final; otherwise it must be a valid RUC with matching DV
+      let clientTaxId = body.clientTaxId || body.client_tax_id || '';
+      if (clientTaxId) {
+        const rucCheck = validateRuc(clientTaxId);
+        if (!rucCheck.valid) {
+          await client.end();
+          return res.status(400).json({ error: 'Invalid clientTaxId (RUC)', details: rucCheck.error, expectedDv: rucCheck.expectedDv });
+        }
+        clientTaxId = formatRuc(rucCheck.parsed);
+      }
+
       const type = body.type || 'Invoice';
       const docStatus = body.status || 'Creada';
       const currency = body.currency || 'USD';
@@ -201,35 +224,64 @@ export default async function handler(req, res) {
           description: body.concept || body.description || 'Servicio Profesional',
           quantity: 1,
           price: parseFloat(body.total || body.amount),
-          tax: body.tax || 0
+          tax: body.tax || 0,
+          taxRateCode: body.taxRateCode
         }];
       }
 
-      const totalAmount = body.total !== undefined ? parseFloat(body.total) : 
-        items.reduce((acc, i) => acc + ((i.price * i.quantity) + (i.tax || 0)), 0);
-
-      // Auto ID Generation if not provided
+      // ITBMS per line: taxRateCode wins, otherwise `tax` is read as a percentage
+      const invalidRate = items.find(i => i.taxRateCode !== undefined && !isItbmsRateCode(i.taxRateCode));
+      if (invalidRate) {
+        await client.end();
+        return res.status(400).json({ error: 'Invalid taxRateCode', details: 'Use TASA_7, TASA_10, TASA_15, TASA_0 or EXENTO' });
+      }
+      items = items.map((i, idx) => applyItbmsRate({
+        ...i,
+        id: i.id || String(idx + 1),
+        quantity: parseFloat(i.quantity) || 1,
+        price: parseFloat(i.price) || 0
+      }, resolveItbmsRateCode(i)));
+
+      const discountRate = parseFloat(body.discountRate) || 0;
+      const taxBreakdown = calculateItbmsBreakdown(items, discountRate);
+      const totalAmount = body.total !== undefined ? parseFloat(body.total) :
+        Math.round(taxBreakdown.reduce((acc, l) => acc + l.base + l.tax, 0) * 100) / 100;
+
+      // Auto ID Generation if not provided (same counters as the app)
       let id = body.id;
       if (!id) {
-        const prefix = type === 'Invoice' ? 'FAC' : 'COT';
-        const numRes = await client.query(
-          `SELECT COUNT(*) as cnt FROM invoices WHERE type = $1 AND (user_id = $2 OR data->>'userId' = $2)`,
-          [type, userId]
-        );
-        const count = parseInt(numRes.rows[0].cnt || '0', 10) + 1;
-        id = `${prefix}-${String(count).padStart(4, '0')}`;
+        if (!isNumberedDocumentType(type)) {
+          await client.end();
+          return res.status(400).json({ error: 'Missing id', details: 'Automatic numbering is available for Invoice, Quote, CreditNote and DebitNote' });
+        }
+        await ensureDocumentSequencesTable(client);
+        id = await allocateDocumentId(client, userId, type, docDate);
+      } else {
+        // IDs are global: another user's document is never overwritten, nor its status revealed
+        const { rows: existingRows } = await client.query(`SELECT user_id, data FROM invoices WHERE id = $1`, [id]);
+        const existing = existingRows[0];
+        if (existing && (existing.user_id || existing.data?.userId) !== userId) {
+          await client.end();
+          return res.status(409).json({ error: 'Document ID unavailable', details: `El ID ${id} no está disponible; usa otro u omítelo para asignar el siguiente número.` });
+        }
+        // POST replaces the whole document: not allowed once it was issued (use PUT to amend it)
+        if (existing?.data && isIssuedDocument(existing.data)) {
+          await client.end();
+          return res.status(409).json({ error: 'Document already issued', details: `El documento ${id} ya fue emitido; usa PUT para crear una nueva versión.` });
+        }
       }
 
       const invoiceData = {
         id,
         userId,
         clientName,
-        clientTaxId: body.clientTaxId || body.client_tax_id || '',
+        clientTaxId,
         clientEmail: body.clientEmail || body.email || '',
         clientAddress: body.clientAddress || body.address || '',
         date: docDate,
         dueDate: dueDate,
         items,
+        discountRate: discountRate || undefined,
         total: totalAmount,
         currency,
         status: docStatus,
@@ -255,12 +307,18 @@ export default async function handler(req, res) {
         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         ON CONFLICT (id) DO UPDATE SET 
           user_id = EXCLUDED.user_id, client_name = EXCLUDED.client_name, client_tax_id = EXCLUDED.client_tax_id,
-          total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data;
+          total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data
+        WHERE COALESCE(invoices.user_id, invoices.data->>'userId') = EXCLUDED.user_id;
       `;
 
-      await client.query(query, [
+      const saved = await client.query(query, [
         id, userId, clientName, invoiceData.clientTaxId, totalAmount, docStatus, docDate, type, JSON.stringify(invoiceData)
       ]);
+      // Another user created this ID between the check above and the insert
+      if ((saved.rowCount || 0) === 0) {
+        await client.end();
+        return res.status(409).json({ error: 'Document ID unavailable', details: `El ID ${id} no está disponible; usa otro u omítelo para asignar el siguiente número.` });
+      }
 
       // Auto-save Client/Prospect in DB so it shows up in client list
       try {
@@ -306,7 +364,7 @@ export default async function handler(req, res) {
       return res.status(201).json({
         success: true,
         message: `${type === 'Invoice' ? 'Factura' : 'Cotización'} creada exitosamente`,
-        data: invoiceData
+        data: withTaxBreakdown(invoiceData)
       });
     }
 
@@ -320,7 +378,10 @@ export default async function handler(req, res) {
         return res.status(400).json({ error: 'Invoice ID is required' });
       }
 
-      const { rows } = await client.query(`SELECT * FROM invoices WHERE id = $1`, [id]);
+      const { rows } = await client.query(
+        `SELECT * FROM invoices WHERE id = $1 AND (user_id = $2 OR data->>'userId' = $2)`,
+        [id, userId]
+      );
       if (rows.length === 0) {
         await client.end();
         return res.status(404).json({ error: 'Invoice not found' });
@@ -329,12 +390,21 @@ export default async function handler(req, res) {
       const existingData = rows[0].data || {};
       const newStatus = body.status || existingData.status;
 
+      // Version history is managed here, never taken from the request
+      const { version, versions, ...changes } = body;
+      const edited = { ...existingData, ...changes, status: newStatus };
+      // Content edits of an issued document become its next version
+      const amended = isIssuedDocument(existingData) ? createDocumentVersion(existingData, edited) : edited;
+      const violation = getImmutableViolation(existingData, amended);
+      if (violation) {
+        await client.end();
+        return res.status(409).json({ error: 'Document already issued', details: violation });
+      }
+
       const updatedData = {
-        ...existingData,
-        ...body,
-        status: newStatus,
+        ...amended,
         timeline: [
-          ...(existingData.timeline || []),
+          ...(amended.timeline || []),
           {
             id: Date.now().toString(),
             type: 'STATUS_CHANGE',
@@ -345,15 +415,15 @@ export default async function handler(req, res) {
       };
 
       await client.query(
-        `UPDATE invoices SET status = $1, total = $2, data = $3 WHERE id = $4`,
-        [newStatus, updatedData.total, JSON.stringify(updatedData), id]
+        `UPDATE invoices SET status = $1, total = $2, data = $3 WHERE id = $4 AND (user_id = $5 OR data->>'userId' = $5)`,
+        [newStatus, updatedData.total, JSON.stringify(updatedData), id, userId]
       );
 
       await client.end();
       return res.status(200).json({
         success: true,
         message: 'Documento actualizado exitosamente',
-        data: updatedData
+        data: withTaxBreakdown(updatedData)
       });
     }
 
@@ -365,8 +435,11 @@ export default async function handler(req, res) {
         return res.status(400).json({ error: 'Invoice ID is required' });
       }
 
-      await client.query(`DELETE FROM invoices WHERE id = $1`, [id]);
+      const deleted = await client.query(`DELETE FROM invoices WHERE id = $1 AND (user_id = $2 OR data->>'userId' = $2)`, [id, userId]);
       await client.end();
+      if ((deleted.rowCount || 0) === 0) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
       return res.status(200).json({ success: true, message: `Documento ${id} eliminado` });
     }
 
@@ -1,5 +1,6 @@
 import { Client } from '@neondatabase/serverless';
 import { validateApiKey } from '../_auth.js';
+import { ensureDocumentSequencesTable, allocateDocumentId } from '../../services/documentSequenceStore';
 
 export default async function handler(req, res) {
   const auth = await validateApiKey(req, res);
@@ -71,20 +72,16 @@ export default async function handler(req, res) {
       const docType = (data.type || 'Invoice').toLowerCase().includes('quote') || (data.type || '').toLowerCase().includes('cotiz') ? 'Quote' : 'Invoice';
       const concept = data.concept || data.description || 'Servicio prestado';
 
-      const numRes = await client.query(
-        `SELECT COUNT(*) as cnt FROM invoices WHERE type = $1 AND (user_id = $2 OR data->>'userId' = $2)`,
-        [docType, userId]
-      );
-      const count = parseInt(numRes.rows[0].cnt || '0', 10) + 1;
-      const prefix = docType === 'Invoice' ? 'FAC' : 'COT';
-      const id = `${prefix}-${String(count).padStart(4, '0')}`;
+      const docDate = new Date().toISOString();
+      await ensureDocumentSequencesTable(client);
+      const id = await allocateDocumentId(client, userId, docType, docDate);
 
       const invoiceData = {
         id,
         userId,
         clientName,
         clientEmail: data.email || '',
-        date: new Date().toISOString(),
+        date: docDate,
         items: [{ id: '1', description: concept, quantity: 1, price: total, tax: 0 }],
         total,
         currency: data.currency || 'USD',
@@ -0,0 +1,62 @@
+import { Client } from '@neondatabase/serverless';
+import { requireUserApiKey } from '../_auth.js';
+import { ensurePaymentSecretsTable, getPaymentSecretFingerprints, storePaymentSecret } from '../../services/paymentSecretStore';
+
+/**
+ * Payment gateway secrets API (write-only)
+ *
+ * GET  /api/v1/payment-secrets                  -> masked fingerprints per field
+ * POST /api/v1/payment-secrets { field, value } -> stores the key encrypted ('' removes it)
+ *
+ * Fields: stripeSecretKey, stripeWebhookSecret, yappySecretKey, token (PagueloFacil). Keys are never returned.
+ * Only the owner's personal API key is accepted (requireUserApiKey), never a bare x-user-id.
+ */
+export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+
+    if (req.method === 'GET') {
+      const data = await getPaymentSecretFingerprints(client, auth.userId);
+      await client.end();
+      return res.status(200).json({ success: true, data });
+    }
+
+    if (req.method !== 'POST') {
+      await client.end();
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { field, value } = req.body || {};
+    if (!field || typeof value !== 'string') {
+      await client.end();
+      return res.status(400).json({ error: 'Missing required fields (field, value)' });
+    }
+
+    let data;
+    try {
+      data = await storePaymentSecret(client, auth.userId, field, value);
+    } catch (e) {
+      await client.end();
+      return res.status(400).json({ error: e.message });
+    }
+
+    await client.end();
+    return res.status(200).json({ success: true, data });
+
+  } catch (error) {
+    console.error("API Payment Secrets Error:", error);
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
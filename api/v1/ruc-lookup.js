@@ -0,0 +1,90 @@
+import { requireUserApiKey } from '../_auth.js';
+import { parseRuc, calculateDV, validateRuc } from '../../services/dgiService';
+
+/**
+ * RUC Lookup proxy
+ *
+ * GET /api/v1/ruc-lookup?ruc=155698882-2-2021
+ *
+ * Forwards the query to the registry configured in DGI_RUC_LOOKUP_URL
+ * (bearer token in DGI_RUC_LOOKUP_TOKEN) so credentials never reach the browser.
+ * Responds 404 when the registry has no match; never fabricates taxpayers.
+ * The registry is billed per query, so callers need their personal API key.
+ */
+
+const mapRegistryResponse = (raw, parsed) => {
+  const record = raw?.data || raw?.contribuyente || raw;
+  const razonSocial = record?.razonSocial || record?.razon_social || record?.nombre || record?.name;
+  if (!razonSocial) return null;
+
+  const tipo = (record.tipoPersona || record.tipo_persona || '').toString().toUpperCase();
+  const estado = (record.estado || record.status || 'ACTIVO').toString().toUpperCase().replace(/\s+/g, '_');
+
+  return {
+    ruc: parsed.ruc,
+    dv: record.dv || parsed.dv || calculateDV(parsed),
+    razonSocial,
+    tipoPersona: tipo.startsWith('N') ? 'NATURAL' : tipo.startsWith('J') ? 'JURIDICA' : (parsed.kind === 'JURIDICA' ? 'JURIDICA' : 'NATURAL'),
+    direccion: record.direccion || record.address || undefined,
+    estado: ['ACTIVO', 'INACTIVO', 'NO_HABIDO'].includes(estado) ? estado : 'ACTIVO',
+    email: record.email || undefined
+  };
+};
+
+export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const parsed = parseRuc(req.query.ruc || '');
+  if (!parsed) {
+    return res.status(400).json({ error: 'Invalid RUC format' });
+  }
+
+  // A wrong DV can't match any taxpayer: don't spend a registry query on it
+  const check = validateRuc(req.query.ruc);
+  if (!check.valid) {
+    return res.status(400).json({ error: 'Invalid RUC', details: check.error });
+  }
+
+  const registryUrl = process.env.DGI_RUC_LOOKUP_URL;
+  if (!registryUrl) {
+    return res.status(503).json({
+      error: 'RUC lookup not configured',
+      details: 'La consulta de RUC no está configurada en el servidor (DGI_RUC_LOOKUP_URL).'
+    });
+  }
+
+  try {
+    const url = new URL(registryUrl);
+    url.searchParams.set('ruc', parsed.ruc);
+    if (parsed.dv) url.searchParams.set('dv', parsed.dv);
+
+    const headers = { 'Accept': 'application/json' };
+    if (process.env.DGI_RUC_LOOKUP_TOKEN) {
+      headers['Authorization'] = `Bearer ${process.env.DGI_RUC_LOOKUP_TOKEN}`;
+    }
+
+    const upstream = await fetch(url.toString(), { headers });
+
+    if (upstream.status === 404) {
+      return res.status(404).json({ error: 'RUC not found' });
+    }
+    if (!upstream.ok) {
+      return res.status(502).json({ error: 'Registry error', details: `El registro respondió HTTP ${upstream.status}` });
+    }
+
+    const contribuyente = mapRegistryResponse(await upstream.json(), parsed);
+    if (!contribuyente) {
+      return res.status(404).json({ error: 'RUC not found' });
+    }
+
+    return res.status(200).json({ success: true, data: contribuyente, source: 'DGI', fetchedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('RUC Lookup Proxy Error:', error);
+    return res.status(502).json({ error: 'Registry unreachable', details: error.message });
+  }
+}
@@ -0,0 +1,189 @@
+import { Client } from '@neondatabase/serverless';
+import { requireUserApiKey } from '../_auth.js';
+import { encryptSecret, decryptSecret } from '../../services/secretVault';
+import {
+  parsePkcs12,
+  validateCertificate,
+  signXmlEnveloped,
+  verifyXmlSignature
+} from '../../services/xmlSignatureService';
+
+/**
+ * Fiscal XML signing API
+ *
+ * GET    /api/v1/signature                      -> certificate metadata (never key material)
+ * POST   /api/v1/signature { action: 'upload', p12Base64, password }
+ * POST   /api/v1/signature { action: 'sign', xml }
+ * POST   /api/v1/signature { action: 'verify', xml }
+ * DELETE /api/v1/signature                      -> removes the stored certificate
+ *
+ * Trusted CAs come only from FE_TRUSTED_CA_PEM (one or more PEM blocks), never from the request:
+ * a caller-supplied CA would let a self-made chain verify as valid.
+ * Requires the owner's personal API key (requireUserApiKey): the certificate signs in their name.
+ */
+
+const getTrustedCas = () => {
+  const source = process.env.FE_TRUSTED_CA_PEM || '';
+  return source.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) || [];
+};
+
+const toInfo = (row) => ({
+  subject: row.subject,
+  issuer: row.issuer,
+  serialNumber: row.serial_number,
+  validFrom: row.valid_from,
+  validTo: row.valid_to,
+  fingerprint: row.fingerprint,
+  uploadedAt: row.uploaded_at
+});
+
+export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+
+  try {
+    await client.connect();
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS fiscal_certificates (
+        user_id TEXT PRIMARY KEY,
+        encrypted_p12 TEXT NOT NULL,
+        encrypted_password TEXT NOT NULL,
+        subject TEXT,
+        issuer TEXT,
+        serial_number TEXT,
+        valid_from TEXT,
+        valid_to TEXT,
+        fingerprint TEXT,
+        uploaded_at TEXT
+      );
+    `);
+
+    const userId = auth.userId;
+    const { rows } = await client.query(`SELECT * FROM fiscal_certificates WHERE user_id = $1`, [userId]);
+    const stored = rows[0];
+
+    // --- GET: metadata only ---
+    if (req.method === 'GET') {
+      await client.end();
+      return res.status(200).json({ success: true, data: stored ? toInfo(stored) : null });
+    }
+
+    // --- DELETE ---
+    if (req.method === 'DELETE') {
+      await client.query(`DELETE FROM fiscal_certificates WHERE user_id = $1`, [userId]);
+      await client.end();
+      return res.status(200).json({ success: true });
+    }
+
+    if (req.method !== 'POST') {
+      await client.end();
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { action } = req.body || {};
+
+    // --- UPLOAD ---
+    if (action === 'upload') {
+      const { p12Base64, password } = req.body;
+      if (!p12Base64 || password === undefined) {
+        await client.end();
+        return res.status(400).json({ error: 'Missing required fields (p12Base64, password)' });
+      }
+
+      let parsed;
+      try {
+        parsed = parsePkcs12(p12Base64, password);
+      } catch (e) {
+        await client.end();
+        return res.status(400).json({ error: e.message });
+      }
+
+      const certErrors = validateCertificate(parsed.certificatePem, getTrustedCas());
+      if (certErrors.length > 0) {
+        await client.end();
+        return res.status(400).json({ error: 'Certificado rechazado', details: certErrors });
+      }
+
+      const info = parsed.info;
+      await client.query(`
+        INSERT INTO fiscal_certificates (user_id, encrypted_p12, encrypted_password, subject, issuer, serial_number, valid_from, valid_to, fingerprint, uploaded_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (user_id) DO UPDATE SET
+          encrypted_p12 = EXCLUDED.encrypted_p12,
+          encrypted_password = EXCLUDED.encrypted_password,
+          subject = EXCLUDED.subject,
+          issuer = EXCLUDED.issuer,
+          serial_number = EXCLUDED.serial_number,
+          valid_from = EXCLUDED.valid_from,
+          valid_to = EXCLUDED.valid_to,
+          fingerprint = EXCLUDED.fingerprint,
+          uploaded_at = EXCLUDED.uploaded_at
+      `, [
+        userId,
+        encryptSecret(p12Base64),
+        encryptSecret(password),
+        info.subject,
+        info.issuer,
+        info.serialNumber,
+        info.validFrom,
+        info.validTo,
+        info.fingerprint,
+        info.uploadedAt
+      ]);
+
+      await client.end();
+      return res.status(200).json({ success: true, data: info });
+    }
+
+    // --- SIGN ---
+    if (action === 'sign') {
+      const { xml } = req.body;
+      if (!xml) {
+        await client.end();
+        return res.status(400).json({ error: 'Missing required field (xml)' });
+      }
+      if (!stored) {
+        await client.end();
+        return res.status(404).json({ error: 'No hay certificado de firma cargado para este usuario.' });
+      }
+
+      await client.end();
+
+      const parsed = parsePkcs12(decryptSecret(stored.encrypted_p12), decryptSecret(stored.encrypted_password));
+      const certErrors = validateCertificate(parsed.certificatePem);
+      if (certErrors.length > 0) {
+        return res.status(400).json({ error: 'Certificado no válido para firmar', details: certErrors });
+      }
+
+      const signedXml = signXmlEnveloped(xml, parsed.privateKeyPem, parsed.certificatePem);
+      return res.status(200).json({ success: true, data: { signedXml, certificate: parsed.info } });
+    }
+
+    // --- VERIFY ---
+    if (action === 'verify') {
+      const { xml } = req.body;
+      await client.end();
+      if (!xml) {
+        return res.status(400).json({ error: 'Missing required field (xml)' });
+      }
+      const result = verifyXmlSignature(xml, getTrustedCas());
+      return res.status(200).json({ success: true, data: result });
+    }
+
+    await client.end();
+    return res.status(400).json({ error: `Unknown action: ${action}` });
+
+  } catch (error) {
+    console.error('Signature API Error:', error);
+    try { await client.end(); } catch (e) { }
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
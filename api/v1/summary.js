@@ -1,5 +1,8 @@
 import { Client } from '@neondatabase/serverless';
 import { validateApiKey } from '../_auth.js';
+import { getOpenBalance } from '../../services/creditNoteService';
+import { getCollectedTotals, getInvoiceCredit } from '../../services/clientCreditService';
+import { isPendingRecurringExpense } from '../../services/recurringExpenseService';
 
 export default async function handler(req, res) {
   const auth = await validateApiKey(req, res);
@@ -32,23 +35,37 @@ export default async function handler(req, res) {
 
     await client.end();
 
-    const docs = invoicesRes.rows.map(r => r.data || r);
+    const docs = invoicesRes.rows.map(r => {
+      const doc = { ...(r.data || r), id: r.id };
+      return { ...doc, total: parseFloat(doc.total) || 0 };
+    });
 
     const invoices = docs.filter(d => d.type === 'Invoice');
     const quotes = docs.filter(d => d.type === 'Quote');
-    const expenses = docs.filter(d => d.type === 'Expense');
+    // Pending recurring expenses are projections, not spending
+    const expenses = docs.filter(d => d.type === 'Expense' && !isPendingRecurringExpense(d));
+    const creditNotes = docs.filter(d => d.type === 'CreditNote' && d.status !== 'Borrador' && d.status !== 'Rechazada');
+    const debitNotes = docs.filter(d => d.type === 'DebitNote' && d.status !== 'Borrador' && d.status !== 'Rechazada');
+
+    const totalCredited = creditNotes.reduce((acc, n) => acc + (parseFloat(n.total) || 0), 0);
+    const totalDebited = debitNotes.reduce((acc, n) => acc + (parseFloat(n.total) || 0), 0);
 
+    // Net of credit/debit notes
     const totalInvoiced = invoices
       .filter(i => i.status !== 'Borrador' && i.status !== 'Rechazada')
-      .reduce((acc, i) => acc + (parseFloat(i.total) || 0), 0);
+      .reduce((acc, i) => acc + (parseFloat(i.total) || 0), 0) + totalDebited - totalCredited;
+
+    // Cash received net of refunds (negative payment records)
+    const { collected: totalCollected, refunded: totalRefunded } = getCollectedTotals(invoices);
+    const totalPaid = totalCollected - totalRefunded;
 
-    const totalPaid = invoices
-      .filter(i => i.status === 'Pagada' || i.status === 'Aceptada')
-      .reduce((acc, i) => acc + (parseFloat(i.total) || 0), 0);
+    // Overpayments still owed to clients (saldo a favor)
+    const totalClientCredit = invoices.reduce((acc, i) => acc + getInvoiceCredit(i, docs), 0);
 
+    // Open balance: total + debit notes - credit notes - payments
     const totalPending = invoices
       .filter(i => ['Creada', 'Enviada', 'Seguimiento', 'Abonada'].includes(i.status))
-      .reduce((acc, i) => acc + (parseFloat(i.total) || 0), 0);
+      .reduce((acc, i) => acc + getOpenBalance(i, docs), 0);
 
     const totalQuoted = quotes
       .filter(q => q.status !== 'Rechazada')
@@ -62,13 +79,20 @@ export default async function handler(req, res) {
       summary: {
         totalInvoiced,
         totalPaid,
+        totalCollected,
+        totalRefunded,
+        totalClientCredit,
         totalPending,
+        totalCredited,
+        totalDebited,
         totalQuoted,
         totalExpenses,
         netBalance: totalPaid - totalExpenses,
         counts: {
           invoicesCount: invoices.length,
           quotesCount: quotes.length,
+          creditNotesCount: creditNotes.length,
+          debitNotesCount: debitNotes.length,
           expensesCount: expenses.length,
           clientsCount: parseInt(clientsRes.rows[0]?.cnt || '0', 10),
           prospectsCount: parseInt(prospectsRes.rows[0]?.cnt || '0', 10)
@@ -0,0 +1,160 @@
+import { Client } from '@neondatabase/serverless';
+import {
+  HANDLED_STRIPE_EVENTS, verifyStripeSignature, parseStripePayment, parseStripeRefund,
+  reconcileStripePayment, reconcileStripeRefund
+} from '../../services/stripeWebhookService';
+import { ensurePaymentSecretsTable, getPaymentSecret } from '../../services/paymentSecretStore';
+import { ensureDocumentSequencesTable, allocateDocumentId } from '../../services/documentSequenceStore';
+
+/**
+ * Stripe webhook receiver: POST /api/webhooks/stripe?userId=<konsul user id>
+ * Configure it in Stripe Dashboard > Developers > Webhooks of the user's own account and
+ * save the signing secret (whsec_...) in the user's payment settings (encrypted server-side).
+ * Idempotent on event id: redeliveries are acknowledged without reprocessing.
+ */
+
+// Signature verification needs the exact raw body
+export const config = { api: { bodyParser: false } };
+
+const readRawBody = async (req) => {
+  if (typeof req.body === 'string') return req.body;
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const saveDocument = async (client, invoice) => {
+  await client.query(`
+    INSERT INTO invoices (id, user_id, client_name, client_tax_id, total, status, date, type, data)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (id) DO UPDATE SET
+      user_id = EXCLUDED.user_id, client_name = EXCLUDED.client_name, client_tax_id = EXCLUDED.client_tax_id,
+      total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data;
+  `, [invoice.id, invoice.userId, invoice.clientName, invoice.clientTaxId, invoice.total, invoice.status, invoice.date, invoice.type, JSON.stringify(invoice)]);
+};
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.query.userId;
+  if (!userId) {
+    return res.status(400).json({ error: 'Missing userId parameter' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const payload = await readRawBody(req);
+  const client = new Client(dbUrl);
+  let eventId = null;
+  let locked = false;
+
+  try {
+    await client.connect();
+
+    await ensurePaymentSecretsTable(client);
+    const secret = await getPaymentSecret(client, userId, 'stripeWebhookSecret');
+
+    if (!secret || !verifyStripeSignature(payload, req.headers['stripe-signature'], secret)) {
+      await client.end();
+      return res.status(400).json({ error: 'Invalid Stripe signature' });
+    }
+
+    const event = JSON.parse(payload);
+    if (!HANDLED_STRIPE_EVENTS.includes(event.type)) {
+      await client.end();
+      return res.status(200).json({ received: true, ignored: true });
+    }
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+        event_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    const claim = await client.query(`
+      INSERT INTO stripe_webhook_events (event_id, user_id, type)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (event_id) DO NOTHING
+      RETURNING event_id;
+    `, [event.id, userId, event.type]);
+
+    if (claim.rows.length === 0) {
+      await client.end();
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+    eventId = event.id;
+
+    // Stripe delivers related events (session + PaymentIntent) in parallel: one at a time per user
+    await client.query(`SELECT pg_advisory_lock(hashtext($1))`, [`stripe-webhook:${userId}`]);
+    locked = true;
+
+    const invoicesRes = await client.query(
+      `SELECT * FROM invoices WHERE user_id = $1 OR data->>'userId' = $1`,
+      [userId]
+    );
+    const documents = invoicesRes.rows.map(r => {
+      const doc = { ...(r.data || r), id: r.id };
+      return { ...doc, total: parseFloat(doc.total) || 0, items: doc.items || [] };
+    });
+
+    let result = { kind: 'UNMATCHED' };
+    const payment = parseStripePayment(event);
+    const refund = parseStripeRefund(event);
+
+    if (payment) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS clients (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL);
+        ALTER TABLE clients ADD COLUMN IF NOT EXISTS tax_id TEXT;
+        ALTER TABLE clients ADD COLUMN IF NOT EXISTS email TEXT;
+        ALTER TABLE clients ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+      `);
+      const clientsRes = await client.query(
+        `SELECT id, name, tax_id, email, stripe_customer_id FROM clients WHERE user_id = $1 AND stripe_customer_id IS NOT NULL`,
+        [userId]
+      );
+      const clients = clientsRes.rows.map(r => ({
+        id: r.id,
+        name: r.name,
+        taxId: r.tax_id,
+        email: r.email,
+        stripeCustomerId: r.stripe_customer_id
+      }));
+      await ensureDocumentSequencesTable(client);
+      result = await reconcileStripePayment(payment, documents, clients, { id: userId },
+        (ownerId, type, date) => allocateDocumentId(client, ownerId, type, date));
+    } else if (refund) {
+      result = reconcileStripeRefund(refund, documents);
+    }
+
+    if (result.invoice) {
+      await saveDocument(client, { ...result.invoice, userId });
+    }
+    for (const doc of result.credited || []) {
+      await saveDocument(client, { ...doc, userId });
+    }
+
+    await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [`stripe-webhook:${userId}`]);
+    await client.end();
+    return res.status(200).json({ received: true, result: result.kind, invoiceId: result.invoice?.id || null });
+
+  } catch (error) {
+    console.error("API Stripe Webhook Error:", error);
+    // Let Stripe retry: forget the event so the redelivery is processed
+    try {
+      if (eventId) await client.query(`DELETE FROM stripe_webhook_events WHERE event_id = $1`, [eventId]);
+      if (locked) await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [`stripe-webhook:${userId}`]);
+    } catch (e) {}
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
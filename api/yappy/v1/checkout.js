@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { getYappyConfigByApiKey } from '../../../services/neon';
+import { getYappyCredentialsByApiKey } from '../../../services/paymentSecretStore';
 
 /**
  * Yappy V2 Checkout API
@@ -17,10 +17,10 @@ export default async function handler(req, res) {
   }
 
   try {
-    // 1. Fetch the full config from DB safely
-    const config = await getYappyConfigByApiKey(apiKey);
+    // 1. Fetch the merchant secret from the encrypted store
+    const credentials = await getYappyCredentialsByApiKey(apiKey);
     
-    if (!config || !config.yappySecretKey) {
+    if (!credentials) {
       return res.status(404).json({ 
         error: 'Yappy configuration not found',
         details: 'No se encontró una configuración válida para este API Key.' 
@@ -55,7 +55,7 @@ export default async function handler(req, res) {
     // 3. STEP 2: Generate Order Hash
     // Hash: SHA256(merchantId + orderId + total + secretKey)
     const amountStr = Number(total).toFixed(2);
-    const hashData = apiKey + orderId + amountStr + config.yappySecretKey;
+    const hashData = apiKey + orderId + amountStr + credentials.secretKey;
     const hash = crypto.createHash('sha256').update(hashData).digest('hex');
 
     // 4. STEP 3: Create Payment Order (Web Component Handshake)
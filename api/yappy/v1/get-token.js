@@ -1,32 +1,73 @@
+import crypto from 'crypto';
+import { Client } from '@neondatabase/serverless';
+import { requireUserApiKey } from '../../_auth.js';
+import { ensurePaymentSecretsTable, getPaymentSecret } from '../../../services/paymentSecretStore';
+import { splitYappySecret, generateYappyOrderId, ensureYappyOrdersTable, createYappyOrder } from '../../../services/yappyIpnService';
 
 /**
- * Stateless Yappy JWT Proxy to bypass CORS (V1 Endpoint)
- * Correctly splits the secretKey into HMAC and API parts.
+ * Yappy JWT Proxy to bypass CORS (V1 Endpoint)
+ * The secretKey is read from the encrypted store of the caller, authenticated with their own
+ * API key (requireUserApiKey), and split into its HMAC (part 0) and API (part 1) halves. With
+ * `order`, it also registers the order for the IPN (api/yappy/v1/ipn.js) and returns its id and
+ * checkout signature, so the HMAC secret never reaches the browser.
  */
+
+const formatAmount = (amount) => Number(amount).toFixed(2).replace(/\./g, '');
+
+// total + merchantId + subtotal + taxes + paymentDate + YAP + VEN + orderId + successUrl + failUrl + domainUrl
+const signOrder = (hmacSecret, apiKey, domain, orderId, order) => {
+  const signatureString = [
+    formatAmount(order.amount),
+    apiKey,
+    formatAmount(order.amount),
+    '000',
+    order.paymentDate,
+    'YAP',
+    'VEN',
+    orderId,
+    order.successUrl,
+    order.failUrl,
+    domain
+  ].join('');
+  return crypto.createHmac('sha256', hmacSecret).update(signatureString).digest('hex');
+};
+
 export default async function handler(req, res) {
+  const auth = await requireUserApiKey(req, res);
+  if (!auth) return;
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { apiKey, secretKey, domain } = req.body;
+  const { apiKey, domain, order } = req.body;
 
-  if (!apiKey || !secretKey) {
-    return res.status(400).json({ error: 'Missing apiKey or secretKey' });
+  if (!apiKey) {
+    return res.status(400).json({ error: 'Missing apiKey' });
   }
+  if (order && (!order.invoiceId || !(Number(order.amount) > 0) || !domain)) {
+    return res.status(400).json({ error: 'Missing order fields (invoiceId, amount, domain)' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
 
   try {
-    // DERIVE API KEY: Base64 decode and take the SECOND part (index 1)
-    let derivedApiKey = secretKey;
-    try {
-      const decoded = Buffer.from(secretKey, 'base64').toString('utf8');
-      const parts = decoded.split('.');
-      if (parts.length >= 2) {
-        derivedApiKey = parts[1]; // Index 1 is the API Key for the header
-      }
-    } catch (e) {
-      console.warn('Secret decoding failed, using raw key for header:', e);
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+
+    const secretKey = await getPaymentSecret(client, auth.userId, 'yappySecretKey');
+    if (!secretKey) {
+      await client.end();
+      return res.status(400).json({ error: 'Yappy no está configurado para este usuario.' });
     }
 
+    const { hmacSecret, derivedApiKey } = splitYappySecret(secretKey);
+
     const jwtRes = await fetch('https://pagosbg.bgeneral.com/validateapikeymerchand', {
       method: 'POST',
       headers: {
@@ -37,16 +78,34 @@ export default async function handler(req, res) {
 
     const jwtData = await jwtRes.json();
     if (!jwtRes.ok) {
-        return res.status(jwtRes.status).json({ 
-            error: 'BGeneral Handshake Failed', 
-            details: jwtData,
-            usedApiKey: derivedApiKey
+        await client.end();
+        return res.status(jwtRes.status).json({
+            error: 'BGeneral Handshake Failed',
+            details: jwtData
         });
     }
 
-    return res.status(200).json(jwtData);
+    if (!order) {
+      await client.end();
+      return res.status(200).json(jwtData);
+    }
+
+    const orderId = generateYappyOrderId();
+    await ensureYappyOrdersTable(client);
+    await createYappyOrder(client, {
+      orderId,
+      userId: auth.userId,
+      invoiceId: order.invoiceId,
+      amount: Math.round(Number(order.amount) * 100) / 100,
+      currency: order.currency || 'USD',
+      domain
+    });
+    await client.end();
+
+    return res.status(200).json({ ...jwtData, orderId, hash: signOrder(hmacSecret, apiKey, domain, orderId, order) });
   } catch (error) {
     console.error('Yappy Proxy Error:', error);
+    try { await client.end(); } catch (e) {}
     return res.status(500).json({ error: 'Internal Server Error', message: error.message });
   }
 }
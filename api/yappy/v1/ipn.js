@@ -0,0 +1,112 @@
+import { Client } from '@neondatabase/serverless';
+import { ensurePaymentSecretsTable, getPaymentSecret } from '../../../services/paymentSecretStore';
+import {
+  verifyYappyIpn, applyYappyPayment, ensureYappyOrdersTable, getYappyOrder, claimYappyOrder, releaseYappyOrder,
+  YAPPY_IPN_STATUS_LABELS
+} from '../../../services/yappyIpnService';
+
+/**
+ * Yappy payment confirmation (IPN): GET /api/yappy/v1/ipn?orderId&status&domain&hash&confirmationNumber
+ * Configure this URL as the IPN of the Botón de Pago in Yappy Comercial.
+ * The hash is verified with the merchant's stored secret key; status E settles the invoice.
+ * Local testing: simulateYappyIpn() in services/yappyIpnService.ts builds a signed query.
+ */
+
+const saveDocument = async (client, invoice) => {
+  await client.query(`
+    INSERT INTO invoices (id, user_id, client_name, client_tax_id, total, status, date, type, data)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (id) DO UPDATE SET
+      user_id = EXCLUDED.user_id, client_name = EXCLUDED.client_name, client_tax_id = EXCLUDED.client_tax_id,
+      total = EXCLUDED.total, status = EXCLUDED.status, date = EXCLUDED.date, data = EXCLUDED.data;
+  `, [invoice.id, invoice.userId, invoice.clientName, invoice.clientTaxId, invoice.total, invoice.status, invoice.date, invoice.type, JSON.stringify(invoice)]);
+};
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { orderId, status, domain, hash, confirmationNumber } = req.query;
+  if (!orderId || !status || !domain || !hash) {
+    return res.status(400).json({ error: 'Missing required fields (orderId, status, domain, hash)' });
+  }
+
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) {
+    return res.status(500).json({ error: 'Database connection string (DATABASE_URL) missing' });
+  }
+
+  const client = new Client(dbUrl);
+  let claimed = false;
+  let lockKey = null;
+
+  try {
+    await client.connect();
+    await ensureYappyOrdersTable(client);
+    await ensurePaymentSecretsTable(client);
+
+    const order = await getYappyOrder(client, orderId);
+    if (!order) {
+      await client.end();
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const secretKey = await getPaymentSecret(client, order.userId, 'yappySecretKey');
+    const params = { orderId, status, domain, hash, confirmationNumber };
+    if (!secretKey || domain !== order.domain || !verifyYappyIpn(secretKey, params)) {
+      await client.end();
+      return res.status(401).json({ error: 'Invalid Yappy signature' });
+    }
+
+    // Replay protection: an order leaves PENDING exactly once
+    claimed = await claimYappyOrder(client, orderId, status, confirmationNumber);
+    if (!claimed) {
+      await client.end();
+      return res.status(200).json({ success: true, duplicate: true });
+    }
+
+    if (status !== 'E') {
+      await client.end();
+      return res.status(200).json({ success: true, status: YAPPY_IPN_STATUS_LABELS[status] || status });
+    }
+
+    // Same lock as the Stripe webhook: payments for one user are applied one at a time
+    await client.query(`SELECT pg_advisory_lock(hashtext($1))`, [`stripe-webhook:${order.userId}`]);
+    lockKey = `stripe-webhook:${order.userId}`;
+
+    const invoicesRes = await client.query(
+      `SELECT * FROM invoices WHERE user_id = $1 OR data->>'userId' = $1`,
+      [order.userId]
+    );
+    const documents = invoicesRes.rows.map(r => {
+      const doc = { ...(r.data || r), id: r.id };
+      return { ...doc, total: parseFloat(doc.total) || 0, items: doc.items || [] };
+    });
+    const invoice = documents.find(d => d.id === order.invoiceId);
+    if (!invoice) {
+      // Keep the confirmation: the payment happened even if the invoice was deleted
+      console.error(`Yappy IPN: invoice ${order.invoiceId} not found for order ${orderId}`);
+      await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lockKey]);
+      await client.end();
+      return res.status(200).json({ success: true, invoiceId: null });
+    }
+
+    const updated = applyYappyPayment(invoice, documents, order, confirmationNumber);
+    if (updated) {
+      await saveDocument(client, { ...updated, userId: order.userId });
+    }
+
+    await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lockKey]);
+    await client.end();
+    return res.status(200).json({ success: true, invoiceId: invoice.id, status: updated?.status || invoice.status });
+
+  } catch (error) {
+    console.error("API Yappy IPN Error:", error);
+    // Let Yappy retry the notification
+    try { if (lockKey) await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lockKey]); } catch (e) {}
+    try { if (claimed) await releaseYappyOrder(client, orderId); } catch (e) {}
+    try { await client.end(); } catch (e) {}
+    return res.status(500).json({ error: 'Internal Server Error', details: error.message });
+  }
+}
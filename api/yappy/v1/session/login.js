@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { getYappySecretByApiKey } from '../../../services/neon';
+import { getYappyCredentialsByApiKey } from '../../../services/paymentSecretStore';
 
 /**
  * Yappy Conector: Login Endpoint
@@ -17,9 +17,9 @@ export default async function handler(req, res) {
   }
 
   // Fetch the secret key from DB based on apiKey
-  const secretKey = await getYappySecretByApiKey(apiKey);
+  const credentials = await getYappyCredentialsByApiKey(apiKey);
   
-  if (!secretKey) {
+  if (!credentials) {
     return res.status(401).json({ 
       error: 'Invalid API Key',
       details: 'No se encontró una configuración de Yappy válida para este apiKey.' 
@@ -29,7 +29,7 @@ export default async function handler(req, res) {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
   
   const expectedHash = crypto
-    .createHmac('sha256', secretKey)
+    .createHmac('sha256', credentials.secretKey)
     .update(apiKey + today)
     .digest('hex');
 
@@ -13,6 +13,8 @@ interface AccountantDashboardProps {
     onViewCalculator: (type: 'INTEREST' | 'SANCTION') => void;
     onViewTasks: () => void;
     onViewCalendar: () => void;
+    onViewItbmsReturn: () => void;
+    onViewDgiReports: () => void;
 }
 
 const AccountantDashboard: React.FC<AccountantDashboardProps> = ({
@@ -21,7 +23,9 @@ const AccountantDashboard: React.FC<AccountantDashboardProps> = ({
     onSelectCompany,
     onViewCalculator,
     onViewTasks,
-    onViewCalendar
+    onViewCalendar,
+    onViewItbmsReturn,
+    onViewDgiReports
 }) => {
     const [searchTerm, setSearchTerm] = useState('');
 
@@ -176,6 +180,28 @@ const AccountantDashboard: React.FC<AccountantDashboardProps> = ({
                                 </div>
                                 <ArrowRight className="w-4 h-4 text-slate-500 group-hover:translate-x-1 transition-transform" />
                             </button>
+
+                            <button
+                                onClick={onViewItbmsReturn}
+                                className="w-full p-4 bg-white/5 border border-white/10 rounded-2xl flex items-center justify-between hover:bg-white/10 transition-colors group text-left"
+                            >
+                                <div>
+                                    <p className="font-bold text-sm">Declaración ITBMS</p>
+                                    <p className="text-[10px] text-slate-400 uppercase tracking-wider">Formulario 430 mensual</p>
+                                </div>
+                                <ArrowRight className="w-4 h-4 text-slate-500 group-hover:translate-x-1 transition-transform" />
+                            </button>
+
+                            <button
+                                onClick={onViewDgiReports}
+                                className="w-full p-4 bg-white/5 border border-white/10 rounded-2xl flex items-center justify-between hover:bg-white/10 transition-colors group text-left"
+                            >
+                                <div>
+                                    <p className="font-bold text-sm">Informes de Compras y Ventas</p>
+                                    <p className="text-[10px] text-slate-400 uppercase tracking-wider">F94 / F43 · TXT e-Tax</p>
+                                </div>
+                                <ArrowRight className="w-4 h-4 text-slate-500 group-hover:translate-x-1 transition-transform" />
+                            </button>
                         </div>
                     </div>
 
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+    Landmark, Upload, Loader2, CheckCircle2, Inbox, EyeOff, RotateCcw,
+    ArrowDownLeft, ArrowUpRight, Link2, FileText
+} from 'lucide-react';
+import { BankTransaction, BankTransactionStatus, Invoice, UserProfile } from '../types';
+import { fetchBankTransactionsFromDb, importBankTransactionsToDb, updateBankTransactionInDb } from '../services/neon';
+import {
+    parseBankStatement, filterNewBankTransactions, suggestBankMatches, getMatchCandidates,
+    getDocumentOpenAmount, applyBankMatch, BANK_STATEMENT_FORMAT_LABELS
+} from '../services/bankStatementService';
+import { useAlert } from './AlertSystem';
+
+interface BankReconciliationProps {
+    currentUser: UserProfile;
+    documents: Invoice[];
+    onUpdateDocument: (doc: Invoice) => void;
+    onSelectDocument?: (doc: Invoice) => void;
+}
+
+const TABS: { status: BankTransactionStatus; label: string; icon: React.ReactNode }[] = [
+    { status: 'UNMATCHED', label: 'Por conciliar', icon: <Inbox className="w-4 h-4" /> },
+    { status: 'MATCHED', label: 'Conciliados', icon: <CheckCircle2 className="w-4 h-4" /> },
+    { status: 'IGNORED', label: 'Ignorados', icon: <EyeOff className="w-4 h-4" /> }
+];
+
+const formatMoney = (amount: number, currency: string) => `${currency} ${Math.abs(amount).toFixed(2)}`;
+
+const BankReconciliation: React.FC<BankReconciliationProps> = ({
+    currentUser,
+    documents,
+    onUpdateDocument,
+    onSelectDocument
+}) => {
+    const alert = useAlert();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+    const [activeTab, setActiveTab] = useState<BankTransactionStatus>('UNMATCHED');
+    const [manualSelection, setManualSelection] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [isImporting, setIsImporting] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setIsLoading(true);
+            const saved = await fetchBankTransactionsFromDb(currentUser.id);
+            if (cancelled) return;
+            setTransactions(saved);
+            setIsLoading(false);
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [currentUser.id]);
+
+    const visible = useMemo(() => transactions
+        .filter(t => t.status === activeTab)
+        .sort((a, b) => b.date.localeCompare(a.date)),
+        [transactions, activeTab]);
+
+    const counts = useMemo(() => transactions.reduce((acc, t) => {
+        acc[t.status] = (acc[t.status] || 0) + 1;
+        return acc;
+    }, {} as Record<BankTransactionStatus, number>), [transactions]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsImporting(true);
+        try {
+            const content = await file.text();
+            const parsed = parseBankStatement(content, file.name, currentUser.id, currentUser.defaultCurrency || 'USD');
+            if (parsed.length === 0) {
+                alert.addToast('error', 'Sin movimientos', 'No se reconocieron movimientos en el archivo (CSV, OFX o CAMT.053).');
+                return;
+            }
+            const fresh = filterNewBankTransactions(transactions, parsed);
+            const inserted = fresh.length > 0 ? await importBankTransactionsToDb(fresh) : [];
+            if (!inserted) {
+                alert.addToast('error', 'Error al importar', 'No se pudieron guardar los movimientos. Intenta de nuevo.');
+                return;
+            }
+            setTransactions(prev => [...inserted, ...prev]);
+            setActiveTab('UNMATCHED');
+            const skipped = parsed.length - inserted.length;
+            alert.addToast(
+                'success',
+                `${inserted.length} movimientos importados`,
+                `${BANK_STATEMENT_FORMAT_LABELS[parsed[0].source]}${skipped > 0 ? ` · ${skipped} ya estaban importados` : ''}`
+            );
+        } catch (error) {
+            console.error("Bank statement import failed:", error);
+            alert.addToast('error', 'Error al importar', 'El archivo no se pudo leer.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const setTransactionStatus = async (tx: BankTransaction, status: BankTransactionStatus, matchedDocumentId?: string) => {
+        const next: BankTransaction = { ...tx, status, matchedDocumentId };
+        const ok = await updateBankTransactionInDb(next);
+        if (!ok) {
+            alert.addToast('error', 'No se pudo actualizar el movimiento');
+            return false;
+        }
+        setTransactions(prev => prev.map(t => t.id === tx.id ? next : t));
+        return true;
+    };
+
+    // The payment is written first: if marking the line fails, accepting again won't duplicate it
+    const handleAccept = async (tx: BankTransaction, documentId: string) => {
+        const doc = documents.find(d => d.id === documentId);
+        if (!doc) return;
+        setBusyId(tx.id);
+        const updated = applyBankMatch(tx, doc, documents);
+        if (updated) onUpdateDocument(updated);
+        if (await setTransactionStatus(tx, 'MATCHED', documentId)) {
+            alert.addToast('success', 'Movimiento conciliado', `${formatMoney(tx.amount, tx.currency)} aplicado a ${doc.id}`);
+        }
+        setBusyId(null);
+    };
+
+    const handleStatus = async (tx: BankTransaction, status: BankTransactionStatus) => {
+        setBusyId(tx.id);
+        await setTransactionStatus(tx, status);
+        setBusyId(null);
+    };
+
+    const renderUnmatchedActions = (tx: BankTransaction) => {
+        const suggestions = suggestBankMatches(tx, documents);
+        const candidates = getMatchCandidates(tx, documents);
+        const selected = manualSelection[tx.id] || '';
+        const isBusy = busyId === tx.id;
+
+        return (
+            <div className="mt-4 space-y-3">
+                {suggestions.length > 0 ? suggestions.map(s => {
+                    const doc = documents.find(d => d.id === s.documentId)!;
+                    return (
+                        <div key={s.documentId} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 bg-slate-50 rounded-xl">
+                            <div className="min-w-0">
+                                <p className="text-sm font-bold text-[#1c2938] truncate">
+                                    {doc.clientName} <span className="text-slate-400 font-mono text-xs">#{doc.id}</span>
+                                </p>
+                                <p className="text-xs text-slate-500">
+                                    Pendiente {formatMoney(getDocumentOpenAmount(doc, documents), doc.currency)} · {s.reasons.join(' · ')}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-3 flex-shrink-0">
+                                <span className={`text-xs font-bold px-2 py-1 rounded-lg ${s.score >= 80 ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                                    {s.score}%
+                                </span>
+                                <button
+                                    onClick={() => handleAccept(tx, s.documentId)}
+                                    disabled={isBusy}
+                                    className="px-4 py-2 bg-[#27bea5] text-white rounded-xl text-xs font-bold hover:bg-[#22a890] disabled:opacity-50 flex items-center gap-1"
+                                >
+                                    <CheckCircle2 className="w-3 h-3" /> Aceptar
+                                </button>
+                            </div>
+                        </div>
+                    );
+                }) : (
+                    <p className="text-xs text-slate-400">Sin sugerencias automáticas.</p>
+                )}
+
+                <div className="flex flex-col md:flex-row gap-2">
+                    <select
+                        value={selected}
+                        onChange={(e) => setManualSelection(prev => ({ ...prev, [tx.id]: e.target.value }))}
+                        className="flex-1 bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs text-[#1c2938] outline-none focus:ring-2 focus:ring-[#27bea5]"
+                    >
+                        <option value="">{tx.amount > 0 ? 'Asignar a otra factura...' : 'Asignar a otro gasto...'}</option>
+                        {candidates.map(doc => (
+                            <option key={doc.id} value={doc.id}>
+                                {doc.id} · {doc.clientName} · {formatMoney(getDocumentOpenAmount(doc, documents), doc.currency)}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => handleAccept(tx, selected)}
+                        disabled={!selected || isBusy}
+                        className="px-4 py-2 bg-[#1c2938] text-white rounded-xl text-xs font-bold hover:bg-[#27bea5] disabled:opacity-40 flex items-center justify-center gap-1"
+                    >
+                        <Link2 className="w-3 h-3" /> Asignar
+                    </button>
+                    <button
+                        onClick={() => handleStatus(tx, 'IGNORED')}
+                        disabled={isBusy}
+                        className="px-4 py-2 text-slate-400 hover:text-[#1c2938] rounded-xl text-xs font-bold disabled:opacity-40 flex items-center justify-center gap-1"
+                    >
+                        <EyeOff className="w-3 h-3" /> Ignorar
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto animate-in fade-in duration-500">
+            <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-[#1c2938]">Conciliación Bancaria</h2>
+                    <p className="text-slate-500">
+                        Importa el estado de cuenta{currentUser.bankName ? ` de ${currentUser.bankName}` : ''}{currentUser.bankAccount ? ` (${currentUser.bankAccount})` : ''} y aplica cada transferencia a su factura o gasto.
+                    </p>
+                </div>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.txt,.ofx,.qfx,.xml"
+                    onChange={handleFile}
+                    className="hidden"
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    className="flex items-center justify-center gap-2 px-5 py-3 bg-[#1c2938] text-white rounded-xl text-sm font-bold hover:bg-[#27bea5] transition-colors disabled:opacity-50"
+                >
+                    {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Importar estado de cuenta
+                </button>
+            </div>
+
+            <p className="text-xs text-slate-400 mb-6 flex items-center gap-2">
+                <Landmark className="w-4 h-4" /> Formatos: CSV de Banco General o Banistmo, OFX y CAMT.053. Los movimientos ya importados se omiten.
+            </p>
+
+            {/* TABS */}
+            <div className="flex bg-slate-50 p-2 rounded-2xl mb-8">
+                {TABS.map(tab => (
+                    <button
+                        key={tab.status}
+                        onClick={() => setActiveTab(tab.status)}
+                        className={`flex-1 py-3 rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 ${activeTab === tab.status ? 'bg-white text-[#1c2938] shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                        {tab.icon} {tab.label}
+                        <span className="text-xs text-slate-400">({counts[tab.status] || 0})</span>
+                    </button>
+                ))}
+            </div>
+
+            {isLoading ? (
+                <div className="p-16 text-center text-slate-400">
+                    <Loader2 className="w-8 h-8 mx-auto mb-4 animate-spin" />
+                    <p>Cargando movimientos...</p>
+                </div>
+            ) : visible.length === 0 ? (
+                <div className="p-16 text-center text-slate-400 bg-white rounded-[2rem] border border-slate-100">
+                    <Inbox className="w-8 h-8 mx-auto mb-4" />
+                    <p>{activeTab === 'UNMATCHED' ? 'No hay movimientos pendientes de conciliar.' : 'No hay movimientos en esta sección.'}</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {visible.map(tx => {
+                        const matchedDoc = tx.matchedDocumentId ? documents.find(d => d.id === tx.matchedDocumentId) : undefined;
+                        return (
+                            <div key={tx.id} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="flex items-start gap-3 min-w-0">
+                                        <div className={`w-10 h-10 rounded-xl flex items-center justify-center flex-shrink-0 ${tx.amount > 0 ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
+                                            {tx.amount > 0 ? <ArrowDownLeft className="w-5 h-5" /> : <ArrowUpRight className="w-5 h-5" />}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <p className="font-bold text-[#1c2938] text-sm truncate">{tx.counterparty || tx.description || 'Movimiento sin descripción'}</p>
+                                            <p className="text-xs text-slate-400 truncate">
+                                                {new Date(`${tx.date}T12:00:00`).toLocaleDateString('es-PA')}
+                                                {tx.reference ? ` · Ref. ${tx.reference}` : ''}
+                                                {tx.counterparty && tx.description ? ` · ${tx.description}` : ''}
+                                                {` · ${BANK_STATEMENT_FORMAT_LABELS[tx.source]}`}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <p className={`font-bold font-mono text-sm flex-shrink-0 ${tx.amount > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                                        {tx.amount > 0 ? '+' : '-'}{formatMoney(tx.amount, tx.currency)}
+                                    </p>
+                                </div>
+
+                                {tx.status === 'UNMATCHED' && renderUnmatchedActions(tx)}
+
+                                {tx.status === 'MATCHED' && (
+                                    <div className="mt-3 flex items-center justify-between text-xs">
+                                        <span className="text-emerald-600 font-bold flex items-center gap-1">
+                                            <CheckCircle2 className="w-3 h-3" /> Aplicado a {tx.matchedDocumentId}{matchedDoc ? ` · ${matchedDoc.clientName}` : ''}
+                                        </span>
+                                        {matchedDoc && onSelectDocument && (
+                                            <button onClick={() => onSelectDocument(matchedDoc)} className="text-slate-400 hover:text-[#1c2938] font-bold flex items-center gap-1">
+                                                <FileText className="w-3 h-3" /> Ver documento
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+
+                                {tx.status === 'IGNORED' && (
+                                    <div className="mt-3 flex justify-end">
+                                        <button
+                                            onClick={() => handleStatus(tx, 'UNMATCHED')}
+                                            disabled={busyId === tx.id}
+                                            className="text-xs text-slate-400 hover:text-[#1c2938] font-bold flex items-center gap-1 disabled:opacity-40"
+                                        >
+                                            <RotateCcw className="w-3 h-3" /> Devolver a la bandeja
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BankReconciliation;
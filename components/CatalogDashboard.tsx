@@ -7,6 +7,7 @@ import {
   AlignLeft, List, CalendarClock, Package, Check, Calculator, AlertCircle, Lock, Save
 } from 'lucide-react';
 import { CatalogItem, PriceAnalysisResult, UserProfile } from '../types';
+import { ITBMS_RATES, DEFAULT_ITBMS_RATE_CODE, getItbmsRate } from '../services/itbmsService';
 import { analyzePriceMarket, enhanceProductDescription, AI_ERROR_BLOCKED } from '../services/geminiService';
 import { useAlert } from './AlertSystem';
 
@@ -38,7 +39,7 @@ const CatalogDashboard: React.FC<CatalogDashboardProps> = ({ items, userCountry,
   const hasAiAccess = !!apiKey?.gemini || !!apiKey?.openai;
 
   // Form State
-  const [formData, setFormData] = useState<Partial<CatalogItem>>({ name: '', price: 0, cost: 0, description: '', isRecurring: false });
+  const [formData, setFormData] = useState<Partial<CatalogItem>>({ name: '', price: 0, cost: 0, description: '', isRecurring: false, taxRateCode: DEFAULT_ITBMS_RATE_CODE });
   const [descFormat, setDescFormat] = useState<'paragraph' | 'bullets'>('paragraph');
   
   // AI Analysis State
@@ -62,7 +63,7 @@ const CatalogDashboard: React.FC<CatalogDashboardProps> = ({ items, userCountry,
 
   const handleAddNew = () => {
     setEditingItem(null);
-    setFormData({ name: '', price: 0, cost: 0, description: '', isRecurring: false });
+    setFormData({ name: '', price: 0, cost: 0, description: '', isRecurring: false, taxRateCode: DEFAULT_ITBMS_RATE_CODE });
     setAnalysis(null);
     setIsModalOpen(true);
   };
@@ -96,7 +97,8 @@ const CatalogDashboard: React.FC<CatalogDashboardProps> = ({ items, userCountry,
             price: formData.price,
             cost: formData.cost,
             description: formData.description || '',
-            isRecurring: formData.isRecurring
+            isRecurring: formData.isRecurring,
+            taxRateCode: formData.taxRateCode || DEFAULT_ITBMS_RATE_CODE
           };
           await onSaveItem(newItem);
         }
@@ -232,9 +234,14 @@ const CatalogDashboard: React.FC<CatalogDashboardProps> = ({ items, userCountry,
               
               {/* Footer Price */}
               <div className="mt-6 pt-6 border-t border-slate-50 flex items-center justify-between">
-                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-slate-50 px-2 py-1 rounded-lg">
-                   {item.isRecurring ? 'Suscripción' : 'Pago Único'}
-                 </span>
+                 <div className="flex gap-1">
+                   <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-slate-50 px-2 py-1 rounded-lg">
+                     {item.isRecurring ? 'Suscripción' : 'Pago Único'}
+                   </span>
+                   <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-slate-50 px-2 py-1 rounded-lg">
+                     {getItbmsRate(item.taxRateCode || DEFAULT_ITBMS_RATE_CODE).label}
+                   </span>
+                 </div>
                  <span className="text-2xl font-bold text-[#1c2938] tracking-tight">
                     ${item.price.toLocaleString()}
                     {item.isRecurring && <span className="text-sm text-slate-400 font-medium">/mes</span>}
@@ -397,6 +404,25 @@ const CatalogDashboard: React.FC<CatalogDashboardProps> = ({ items, userCountry,
                      </div>
                   )}
 
+                  {/* ITBMS RATE */}
+                  <div className="space-y-3">
+                     <label className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Tasa de ITBMS</label>
+                     <div className="grid grid-cols-5 gap-2">
+                        {ITBMS_RATES.map(rate => (
+                           <button
+                             key={rate.code}
+                             type="button"
+                             onClick={() => setFormData({...formData, taxRateCode: rate.code})}
+                             title={rate.description}
+                             className={`py-3 px-1 rounded-2xl border-2 text-xs font-bold transition-all ${(formData.taxRateCode || DEFAULT_ITBMS_RATE_CODE) === rate.code ? 'border-[#27bea5] text-[#1c2938] bg-[#27bea5]/5' : 'border-slate-100 text-slate-500 hover:border-slate-200'}`}
+                           >
+                             {rate.code === 'EXENTO' ? 'Exento' : `${rate.rate}%`}
+                           </button>
+                        ))}
+                     </div>
+                     <p className="text-xs text-slate-400 ml-1">{getItbmsRate(formData.taxRateCode || DEFAULT_ITBMS_RATE_CODE).description}</p>
+                  </div>
+
                   {/* RECURRING TOGGLE */}
                   <label className={`flex items-center gap-4 p-4 border rounded-2xl cursor-pointer transition-all ${formData.isRecurring ? 'border-[#27bea5] bg-[#27bea5]/5' : 'border-slate-100 hover:border-slate-200'}`}>
                      <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${formData.isRecurring ? 'bg-[#27bea5] text-white' : 'bg-slate-100 text-slate-400'}`}>
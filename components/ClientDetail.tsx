@@ -8,6 +8,9 @@ import {
 } from 'lucide-react';
 import { Invoice, InvoiceStatus, DbClient, UserProfile } from '../types';
 import MultiDocumentEmailModal from './MultiDocumentEmailModal';
+import { getAvailableDunningSequences } from '../services/dunningService';
+import { paymentApiHeaders } from '../services/paymentSecretService';
+import { applyClientCredit, getClientCreditBalance, getClientCreditSources } from '../services/clientCreditService';
 
 interface ClientDetailProps {
   clientName: string;
@@ -19,7 +22,7 @@ interface ClientDetailProps {
   onCreateDocument?: (type: 'Invoice' | 'Quote', clientData: DbClient) => void; // Updated prop signature
   onDeleteClient?: (id: string, name: string) => void;
   currencySymbol: string;
-  stripeSecretKey?: string;
+  hasStripe?: boolean;
   issuer: UserProfile; // NEW
   onUpdateStatus?: (id: string, status: InvoiceStatus, extras?: Partial<Invoice>) => void;
   onSaveBatch?: (invoices: Invoice[]) => Promise<void>;
@@ -35,7 +38,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
   onCreateDocument,
   onDeleteClient,
   currencySymbol,
-  stripeSecretKey,
+  hasStripe,
   issuer, // NEW
   onUpdateStatus,
   onSaveBatch
@@ -62,6 +65,9 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
   const [editRecCycles, setEditRecCycles] = useState(12);
   const [isSavingRecurrence, setIsSavingRecurrence] = useState(false);
 
+  // Client credit (saldo a favor)
+  const [applyingCreditId, setApplyingCreditId] = useState<string | null>(null);
+
   // Stripe Selector States
   const [showStripeSelector, setShowStripeSelector] = useState(false);
   const [stripeCustomers, setStripeCustomers] = useState<any[]>([]);
@@ -77,6 +83,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
       address?: string;
       taxId?: string;
       stripeCustomerId?: string; // NEW
+      dunningSequenceId?: string;
   }>({});
 
   // Reset optimistic state when dbClientData actually updates from parent
@@ -108,7 +115,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
       .reduce((acc, curr) => acc + curr.total, 0);
       
     const openQuotes = clientDocs.filter(i => i.type === 'Quote' && (i.status === 'Enviada' || i.status === 'Seguimiento' || i.status === 'Negociacion' || i.status === 'Creada'));
-    const pendingInvoices = clientDocs.filter(i => i.type === 'Invoice' && (i.status === 'Enviada' || i.status === 'Seguimiento' || i.status === 'Creada'));
+    const pendingInvoices = clientDocs.filter(i => i.type === 'Invoice' && (i.status === 'Enviada' || i.status === 'Seguimiento' || i.status === 'Creada' || i.status === 'Abonada'));
     
     const active = [...openQuotes, ...pendingInvoices].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     const history = clientDocs.filter(d => !active.includes(d));
@@ -140,6 +147,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
         tags: optimisticOverrides.tags ?? (dbClientData?.tags || ''),
         notes: optimisticOverrides.notes ?? (dbClientData?.notes || ''),
         stripeCustomerId: optimisticOverrides.stripeCustomerId ?? (dbClientData?.stripeCustomerId || ''),
+        dunningSequenceId: optimisticOverrides.dunningSequenceId ?? (dbClientData?.dunningSequenceId || ''),
       },
       activeDocs: active,
       historyDocs: history,
@@ -159,6 +167,27 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
     };
   }, [invoices, clientName, dbClientData, optimisticOverrides]);
 
+  // Overpaid invoices of this client; refunds and applied credit reduce them
+  const creditSources = useMemo(
+    () => getClientCreditSources(clientName, invoices, dbClientData?.id),
+    [invoices, clientName, dbClientData]
+  );
+  const creditBalance = creditSources.reduce((acc, s) => acc + s.credit, 0);
+
+  const handleApplyCredit = async (doc: Invoice) => {
+    if (!onSaveBatch) return;
+    const updated = applyClientCredit(doc, invoices);
+    if (!updated) return;
+    setApplyingCreditId(doc.id);
+    try {
+      await onSaveBatch(updated);
+    } catch (err) {
+      console.error("Error applying client credit:", err);
+    } finally {
+      setApplyingCreditId(null);
+    }
+  };
+
   // Edit State for Profile
   const [editForm, setEditForm] = useState(clientData);
 
@@ -184,13 +213,12 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
 
   // --- STRIPE CUSTOMER FETCHING ---
   const fetchStripeCustomers = async () => {
-      if (!stripeSecretKey) return;
+      if (!hasStripe) return;
       setIsLoadingStripeCustomers(true);
       try {
           const response = await fetch('/api/stripe-customers', {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ stripeSecretKey })
+              headers: paymentApiHeaders(issuer)
           });
           const data = await response.json();
           if (data.success) {
@@ -337,6 +365,23 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
     setIsEditingNote(false);
   };
 
+  // 4. Dunning Sequence
+  const handleDunningSequenceChange = (dunningSequenceId: string) => {
+    setOptimisticOverrides(prev => ({ ...prev, dunningSequenceId }));
+
+    onUpdateClientContact(clientName, {
+        ...dbClientData,
+        name: clientName,
+        email: clientData.email,
+        address: clientData.address,
+        phone: clientData.phone,
+        taxId: clientData.taxId,
+        tags: clientData.tags,
+        notes: clientData.notes,
+        dunningSequenceId: dunningSequenceId || undefined
+    });
+  };
+
   const getStatusColor = (status: InvoiceStatus) => {
     switch(status) {
       case 'Aceptada': return 'text-green-600 bg-green-50 border-green-100';
@@ -392,6 +437,11 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
               <h2 className="text-4xl font-bold text-[#1c2938] tracking-tight">
                   {currencySymbol}{stats.isProspect ? stats.totalQuoted.toLocaleString() : stats.totalRevenue.toLocaleString()}
               </h2>
+              {creditBalance > 0.01 && (
+                  <p className="text-sm font-bold text-emerald-600 mt-1">
+                      Saldo a favor: {currencySymbol}{creditBalance.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </p>
+              )}
            </div>
         </div>
       </div>
@@ -577,6 +627,46 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
                 </div>
             </div>
 
+            {/* DUNNING SEQUENCE CARD */}
+            <div className="bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm">
+                <h3 className="font-bold text-[#1c2938] flex items-center gap-2 text-sm uppercase tracking-wider mb-3">
+                    <Clock className="w-4 h-4 text-slate-400" /> Secuencia de Cobranza
+                </h3>
+                <select
+                    value={clientData.dunningSequenceId}
+                    onChange={(e) => handleDunningSequenceChange(e.target.value)}
+                    className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                >
+                    <option value="">Según perfil de seguimiento</option>
+                    {getAvailableDunningSequences(issuer).map(seq => (
+                        <option key={seq.id} value={seq.id}>{seq.name} ({seq.steps.length} pasos)</option>
+                    ))}
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2">Se aplica a las facturas vencidas de este cliente, salvo que la factura indique otra.</p>
+            </div>
+
+            {/* CLIENT CREDIT CARD */}
+            {creditSources.length > 0 && (
+                <div className="bg-emerald-50 p-6 rounded-[2rem] border border-emerald-100 shadow-sm">
+                    <h3 className="font-bold text-emerald-800 flex items-center gap-2 text-sm uppercase tracking-wider mb-3">
+                        <Wallet className="w-4 h-4 text-emerald-500" /> Saldo a Favor
+                    </h3>
+                    <div className="space-y-2">
+                        {creditSources.map(({ invoice, credit }) => (
+                            <button
+                                key={invoice.id}
+                                onClick={() => onSelectInvoice(invoice)}
+                                className="w-full flex justify-between items-center text-sm bg-white/70 rounded-xl px-3 py-2 hover:bg-white transition-colors"
+                            >
+                                <span className="text-slate-500">Factura #{invoice.id}</span>
+                                <span className="font-bold text-emerald-700">{invoice.currency || 'USD'} {credit.toFixed(2)}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-emerald-600 mt-2">Pagos recibidos por encima del total. Aplícalos a una factura pendiente o registra el reembolso en la factura de origen.</p>
+                </div>
+            )}
+
             {/* NOTES CARD (OPERATIONAL) */}
             <div className="bg-amber-50 p-6 rounded-[2rem] border border-amber-100 shadow-sm relative overflow-hidden group">
                 <div className="flex justify-between items-center mb-4">
@@ -1036,11 +1126,23 @@ const ClientDetail: React.FC<ClientDetailProps> = ({
                                 </div>
                               </div>
                            </div>
-                           <div className="text-right" onClick={() => onSelectInvoice(doc)}>
-                              <p className="font-bold text-lg text-[#1c2938]">{currencySymbol}{doc.total.toLocaleString()}</p>
-                              <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded-lg border ${getStatusColor(doc.status)}`}>
-                                 {doc.status}
-                              </span>
+                           <div className="flex items-center gap-3">
+                              {onSaveBatch && doc.type === 'Invoice' && getClientCreditBalance(clientName, invoices, dbClientData?.id, doc.currency || 'USD') > 0.01 && (
+                                 <button
+                                    onClick={(e) => { e.stopPropagation(); handleApplyCredit(doc); }}
+                                    disabled={applyingCreditId !== null}
+                                    className="text-xs font-bold bg-emerald-50 text-emerald-700 border border-emerald-100 px-3 py-1.5 rounded-lg hover:bg-emerald-100 transition-colors flex items-center gap-1 disabled:opacity-50"
+                                 >
+                                    {applyingCreditId === doc.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wallet className="w-3 h-3" />}
+                                    Aplicar saldo a favor
+                                 </button>
+                              )}
+                              <div className="text-right" onClick={() => onSelectInvoice(doc)}>
+                                 <p className="font-bold text-lg text-[#1c2938]">{currencySymbol}{doc.total.toLocaleString()}</p>
+                                 <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded-lg border ${getStatusColor(doc.status)}`}>
+                                    {doc.status}
+                                 </span>
+                              </div>
                            </div>
                         </div>
                      ))}
@@ -2,17 +2,21 @@
 import React, { useState } from 'react';
 import { 
   User, Mail, Phone, MapPin, Hash, Check, ArrowRight, ArrowLeft, 
-  Building2, Briefcase, Globe, Sparkles, Tag, StickyNote, Target 
+  Building2, Briefcase, Globe, Sparkles, Tag, StickyNote, Target, AlertCircle, Search, Loader2, CheckCircle2 
 } from 'lucide-react';
+import { validateRuc, formatRuc } from '../services/dgiService';
+import { consultarRucDGI, describeRucLookupSource, getRucLookupProvider, RucLookupResult } from '../services/rucLookupService';
+import { UserProfile } from '../types';
 
 interface ClientWizardProps {
   onSave: (clientData: { name: string; taxId: string; email: string; address: string; phone: string; tags: string; notes: string; status: 'CLIENT' | 'PROSPECT' }) => void;
   onCancel: () => void;
+  currentUser?: UserProfile | null;
 }
 
 type Step = 1 | 2 | 3;
 
-const ClientWizard: React.FC<ClientWizardProps> = ({ onSave, onCancel }) => {
+const ClientWizard: React.FC<ClientWizardProps> = ({ onSave, onCancel, currentUser }) => {
   const [step, setStep] = useState<Step>(1);
   const [formData, setFormData] = useState({
     name: '',
@@ -29,9 +33,34 @@ const ClientWizard: React.FC<ClientWizardProps> = ({ onSave, onCancel }) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const [isLookingUpRuc, setIsLookingUpRuc] = useState(false);
+  const [rucLookup, setRucLookup] = useState<RucLookupResult | null>(null);
+
+  const handleRucLookup = async () => {
+    setIsLookingUpRuc(true);
+    const result = await consultarRucDGI(formData.taxId, getRucLookupProvider(currentUser));
+    setRucLookup(result);
+    if (result.found && result.contribuyente) {
+      const found = result.contribuyente;
+      setFormData(prev => ({
+        ...prev,
+        taxId: `${found.ruc} DV ${found.dv}`,
+        name: prev.name || found.razonSocial,
+        address: prev.address || found.direccion || '',
+        email: prev.email || found.email || ''
+      }));
+    }
+    setIsLookingUpRuc(false);
+  };
+
+  // Empty RUC is allowed (prospects); anything typed must parse and match its DV
+  const rucCheck = formData.taxId.trim() ? validateRuc(formData.taxId) : null;
+  const isRucInvalid = !!rucCheck && !rucCheck.valid;
+
   const handleNext = () => {
+    if (isRucInvalid) return;
     if (step < 3) setStep(prev => (prev + 1) as Step);
-    else onSave(formData);
+    else onSave({ ...formData, taxId: rucCheck?.parsed ? formatRuc(rucCheck.parsed) : formData.taxId });
   };
 
   const handleBack = () => {
@@ -89,11 +118,45 @@ const ClientWizard: React.FC<ClientWizardProps> = ({ onSave, onCancel }) => {
                          <Hash className="absolute left-4 top-4 w-6 h-6 text-slate-300 group-focus-within:text-[#27bea5] transition-colors" />
                          <input 
                            value={formData.taxId}
-                           onChange={(e) => handleChange('taxId', e.target.value.toUpperCase())}
-                           className="w-full pl-14 p-4 text-lg font-mono font-medium text-slate-600 bg-white border-2 border-slate-100 rounded-2xl focus:border-[#27bea5] focus:ring-0 outline-none transition-all placeholder:text-slate-200 shadow-sm uppercase"
-                           placeholder="8-123-456 DV 00"
+                           onChange={(e) => { handleChange('taxId', e.target.value.toUpperCase()); setRucLookup(null); }}
+                           className="w-full pl-14 pr-36 p-4 text-lg font-mono font-medium text-slate-600 bg-white border-2 border-slate-100 rounded-2xl focus:border-[#27bea5] focus:ring-0 outline-none transition-all placeholder:text-slate-200 shadow-sm uppercase"
+                           placeholder="8-123-456 DV 73"
                          />
+                         <button
+                           onClick={handleRucLookup}
+                           disabled={!rucCheck?.parsed || isLookingUpRuc}
+                           className="absolute right-3 top-3 px-3 py-2 rounded-xl bg-[#1c2938] text-white text-xs font-bold flex items-center gap-1 hover:bg-[#27bea5] disabled:opacity-30 transition-colors"
+                         >
+                            {isLookingUpRuc ? <Loader2 className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+                            Consultar DGI
+                         </button>
                       </div>
+                      {rucLookup && (
+                         rucLookup.found && rucLookup.contribuyente ? (
+                            <p className="mt-2 text-sm text-emerald-600 flex items-center gap-2">
+                               <CheckCircle2 className="w-4 h-4" /> {rucLookup.contribuyente.razonSocial} · {rucLookup.contribuyente.estado}
+                               <span className="text-xs text-slate-400">({describeRucLookupSource(rucLookup)})</span>
+                            </p>
+                         ) : (
+                            <p className="mt-2 text-sm text-amber-600 flex items-start gap-2">
+                               <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                               {rucLookup.error || 'RUC no encontrado en el registro. Completa los datos manualmente.'}
+                            </p>
+                         )
+                      )}
+                      {isRucInvalid && (
+                         <p className="mt-2 text-sm text-red-500 flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {rucCheck?.error}
+                         </p>
+                      )}
+                      {rucCheck?.valid && !rucCheck.parsed?.dv && (
+                         <button
+                           onClick={() => rucCheck.parsed && handleChange('taxId', formatRuc(rucCheck.parsed))}
+                           className="mt-2 text-sm font-bold text-[#27bea5] hover:underline"
+                         >
+                            Completar DV: {rucCheck.expectedDv}
+                         </button>
+                      )}
                    </div>
                 </div>
              </div>
@@ -211,7 +274,7 @@ const ClientWizard: React.FC<ClientWizardProps> = ({ onSave, onCancel }) => {
            <div className="mt-8">
               <button 
                 onClick={handleNext}
-                disabled={!formData.name}
+                disabled={!formData.name || isRucInvalid}
                 className="w-full bg-[#1c2938] text-white py-4 rounded-2xl font-bold text-lg hover:bg-[#27bea5] disabled:opacity-50 transition-all shadow-xl hover:shadow-2xl hover:-translate-y-1 active:translate-y-0 flex items-center justify-center gap-3 group"
               >
                  {step === 3 ? 'Guardar Cliente' : 'Continuar'} 
@@ -28,6 +28,8 @@ import {
    X
 } from 'lucide-react';
 import { Invoice, AppView, UserProfile } from '../types';
+import { getOpenBalance } from '../services/creditNoteService';
+import { hasInstallmentPlan, getInstallmentSchedule, formatInstallmentLabel } from '../services/installmentService';
 
 interface DashboardProps {
    recentInvoices: Invoice[];
@@ -45,53 +47,74 @@ const Dashboard: React.FC<DashboardProps> = ({ recentInvoices, isOffline, pendin
    const [activeBucketId, setActiveBucketId] = useState<string | null>(null);
 
    const cobranzaStats = useMemo(() => {
+      // Credit notes can settle an invoice without any payment: only invoices that still owe something age
       const pendingInvoices = recentInvoices.filter(inv =>
          inv.type === 'Invoice' &&
-         (inv.status === 'Enviada' || inv.status === 'Seguimiento' || inv.status === 'Abonada' || inv.status === 'Creada')
+         (inv.status === 'Enviada' || inv.status === 'Seguimiento' || inv.status === 'Abonada' || inv.status === 'Creada') &&
+         getOpenBalance(inv, recentInvoices) > 0.01
       );
 
       const today = new Date();
       today.setHours(0,0,0,0);
 
+      // One aging entry per invoice, or per unpaid installment when the invoice has a payment plan
+      type AgingEntry = { invoice: Invoice; amount: number; dueDate: Date; installmentLabel?: string };
+
       const buckets = {
-         valido: [] as Invoice[],
-         vencida1_15: [] as Invoice[],
-         vencida16_30: [] as Invoice[],
-         vencida31_60: [] as Invoice[],
-         vencida61_90: [] as Invoice[],
-         vencidaOver90: [] as Invoice[]
+         valido: [] as AgingEntry[],
+         vencida1_15: [] as AgingEntry[],
+         vencida16_30: [] as AgingEntry[],
+         vencida31_60: [] as AgingEntry[],
+         vencida61_90: [] as AgingEntry[],
+         vencidaOver90: [] as AgingEntry[]
       };
 
-      pendingInvoices.forEach(inv => {
+      const entries: AgingEntry[] = pendingInvoices.flatMap(inv => {
+         if (hasInstallmentPlan(inv)) {
+            return getInstallmentSchedule(inv, recentInvoices, today)
+               .filter(s => s.remaining > 0.01)
+               .map(s => ({ invoice: inv, amount: s.remaining, dueDate: s.dueDate, installmentLabel: formatInstallmentLabel(s) }));
+         }
          const due = inv.dueDate ? new Date(inv.dueDate) : new Date(new Date(inv.date).getTime() + 15 * 24 * 60 * 60 * 1000);
          due.setHours(0,0,0,0);
-         const diffTime = today.getTime() - due.getTime();
+         return [{ invoice: inv, amount: getOpenBalance(inv, recentInvoices), dueDate: due }];
+      });
+
+      entries.forEach(entry => {
+         const diffTime = today.getTime() - entry.dueDate.getTime();
          const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
          if (diffDays <= 0) {
-            buckets.valido.push(inv);
+            buckets.valido.push(entry);
          } else if (diffDays <= 15) {
-            buckets.vencida1_15.push(inv);
+            buckets.vencida1_15.push(entry);
          } else if (diffDays <= 30) {
-            buckets.vencida16_30.push(inv);
+            buckets.vencida16_30.push(entry);
          } else if (diffDays <= 60) {
-            buckets.vencida31_60.push(inv);
+            buckets.vencida31_60.push(entry);
          } else if (diffDays <= 90) {
-            buckets.vencida61_90.push(inv);
+            buckets.vencida61_90.push(entry);
          } else {
-            buckets.vencidaOver90.push(inv);
+            buckets.vencidaOver90.push(entry);
          }
       });
 
-      const getSum = (arr: Invoice[]) => arr.reduce((acc, curr) => acc + curr.total, 0);
+      const bucket = (id: keyof typeof buckets, label: string, color: string) => ({
+         id,
+         label,
+         entries: buckets[id],
+         invoices: Array.from(new Set(buckets[id].map(e => e.invoice))),
+         amount: buckets[id].reduce((acc, e) => acc + e.amount, 0),
+         color
+      });
 
       return [
-         { id: 'valido', label: 'Cobro Válido', invoices: buckets.valido, amount: getSum(buckets.valido), color: 'bg-green-50 text-green-900 border-green-200 hover:bg-green-100/50' },
-         { id: 'vencida1_15', label: 'Vencida 1-15 días', invoices: buckets.vencida1_15, amount: getSum(buckets.vencida1_15), color: 'bg-amber-50 text-amber-900 border-amber-200 hover:bg-amber-100/50' },
-         { id: 'vencida16_30', label: 'Vencida > 15 días', invoices: buckets.vencida16_30, amount: getSum(buckets.vencida16_30), color: 'bg-orange-50 text-orange-900 border-orange-200 hover:bg-orange-100/50' },
-         { id: 'vencida31_60', label: 'Vencida > 30 días', invoices: buckets.vencida31_60, amount: getSum(buckets.vencida31_60), color: 'bg-red-50 text-red-900 border-red-200 hover:bg-red-100/50' },
-         { id: 'vencida61_90', label: 'Vencida > 60 días', invoices: buckets.vencida61_90, amount: getSum(buckets.vencida61_90), color: 'bg-rose-50 text-rose-900 border-rose-200 hover:bg-rose-100/50' },
-         { id: 'vencidaOver90', label: 'Vencida > 90 días', invoices: buckets.vencidaOver90, amount: getSum(buckets.vencidaOver90), color: 'bg-red-100 text-red-950 border-red-300 hover:bg-red-200/50' }
+         bucket('valido', 'Cobro Válido', 'bg-green-50 text-green-900 border-green-200 hover:bg-green-100/50'),
+         bucket('vencida1_15', 'Vencida 1-15 días', 'bg-amber-50 text-amber-900 border-amber-200 hover:bg-amber-100/50'),
+         bucket('vencida16_30', 'Vencida > 15 días', 'bg-orange-50 text-orange-900 border-orange-200 hover:bg-orange-100/50'),
+         bucket('vencida31_60', 'Vencida > 30 días', 'bg-red-50 text-red-900 border-red-200 hover:bg-red-100/50'),
+         bucket('vencida61_90', 'Vencida > 60 días', 'bg-rose-50 text-rose-900 border-rose-200 hover:bg-rose-100/50'),
+         bucket('vencidaOver90', 'Vencida > 90 días', 'bg-red-100 text-red-950 border-red-300 hover:bg-red-200/50')
       ];
    }, [recentInvoices]);
 
@@ -114,12 +137,22 @@ const Dashboard: React.FC<DashboardProps> = ({ recentInvoices, isOffline, pendin
             inv.type === 'Invoice'; // Include ALL invoices (Drafts, Rejected, Paid, etc.)
       });
 
-      const monthlyRevenue = thisMonthInvoices.reduce((acc, curr) => acc + curr.total, 0);
+      // Credit/Debit notes issued this month adjust the month's volume
+      const thisMonthAdjustments = recentInvoices.reduce((acc, inv) => {
+         const d = new Date(inv.date);
+         if (d.getMonth() !== currentMonth || d.getFullYear() !== currentYear) return acc;
+         if (inv.status === 'Borrador' || inv.status === 'Rechazada') return acc;
+         if (inv.type === 'CreditNote') return acc - inv.total;
+         if (inv.type === 'DebitNote') return acc + inv.total;
+         return acc;
+      }, 0);
+
+      const monthlyRevenue = thisMonthInvoices.reduce((acc, curr) => acc + curr.total, 0) + thisMonthAdjustments;
 
-      // Pending (Sent but not Paid)
+      // Pending (Sent but not Paid): open balance after payments and notes
       const pendingAmount = recentInvoices
          .filter(inv => inv.type === 'Invoice' && (inv.status === 'Enviada' || inv.status === 'Seguimiento' || inv.status === 'Abonada' || inv.status === 'Creada'))
-         .reduce((acc, curr) => acc + curr.total, 0);
+         .reduce((acc, curr) => acc + getOpenBalance(curr, recentInvoices), 0);
 
       // PIPELINE (Active Quotes: Not Accepted, Not Rejected, Not Drafts ideally for real pipeline)
       // Strictly: Sent, Viewed, Negotiation
@@ -766,9 +799,9 @@ const Dashboard: React.FC<DashboardProps> = ({ recentInvoices, isOffline, pendin
 
                   {/* Modal Content - List of Invoices */}
                   <div className="flex-1 overflow-y-auto p-6 md:p-8 space-y-4 custom-scrollbar bg-slate-50/30">
-                     {activeBucket.invoices.map((inv) => (
+                     {activeBucket.entries.map(({ invoice: inv, amount, dueDate, installmentLabel }) => (
                         <div
-                           key={inv.id}
+                           key={`${inv.id}-${installmentLabel || ''}`}
                            onClick={() => {
                               onSelectInvoice(inv);
                               setActiveBucketId(null);
@@ -779,15 +812,16 @@ const Dashboard: React.FC<DashboardProps> = ({ recentInvoices, isOffline, pendin
                               <div className="flex items-center gap-2">
                                  <span className="font-bold text-[#1c2938] text-base group-hover:text-[#27bea5] transition-colors">{inv.clientName}</span>
                                  <span className="font-mono text-xs text-slate-400">({inv.id})</span>
+                                 {installmentLabel && <span className="text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">{installmentLabel}</span>}
                               </div>
                               <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500 font-medium">
                                  <span>Emisión: {new Date(inv.date).toLocaleDateString()}</span>
-                                 <span>Vencimiento: {inv.dueDate ? new Date(inv.dueDate).toLocaleDateString() : 'N/A'}</span>
+                                 <span>Vencimiento: {installmentLabel || inv.dueDate ? dueDate.toLocaleDateString() : 'N/A'}</span>
                               </div>
                            </div>
                            <div className="flex items-center justify-between sm:justify-end gap-4">
                               <div className="text-right">
-                                 <p className="font-bold text-[#1c2938] text-base">${inv.total.toLocaleString()}</p>
+                                 <p className="font-bold text-[#1c2938] text-base">${amount.toLocaleString()}</p>
                                  <span className={`px-2 py-0.5 rounded-full text-[10px] uppercase font-bold tracking-wide ${getStatusColor(inv.status)}`}>
                                     {inv.status}
                                  </span>
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    ArrowLeft, Download, Building2, Loader2, AlertTriangle, CheckCircle2,
+    ShoppingCart, Receipt, XCircle
+} from 'lucide-react';
+import { Invoice, UserProfile, DbClient, DbProvider } from '../types';
+import { fetchInvoicesFromDb, fetchClientsFromDb, fetchProvidersFromDb } from '../services/neon';
+import {
+    buildPurchasesReport, buildSalesReport, buildInformeFileName,
+    InformeType, INFORME_LABELS
+} from '../services/dgiInformesService';
+
+interface DgiInformesExportProps {
+    currentUser: UserProfile;
+    managedCompanies: UserProfile[];
+    ownDocuments: Invoice[];
+    ownClients: DbClient[];
+    onBack: () => void;
+}
+
+const toDateInput = (d: Date) =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const DgiInformesExport: React.FC<DgiInformesExportProps> = ({
+    currentUser,
+    managedCompanies,
+    ownDocuments,
+    ownClients,
+    onBack
+}) => {
+    const companies = useMemo(() => [currentUser, ...managedCompanies.filter(c => c.id !== currentUser.id)], [currentUser, managedCompanies]);
+    const now = new Date();
+
+    const [companyId, setCompanyId] = useState(currentUser.id);
+    const [reportType, setReportType] = useState<InformeType>('F94');
+    // Default: the month that just closed
+    const [from, setFrom] = useState(toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)));
+    const [to, setTo] = useState(toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)));
+    const [documents, setDocuments] = useState<Invoice[]>(ownDocuments);
+    const [clients, setClients] = useState<DbClient[]>(ownClients);
+    const [providers, setProviders] = useState<DbProvider[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const company = companies.find(c => c.id === companyId) || currentUser;
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setIsLoading(true);
+            const isOwn = companyId === currentUser.id;
+            const [docs, dbClients, dbProviders] = await Promise.all([
+                isOwn ? Promise.resolve(ownDocuments) : fetchInvoicesFromDb(companyId),
+                isOwn ? Promise.resolve(ownClients) : fetchClientsFromDb(companyId),
+                fetchProvidersFromDb(companyId)
+            ]);
+            if (cancelled) return;
+            setDocuments(docs || []);
+            setClients(dbClients);
+            setProviders(dbProviders);
+            setIsLoading(false);
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [companyId, currentUser.id, ownDocuments, ownClients]);
+
+    const report = useMemo(() => reportType === 'F94'
+        ? buildPurchasesReport(documents, providers, { from, to })
+        : buildSalesReport(documents, clients, { from, to }),
+        [reportType, documents, providers, clients, from, to]);
+
+    const handleDownload = () => {
+        const blob = new Blob([report.txt], { type: 'text/plain;charset=us-ascii' });
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = buildInformeFileName(reportType, company.taxId, from);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto animate-in fade-in duration-500">
+            <div className="mb-8">
+                <button
+                    onClick={onBack}
+                    className="flex items-center gap-2 text-slate-400 hover:text-[#1c2938] transition-colors mb-2 group"
+                >
+                    <ArrowLeft className="w-5 h-5 group-hover:-translate-x-1 transition-transform" />
+                    <span className="font-bold text-sm uppercase tracking-widest">Volver al Panel</span>
+                </button>
+                <h2 className="text-3xl font-bold text-[#1c2938]">Informes DGI (e-Tax)</h2>
+                <p className="text-slate-500">Genera los archivos TXT de compras y ventas listos para cargar en e-Tax 2.0.</p>
+            </div>
+
+            {/* FILTERS */}
+            <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-6 mb-8 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 mb-1">
+                        <Building2 className="w-3 h-3" /> Empresa
+                    </label>
+                    <select
+                        value={companyId}
+                        onChange={(e) => setCompanyId(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold text-[#1c2938] outline-none focus:ring-2 focus:ring-[#27bea5]"
+                    >
+                        {companies.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}{c.taxId ? ` · ${c.taxId}` : ''}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 block">Desde</label>
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-[#27bea5]" />
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 block">Hasta</label>
+                    <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-[#27bea5]" />
+                </div>
+            </div>
+
+            {/* REPORT TABS */}
+            <div className="flex bg-slate-50 p-2 rounded-2xl mb-8">
+                {(['F94', 'F43'] as InformeType[]).map(type => (
+                    <button
+                        key={type}
+                        onClick={() => setReportType(type)}
+                        className={`flex-1 py-3 rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 ${reportType === type ? 'bg-white text-[#1c2938] shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                        {type === 'F94' ? <ShoppingCart className="w-4 h-4" /> : <Receipt className="w-4 h-4" />}
+                        {INFORME_LABELS[type]}
+                    </button>
+                ))}
+            </div>
+
+            {isLoading ? (
+                <div className="p-16 text-center text-slate-400">
+                    <Loader2 className="w-8 h-8 mx-auto mb-4 animate-spin" />
+                    <p>Cargando documentos...</p>
+                </div>
+            ) : (
+                <div className="space-y-8">
+                    {/* SUMMARY */}
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        {[
+                            { label: 'Filas válidas', value: report.rows.length },
+                            { label: 'Rechazadas', value: report.rejected.length },
+                            { label: 'Monto', value: `$${report.totalMonto.toFixed(2)}` },
+                            { label: 'ITBMS', value: `$${report.totalItbms.toFixed(2)}` }
+                        ].map(stat => (
+                            <div key={stat.label} className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm">
+                                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">{stat.label}</p>
+                                <h4 className="text-2xl font-bold text-[#1c2938]">{stat.value}</h4>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* REJECTED ROWS */}
+                    {report.rejected.length > 0 ? (
+                        <div className="bg-white rounded-[2rem] border border-rose-100 shadow-sm overflow-hidden">
+                            <div className="p-6 bg-rose-50 flex items-center gap-3 text-rose-700">
+                                <AlertTriangle className="w-5 h-5" />
+                                <div>
+                                    <h3 className="font-bold">{report.rejected.length} filas serían rechazadas por e-Tax</h3>
+                                    <p className="text-xs text-rose-600">Corrige el RUC/DV del cliente o proveedor y vuelve a generar. Estas filas no se incluyen en el archivo.</p>
+                                </div>
+                            </div>
+                            <div className="divide-y divide-slate-50">
+                                {report.rejected.map(r => (
+                                    <div key={r.documentId} className="p-5 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                        <div>
+                                            <p className="font-bold text-[#1c2938] text-sm">{r.counterparty} <span className="text-slate-400 font-mono text-xs">#{r.documentId}</span></p>
+                                            <p className="text-xs text-slate-400">{new Date(r.date).toLocaleDateString('es-PA')} · {r.taxId || 'Sin RUC'} · ${r.total.toFixed(2)}</p>
+                                        </div>
+                                        <ul className="text-xs text-rose-600 space-y-1 md:text-right">
+                                            {r.reasons.map((reason, i) => (
+                                                <li key={i} className="flex items-center gap-1 md:justify-end"><XCircle className="w-3 h-3 flex-shrink-0" /> {reason}</li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ) : report.rows.length > 0 && (
+                        <div className="p-5 bg-emerald-50 border border-emerald-100 rounded-2xl flex items-center gap-3 text-emerald-700 text-sm font-bold">
+                            <CheckCircle2 className="w-5 h-5" /> Todas las filas tienen RUC y DV válidos.
+                        </div>
+                    )}
+
+                    {/* VALID ROWS */}
+                    <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm overflow-hidden">
+                        <div className="p-6 flex items-center justify-between border-b border-slate-50">
+                            <h3 className="font-bold text-[#1c2938]">Filas del archivo</h3>
+                            <button
+                                onClick={handleDownload}
+                                disabled={report.rows.length === 0}
+                                className="flex items-center gap-2 px-4 py-2.5 bg-[#1c2938] text-white rounded-xl text-sm font-bold hover:bg-[#27bea5] transition-colors disabled:opacity-40"
+                            >
+                                <Download className="w-4 h-4" /> Descargar TXT
+                            </button>
+                        </div>
+                        {report.rows.length === 0 ? (
+                            <p className="p-10 text-center text-slate-400 text-sm">No hay documentos válidos en este periodo.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-xs font-bold text-slate-400 uppercase tracking-wider bg-slate-50/50">
+                                            <th className="text-left px-6 py-3">Tipo</th>
+                                            <th className="text-left px-6 py-3">RUC / DV</th>
+                                            <th className="text-left px-6 py-3">Nombre</th>
+                                            <th className="text-left px-6 py-3">Factura</th>
+                                            <th className="text-left px-6 py-3">Fecha</th>
+                                            <th className="text-right px-6 py-3">Monto</th>
+                                            <th className="text-right px-6 py-3">ITBMS</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.rows.map(row => (
+                                            <tr key={row.documentId} className="border-t border-slate-50">
+                                                <td className="px-6 py-3 font-bold text-slate-500">{row.tipoPersona}</td>
+                                                <td className="px-6 py-3 font-mono text-xs">{row.ruc} DV {row.dv}</td>
+                                                <td className="px-6 py-3 text-[#1c2938]">{row.nombre}</td>
+                                                <td className="px-6 py-3 font-mono text-xs">{row.factura}</td>
+                                                <td className="px-6 py-3 font-mono text-xs">{row.fecha}</td>
+                                                <td className="px-6 py-3 text-right font-mono">{row.monto.toFixed(2)}</td>
+                                                <td className="px-6 py-3 text-right font-mono">{row.itbms.toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DgiInformesExport;
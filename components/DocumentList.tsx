@@ -12,6 +12,10 @@ import {
 } from 'lucide-react';
 import { Invoice, InvoiceStatus, UserProfile, DbClient } from '../types';
 import { generateRevenueInsight } from '../services/geminiService'; // New import
+import { getOpenBalance, isAdjustmentNote } from '../services/creditNoteService';
+import { hasPaymentSecret, paymentApiHeaders } from '../services/paymentSecretService';
+import { allocateDocumentIdInDb } from '../services/neon';
+import { DOCUMENT_ID_UNAVAILABLE } from '../services/documentNumberingService';
 
 interface DocumentListProps {
    invoices: Invoice[];
@@ -93,9 +97,7 @@ const DocumentList: React.FC<DocumentListProps> = ({
       .filter(i => i.type === 'Invoice' && i.status !== 'Borrador' && i.status !== 'Rechazada' && i.status !== 'Incobrable')
       .reduce((acc, curr) => {
          if (curr.status === 'Pagada' || curr.status === 'Aceptada') return acc;
-         const paid = curr.amountPaid || 0;
-         const pending = Math.max(0, curr.total - paid);
-         return acc + pending;
+         return acc + getOpenBalance(curr, invoices);
       }, 0);
 
    const totalPipeline = invoices
@@ -145,14 +147,13 @@ const DocumentList: React.FC<DocumentListProps> = ({
 
     // --- STRIPE SYNC LOGIC ---
     const handleSyncStripe = async () => {
-       if (!currentUser?.paymentIntegration?.stripeSecretKey || !onUpdateStatus) return;
+       if (!currentUser || !hasPaymentSecret(currentUser.paymentIntegration, 'stripeSecretKey') || !onUpdateStatus) return;
        
        setIsSyncingStripe(true);
        try {
           const res = await fetch('/api/stripe-sync', {
              method: 'POST',
-             headers: { 'Content-Type': 'application/json' },
-             body: JSON.stringify({ stripeSecretKey: currentUser.paymentIntegration.stripeSecretKey })
+             headers: paymentApiHeaders(currentUser)
           });
           const data = await res.json();
           if (data.success && data.payments) {
@@ -231,16 +232,8 @@ const DocumentList: React.FC<DocumentListProps> = ({
           const client = dbClients.find(c => c.id === payment.targetClientId);
           if (!client) throw new Error('Cliente no encontrado localmente.');
 
-          // Generate next ID
-          const sequences = currentUser?.documentSequences || { invoicePrefix: 'FAC', invoiceNextNumber: 1 };
-          let nextNum = sequences.invoiceNextNumber;
-          let newId = `${sequences.invoicePrefix}-${String(nextNum).padStart(4, '0')}`;
-          
-          // Basic collision check (in-memory)
-          while (invoices.some(i => i.id === newId)) {
-             nextNum++;
-             newId = `${sequences.invoicePrefix}-${String(nextNum).padStart(4, '0')}`;
-          }
+          const newId = currentUser ? await allocateDocumentIdInDb(currentUser.id, 'Invoice', payment.date) : null;
+          if (!newId) throw new Error(DOCUMENT_ID_UNAVAILABLE);
 
           const newInvoice: Invoice = {
              id: newId,
@@ -395,11 +388,12 @@ const DocumentList: React.FC<DocumentListProps> = ({
       // 1. Exclude Expenses
       if (doc.type === 'Expense') return false;
 
-      // 2. Master Filter: Invoice vs Quote
+      // 2. Master Filter: Invoice vs Quote (credit/debit notes live with invoices)
       const isInvoice = doc.type === 'Invoice';
       const isQuote = doc.type === 'Quote';
+      const isNote = isAdjustmentNote(doc);
 
-      if (currentType === 'INVOICE' && !isInvoice) return false;
+      if (currentType === 'INVOICE' && !isInvoice && !isNote) return false;
       if (currentType === 'QUOTE' && !isQuote) return false;
 
       // 3. Search
@@ -411,7 +405,12 @@ const DocumentList: React.FC<DocumentListProps> = ({
       if (searchTerm.trim() !== '') return true;
 
       // 4. Stage Filtering (Tabs) - Only apply if NOT searching
-      const isTechnicallyPaid = doc.status === 'Pagada' || doc.status === 'Aceptada' || (doc.type === 'Invoice' && (doc.amountPaid || 0) >= (doc.total - 0.01));
+      const isTechnicallyPaid = doc.status === 'Pagada' || doc.status === 'Aceptada' || (doc.type === 'Invoice' && getOpenBalance(doc, invoices) <= 0.01);
+
+      if (currentType === 'INVOICE' && isNote) {
+         if (currentStage === 'DRAFT') return doc.status === 'Borrador' || doc.status === 'PendingSync';
+         return currentStage === 'DONE' && doc.status !== 'Borrador';
+      }
 
       if (currentType === 'INVOICE') {
          if (currentStage === 'DRAFT') return doc.status === 'Borrador' || doc.status === 'PendingSync';
@@ -860,7 +859,7 @@ const DocumentList: React.FC<DocumentListProps> = ({
                      className="w-full h-full pl-12 pr-6 py-3 bg-transparent border-none rounded-2xl text-sm font-medium text-[#1c2938] focus:bg-slate-50 focus:ring-0 outline-none"
                   />
                </div>
-               {currentUser?.paymentIntegration?.stripeSecretKey && (
+               {hasPaymentSecret(currentUser?.paymentIntegration, 'stripeSecretKey') && (
                   <button
                      onClick={handleSyncStripe}
                      disabled={isSyncingStripe}
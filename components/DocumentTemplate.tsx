@@ -5,6 +5,10 @@ import {
   Calendar, StickyNote, Lock, Link as LinkIcon, Smartphone
 } from 'lucide-react';
 import { Invoice, UserProfile, PaymentIntegration } from '../types';
+import { getDocumentTypeLabel } from '../services/creditNoteService';
+import { calculateItbmsBreakdown } from '../services/itbmsService';
+import { hasPaymentSecret } from '../services/paymentSecretService';
+import { getInstallmentSchedule, formatInstallmentLabel } from '../services/installmentService';
 // removed unused broken import
 
 interface DocumentTemplateProps {
@@ -24,13 +28,15 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
   const color = branding.primaryColor;
   const logo = branding.logoUrl;
   const isQuote = invoice.type === 'Quote';
+  const isCreditNote = invoice.type === 'CreditNote';
+  const docLabel = getDocumentTypeLabel(invoice.type);
 
   // --- CALCULATION LOGIC ---
   const subtotal = invoice.items.reduce((acc, item) => acc + (item.price * item.quantity), 0);
   const discountRate = invoice.discountRate || 0;
   const discountAmount = subtotal * (discountRate / 100);
   
-  // ITBMS 7%
+  // ITBMS (per-line rate)
   const taxTotal = invoice.items.reduce((acc, item) => {
     const itemTotal = item.price * item.quantity;
     const itemShare = subtotal > 0 ? itemTotal / subtotal : 0;
@@ -41,6 +47,10 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
   const amountPaid = invoice.amountPaid || 0;
   const remainingBalance = invoice.total - amountPaid;
 
+  // Per-rate subtotals; hidden when the whole document is exempt
+  const taxBreakdown = calculateItbmsBreakdown(invoice.items, discountRate);
+  const showTaxBreakdown = taxTotal > 0 || taxBreakdown.length > 1;
+
   const getStatusStyle = (status: string) => {
     switch(status) {
       case 'Pagada':
@@ -57,11 +67,11 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
   };
 
   const renderPaymentButtons = () => {
-    if (isQuote || !remainingBalance || remainingBalance <= 0 || !showPaymentButtons) return null;
+    if (isQuote || isCreditNote || !remainingBalance || remainingBalance <= 0 || !showPaymentButtons) return null;
     
-    const hasPaguelo = !!issuer.paymentIntegration?.cclw;
+    const hasPaguelo = !!issuer.paymentIntegration?.cclw && hasPaymentSecret(issuer.paymentIntegration, 'token');
     const hasYappy = !!issuer.paymentIntegration?.yappyApiKey; 
-    const hasStripe = !!issuer.paymentIntegration?.stripeSecretKey;
+    const hasStripe = hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey');
 
     if (!hasPaguelo && !hasYappy && !hasStripe) return null;
 
@@ -99,6 +109,67 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
     );
   };
 
+  const renderReferenceInfo = () => {
+    if (!invoice.referenceInvoiceId) return null;
+
+    return (
+        <div className="mt-6 p-4 border border-slate-200 rounded-lg text-left break-inside-avoid">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Documento de referencia</p>
+            <p className="text-xs text-slate-600"><span className="font-bold">Factura:</span> <span className="font-mono">#{invoice.referenceInvoiceId}</span></p>
+            {invoice.adjustmentReason && (
+                <p className="text-xs text-slate-600"><span className="font-bold">Motivo:</span> {invoice.adjustmentReason}</p>
+            )}
+            {isCreditNote && (
+                <p className="text-[10px] text-slate-400 mt-1">{invoice.adjustmentScope === 'PARTIAL' ? 'Crédito parcial' : 'Crédito total'} aplicado al saldo de la factura.</p>
+            )}
+        </div>
+    );
+  };
+
+  const renderInstallmentSchedule = () => {
+    const schedule = getInstallmentSchedule(invoice, []);
+    if (schedule.length === 0) return null;
+
+    return (
+        <div className="mt-6 p-4 border border-slate-200 rounded-lg text-left break-inside-avoid">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Plan de Pagos</p>
+            <table className="w-full text-xs text-slate-600">
+                <tbody>
+                    {schedule.map(s => (
+                        <tr key={s.installment.id}>
+                            <td className="py-1 font-bold">{formatInstallmentLabel(s)}</td>
+                            <td className="py-1">Vence {s.dueDate.toLocaleDateString()}</td>
+                            <td className="py-1 text-right font-mono">{invoice.currency} {s.amount.toFixed(2)}</td>
+                            <td className={`py-1 pl-3 text-right text-[10px] font-bold uppercase ${s.status === 'PAID' ? 'text-green-600' : 'text-slate-400'}`}>
+                                {s.status === 'PAID' ? 'Pagada' : s.status === 'PARTIAL' ? 'Abonada' : 'Pendiente'}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+  };
+
+  const renderElectronicInvoiceInfo = () => {
+    const fe = invoice.electronicInvoice;
+    if (isQuote || !fe || fe.status !== 'AUTORIZADA') return null;
+
+    return (
+        <div className="mt-6 p-4 border border-slate-200 rounded-lg text-left break-inside-avoid">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">
+                Factura Electrónica {fe.environment === 'PRUEBAS' ? '· Ambiente de Pruebas' : ''}
+            </p>
+            <p className="text-[10px] text-slate-500"><span className="font-bold">CUFE:</span> <span className="font-mono break-all">{fe.cufe}</span></p>
+            <p className="text-[10px] text-slate-500"><span className="font-bold">Autorización:</span> <span className="font-mono">{fe.authorizationNumber}</span></p>
+            {fe.authorizedAt && (
+                <p className="text-[10px] text-slate-500"><span className="font-bold">Fecha de autorización:</span> {new Date(fe.authorizedAt).toLocaleString()}</p>
+            )}
+            <p className="text-[10px] text-slate-400 mt-1">Consulte la validez de este documento en el portal de la DGI con el CUFE.</p>
+        </div>
+    );
+  };
+
   const renderModern = () => (
     <div className="bg-white shadow-xl rounded-xl overflow-hidden min-h-[1050px] flex flex-col relative print:shadow-none w-[190mm] border border-slate-100">
       <div className="h-4 w-full" style={{ backgroundColor: color }}></div>
@@ -135,7 +206,7 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
 
           <div className="text-right">
             <h2 className="text-4xl font-bold text-slate-200 uppercase tracking-widest mb-2">
-              {isQuote ? 'Cotización' : 'Factura'}
+              {docLabel}
             </h2>
             <p className="font-mono text-xl font-semibold text-slate-700">#{invoice.id.toUpperCase()}</p>
             <div className="mt-4 space-y-1 text-sm">
@@ -213,7 +284,7 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
                   
                   {renderPaymentButtons()}
 
-                  {issuer.paymentIntegration?.stripeSecretKey && !isQuote && (
+                  {hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey') && !isQuote && (
                       <div className="mt-4 p-4 border border-dashed border-indigo-200 rounded-lg text-center bg-indigo-50/30">
                           <p className="text-[10px] text-slate-400 uppercase font-bold mb-2">Pago Electrónico Directo</p>
                           <div className="text-indigo-600 font-bold text-sm flex items-center justify-center gap-1">
@@ -236,12 +307,12 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
                     <span className="text-green-600 font-medium">-${discountAmount.toFixed(2)}</span>
                 </div>
               )}
-              {taxTotal > 0 && (
-                <div className="flex justify-between text-slate-500 text-lg">
-                  <span>ITBMS (7%)</span>
-                  <span>${taxTotal.toFixed(2)}</span>
+              {showTaxBreakdown && taxBreakdown.map(line => (
+                <div key={line.code} className="flex justify-between text-slate-500 text-lg">
+                  <span>{line.label} <span className="text-xs text-slate-400">s/ ${line.base.toFixed(2)}</span></span>
+                  <span>${line.tax.toFixed(2)}</span>
                 </div>
-              )}
+              ))}
               <div className="pt-6 border-t-2 border-slate-100 flex justify-between items-end">
                   <span className="font-bold text-[#1c2938] text-xl">Total</span>
                   <span className="font-bold text-[#1c2938] text-4xl" style={{ color: color }}>
@@ -269,6 +340,9 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
               )}
             </div>
         </div>
+        {renderInstallmentSchedule()}
+        {renderReferenceInfo()}
+        {renderElectronicInvoiceInfo()}
       </div>
       <div className="bg-slate-50 p-8 text-center border-t border-slate-100 mt-auto">
           <p className="text-slate-400 text-xs font-medium">Generado con Kônsul Bills</p>
@@ -291,7 +365,7 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
              <p className="text-slate-600 text-sm mt-1">{invoice.clientTaxId}</p>
           </div>
           <div className="text-right">
-             <h2 className="text-2xl font-serif font-bold text-slate-800">{isQuote ? 'COTIZACIÓN' : 'FACTURA'}</h2>
+             <h2 className="text-2xl font-serif font-bold text-slate-800">{docLabel.toUpperCase()}</h2>
              <p className="text-slate-500 text-lg">#{invoice.id}</p>
              <p className="text-slate-400 text-sm mt-1">{new Date(invoice.date).toLocaleDateString()}</p>
           </div>
@@ -333,12 +407,12 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
                     <span>-${discountAmount.toFixed(2)}</span>
                 </div>
              )}
-             {taxTotal > 0 && (
-                 <div className="flex justify-between text-slate-600 font-serif text-sm mb-2">
-                    <span>Impuesto:</span>
-                    <span>${taxTotal.toFixed(2)}</span>
+             {showTaxBreakdown && taxBreakdown.map((line, idx) => (
+                 <div key={line.code} className={`flex justify-between text-slate-600 font-serif text-sm ${idx === taxBreakdown.length - 1 ? 'mb-2' : ''}`}>
+                    <span>{line.label} <span className="text-xs text-slate-400">(s/ ${line.base.toFixed(2)})</span>:</span>
+                    <span>${line.tax.toFixed(2)}</span>
                  </div>
-             )}
+             ))}
              <div className="flex justify-between font-serif font-bold text-xl text-slate-900 border-t border-slate-300 pt-2">
                 <span>Total:</span>
                 <span>{invoice.currency} ${invoice.total.toFixed(2)}</span>
@@ -362,7 +436,7 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
                
                {renderPaymentButtons()}
 
-               {issuer.paymentIntegration?.stripeSecretKey && !isQuote && (
+               {hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey') && !isQuote && (
                    <div className="mt-4 p-4 border border-slate-200 rounded text-center">
                        <p className="font-serif text-[10px] text-slate-400 uppercase font-bold mb-1">Pago Directo Online</p>
                        <div className="text-slate-900 font-serif font-bold text-sm">
@@ -373,6 +447,10 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
            </div>
        )}
 
+       {renderInstallmentSchedule()}
+       {renderReferenceInfo()}
+       {renderElectronicInvoiceInfo()}
+
        <div className="mt-auto text-center text-slate-400 text-xs font-serif italic border-t border-slate-100 pt-8">
           Gracias por su confianza. {issuer.name}
        </div>
@@ -390,7 +468,7 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
              </div>
           </div>
           <div className="text-right">
-             <p className="text-sm font-bold text-slate-900">{isQuote ? 'Cotización' : 'Factura'} {invoice.id}</p>
+             <p className="text-sm font-bold text-slate-900">{docLabel} {invoice.id}</p>
              <p className="text-xs text-slate-400">{new Date(invoice.date).toLocaleDateString()}</p>
           </div>
        </div>
@@ -416,22 +494,22 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
 
         <div className="flex justify-end mb-8">
           <div className="text-right space-y-1">
-             <div className={`flex justify-end gap-8 text-sm text-slate-500 ${discountAmount <= 0 && taxTotal <= 0 ? 'pb-4' : ''}`}>
+             <div className={`flex justify-end gap-8 text-sm text-slate-500 ${discountAmount <= 0 && !showTaxBreakdown ? 'pb-4' : ''}`}>
                 <span>Subtotal</span>
                 <span>${subtotal.toFixed(2)}</span>
              </div>
              {discountAmount > 0 && (
-                <div className={`flex justify-end gap-8 text-sm text-slate-500 ${taxTotal <= 0 ? 'pb-4' : ''}`}>
+                <div className={`flex justify-end gap-8 text-sm text-slate-500 ${!showTaxBreakdown ? 'pb-4' : ''}`}>
                     <span>Descuento</span>
                     <span>-${discountAmount.toFixed(2)}</span>
                 </div>
              )}
-             {taxTotal > 0 && (
-                 <div className="flex justify-end gap-8 text-sm text-slate-500 pb-4">
-                    <span>Impuesto</span>
-                    <span>${taxTotal.toFixed(2)}</span>
+             {showTaxBreakdown && taxBreakdown.map((line, idx) => (
+                 <div key={line.code} className={`flex justify-end gap-8 text-sm text-slate-500 ${idx === taxBreakdown.length - 1 ? 'pb-4' : ''}`}>
+                    <span>{line.label} <span className="text-xs text-slate-400">s/ ${line.base.toFixed(2)}</span></span>
+                    <span>${line.tax.toFixed(2)}</span>
                  </div>
-             )}
+             ))}
              
              <p className="text-xs text-slate-400 uppercase tracking-widest mb-1 pt-4 border-t border-slate-100">Total a Pagar</p>
              <h2 className="text-5xl font-bold text-slate-900 tracking-tighter" style={{ color: color }}>
@@ -450,7 +528,7 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
                     </div>
                     <div>
                         {renderPaymentButtons()}
-                        {issuer.paymentIntegration?.stripeSecretKey && (
+                        {hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey') && (
                             <div className="mt-4 text-right">
                                 <div 
                                   className="text-xs font-bold uppercase tracking-widest"
@@ -470,6 +548,10 @@ const DocumentTemplate: React.FC<DocumentTemplateProps> = ({
                {invoice.notes}
            </div>
        )}
+
+       {renderInstallmentSchedule()}
+       {renderReferenceInfo()}
+       {renderElectronicInvoiceInfo()}
     </div>
   );
 
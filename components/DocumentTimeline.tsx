@@ -10,21 +10,30 @@ import {
   CreditCard,
   TrendingUp,
   AlertCircle,
-  Smartphone
+  Smartphone,
+  FileMinus,
+  FilePlus,
+  Percent,
+  MessageCircle,
+  ListTodo,
+  History
 } from 'lucide-react';
-import { TimelineEvent } from '../types';
+import { Invoice, TimelineEvent } from '../types';
+import { DUNNING_CHANNEL_LABELS, DUNNING_TONE_LABELS } from '../services/dunningService';
 
 interface DocumentTimelineProps {
   events?: TimelineEvent[];
-  type: 'Invoice' | 'Quote' | 'Expense';
+  type: Invoice['type'];
   successProbability?: number;
 }
 
 const DocumentTimeline: React.FC<DocumentTimelineProps> = ({ events = [], type, successProbability }) => {
   
   // Helper to get icon
-  const getIcon = (eventType: string) => {
-    switch (eventType) {
+  const getIcon = (event: TimelineEvent) => {
+    if (event.dunning?.channel === 'WHATSAPP') return <MessageCircle className="w-4 h-4" />;
+    if (event.dunning?.channel === 'TASK') return <ListTodo className="w-4 h-4" />;
+    switch (event.type) {
       case 'CREATED': return <FileText className="w-4 h-4" />;
       case 'SENT': return <Mail className="w-4 h-4" />;
       case 'OPENED': return <Eye className="w-4 h-4" />;
@@ -32,6 +41,10 @@ const DocumentTimeline: React.FC<DocumentTimelineProps> = ({ events = [], type,
       case 'APPROVED': return <CheckCircle2 className="w-4 h-4" />;
       case 'PAID': return <CreditCard className="w-4 h-4" />;
       case 'REMINDER': return <Clock className="w-4 h-4" />;
+      case 'CREDIT_NOTE': return <FileMinus className="w-4 h-4" />;
+      case 'DEBIT_NOTE': return <FilePlus className="w-4 h-4" />;
+      case 'LATE_FEE': return <Percent className="w-4 h-4" />;
+      case 'EDITED': return event.version ? <History className="w-4 h-4" /> : <FileText className="w-4 h-4" />;
       default: return <FileText className="w-4 h-4" />;
     }
   };
@@ -94,7 +107,7 @@ const DocumentTimeline: React.FC<DocumentTimelineProps> = ({ events = [], type,
                 ${isLast ? 'bg-[#1c2938] text-white scale-110' : 'bg-slate-50 text-slate-400'}
                 ${isOpened ? 'bg-blue-50 text-blue-500' : ''}
               `}>
-                {getIcon(event.type)}
+                {getIcon(event)}
                 {isLast && (
                    <span className="absolute -top-1 -right-1 w-3 h-3 bg-[#27bea5] rounded-full animate-pulse border-2 border-white"></span>
                 )}
@@ -119,6 +132,57 @@ const DocumentTimeline: React.FC<DocumentTimelineProps> = ({ events = [], type,
                     <Smartphone className="w-3 h-3" /> Leído en iPhone
                   </div>
                 )}
+                {event.type === 'CREDIT_NOTE' && (
+                  <div className="mt-2 inline-flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 text-[10px] font-bold rounded-md">
+                    <FileMinus className="w-3 h-3" /> Nota de Crédito
+                  </div>
+                )}
+                {event.type === 'DEBIT_NOTE' && (
+                  <div className="mt-2 inline-flex items-center gap-1 px-2 py-1 bg-indigo-50 text-indigo-700 text-[10px] font-bold rounded-md">
+                    <FilePlus className="w-3 h-3" /> Nota de Débito
+                  </div>
+                )}
+                {event.dunning && (
+                  <div className="mt-2 flex flex-wrap items-center gap-1">
+                    <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 text-[10px] font-bold rounded-md">
+                      <Clock className="w-3 h-3" /> Paso {event.dunning.stepIndex + 1}/{event.dunning.stepCount} · {event.dunning.sequenceName}
+                    </span>
+                    <span className="px-2 py-1 bg-slate-50 text-slate-500 text-[10px] font-bold rounded-md">
+                      {DUNNING_CHANNEL_LABELS[event.dunning.channel]} · {DUNNING_TONE_LABELS[event.dunning.tone]}
+                    </span>
+                    {event.dunning.actionUrl && (
+                      <a
+                        href={event.dunning.actionUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 text-[10px] font-bold rounded-md hover:bg-green-100"
+                      >
+                        <MessageCircle className="w-3 h-3" /> Enviar por WhatsApp
+                      </a>
+                    )}
+                  </div>
+                )}
+                {event.version && (
+                  <div className="mt-2 inline-flex items-center gap-1 px-2 py-1 bg-violet-50 text-violet-700 text-[10px] font-bold rounded-md">
+                    <History className="w-3 h-3" /> Versión {event.version}
+                  </div>
+                )}
+                {event.changes && event.changes.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-[11px] bg-slate-50 rounded-lg p-2 border border-slate-100">
+                    {event.changes.map((change, i) => (
+                      <li key={i} className="text-slate-500">
+                        <span className="font-bold text-slate-600">{change.field}:</span>{' '}
+                        <span className="line-through text-rose-500">{change.before}</span>{' → '}
+                        <span className="text-emerald-600 font-medium">{change.after}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {event.type === 'LATE_FEE' && (
+                  <div className="mt-2 inline-flex items-center gap-1 px-2 py-1 bg-rose-50 text-rose-700 text-[10px] font-bold rounded-md">
+                    <Percent className="w-3 h-3" /> Intereses por Mora
+                  </div>
+                )}
                 
                 <p className="text-[10px] text-slate-300 mt-1">
                    {new Date(event.timestamp).toLocaleDateString()}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { DunningSequence, DunningStep, DunningChannel, DunningTone } from '../types';
+import {
+  createDunningSequence, createDunningStep, DUNNING_CHANNEL_LABELS, DUNNING_TONE_LABELS,
+  DEFAULT_DUNNING_TEMPLATES, DUNNING_TEMPLATE_PLACEHOLDERS
+} from '../services/dunningService';
+
+interface DunningSequenceEditorProps {
+  sequences: DunningSequence[];
+  onChange: (sequences: DunningSequence[]) => void;
+}
+
+const inputClass = 'w-full p-2 bg-white border border-slate-200 rounded-xl text-xs font-medium text-slate-600 outline-none focus:border-[#27bea5]';
+
+const DunningSequenceEditor: React.FC<DunningSequenceEditorProps> = ({ sequences, onChange }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const updateSequence = (id: string, changes: Partial<DunningSequence>) =>
+    onChange(sequences.map(s => s.id === id ? { ...s, ...changes } : s));
+
+  const updateStep = (sequence: DunningSequence, stepId: string, changes: Partial<DunningStep>) =>
+    updateSequence(sequence.id, { steps: sequence.steps.map(st => st.id === stepId ? { ...st, ...changes } : st) });
+
+  const handleAddSequence = () => {
+    const sequence = createDunningSequence(`Secuencia ${sequences.length + 1}`);
+    onChange([...sequences, sequence]);
+    setOpenId(sequence.id);
+  };
+
+  const handleAddStep = (sequence: DunningSequence) => {
+    const lastOffset = Math.max(0, ...sequence.steps.map(st => st.dayOffset));
+    updateSequence(sequence.id, { steps: [...sequence.steps, createDunningStep(lastOffset + 7)] });
+  };
+
+  return (
+    <div className="space-y-3">
+      {sequences.map(sequence => {
+        const isOpen = openId === sequence.id;
+        return (
+          <div key={sequence.id} className="rounded-2xl border border-slate-100 bg-slate-50/50">
+            <div className="flex items-center gap-2 p-3">
+              <input
+                value={sequence.name}
+                onChange={(e) => updateSequence(sequence.id, { name: e.target.value })}
+                className="flex-1 bg-transparent text-sm font-bold text-[#1c2938] outline-none"
+              />
+              <span className="text-[10px] font-bold text-slate-400">{sequence.steps.length} pasos</span>
+              <button type="button" onClick={() => setOpenId(isOpen ? null : sequence.id)} className="p-1 text-slate-400 hover:text-[#1c2938]">
+                {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+              <button type="button" onClick={() => onChange(sequences.filter(s => s.id !== sequence.id))} className="p-1 text-slate-300 hover:text-red-500">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {isOpen && (
+              <div className="px-3 pb-3 space-y-3 animate-in fade-in">
+                {[...sequence.steps].sort((a, b) => a.dayOffset - b.dayOffset).map((step, index) => (
+                  <div key={step.id} className="p-3 bg-white rounded-xl border border-slate-100 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Paso {index + 1}</span>
+                      <button
+                        type="button"
+                        onClick={() => updateSequence(sequence.id, { steps: sequence.steps.filter(st => st.id !== step.id) })}
+                        className="p-1 text-slate-300 hover:text-red-500"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 block">Día tras vencer</label>
+                        <input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={step.dayOffset}
+                          onChange={(e) => updateStep(sequence, step.id, { dayOffset: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 block">Canal</label>
+                        <select value={step.channel} onChange={(e) => updateStep(sequence, step.id, { channel: e.target.value as DunningChannel })} className={inputClass}>
+                          {(Object.keys(DUNNING_CHANNEL_LABELS) as DunningChannel[]).map(c => <option key={c} value={c}>{DUNNING_CHANNEL_LABELS[c]}</option>)}
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 block">Tono</label>
+                        <select value={step.tone} onChange={(e) => updateStep(sequence, step.id, { tone: e.target.value as DunningTone })} className={inputClass}>
+                          {(Object.keys(DUNNING_TONE_LABELS) as DunningTone[]).map(t => <option key={t} value={t}>{DUNNING_TONE_LABELS[t]}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                    <textarea
+                      value={step.template || ''}
+                      onChange={(e) => updateStep(sequence, step.id, { template: e.target.value || undefined })}
+                      placeholder={DEFAULT_DUNNING_TEMPLATES[step.tone]}
+                      className={`${inputClass} h-20 resize-none`}
+                    />
+                    <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!step.escalateToUncollectible}
+                        onChange={(e) => updateStep(sequence, step.id, { escalateToUncollectible: e.target.checked })}
+                        className="accent-red-500"
+                      />
+                      <AlertTriangle className="w-3 h-3 text-red-400" /> Marcar la factura como Incobrable
+                    </label>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => handleAddStep(sequence)}
+                  className="w-full py-2 rounded-xl border border-dashed border-slate-300 text-xs font-bold text-slate-400 hover:text-[#27bea5] hover:border-[#27bea5] flex items-center justify-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Agregar paso
+                </button>
+                <p className="text-[10px] text-slate-400">Variables: {DUNNING_TEMPLATE_PLACEHOLDERS.join(' ')}. Deja el mensaje vacío para usar el texto del tono.</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={handleAddSequence}
+        className="w-full py-3 rounded-2xl border-2 border-dashed border-slate-200 text-sm font-bold text-slate-400 hover:text-[#27bea5] hover:border-[#27bea5] flex items-center justify-center gap-2 transition-all"
+      >
+        <Plus className="w-4 h-4" /> Nueva secuencia
+      </button>
+    </div>
+  );
+};
+
+export default DunningSequenceEditor;
@@ -9,6 +9,9 @@ import {
    Save, CheckCircle2, Edit2, Repeat
 } from 'lucide-react';
 import { Invoice, UserProfile } from '../types';
+import {
+   getRecurringExpenseCosts, getUpcomingBills, isPendingRecurringExpense, isRecurringExpense
+} from '../services/recurringExpenseService';
 
 interface ExpenseTrackerProps {
    invoices: Invoice[];
@@ -19,27 +22,6 @@ interface ExpenseTrackerProps {
    onUpdateProfile?: (profile: UserProfile) => Promise<void>;
 }
 
-export const calculateMonthlyRecurrenceCost = (doc: Invoice): number => {
-  if (!doc.recurrence || !doc.recurrence.isRecurrent) return 0;
-  const total = doc.total;
-  switch (doc.recurrence.frequency) {
-    case 'WEEKLY':
-      return total * (52 / 12);
-    case 'BIWEEKLY':
-      return total * (26 / 12);
-    case 'MONTHLY':
-      return total;
-    case 'BIMONTHLY':
-      return total / 2;
-    case 'QUARTERLY':
-      return total / 3;
-    case 'ANNUAL':
-      return total / 12;
-    default:
-      return 0;
-  }
-};
-
 interface ProviderStats {
    name: string;
    totalSpend: number;
@@ -54,13 +36,15 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ invoices, currencySymbo
    const [calculatorMode, setCalculatorMode] = useState(false);
    const [activeTab, setActiveTab] = useState<'TRANSACTIONS' | 'PROVIDERS' | 'RECURRENTS'>('TRANSACTIONS');
 
-   // Calculate recurrent expenses total
-   const recurrentExpensesMonthlyTotal = useMemo(() => {
-      const expenses = invoices.filter(i => i.type === 'Expense');
-      return expenses
-         .filter(e => e.recurrence?.isRecurrent)
-         .reduce((acc, curr) => acc + calculateMonthlyRecurrenceCost(curr), 0);
-   }, [invoices]);
+   // Calculate recurrent expenses total (confirmed amounts, template amount until the first one)
+   const recurringCosts = useMemo(() => getRecurringExpenseCosts(invoices), [invoices]);
+   const recurrentExpensesMonthlyTotal = recurringCosts.confirmed;
+
+   // Recurring expenses and their occurrences waiting for the real receipt
+   const recurringExpenses = useMemo(() => invoices.filter(isRecurringExpense), [invoices]);
+   const pendingExpenses = useMemo(() =>
+      invoices.filter(isPendingRecurringExpense).sort((a, b) => a.date.localeCompare(b.date)), [invoices]);
+   const upcomingBills = useMemo(() => getUpcomingBills(invoices), [invoices]);
 
    // Calculator & TimeRange State
    type TimeRange = 'THIS_MONTH' | 'LAST_QUARTER' | 'THIS_YEAR' | 'CUSTOM';
@@ -139,8 +123,8 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ invoices, currencySymbo
             return acc + collected;
          }, 0);
 
-      // 2. Expenses List (Raw)
-      const expenses = filteredInvoices.filter(i => i.type === 'Expense');
+      // 2. Expenses List (Raw) - pending recurring occurrences are not spent yet
+      const expenses = filteredInvoices.filter(i => i.type === 'Expense' && !isPendingRecurringExpense(i));
       const expensesTotal = expenses.reduce((acc, curr) => acc + curr.total, 0);
 
       // 3. Providers Aggregation
@@ -437,7 +421,7 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ invoices, currencySymbo
                                  />
                               </div>
                               <p className="text-[10px] text-slate-400 font-medium ml-1">
-                                 Autocompletado desde tus gastos recurrentes
+                                 Confirmado {currencySymbol}{recurringCosts.confirmed.toFixed(0)} · Proyectado {currencySymbol}{recurringCosts.projected.toFixed(0)}
                               </p>
                            </div>
 
@@ -499,6 +483,39 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ invoices, currencySymbo
             </div>
          )}
 
+         {/* UPCOMING BILLS */}
+         {upcomingBills.length > 0 && (
+            <div className="bg-amber-50 border border-amber-100 rounded-[2rem] p-6 animate-in fade-in">
+               <div className="flex items-center gap-2 mb-4">
+                  <AlertCircle className="w-5 h-5 text-amber-500" />
+                  <h3 className="font-bold text-[#1c2938]">Próximos pagos</h3>
+               </div>
+               <div className="space-y-2">
+                  {upcomingBills.map(({ expense, dueDate, daysUntil }) => (
+                     <div key={expense.id} className="bg-white rounded-2xl px-4 py-3 flex items-center justify-between gap-4 border border-amber-100">
+                        <div>
+                           <p className="font-bold text-[#1c2938] text-sm">{expense.items[0]?.description || 'Gasto Recurrente'}</p>
+                           <p className={`text-xs font-medium ${daysUntil < 0 ? 'text-rose-500' : 'text-slate-400'}`}>
+                              {expense.clientName || 'Proveedor General'} · {daysUntil < 0 ? `Vencido hace ${-daysUntil} días` : daysUntil === 0 ? 'Vence hoy' : `Vence en ${daysUntil} días`} ({dueDate.toLocaleDateString()})
+                           </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                           <span className="font-bold text-[#1c2938]">{currencySymbol} {expense.total.toLocaleString()}</span>
+                           {onEditExpense && (
+                              <button
+                                 onClick={() => onEditExpense(expense)}
+                                 className="px-3 py-2 bg-[#1c2938] text-white text-xs font-bold rounded-xl hover:bg-[#27bea5] transition-colors"
+                              >
+                                 Confirmar
+                              </button>
+                           )}
+                        </div>
+                     </div>
+                  ))}
+               </div>
+            </div>
+         )}
+
          {/* CONTENT TABS */}
          <div className="flex justify-center w-full">
             <div className="bg-white p-1.5 rounded-2xl shadow-sm border border-slate-100 flex overflow-x-auto max-w-full custom-scrollbar">
@@ -609,9 +626,9 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ invoices, currencySymbo
                </div>
 
                <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-50 overflow-hidden min-h-[300px]">
-                  {expensesList.filter(e => e.recurrence?.isRecurrent).length > 0 ? (
+                  {recurringExpenses.length > 0 ? (
                      <div className="divide-y divide-slate-50">
-                        {expensesList.filter(e => e.recurrence?.isRecurrent).map(expense => (
+                        {recurringExpenses.map(expense => (
                            <div key={expense.id} className="p-6 md:px-8 flex flex-col md:flex-row items-start md:items-center justify-between hover:bg-slate-50 transition-colors group gap-4 relative">
                               <div className="flex items-center gap-5">
                                  <div className="w-14 h-14 rounded-[1.2rem] bg-emerald-50 text-[#27bea5] flex items-center justify-center group-hover:scale-110 group-hover:shadow-md transition-all duration-300 shadow-sm border border-emerald-100">
@@ -662,6 +679,43 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ invoices, currencySymbo
                      </div>
                   )}
                </div>
+
+               {/* Occurrences generated ahead of time, waiting for the real receipt */}
+               {pendingExpenses.length > 0 && (
+                  <>
+                     <h4 className="font-bold text-[#1c2938] text-lg mt-10 mb-4 px-4 flex items-center gap-2">
+                        <Calendar className="w-4 h-4 text-slate-400" /> Por confirmar
+                     </h4>
+                     <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-50 overflow-hidden divide-y divide-slate-50">
+                        {pendingExpenses.map(expense => (
+                           <div key={expense.id} className="p-6 md:px-8 flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+                              <div>
+                                 <h4 className="font-bold text-[#1c2938] mb-1">{expense.items[0]?.description || 'Gasto Recurrente'}</h4>
+                                 <div className="flex items-center gap-3 text-xs text-slate-400 font-medium">
+                                    <span className="flex items-center gap-1"><Calendar className="w-3 h-3" /> {new Date(`${expense.date.slice(0, 10)}T00:00:00`).toLocaleDateString()}</span>
+                                    <span className="w-1 h-1 rounded-full bg-slate-300"></span>
+                                    <span>{expense.clientName || 'Proveedor General'}</span>
+                                 </div>
+                              </div>
+                              <div className="flex items-center gap-4 w-full md:w-auto justify-between md:justify-end">
+                                 <span className="px-3 py-1 bg-amber-50 text-amber-600 text-[10px] font-bold uppercase tracking-wide rounded-lg">Previsto</span>
+                                 <p className="font-bold text-slate-400 text-xl tracking-tight">
+                                    {currencySymbol} {expense.total.toLocaleString()}
+                                 </p>
+                                 {onEditExpense && (
+                                    <button
+                                       onClick={() => onEditExpense(expense)}
+                                       className="px-4 py-2 bg-[#1c2938] text-white text-xs font-bold rounded-xl hover:bg-[#27bea5] transition-colors flex items-center gap-1"
+                                    >
+                                       <Receipt className="w-3 h-3" /> Confirmar
+                                    </button>
+                                 )}
+                              </div>
+                           </div>
+                        ))}
+                     </div>
+                  </>
+               )}
             </div>
          )}
 
@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { UploadCloud, Loader2, ArrowLeft, Check, X, Camera, FileText, Clock } from 'lucide-react';
 import { UserProfile, Invoice, RecurrenceFrequency } from '../types';
 import { parseExpenseImage, AI_ERROR_BLOCKED } from '../services/geminiService';
+import { isPendingRecurringExpense } from '../services/recurringExpenseService';
 
 interface ExpenseWizardProps {
     currentUser: UserProfile;
@@ -13,7 +14,9 @@ interface ExpenseWizardProps {
 
 const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCancel, initialData }) => {
     const isEditing = !!initialData;
-    const [step, setStep] = useState<'UPLOAD' | 'REVIEW'>(isEditing ? 'REVIEW' : 'UPLOAD');
+    // Pending occurrence of a recurring expense: confirmed by attaching the real receipt
+    const isConfirming = !!initialData && isPendingRecurringExpense(initialData);
+    const [step, setStep] = useState<'UPLOAD' | 'REVIEW'>(isEditing && !isConfirming ? 'REVIEW' : 'UPLOAD');
     const [uploadedImage, setUploadedImage] = useState<string | null>(initialData?.receiptUrl || null);
     const [fileType, setFileType] = useState<'image' | 'pdf'>('image');
     const [isLoading, setIsLoading] = useState(false);
@@ -28,6 +31,8 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
         // New Fields
         isDeductible: boolean;
         isValidDoc: boolean; // Has fiscal invoice?
+        supplierTaxId: string;
+        supplierInvoiceNumber: string;
     }>({
         clientName: initialData?.clientName || '',
         amount: initialData?.total || 0,
@@ -35,7 +40,9 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
         concept: initialData?.items?.[0]?.description || '',
         date: initialData?.date ? new Date(initialData.date).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
         isDeductible: initialData ? initialData.expenseDeductibility !== 'NONE' : true,
-        isValidDoc: initialData ? (initialData.isValidFiscalDoc ?? true) : true
+        isValidDoc: initialData ? (initialData.isValidFiscalDoc ?? true) : true,
+        supplierTaxId: initialData?.clientTaxId || '',
+        supplierInvoiceNumber: initialData?.supplierInvoiceNumber || ''
     });
 
     const [isRecurrent, setIsRecurrent] = useState(initialData?.recurrence?.isRecurrent || false);
@@ -75,7 +82,9 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
                                 concept: result.concept || 'Gasto Varios',
                                 date: result.date || new Date().toISOString().split('T')[0],
                                 isDeductible: true,
-                                isValidDoc: true
+                                isValidDoc: true,
+                                supplierTaxId: '',
+                                supplierInvoiceNumber: ''
                             });
                         }
                     } catch (err) {
@@ -89,7 +98,7 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
                     }
                 } else {
                     // Manual flow if AI blocked
-                    setExpenseData({ ...expenseData, concept: file.name });
+                    setExpenseData({ ...expenseData, concept: isConfirming ? expenseData.concept : file.name });
                     setStep('REVIEW');
                 }
             };
@@ -116,6 +125,8 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
             // NEW FISCAL FIELDS
             expenseDeductibility: expenseData.isDeductible ? 'FULL' : 'NONE',
             isValidFiscalDoc: expenseData.isValidDoc,
+            clientTaxId: expenseData.supplierTaxId.trim() || undefined,
+            supplierInvoiceNumber: expenseData.isValidDoc ? (expenseData.supplierInvoiceNumber.trim() || undefined) : undefined,
 
             items: [{
                 id: initialData?.items?.[0]?.id || Date.now().toString(),
@@ -125,7 +136,19 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
                 tax: 0
             }],
             receiptUrl: uploadedImage || undefined,
-            recurrence: isRecurrent ? {
+            // Occurrences generated from a recurring expense stay linked to it
+            recurrenceParentId: initialData?.recurrenceParentId,
+            recurrenceCycle: initialData?.recurrenceCycle,
+            dueDate: initialData?.recurrenceParentId ? initialData.dueDate : undefined,
+            timeline: isConfirming ? [...(initialData?.timeline || []), {
+                id: Date.now().toString(),
+                type: 'PAID',
+                title: 'Gasto recurrente confirmado',
+                description: uploadedImage ? 'Con comprobante adjunto' : undefined,
+                timestamp: new Date().toISOString()
+            }] : initialData?.timeline,
+            recurrence: isRecurrent && !initialData?.recurrenceParentId ? {
+                ...initialData?.recurrence, // Keeps pause / skipped cycles
                 isRecurrent: true,
                 frequency: recurrenceFreq,
                 totalCycles: totalCycles
@@ -137,7 +160,12 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
     if (step === 'UPLOAD') {
         return (
             <div className="max-w-2xl mx-auto p-6 bg-white rounded-3xl shadow-lg text-center mt-10">
-                <h2 className="text-2xl font-bold text-[#1c2938] mb-4">Nuevo Gasto</h2>
+                <h2 className="text-2xl font-bold text-[#1c2938] mb-4">{isConfirming ? 'Confirmar Gasto Recurrente' : 'Nuevo Gasto'}</h2>
+                {isConfirming && (
+                    <p className="text-sm text-slate-500 -mt-2 mb-4">
+                        {initialData!.items[0]?.description} · {initialData!.currency} {initialData!.total.toFixed(2)} previsto. Adjunta el comprobante real.
+                    </p>
+                )}
                 <div className="border-2 border-dashed border-slate-200 rounded-2xl p-10 flex flex-col items-center justify-center gap-4 hover:bg-slate-50 transition-colors relative min-h-[300px] overflow-hidden">
                     <input type="file" onChange={handleImageUpload} accept="image/*,application/pdf" className="absolute inset-0 opacity-0 cursor-pointer z-10" disabled={isLoading} />
 
@@ -180,7 +208,7 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
         <div className="max-w-4xl mx-auto p-6 bg-white rounded-3xl shadow-lg mt-10">
             <div className="flex items-center gap-4 mb-6">
                 <button onClick={() => setStep('UPLOAD')} className="p-2 hover:bg-slate-100 rounded-full"><ArrowLeft className="w-6 h-6" /></button>
-                <h2 className="text-2xl font-bold text-[#1c2938]">{isEditing ? 'Editar Gasto' : 'Revisar Detalles'}</h2>
+                <h2 className="text-2xl font-bold text-[#1c2938]">{isConfirming ? 'Confirmar Gasto' : isEditing ? 'Editar Gasto' : 'Revisar Detalles'}</h2>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -252,6 +280,29 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
                                 </div>
                             </label>
 
+                            {expenseData.isValidDoc && (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">RUC Proveedor</label>
+                                        <input
+                                            value={expenseData.supplierTaxId}
+                                            onChange={(e) => setExpenseData({ ...expenseData, supplierTaxId: e.target.value })}
+                                            placeholder="155698882-2-2021 DV 25"
+                                            className="w-full p-3 bg-slate-50 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-[#27bea5]"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">N° Factura</label>
+                                        <input
+                                            value={expenseData.supplierInvoiceNumber}
+                                            onChange={(e) => setExpenseData({ ...expenseData, supplierInvoiceNumber: e.target.value })}
+                                            placeholder="Para el Informe de Compras"
+                                            className="w-full p-3 bg-slate-50 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-[#27bea5]"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
                             <label className="flex items-center gap-3 p-3 border rounded-xl cursor-pointer hover:bg-slate-50 transition-colors">
                                 <input
                                     type="checkbox"
@@ -268,56 +319,58 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
                     </div>
 
                     {/* RECURRENCE CHECKS */}
-                    <div className="pt-4 border-t border-slate-100">
-                        <p className="text-xs font-bold text-[#27bea5] uppercase mb-3 flex items-center gap-1">
-                            <Clock className="w-3 h-3" /> Configuración de Recurrencia
-                        </p>
-
-                        <div className="space-y-3">
-                            <label className="flex items-center gap-3 p-3 border rounded-xl cursor-pointer hover:bg-slate-50 transition-colors">
-                                <input
-                                    type="checkbox"
-                                    checked={isRecurrent}
-                                    onChange={(e) => setIsRecurrent(e.target.checked)}
-                                    className="w-5 h-5 text-[#27bea5] rounded focus:ring-0"
-                                />
-                                <div className="flex-1">
-                                    <span className="block font-bold text-slate-700 text-sm">¿Es un Gasto Recurrente?</span>
-                                    <span className="text-xs text-slate-400">Marcar si este costo se repite periódicamente (ej: alquiler, suscripción, planilla)</span>
-                                </div>
-                            </label>
+                    {!initialData?.recurrenceParentId && (
+                        <div className="pt-4 border-t border-slate-100">
+                            <p className="text-xs font-bold text-[#27bea5] uppercase mb-3 flex items-center gap-1">
+                                <Clock className="w-3 h-3" /> Configuración de Recurrencia
+                            </p>
 
-                            {isRecurrent && (
-                                <div className="grid grid-cols-2 gap-4 p-3 border rounded-xl bg-slate-50 animate-in fade-in duration-300">
-                                    <div>
-                                        <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Frecuencia</label>
-                                        <select
-                                            value={recurrenceFreq}
-                                            onChange={(e) => setRecurrenceFreq(e.target.value as RecurrenceFrequency)}
-                                            className="w-full p-2 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none"
-                                        >
-                                            <option value="WEEKLY">Semanal</option>
-                                            <option value="BIWEEKLY">Quincenal</option>
-                                            <option value="MONTHLY">Mensual</option>
-                                            <option value="BIMONTHLY">Bimensual</option>
-                                            <option value="QUARTERLY">Trimestral</option>
-                                            <option value="ANNUAL">Anual</option>
-                                        </select>
+                            <div className="space-y-3">
+                                <label className="flex items-center gap-3 p-3 border rounded-xl cursor-pointer hover:bg-slate-50 transition-colors">
+                                    <input
+                                        type="checkbox"
+                                        checked={isRecurrent}
+                                        onChange={(e) => setIsRecurrent(e.target.checked)}
+                                        className="w-5 h-5 text-[#27bea5] rounded focus:ring-0"
+                                    />
+                                    <div className="flex-1">
+                                        <span className="block font-bold text-slate-700 text-sm">¿Es un Gasto Recurrente?</span>
+                                        <span className="text-xs text-slate-400">Marcar si este costo se repite periódicamente (ej: alquiler, suscripción, planilla)</span>
                                     </div>
-                                    <div>
-                                        <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Total Ciclos</label>
-                                        <input
-                                            type="number"
-                                            min="1"
-                                            value={totalCycles}
-                                            onChange={(e) => setTotalCycles(Number(e.target.value))}
-                                            className="w-full p-2 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none"
-                                        />
+                                </label>
+
+                                {isRecurrent && (
+                                    <div className="grid grid-cols-2 gap-4 p-3 border rounded-xl bg-slate-50 animate-in fade-in duration-300">
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Frecuencia</label>
+                                            <select
+                                                value={recurrenceFreq}
+                                                onChange={(e) => setRecurrenceFreq(e.target.value as RecurrenceFrequency)}
+                                                className="w-full p-2 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none"
+                                            >
+                                                <option value="WEEKLY">Semanal</option>
+                                                <option value="BIWEEKLY">Quincenal</option>
+                                                <option value="MONTHLY">Mensual</option>
+                                                <option value="BIMONTHLY">Bimensual</option>
+                                                <option value="QUARTERLY">Trimestral</option>
+                                                <option value="ANNUAL">Anual</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Total Ciclos</label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={totalCycles}
+                                                onChange={(e) => setTotalCycles(Number(e.target.value))}
+                                                className="w-full p-2 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none"
+                                            />
+                                        </div>
                                     </div>
-                                </div>
-                            )}
+                                )}
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
 
                 <div className="bg-slate-100 rounded-2xl flex items-center justify-center p-4 overflow-hidden max-h-80">
@@ -336,7 +389,7 @@ const ExpenseWizard: React.FC<ExpenseWizardProps> = ({ currentUser, onSave, onCa
             <div className="flex justify-end gap-4 mt-8 pt-6 border-t border-slate-100">
                 <button onClick={onCancel} className="px-6 py-3 rounded-xl font-bold text-slate-500 hover:bg-slate-50">Cancelar</button>
                 <button onClick={handleSave} className="bg-[#1c2938] text-white px-8 py-3 rounded-xl font-bold hover:bg-[#27bea5] flex items-center gap-2">
-                    <Check className="w-5 h-5" /> {isEditing ? 'Guardar Cambios' : 'Guardar Gasto'}
+                    <Check className="w-5 h-5" /> {isConfirming ? 'Confirmar Gasto' : isEditing ? 'Guardar Cambios' : 'Guardar Gasto'}
                 </button>
             </div>
         </div>
@@ -3,15 +3,38 @@ import React, { useState, useRef, useEffect } from 'react';
 import { 
   ArrowLeft, Printer, Share2, Download, Building2, 
   CheckCircle2, Loader2, Send, MessageCircle, Smartphone, Mail, Check, AlertTriangle, Edit2, 
-  ChevronDown, XCircle, Wallet, ArrowRight, X, Trash2, CreditCard, Clock, StickyNote, Lock, Link, Landmark, Coins, FileText
+  ChevronDown, XCircle, Wallet, ArrowRight, X, Trash2, CreditCard, Clock, StickyNote, Lock, Link, Landmark, Coins, FileText,
+  FileMinus, FilePlus, Percent, RotateCcw, Calendar, Repeat, Pause, Play, SkipForward, History
 } from 'lucide-react';
 import html2pdf from 'html2pdf.js';
-import { Invoice, UserProfile, TimelineEvent, InvoiceStatus } from '../types';
+import { Invoice, UserProfile, TimelineEvent, InvoiceStatus, FEPaymentForm, InstallmentFrequency, DocumentVersion } from '../types';
 import DocumentTimeline from './DocumentTimeline';
 import { sendEmail, generateDocumentHtml, getEmailStatus } from '../services/resendService';
 import { useAlert } from './AlertSystem';
 import DocumentTemplate from './DocumentTemplate';
 import { getSafeYappyCheckoutUrl, createYappyV2Checkout } from '../services/yappyService';
+import { hasPaymentSecret, paymentApiHeaders } from '../services/paymentSecretService';
+import { createPagueloFacilLink } from '../services/pagueloFacilService';
+import { issueFacturaElectronica, validateForFacturaElectronica, signXmlWithStoredCertificate, FE_PAYMENT_FORMS } from '../services/facturaElectronicaService';
+import {
+  AdjustmentNoteType, buildCreditNote, buildDebitNote, getAdjustmentTotals, getCreditableLines,
+  getDocumentTypeLabel, getLinkedNotes, isAdjustmentNote
+} from '../services/creditNoteService';
+import { getInvoiceCredit, resolvePaymentStatus } from '../services/clientCreditService';
+import { calculateLateFeeAccrual, getChargedLateFees, getInvoiceDueDate, waiveLateFees } from '../services/lateFeeService';
+import { getAvailableDunningSequences, DUNNING_OFF } from '../services/dunningService';
+import { allocateDocumentIdInDb } from '../services/neon';
+import { DOCUMENT_ID_UNAVAILABLE } from '../services/documentNumberingService';
+import {
+  getEditMode, isIssuedDocument, getCurrentVersion, getDocumentAtVersion, DOCUMENT_LOCKED_FE
+} from '../services/documentVersionService';
+import {
+  getInstallmentSchedule, buildInstallmentPlan, validateInstallmentPlan, formatInstallmentLabel,
+  InstallmentState, INSTALLMENT_FREQUENCY_LABELS
+} from '../services/installmentService';
+import {
+  isRecurringParent, getRecurrenceStatus, pauseRecurrence, resumeRecurrence, skipNextCycle
+} from '../services/recurringInvoiceService';
 
 declare global {
   namespace JSX {
@@ -29,9 +52,15 @@ interface InvoiceDetailProps {
   onUpdateInvoice?: (invoice: Invoice) => void;
   onUpdateStatus?: (id: string, status: InvoiceStatus) => void;
   onDelete?: (id: string) => void;
+  relatedDocuments?: Invoice[]; // All user documents, used to resolve credit/debit notes
+  onCreateAdjustmentNote?: (note: Invoice, updatedOriginal?: Invoice) => void;
+  onSelectDocument?: (doc: Invoice) => void;
 }
 
-const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack, onEdit, onUpdateInvoice, onUpdateStatus, onDelete }) => {
+const InvoiceDetail: React.FC<InvoiceDetailProps> = ({
+  invoice, issuer, onBack, onEdit, onUpdateInvoice, onUpdateStatus, onDelete,
+  relatedDocuments = [], onCreateAdjustmentNote, onSelectDocument
+}) => {
   const [isSending, setIsSending] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [showStatusMenu, setShowStatusMenu] = useState(false);
@@ -40,10 +69,35 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [paymentAmount, setPaymentAmount] = useState('');
   const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
-  const [paymentMethod, setPaymentMethod] = useState<'Banco'|'Tarjeta'|'Efectivo'|'Otro'>('Banco');
+  const [paymentMethod, setPaymentMethod] = useState<'Banco'|'Tarjeta'|'Efectivo'|'Yappy'|'Otro'>('Banco');
   const [paymentCurrency, setPaymentCurrency] = useState(invoice.currency);
   const [editingPaymentId, setEditingPaymentId] = useState<string | null>(null);
+  const [isRefundMode, setIsRefundMode] = useState(false);
   const [isProcessingYappy, setIsProcessingYappy] = useState(false);
+  const [isProcessingPaguelo, setIsProcessingPaguelo] = useState(false);
+  const [isIssuingFE, setIsIssuingFE] = useState(false);
+
+  // Installment plan editor
+  const [isEditingPlan, setIsEditingPlan] = useState(false);
+  const [planCount, setPlanCount] = useState(3);
+  const [planFrequency, setPlanFrequency] = useState<InstallmentFrequency>('MONTHLY');
+  const [planFirstDueDate, setPlanFirstDueDate] = useState((invoice.dueDate || new Date().toISOString()).split('T')[0]);
+
+  // Credit / Debit Note Modal State
+  const [adjustmentType, setAdjustmentType] = useState<AdjustmentNoteType | null>(null);
+  const [adjustmentReason, setAdjustmentReason] = useState('');
+  const [creditScope, setCreditScope] = useState<'FULL' | 'PARTIAL'>('FULL');
+  const [creditQuantities, setCreditQuantities] = useState<Record<string, string>>({});
+  const [debitDescription, setDebitDescription] = useState('');
+  const [debitAmount, setDebitAmount] = useState('');
+  const [debitTax, setDebitTax] = useState(0);
+
+  // Superseded version shown instead of the current one
+  const [viewingVersion, setViewingVersion] = useState<DocumentVersion | null>(null);
+
+  useEffect(() => {
+    setViewingVersion(null);
+  }, [invoice.id, invoice.version]);
   const yappyBtnRef = useRef<any>(null);
 
   // Ref for PDF Generation
@@ -121,7 +175,16 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
   }, 0);
 
   const amountPaid = invoice.amountPaid || 0;
-  const remainingBalance = Math.max(0, invoice.total - amountPaid);
+  // Credit notes lower and debit notes raise what the client owes
+  const { credited, debited } = getAdjustmentTotals(invoice.id, relatedDocuments);
+  const adjustedTotal = invoice.total + debited - credited;
+  const remainingBalance = Math.max(0, adjustedTotal - amountPaid);
+  // Overpayment the client can get back or apply to another invoice
+  const invoiceCredit = getInvoiceCredit(invoice, relatedDocuments);
+  // With a payment plan, online payment links charge one installment at a time
+  const installmentSchedule = getInstallmentSchedule(invoice, relatedDocuments);
+  const nextInstallment = installmentSchedule.find(s => s.remaining > 0.01) || null;
+  const linkAmount = (installment: InstallmentState | null) => installment ? installment.remaining : remainingBalance;
   
   // Handle Legacy Payments (if they were added before the payments array existed)
   const displayPayments = invoice.payments && invoice.payments.length > 0 
@@ -136,17 +199,46 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
       }] : []);
 
   const isQuote = invoice.type === 'Quote';
+  const isNote = isAdjustmentNote(invoice);
+  const docLabel = getDocumentTypeLabel(invoice.type);
+  const fileLabel = isQuote ? 'Cotizacion' : invoice.type === 'CreditNote' ? 'NotaCredito' : invoice.type === 'DebitNote' ? 'NotaDebito' : 'Factura';
+  const linkedNotes = getLinkedNotes(invoice.id, relatedDocuments);
+  const referencedInvoice = invoice.referenceInvoiceId
+    ? relatedDocuments.find(d => d.id === invoice.referenceInvoiceId)
+    : undefined;
+  const canAdjust = invoice.type === 'Invoice' && invoice.status !== 'Borrador' && !!onCreateAdjustmentNote;
+  const editMode = getEditMode(invoice);
+  const isIssued = isIssuedDocument(invoice);
+  const displayedInvoice = viewingVersion ? getDocumentAtVersion(invoice, viewingVersion) : invoice;
+
+  // Recurrence: invoices generated by the scheduler, or the recurring invoice this one came from
+  const recurrenceStatus = isRecurringParent(invoice) ? getRecurrenceStatus(invoice, relatedDocuments) : null;
+  const recurrenceParent = invoice.recurrenceParentId
+    ? relatedDocuments.find(d => d.id === invoice.recurrenceParentId)
+    : undefined;
+
+  // Late fees (LateFeePolicy)
+  const lateFeePolicy = issuer.lateFeePolicy;
+  const chargedLateFees = invoice.type === 'Invoice' ? getChargedLateFees(invoice, relatedDocuments) : 0;
+  const lateFeeAccrual = invoice.type === 'Invoice' && lateFeePolicy?.enabled && remainingBalance > 0
+    ? calculateLateFeeAccrual(invoice, relatedDocuments, lateFeePolicy, getInvoiceDueDate(invoice, issuer.paymentTermsDays || 30))
+    : null;
+  const showLateFees = invoice.type === 'Invoice' && (chargedLateFees > 0 || invoice.lateFeeWaived || (lateFeeAccrual?.pending || 0) > 0);
+
+  // Dunning sequence override (empty = client / profile sequence)
+  const showDunning = invoice.type === 'Invoice' && !!onUpdateInvoice
+    && ['Creada', 'Enviada', 'Seguimiento', 'Abonada'].includes(invoice.status);
 
   // Handle Yappy V2 Events
-  const handleYappyClick = async () => {
+  const handleYappyClick = async (installment: InstallmentState | null = nextInstallment) => {
     if (isProcessingYappy) return;
     
     try {
       setIsProcessingYappy(true);
       const directUrl = await getSafeYappyCheckoutUrl(
         invoice,
-        issuer.paymentIntegration!,
-        remainingBalance
+        issuer,
+        linkAmount(installment)
       );
       
       if (directUrl) {
@@ -160,22 +252,18 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
   };
 
   // --- PAYMENT HELPERS ---
-  const handlePagueloFacil = () => {
-      const cclw = issuer.paymentIntegration?.cclw;
-      if (!cclw) return;
-      
-      // PagueloFacil Link Format (No Code Integration)
-      // Doc: https://developers.paguelofacil.com/docs/link-de-pago
-      const baseUrl = "https://tx.paguelofacil.com/service";
-      const params = new URLSearchParams({
-          cclw: cclw,
-          amt: remainingBalance.toFixed(2),
-          email: invoice.clientEmail || '',
-          desc: `Factura ${invoice.id}`,
-          // Add custom reference if needed, usually passed as order_id or similar depending on implementation
-      });
-      
-      window.open(`${baseUrl}?${params.toString()}`, '_blank');
+  // The link is created server-side; the invoice is settled by api/paguelofacil/callback.js
+  const handlePagueloFacil = async (installment: InstallmentState | null = nextInstallment) => {
+      if (isProcessingPaguelo) return;
+      setIsProcessingPaguelo(true);
+      try {
+          const url = await createPagueloFacilLink(invoice, issuer, linkAmount(installment));
+          window.open(url, '_blank');
+      } catch (err: any) {
+          alert.addToast('error', err.message || 'Error al conectar con PagueloFacil');
+      } finally {
+          setIsProcessingPaguelo(false);
+      }
   };
 
   const handleYappy = async () => {
@@ -183,19 +271,18 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
     // But we keep this function if we want to add any secondary logic
   };
 
-  const handleStripe = async (silent = false) => {
+  const handleStripe = async (silent = false, installment: InstallmentState | null = nextInstallment) => {
       try {
-          if(!issuer.paymentIntegration?.stripeSecretKey) return null;
+          if(!hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey')) return null;
           const res = await fetch('/api/stripe-checkout', {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
+              headers: paymentApiHeaders(issuer),
               body: JSON.stringify({
-                  stripeSecretKey: issuer.paymentIntegration.stripeSecretKey,
                   invoiceId: invoice.id,
-                  amount: remainingBalance,
+                  amount: linkAmount(installment),
                   currency: invoice.currency,
                   clientEmail: invoice.clientEmail,
-                  invoiceDesc: `Pago Factura #${invoice.id} - ${issuer.name}`
+                  invoiceDesc: `Pago Factura #${invoice.id}${installment ? ` (${formatInstallmentLabel(installment)})` : ''} - ${issuer.name}`
               })
           });
           const data = await res.json();
@@ -213,6 +300,79 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
       }
   };
 
+  // --- INSTALLMENT PLAN ---
+  const planPreview = isEditingPlan ? buildInstallmentPlan(invoice.total, planCount, planFirstDueDate, planFrequency) : [];
+
+  const handleSavePlan = () => {
+      if (!onUpdateInvoice) return;
+      const error = validateInstallmentPlan(planPreview, invoice.total);
+      if (error) {
+          alert.addToast('error', 'Plan de pagos inválido', error);
+          return;
+      }
+      const planEvent: TimelineEvent = {
+          id: Date.now().toString(),
+          type: 'EDITED',
+          title: `Plan de pagos: ${planPreview.length} cuotas`,
+          description: `${INSTALLMENT_FREQUENCY_LABELS[planFrequency]} desde ${planFirstDueDate}`,
+          timestamp: new Date().toISOString()
+      };
+      onUpdateInvoice({
+          ...invoice,
+          installments: planPreview,
+          timeline: [...(invoice.timeline || []), planEvent]
+      });
+      setIsEditingPlan(false);
+      alert.addToast('success', 'Plan de Pagos Guardado', `${planPreview.length} cuotas de ${invoice.currency} ${planPreview[0].amount.toFixed(2)}`);
+  };
+
+  const handleRemovePlan = async () => {
+      if (!onUpdateInvoice) return;
+      const confirmed = await alert.confirm({
+          title: '¿Eliminar plan de pagos?',
+          message: 'La factura volverá a cobrarse en un solo pago. Los cobros registrados no cambian.',
+          confirmText: 'Eliminar',
+          cancelText: 'Cancelar',
+          type: 'danger'
+      });
+      if (!confirmed) return;
+      onUpdateInvoice({
+          ...invoice,
+          installments: undefined,
+          timeline: [...(invoice.timeline || []), {
+              id: Date.now().toString(),
+              type: 'EDITED',
+              title: 'Plan de pagos eliminado',
+              timestamp: new Date().toISOString()
+          }]
+      });
+  };
+
+  // --- RECURRENCE CONTROLS ---
+  const handleToggleRecurrencePause = () => {
+      if (!onUpdateInvoice || !recurrenceStatus) return;
+      onUpdateInvoice(recurrenceStatus.paused ? resumeRecurrence(invoice, relatedDocuments) : pauseRecurrence(invoice));
+  };
+
+  const handleSkipCycle = async () => {
+      if (!onUpdateInvoice || !recurrenceStatus?.nextDate) return;
+      const confirmed = await alert.confirm({
+          title: `¿Omitir el ciclo ${recurrenceStatus.nextCycle}?`,
+          message: `No se generará la factura del ${recurrenceStatus.nextDate.toLocaleDateString()}.`,
+          confirmText: 'Omitir',
+          cancelText: 'Cancelar',
+          type: 'info'
+      });
+      if (!confirmed) return;
+      const updated = skipNextCycle(invoice, relatedDocuments);
+      if (updated) onUpdateInvoice(updated);
+  };
+
+  const handleRecurrenceOption = (option: 'autoSend' | 'autoCharge', value: boolean) => {
+      if (!onUpdateInvoice || !invoice.recurrence) return;
+      onUpdateInvoice({ ...invoice, recurrence: { ...invoice.recurrence, [option]: value } });
+  };
+
   const handleStatusChange = (newStatus: InvoiceStatus) => {
       if (onUpdateStatus) {
           onUpdateStatus(invoice.id, newStatus);
@@ -220,6 +380,25 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
       }
   };
 
+  const handleEdit = async () => {
+      if (!onEdit) return;
+      if (editMode === 'LOCKED') {
+          alert.addToast('info', 'Documento bloqueado', DOCUMENT_LOCKED_FE);
+          return;
+      }
+      if (editMode === 'NEW_VERSION') {
+          const confirmed = await alert.confirm({
+              title: `¿Crear la versión ${getCurrentVersion(invoice) + 1}?`,
+              message: 'El documento ya fue emitido. Los cambios se guardarán como una nueva versión y la actual quedará en el historial.',
+              confirmText: 'Continuar',
+              cancelText: 'Cancelar',
+              type: 'info'
+          });
+          if (!confirmed) return;
+      }
+      onEdit(invoice);
+  };
+
   const handleDelete = async () => {
       if (!onDelete) return;
       
@@ -236,38 +415,191 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
       }
   };
 
+  const handleIssueElectronicInvoice = async () => {
+    if (!onUpdateInvoice) return;
+
+    const validation = validateForFacturaElectronica(invoice, issuer);
+    if (!validation.valid) {
+        alert.addToast('error', 'Factura Electrónica incompleta', validation.errors[0]);
+        return;
+    }
+
+    setIsIssuingFE(true);
+    try {
+        const electronicInvoice = await issueFacturaElectronica(invoice, issuer, {
+            sign: issuer.fiscalCertificate ? (xml) => signXmlWithStoredCertificate(issuer, xml) : undefined
+        });
+        const authorized = electronicInvoice.status === 'AUTORIZADA';
+
+        const feEvent: TimelineEvent = {
+            id: Date.now().toString(),
+            type: 'STATUS_CHANGE',
+            title: authorized ? 'Factura Electrónica autorizada' : 'Factura Electrónica rechazada',
+            description: authorized
+                ? `CUFE ${electronicInvoice.cufe} · Autorización ${electronicInvoice.authorizationNumber}`
+                : electronicInvoice.rejectionReason,
+            timestamp: new Date().toISOString()
+        };
+
+        onUpdateInvoice({
+            ...invoice,
+            electronicInvoice,
+            timeline: [...(invoice.timeline || []), feEvent]
+        });
+
+        if (authorized) {
+            alert.addToast('success', 'Factura Electrónica emitida', `Autorización ${electronicInvoice.authorizationNumber}`);
+        } else {
+            alert.addToast('error', 'PAC rechazó el documento', electronicInvoice.rejectionReason || 'Error desconocido');
+        }
+    } catch (e: any) {
+        console.error("FE Error:", e);
+        alert.addToast('error', 'Error al generar FE', e.message);
+    } finally {
+        setIsIssuingFE(false);
+    }
+  };
+
+  const handleDownloadFeXml = () => {
+    if (!invoice.electronicInvoice) return;
+    const blob = new Blob([invoice.electronicInvoice.xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `FE_${invoice.electronicInvoice.cufe}.xml`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openAdjustmentModal = (type: AdjustmentNoteType) => {
+    setAdjustmentType(type);
+    setAdjustmentReason('');
+    setCreditScope('FULL');
+    setCreditQuantities({});
+    setDebitDescription('');
+    setDebitAmount('');
+    setDebitTax(invoice.items[0]?.tax || 0);
+  };
+
+  const closeAdjustmentModal = () => setAdjustmentType(null);
+
+  const handleCreateAdjustmentNote = async () => {
+    if (!adjustmentType || !onCreateAdjustmentNote) return;
+    if (!adjustmentReason.trim()) {
+        alert.addToast('error', 'Falta el motivo', 'Indica el motivo de la nota.');
+        return;
+    }
+
+    try {
+        // Built (and validated) before taking a number, so a rejected note leaves no gap
+        const draft = adjustmentType === 'CreditNote'
+            ? buildCreditNote(invoice, relatedDocuments, {
+                id: '',
+                reason: adjustmentReason.trim(),
+                lines: creditScope === 'FULL' ? undefined : Object.entries(creditQuantities).map(([itemId, qty]) => ({
+                    itemId,
+                    quantity: parseFloat(qty) || 0
+                }))
+              })
+            : buildDebitNote(invoice, {
+                id: '',
+                reason: adjustmentReason.trim(),
+                items: [{
+                    id: Date.now().toString(),
+                    description: debitDescription.trim() || adjustmentReason.trim(),
+                    quantity: 1,
+                    price: parseFloat(debitAmount) || 0,
+                    tax: debitTax
+                }]
+              });
+
+        const id = await allocateDocumentIdInDb(issuer.id, adjustmentType, draft.date);
+        if (!id) {
+            alert.addToast('error', 'No se pudo crear la nota', DOCUMENT_ID_UNAVAILABLE);
+            return;
+        }
+        const note = { ...draft, id };
+
+        onCreateAdjustmentNote({ ...note, userId: invoice.userId });
+        closeAdjustmentModal();
+        alert.addToast('success', `${getDocumentTypeLabel(note.type)} #${note.id}`, `${note.currency} ${note.total.toFixed(2)} sobre la factura #${invoice.id}`);
+    } catch (e: any) {
+        alert.addToast('error', 'No se pudo crear la nota', e.message);
+    }
+  };
+
+  const handleWaiveLateFees = async () => {
+    if (!onUpdateInvoice) return;
+
+    const confirmed = await alert.confirm({
+        title: '¿Condonar intereses por mora?',
+        message: 'Se revierten los intereses cargados y no se aplicarán nuevos cargos a esta factura.',
+        confirmText: 'Condonar',
+        cancelText: 'Cancelar',
+        type: 'info'
+    });
+    if (!confirmed) return;
+
+    // Only take a number when charges went out as debit notes and need a reversing credit note
+    const needsCreditNote = !!onCreateAdjustmentNote && !!waiveLateFees(invoice, relatedDocuments, 'NC').creditNote;
+    const creditNoteId = needsCreditNote ? await allocateDocumentIdInDb(issuer.id, 'CreditNote') : undefined;
+    if (needsCreditNote && !creditNoteId) {
+        alert.addToast('error', 'No se pudieron condonar los intereses', DOCUMENT_ID_UNAVAILABLE);
+        return;
+    }
+    const result = waiveLateFees(invoice, relatedDocuments, creditNoteId || undefined);
+
+    if (result.creditNote && onCreateAdjustmentNote) {
+        onCreateAdjustmentNote({ ...result.creditNote, userId: invoice.userId }, result.invoice);
+    } else {
+        onUpdateInvoice(result.invoice);
+    }
+    alert.addToast('success', 'Intereses condonados', result.creditNote ? `Nota de crédito #${result.creditNote.id} emitida.` : `Factura #${invoice.id} sin cargos por mora.`);
+  };
+
   const handleRegisterPayment = () => {
     const amount = parseFloat(paymentAmount);
     if (isNaN(amount) || amount <= 0) return;
+    // Refunds are stored as negative payments
+    const signedAmount = isRefundMode ? -amount : amount;
 
     let updatedPayments = [...displayPayments];
 
     if (editingPaymentId) {
         updatedPayments = updatedPayments.map(p => p.id === editingPaymentId ? {
-            ...p, date: paymentDate, amount: amount, method: paymentMethod, currency: paymentCurrency
+            ...p, date: paymentDate, amount: signedAmount, method: paymentMethod, currency: paymentCurrency
         } : p);
     } else {
         updatedPayments.push({
             id: Date.now().toString(),
             date: paymentDate,
-            amount: amount,
+            amount: signedAmount,
             method: paymentMethod,
             currency: paymentCurrency,
-            notes: ''
+            notes: isRefundMode ? 'Reembolso' : ''
         });
     }
 
     const newTotalPaid = updatedPayments.reduce((sum, p) => sum + p.amount, 0);
-    const newRemaining = invoice.total - newTotalPaid;
+    if (newTotalPaid < -0.01) {
+        alert.addToast('error', 'Reembolso inválido', `No se puede reembolsar más de lo cobrado (${invoice.currency} ${amountPaid.toFixed(2)}).`);
+        return;
+    }
+    const newRemaining = adjustedTotal - newTotalPaid;
     
     // Auto-update status based on balance
-    const newStatus: InvoiceStatus = newRemaining <= 0.01 ? 'Pagada' : 'Abonada';
+    const newStatus: InvoiceStatus = resolvePaymentStatus({ ...invoice, amountPaid: newTotalPaid }, relatedDocuments);
 
+    const label = isRefundMode ? 'Reembolso' : 'Cobro';
     const paymentEvent: TimelineEvent = {
         id: Date.now().toString(),
-        type: 'PAID',
-        title: editingPaymentId ? `Cobro actualizado: ${paymentCurrency} ${amount.toFixed(2)}` : `Pago registrado: ${paymentCurrency} ${amount.toFixed(2)}`,
-        description: newRemaining > 0.01 ? `Resta: ${invoice.currency} ${newRemaining.toFixed(2)}` : 'Deuda saldada',
+        type: isRefundMode ? 'STATUS_CHANGE' : 'PAID',
+        title: editingPaymentId
+            ? `${label} actualizado: ${paymentCurrency} ${amount.toFixed(2)}`
+            : isRefundMode ? `Reembolso registrado: -${paymentCurrency} ${amount.toFixed(2)}` : `Pago registrado: ${paymentCurrency} ${amount.toFixed(2)}`,
+        description: newRemaining > 0.01
+            ? `Resta: ${invoice.currency} ${newRemaining.toFixed(2)}`
+            : newRemaining < -0.01 ? `Saldo a favor: ${invoice.currency} ${(-newRemaining).toFixed(2)}` : 'Deuda saldada',
         timestamp: new Date().toISOString()
     };
 
@@ -284,7 +616,7 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
     }
     
     closePaymentModal();
-    alert.addToast('success', editingPaymentId ? 'Cobro Actualizado' : 'Pago Registrado', `Se ha guardado ${paymentCurrency} ${amount.toFixed(2)}`);
+    alert.addToast('success', editingPaymentId ? `${label} Actualizado` : isRefundMode ? 'Reembolso Registrado' : 'Pago Registrado', `Se ha guardado ${paymentCurrency} ${amount.toFixed(2)}`);
   };
 
   const handleDeletePayment = (paymentId: string) => {
@@ -294,17 +626,11 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
     const updatedPayments = currentPayments.filter(p => p.id !== paymentId);
     
     const newTotalPaid = updatedPayments.reduce((sum, p) => sum + p.amount, 0);
-    const newRemaining = invoice.total - newTotalPaid;
+    const newRemaining = adjustedTotal - newTotalPaid;
     
     let newStatus: InvoiceStatus = invoice.status;
     if (invoice.type === 'Invoice' && invoice.status !== 'Borrador') {
-       if (newRemaining <= 0.01) {
-           newStatus = 'Pagada';
-       } else if (newTotalPaid > 0) {
-           newStatus = 'Abonada';
-       } else {
-           newStatus = 'Enviada';
-       }
+       newStatus = resolvePaymentStatus({ ...invoice, amountPaid: newTotalPaid }, relatedDocuments);
     }
 
     const event: TimelineEvent = {
@@ -332,13 +658,15 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
   const closePaymentModal = () => {
       setIsPaymentModalOpen(false);
       setEditingPaymentId(null);
+      setIsRefundMode(false);
       setPaymentAmount('');
       setPaymentDate(new Date().toISOString().split('T')[0]);
   };
 
   const handleEditPayment = (p: any) => {
       setEditingPaymentId(p.id);
-      setPaymentAmount(p.amount.toString());
+      setIsRefundMode(p.amount < 0);
+      setPaymentAmount(Math.abs(p.amount).toString());
       setPaymentDate(p.date);
       setPaymentMethod(p.method || 'Banco');
       setPaymentCurrency(p.currency || invoice.currency);
@@ -357,7 +685,7 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
         
         const opt = {
             margin:       [10, 10, 10, 10] as [number, number, number, number], 
-            filename:     `${isQuote ? 'Cotizacion' : 'Factura'}_${invoice.id}.pdf`,
+            filename:     `${fileLabel}_${invoice.id}.pdf`,
             image:        { type: 'jpeg' as const, quality: 0.98 },
             html2canvas:  { 
                 scale: 2, 
@@ -375,20 +703,20 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
 
         // Generate Stripe link if configured to include in Email button
         let paymentUrl = undefined;
-        if (!isQuote && issuer.paymentIntegration?.stripeSecretKey) {
+        if (!isQuote && !isNote && hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey')) {
             paymentUrl = await handleStripe(true);
         }
 
         // Generate Yappy link if configured (Safe version with V1 fallback)
         let yappyPaymentUrl: string | undefined = undefined;
-        if (!isQuote && issuer.paymentIntegration?.yappyApiKey) {
+        if (!isQuote && !isNote && issuer.paymentIntegration?.yappyApiKey) {
             try {
-                yappyPaymentUrl = await getSafeYappyCheckoutUrl(invoice, issuer.paymentIntegration, remainingBalance);
+                yappyPaymentUrl = await getSafeYappyCheckoutUrl(invoice, issuer, linkAmount(nextInstallment));
             } catch (e) { /* ignore */ }
         }
 
         const htmlContent = generateDocumentHtml(invoice, issuer, paymentUrl, yappyPaymentUrl);
-        const docTypeName = isQuote ? 'Cotización' : 'Factura';
+        const docTypeName = docLabel;
         const emailSubject = `${docTypeName} #${invoice.id} - ${issuer.name}`;
 
         const result = await sendEmail({
@@ -440,7 +768,7 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
       
       const opt = {
           margin:       [10, 10, 10, 10] as [number, number, number, number],
-          filename:     `${isQuote ? 'Cotizacion' : 'Factura'}_${invoice.id}.pdf`,
+          filename:     `${fileLabel}_${invoice.id}.pdf`,
           image:        { type: 'jpeg' as const, quality: 0.98 },
           html2canvas:  { 
               scale: 2, 
@@ -498,11 +826,11 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
 
   // --- RENDER PAYMENT BUTTONS ---
   const renderPaymentButtons = () => {
-      if (isQuote || !remainingBalance || remainingBalance <= 0) return null;
+      if (isQuote || isNote || !remainingBalance || remainingBalance <= 0) return null;
       
-      const hasPaguelo = !!issuer.paymentIntegration?.cclw;
-      const hasYappy = !!issuer.paymentIntegration?.yappyApiKey || !!issuer.paymentIntegration?.yappySecretKey; 
-      const hasStripe = !!issuer.paymentIntegration?.stripeSecretKey;
+      const hasPaguelo = !!issuer.paymentIntegration?.cclw && hasPaymentSecret(issuer.paymentIntegration, 'token');
+      const hasYappy = !!issuer.paymentIntegration?.yappyApiKey || hasPaymentSecret(issuer.paymentIntegration, 'yappySecretKey'); 
+      const hasStripe = hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey');
 
       if (!hasPaguelo && !hasYappy && !hasStripe) return null;
 
@@ -512,15 +840,16 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
               <div className="flex flex-wrap gap-3">
                   {hasPaguelo && (
                       <button 
-                        onClick={handlePagueloFacil}
+                        onClick={() => handlePagueloFacil()}
+                        disabled={isProcessingPaguelo}
                         className="flex-1 bg-[#009ee3] text-white py-2.5 px-4 rounded-xl font-bold hover:bg-[#008cc9] transition-colors shadow-sm flex items-center justify-center gap-2"
                       >
-                          <Lock className="w-4 h-4" /> PagueloFacil
+                          {isProcessingPaguelo ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />} PagueloFacil
                       </button>
                   )}
                   {hasYappy && (
                       <button 
-                        onClick={handleYappyClick}
+                        onClick={() => handleYappyClick()}
                         disabled={isProcessingYappy}
                         className="flex-1 bg-white border border-slate-200 text-slate-800 py-2.5 px-4 rounded-xl font-bold hover:bg-slate-50 transition-colors shadow-sm flex items-center justify-center gap-2"
                       >
@@ -561,17 +890,29 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
 
          {/* INCREASED PADDING BOTTOM TO pb-32 FOR BETTER SCROLLING */}
           <div className="flex-1 bg-slate-100 rounded-3xl p-4 md:p-8 overflow-y-auto custom-scrollbar shadow-inner border border-slate-200/50 pb-32 flex justify-center">
-            <div ref={documentRef} className="w-[190mm] transition-all duration-500 min-h-full">
+            <div className="w-[190mm] transition-all duration-500 min-h-full">
+               {viewingVersion && (
+                  <div className="mb-4 p-3 rounded-2xl bg-amber-50 border border-amber-200 text-xs text-amber-800 flex items-center justify-between gap-3">
+                     <span className="flex items-center gap-2 font-bold">
+                        <History className="w-4 h-4" /> Versión {viewingVersion.version} · reemplazada el {new Date(viewingVersion.replacedAt).toLocaleDateString()}
+                     </span>
+                     <button onClick={() => setViewingVersion(null)} className="font-bold text-amber-900 hover:underline whitespace-nowrap">
+                        Ver versión actual
+                     </button>
+                  </div>
+               )}
+               <div ref={documentRef}>
                <DocumentTemplate 
-                 invoice={invoice} 
+                 invoice={displayedInvoice} 
                  issuer={issuer} 
-                 showPaymentButtons={true}
+                 showPaymentButtons={!viewingVersion}
                  onPaymentClick={(provider) => {
                    if (provider === 'PagueloFacil') handlePagueloFacil();
                    if (provider === 'Yappy') handleYappyClick();
                    if (provider === 'Stripe') handleStripe();
                  }}
                />
+               </div>
             </div>
          </div>
       </div>
@@ -593,7 +934,25 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
             </div>
             
             <h3 className="font-bold text-[#1c2938] text-2xl mb-1">{invoice.clientName}</h3>
-            <p className="text-sm text-slate-500 mb-6">{invoice.type === 'Quote' ? 'Cotización' : 'Factura'} #{invoice.id}</p>
+            <p className={`text-sm text-slate-500 ${invoice.referenceInvoiceId || invoice.recurrenceParentId ? 'mb-2' : 'mb-6'}`}>{docLabel} #{invoice.id}</p>
+            {invoice.referenceInvoiceId && (
+               <button
+                 onClick={() => referencedInvoice && onSelectDocument && onSelectDocument(referencedInvoice)}
+                 disabled={!referencedInvoice || !onSelectDocument}
+                 className="mb-6 text-xs font-bold text-[#27bea5] hover:underline disabled:text-slate-400 disabled:no-underline flex items-center gap-1"
+               >
+                  <Link className="w-3 h-3" /> Referencia: Factura #{invoice.referenceInvoiceId}
+               </button>
+            )}
+            {invoice.recurrenceParentId && (
+               <button
+                 onClick={() => recurrenceParent && onSelectDocument && onSelectDocument(recurrenceParent)}
+                 disabled={!recurrenceParent || !onSelectDocument}
+                 className={`${invoice.referenceInvoiceId ? '-mt-4' : ''} mb-6 text-xs font-bold text-[#27bea5] hover:underline disabled:text-slate-400 disabled:no-underline flex items-center gap-1`}
+               >
+                  <Repeat className="w-3 h-3" /> Ciclo {invoice.recurrenceCycle} de Factura #{invoice.recurrenceParentId}
+               </button>
+            )}
 
             <div className="grid grid-cols-2 gap-3">
                <button 
@@ -612,12 +971,14 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                   <Download className="w-4 h-4" /> PDF
                </button>
                
-               {onEdit && (
+               {onEdit && !isNote && (
                   <button 
-                    onClick={() => onEdit(invoice)}
-                    className="bg-slate-100 text-slate-600 py-3 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-slate-200 transition-colors"
+                    onClick={handleEdit}
+                    title={editMode === 'LOCKED' ? DOCUMENT_LOCKED_FE : undefined}
+                    className={`py-3 rounded-2xl font-bold flex items-center justify-center gap-2 transition-colors ${editMode === 'LOCKED' ? 'bg-slate-50 text-slate-400 cursor-not-allowed' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
                   >
-                      <Edit2 className="w-4 h-4" /> Editar
+                      {editMode === 'LOCKED' ? <Lock className="w-4 h-4" /> : <Edit2 className="w-4 h-4" />}
+                      {editMode === 'LOCKED' ? 'Bloqueada' : editMode === 'NEW_VERSION' ? 'Nueva Versión' : 'Editar'}
                   </button>
                )}
 
@@ -652,10 +1013,17 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                      }}
                    >
                      <option disabled>Cambiar Estado</option>
-                     {invoice.type === 'Quote' ? (
+                     {isNote ? (
+                       <>
+                         {!isIssued && <option value="Borrador">Borrador</option>}
+                         {!isIssued && <option value="Creada">Creada</option>}
+                         <option value="Enviada">Enviada</option>
+                         <option value="Rechazada">Anulada</option>
+                       </>
+                     ) : invoice.type === 'Quote' ? (
                        <>
-                         <option value="Borrador">Borrador</option>
-                         <option value="Creada">Creada</option>
+                         {!isIssued && <option value="Borrador">Borrador</option>}
+                         {!isIssued && <option value="Creada">Creada</option>}
                          <option value="Enviada">Enviada</option>
                          <option value="Seguimiento">Seguimiento</option>
                          <option value="Negociacion">Negociación</option>
@@ -664,8 +1032,8 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                        </>
                      ) : (
                        <>
-                         <option value="Borrador">Borrador</option>
-                         <option value="Creada">Creada</option>
+                         {!isIssued && <option value="Borrador">Borrador</option>}
+                         {!isIssued && <option value="Creada">Creada</option>}
                          <option value="Enviada">Enviada</option>
                          <option value="Seguimiento">Seguimiento</option>
                          <option value="Pagada">Pagada</option>
@@ -678,7 +1046,7 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
             </div>
 
             {/* ACTION FOR INVOICES: REGISTER PAYMENT */}
-            {!isQuote && (
+            {!isQuote && !isNote && (
                 <button 
                     onClick={() => setIsPaymentModalOpen(true)}
                     className="w-full mt-3 bg-green-50 text-green-700 border border-green-100 py-3 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-green-100 transition-colors"
@@ -686,6 +1054,354 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                     <CreditCard className="w-4 h-4" /> Registrar Cobro
                 </button>
             )}
+            {!isQuote && !isNote && amountPaid > 0 && (
+                <button
+                    onClick={() => { setIsRefundMode(true); setPaymentAmount(invoiceCredit > 0 ? invoiceCredit.toFixed(2) : ''); setIsPaymentModalOpen(true); }}
+                    className="w-full mt-2 bg-white text-slate-500 border border-slate-200 py-2.5 rounded-2xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-slate-50 transition-colors"
+                >
+                    <RotateCcw className="w-3 h-3" /> Registrar Reembolso
+                </button>
+            )}
+            {invoiceCredit > 0 && (
+                <div className="mt-2 p-3 rounded-2xl bg-emerald-50 border border-emerald-100 text-xs text-emerald-700">
+                    <span className="font-bold">Saldo a favor del cliente: {invoice.currency} {invoiceCredit.toFixed(2)}</span>
+                    <p className="text-[10px] text-emerald-600 mt-0.5">Reembólsalo o aplícalo a otra factura desde la ficha del cliente.</p>
+                </div>
+            )}
+
+            {/* FACTURA ELECTRÓNICA (DGI) */}
+            {!isQuote && !isNote && (
+                <div className="mt-3 p-4 rounded-2xl border border-slate-100 bg-slate-50">
+                    <div className="flex items-center gap-2 mb-3">
+                        <FileText className="w-4 h-4 text-[#27bea5]" />
+                        <span className="text-xs font-bold text-[#1c2938] uppercase tracking-wide">Factura Electrónica</span>
+                    </div>
+                    {invoice.electronicInvoice?.status === 'AUTORIZADA' ? (
+                        <div className="space-y-2">
+                            <p className="text-[10px] font-bold text-slate-400 uppercase">CUFE</p>
+                            <p className="text-[10px] font-mono text-slate-600 break-all">{invoice.electronicInvoice.cufe}</p>
+                            <p className="text-[10px] font-bold text-slate-400 uppercase">Autorización</p>
+                            <p className="text-xs font-mono text-slate-600">{invoice.electronicInvoice.authorizationNumber}</p>
+                            <button
+                                onClick={handleDownloadFeXml}
+                                className="w-full mt-2 bg-white text-slate-600 border border-slate-200 py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-slate-100 transition-colors"
+                            >
+                                <Download className="w-3 h-3" /> Descargar XML
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {invoice.electronicInvoice?.status === 'RECHAZADA' && (
+                                <p className="text-xs text-red-500 flex items-start gap-1">
+                                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {invoice.electronicInvoice.rejectionReason}
+                                </p>
+                            )}
+                            <select
+                                value={invoice.paymentForm || ''}
+                                onChange={(e) => onUpdateInvoice && onUpdateInvoice({ ...invoice, paymentForm: e.target.value as FEPaymentForm })}
+                                className="w-full p-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 outline-none"
+                            >
+                                <option value="" disabled>Forma de pago...</option>
+                                {(Object.keys(FE_PAYMENT_FORMS) as FEPaymentForm[]).map(code => (
+                                    <option key={code} value={code}>{code} - {FE_PAYMENT_FORMS[code]}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={handleIssueElectronicInvoice}
+                                disabled={isIssuingFE || !onUpdateInvoice}
+                                className="w-full bg-[#1c2938] text-white py-2.5 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-[#27bea5] transition-colors disabled:opacity-60"
+                            >
+                                {isIssuingFE ? <Loader2 className="w-3 h-3 animate-spin" /> : <Landmark className="w-3 h-3" />}
+                                {isIssuingFE ? 'Emitiendo...' : 'Emitir Factura Electrónica'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* CREDIT / DEBIT NOTES */}
+            {invoice.type === 'Invoice' && (canAdjust || linkedNotes.length > 0) && (
+                <div className="mt-3 p-4 rounded-2xl border border-slate-100 bg-slate-50">
+                    <div className="flex items-center justify-between mb-3">
+                        <span className="text-xs font-bold text-[#1c2938] uppercase tracking-wide">Notas de Crédito / Débito</span>
+                        {(credited > 0 || debited > 0) && (
+                            <span className="text-[10px] font-bold text-slate-500">Saldo: {invoice.currency} {remainingBalance.toFixed(2)}</span>
+                        )}
+                    </div>
+                    {linkedNotes.length > 0 && (
+                        <div className="space-y-2 mb-3">
+                            {linkedNotes.map(note => (
+                                <button
+                                    key={note.id}
+                                    onClick={() => onSelectDocument && onSelectDocument(note)}
+                                    className="w-full flex items-center justify-between bg-white border border-slate-200 rounded-xl px-3 py-2 text-left hover:border-[#27bea5] transition-colors"
+                                >
+                                    <span className="flex items-center gap-2 text-xs font-bold text-[#1c2938]">
+                                        {note.type === 'CreditNote' ? <FileMinus className="w-3 h-3 text-amber-500" /> : <FilePlus className="w-3 h-3 text-indigo-500" />}
+                                        #{note.id}
+                                        {note.status === 'Rechazada' && <span className="text-[10px] text-red-400">Anulada</span>}
+                                    </span>
+                                    <span className={`text-xs font-bold ${note.type === 'CreditNote' ? 'text-amber-600' : 'text-indigo-600'}`}>
+                                        {note.type === 'CreditNote' ? '-' : '+'}{note.currency} {note.total.toFixed(2)}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {canAdjust && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => openAdjustmentModal('CreditNote')}
+                                className="bg-white text-slate-600 border border-slate-200 py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 hover:bg-slate-100 transition-colors"
+                            >
+                                <FileMinus className="w-3 h-3" /> Nota de Crédito
+                            </button>
+                            <button
+                                onClick={() => openAdjustmentModal('DebitNote')}
+                                className="bg-white text-slate-600 border border-slate-200 py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 hover:bg-slate-100 transition-colors"
+                            >
+                                <FilePlus className="w-3 h-3" /> Nota de Débito
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* LATE FEES */}
+            {showLateFees && (
+                <div className="mt-3 p-4 rounded-2xl border border-rose-100 bg-rose-50/50">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-bold text-[#1c2938] uppercase tracking-wide flex items-center gap-1">
+                            <Percent className="w-3 h-3 text-rose-500" /> Intereses por Mora
+                        </span>
+                        {invoice.lateFeeWaived && <span className="text-[10px] font-bold text-slate-500">Condonados</span>}
+                    </div>
+                    <div className="space-y-1 text-xs text-slate-600">
+                        <div className="flex justify-between">
+                            <span>Cargados</span>
+                            <span className="font-bold">{invoice.currency} {chargedLateFees.toFixed(2)}</span>
+                        </div>
+                        {lateFeeAccrual && lateFeeAccrual.pending > 0 && (
+                            <div className="flex justify-between text-rose-600">
+                                <span>Por aplicar ({lateFeeAccrual.daysOverdue} días de mora)</span>
+                                <span className="font-bold">+{invoice.currency} {lateFeeAccrual.pending.toFixed(2)}</span>
+                            </div>
+                        )}
+                    </div>
+                    {!invoice.lateFeeWaived && onUpdateInvoice && (
+                        <button
+                            onClick={handleWaiveLateFees}
+                            className="w-full mt-3 bg-white text-slate-600 border border-slate-200 py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 hover:bg-slate-100 transition-colors"
+                        >
+                            <XCircle className="w-3 h-3" /> Condonar intereses
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* DUNNING SEQUENCE */}
+            {showDunning && (
+                <div className="mt-3 p-4 rounded-2xl border border-amber-100 bg-amber-50/50">
+                    <label className="text-xs font-bold text-[#1c2938] uppercase tracking-wide flex items-center gap-1 mb-2">
+                        <Clock className="w-3 h-3 text-amber-500" /> Secuencia de Cobranza
+                    </label>
+                    <select
+                        value={invoice.dunningSequenceId || ''}
+                        onChange={(e) => onUpdateInvoice!({ ...invoice, dunningSequenceId: e.target.value || undefined })}
+                        className="w-full p-2 bg-white border border-slate-200 rounded-xl text-xs font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                    >
+                        <option value="">Según cliente / perfil</option>
+                        {getAvailableDunningSequences(issuer).map(seq => (
+                            <option key={seq.id} value={seq.id}>{seq.name} ({seq.steps.length} pasos)</option>
+                        ))}
+                        <option value={DUNNING_OFF}>Sin seguimiento</option>
+                    </select>
+                </div>
+            )}
+
+            {/* INSTALLMENT PLAN */}
+            {invoice.type === 'Invoice' && invoice.status !== 'Borrador' && (installmentSchedule.length > 0 || (!!onUpdateInvoice && remainingBalance > 0.01)) && (
+                <div className="mt-3 p-4 rounded-2xl border border-slate-100 bg-slate-50">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-bold text-[#1c2938] uppercase tracking-wide flex items-center gap-1">
+                            <Calendar className="w-3 h-3 text-slate-400" /> Plan de Pagos
+                        </span>
+                        {installmentSchedule.length > 0 && onUpdateInvoice && (
+                            <button onClick={handleRemovePlan} className="text-[10px] font-bold text-slate-400 hover:text-red-500 transition-colors">Eliminar</button>
+                        )}
+                    </div>
+
+                    {installmentSchedule.length > 0 ? (
+                        <div className="space-y-2">
+                            {installmentSchedule.map(s => (
+                                <div key={s.installment.id} className={`bg-white border rounded-xl px-3 py-2 ${s.status === 'OVERDUE' ? 'border-red-200' : 'border-slate-200'}`}>
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className="font-bold text-[#1c2938]">{formatInstallmentLabel(s)}</span>
+                                        <span className="font-bold text-[#1c2938]">{invoice.currency} {s.amount.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between text-[10px] mt-0.5">
+                                        <span className="text-slate-400">Vence {s.dueDate.toLocaleDateString()}</span>
+                                        <span className={`font-bold uppercase ${s.status === 'PAID' ? 'text-green-600' : s.status === 'OVERDUE' ? 'text-red-500' : 'text-slate-400'}`}>
+                                            {s.status === 'PAID' ? 'Pagada' : s.status === 'OVERDUE' ? `Vencida ${s.daysOverdue}d` : s.status === 'PARTIAL' ? `Resta ${s.remaining.toFixed(2)}` : 'Pendiente'}
+                                        </span>
+                                    </div>
+                                    {s.remaining > 0.01 && (hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey') || !!issuer.paymentIntegration?.yappyApiKey || (!!issuer.paymentIntegration?.cclw && hasPaymentSecret(issuer.paymentIntegration, 'token'))) && (
+                                        <div className="flex gap-1 mt-2">
+                                            {hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey') && (
+                                                <button onClick={() => handleStripe(false, s)} className="flex-1 text-[10px] font-bold bg-[#635BFF] text-white py-1 rounded-lg hover:bg-[#5249e5] transition-colors">Stripe</button>
+                                            )}
+                                            {!!issuer.paymentIntegration?.yappyApiKey && (
+                                                <button onClick={() => handleYappyClick(s)} disabled={isProcessingYappy} className="flex-1 text-[10px] font-bold bg-white border border-slate-200 text-slate-700 py-1 rounded-lg hover:bg-slate-50 transition-colors">Yappy</button>
+                                            )}
+                                            {!!issuer.paymentIntegration?.cclw && hasPaymentSecret(issuer.paymentIntegration, 'token') && (
+                                                <button onClick={() => handlePagueloFacil(s)} disabled={isProcessingPaguelo} className="flex-1 text-[10px] font-bold bg-[#009ee3] text-white py-1 rounded-lg hover:bg-[#008cc9] transition-colors">PagueloFacil</button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ) : isEditingPlan ? (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-2 gap-2">
+                                <select
+                                    value={planCount}
+                                    onChange={(e) => setPlanCount(parseInt(e.target.value, 10))}
+                                    className="p-2 bg-white border border-slate-200 rounded-xl text-xs font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                                >
+                                    {[2, 3, 4, 6, 12].map(n => <option key={n} value={n}>{n} cuotas</option>)}
+                                </select>
+                                <select
+                                    value={planFrequency}
+                                    onChange={(e) => setPlanFrequency(e.target.value as InstallmentFrequency)}
+                                    className="p-2 bg-white border border-slate-200 rounded-xl text-xs font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                                >
+                                    {(Object.keys(INSTALLMENT_FREQUENCY_LABELS) as InstallmentFrequency[]).map(f => (
+                                        <option key={f} value={f}>{INSTALLMENT_FREQUENCY_LABELS[f]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest block">Primera cuota</label>
+                            <input
+                                type="date"
+                                value={planFirstDueDate}
+                                onChange={(e) => setPlanFirstDueDate(e.target.value)}
+                                className="w-full p-2 bg-white border border-slate-200 rounded-xl text-xs font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                            />
+                            <div className="text-[10px] text-slate-500 space-y-0.5">
+                                {planPreview.map((p, i) => (
+                                    <div key={p.id} className="flex justify-between">
+                                        <span>Cuota {i + 1} · {p.dueDate}</span>
+                                        <span className="font-mono">{invoice.currency} {p.amount.toFixed(2)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <button onClick={() => setIsEditingPlan(false)} className="py-2 rounded-xl text-xs font-bold text-slate-500 bg-white border border-slate-200 hover:bg-slate-100 transition-colors">Cancelar</button>
+                                <button onClick={handleSavePlan} className="py-2 rounded-xl text-xs font-bold text-white bg-[#1c2938] hover:bg-[#27bea5] transition-colors">Guardar Plan</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={() => setIsEditingPlan(true)}
+                            className="w-full py-2 rounded-xl text-xs font-bold text-[#1c2938] bg-white border border-slate-200 hover:border-[#27bea5] transition-colors"
+                        >
+                            Dividir en cuotas
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* RECURRENCE */}
+            {recurrenceStatus && invoice.recurrence && (
+                <div className="mt-3 p-4 rounded-2xl border border-slate-100 bg-slate-50">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-bold text-[#1c2938] uppercase tracking-wide flex items-center gap-1">
+                            <Repeat className="w-3 h-3 text-slate-400" /> Facturación Recurrente
+                        </span>
+                        <span className={`text-[10px] font-bold uppercase ${recurrenceStatus.paused ? 'text-amber-600' : recurrenceStatus.nextCycle ? 'text-[#27bea5]' : 'text-slate-400'}`}>
+                            {recurrenceStatus.paused ? 'Pausada' : recurrenceStatus.nextCycle ? 'Activa' : 'Finalizada'}
+                        </span>
+                    </div>
+                    <div className="space-y-1 text-xs text-slate-600 mb-3">
+                        <div className="flex justify-between">
+                            <span>Ciclos generados</span>
+                            <span className="font-bold">{recurrenceStatus.children.length + 1} / {invoice.recurrence.totalCycles}</span>
+                        </div>
+                        {recurrenceStatus.nextDate && (
+                            <div className="flex justify-between">
+                                <span>Próxima factura (ciclo {recurrenceStatus.nextCycle})</span>
+                                <span className="font-bold">{recurrenceStatus.nextDate.toLocaleDateString()}</span>
+                            </div>
+                        )}
+                        {(invoice.recurrence.skippedCycles?.length || 0) > 0 && (
+                            <div className="flex justify-between text-slate-400">
+                                <span>Ciclos omitidos</span>
+                                <span className="font-bold">{invoice.recurrence.skippedCycles!.join(', ')}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {recurrenceStatus.children.length > 0 && (
+                        <div className="space-y-2 mb-3">
+                            {recurrenceStatus.children.map(child => (
+                                <button
+                                    key={child.id}
+                                    onClick={() => onSelectDocument && onSelectDocument(child)}
+                                    className="w-full flex items-center justify-between bg-white border border-slate-200 rounded-xl px-3 py-2 text-left hover:border-[#27bea5] transition-colors"
+                                >
+                                    <span className="text-xs font-bold text-[#1c2938]">
+                                        #{child.id} <span className="text-[10px] text-slate-400 font-medium">Ciclo {child.recurrenceCycle} · {new Date(child.date).toLocaleDateString()}</span>
+                                    </span>
+                                    <span className={`text-[10px] font-bold uppercase ${child.status === 'Pagada' ? 'text-green-600' : 'text-slate-500'}`}>{child.status}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {onUpdateInvoice && recurrenceStatus.nextCycle && (
+                        <>
+                            <div className="space-y-1 mb-3">
+                                <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!invoice.recurrence.autoSend}
+                                        onChange={(e) => handleRecurrenceOption('autoSend', e.target.checked)}
+                                        className="accent-[#27bea5]"
+                                    />
+                                    Enviar cada factura por correo al cliente
+                                </label>
+                                {hasPaymentSecret(issuer.paymentIntegration, 'stripeSecretKey') && (
+                                    <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!invoice.recurrence.autoCharge}
+                                            onChange={(e) => handleRecurrenceOption('autoCharge', e.target.checked)}
+                                            className="accent-[#27bea5]"
+                                        />
+                                        Cobrar automáticamente con la tarjeta guardada en Stripe
+                                    </label>
+                                )}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <button
+                                    onClick={handleToggleRecurrencePause}
+                                    className="bg-white text-slate-600 border border-slate-200 py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 hover:bg-slate-100 transition-colors"
+                                >
+                                    {recurrenceStatus.paused ? <><Play className="w-3 h-3" /> Reanudar</> : <><Pause className="w-3 h-3" /> Pausar</>}
+                                </button>
+                                <button
+                                    onClick={handleSkipCycle}
+                                    disabled={recurrenceStatus.paused}
+                                    className="bg-white text-slate-600 border border-slate-200 py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 hover:bg-slate-100 transition-colors disabled:opacity-50"
+                                >
+                                    <SkipForward className="w-3 h-3" /> Omitir próximo
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
 
             {/* DELETE BUTTON */}
             {onDelete && (
@@ -698,6 +1414,34 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
             )}
          </div>
 
+         {/* VERSIONS: every content the client received stays viewable */}
+         {invoice.versions && invoice.versions.length > 0 && (
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+               <h3 className="font-bold text-[#1c2938] text-sm mb-3 flex items-center gap-2">
+                  <History className="w-4 h-4 text-[#27bea5]" /> Versiones
+               </h3>
+               <div className="space-y-2">
+                  <button
+                    onClick={() => setViewingVersion(null)}
+                    className={`w-full flex justify-between items-center p-3 rounded-xl border text-xs font-bold transition-colors ${!viewingVersion ? 'border-[#27bea5] bg-[#27bea5]/5 text-[#1c2938]' : 'border-slate-100 text-slate-500 hover:bg-slate-50'}`}
+                  >
+                     <span>Versión {getCurrentVersion(invoice)} (actual)</span>
+                     <span>{invoice.currency} {invoice.total.toFixed(2)}</span>
+                  </button>
+                  {[...invoice.versions].reverse().map(v => (
+                     <button
+                       key={v.version}
+                       onClick={() => setViewingVersion(v)}
+                       className={`w-full flex justify-between items-center p-3 rounded-xl border text-xs font-bold transition-colors ${viewingVersion?.version === v.version ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-slate-100 text-slate-500 hover:bg-slate-50'}`}
+                     >
+                        <span>Versión {v.version} · hasta {new Date(v.replacedAt).toLocaleDateString()}</span>
+                        <span>{v.content.currency} {v.content.total.toFixed(2)}</span>
+                     </button>
+                  ))}
+               </div>
+            </div>
+         )}
+
          {/* TIMELINE */}
          <div className="flex-1 min-h-[300px]">
             <DocumentTimeline 
@@ -720,7 +1464,7 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                             <CreditCard className="w-6 h-6" />
                         </div>
                         <div>
-                            <h3 className="text-2xl font-bold text-[#1c2938]">Registrar Cobro</h3>
+                            <h3 className="text-2xl font-bold text-[#1c2938]">{isRefundMode ? 'Registrar Reembolso' : 'Registrar Cobro'}</h3>
                             <p className="text-[10px] font-bold text-slate-400 tracking-widest uppercase mt-0.5">Factura #{invoice.id}</p>
                         </div>
                     </div>
@@ -741,13 +1485,13 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                                 {displayPayments.map((p, i) => (
                                     <div key={p.id} className="flex items-center justify-between bg-white border border-orange-200 rounded-xl p-3">
                                         <div>
-                                            <p className="text-xs font-bold text-[#1c2938]">Cobro {i + 1}</p>
+                                            <p className="text-xs font-bold text-[#1c2938]">{p.linkedDocumentId ? 'Saldo a favor' : p.amount < 0 ? 'Reembolso' : 'Cobro'} {i + 1}</p>
                                             <p className="text-[10px] text-slate-500 font-medium">{new Date(p.date).toLocaleDateString()} {p.method ? `• ${p.method}` : ''}</p>
                                         </div>
                                         <div className="flex items-center gap-3">
                                             <div className="text-right">
-                                                <p className="text-sm font-bold text-[#1c2938]">{p.currency || invoice.currency} {p.amount.toFixed(2)}</p>
-                                                <p className="text-[10px] font-bold text-green-600 uppercase">Pagado</p>
+                                                <p className={`text-sm font-bold ${p.amount < 0 ? 'text-red-500' : 'text-[#1c2938]'}`}>{p.currency || invoice.currency} {p.amount.toFixed(2)}</p>
+                                                <p className={`text-[10px] font-bold uppercase ${p.amount < 0 ? 'text-red-500' : 'text-green-600'}`}>{p.amount < 0 ? (p.linkedDocumentId ? `A ${p.linkedDocumentId}` : 'Devuelto') : 'Pagado'}</p>
                                             </div>
                                             <button onClick={() => handleEditPayment(p)} className="text-slate-300 hover:text-blue-500 transition-colors p-1" title="Editar cobro">
                                                 <Edit2 className="w-4 h-4" />
@@ -765,8 +1509,8 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                     {/* Método de Pago */}
                     <div>
                         <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">Método de Pago</label>
-                        <div className="grid grid-cols-4 gap-2">
-                            {[{id: 'Banco', icon: Landmark}, {id: 'Tarjeta', icon: CreditCard}, {id: 'Efectivo', icon: Coins}, {id: 'Otro', icon: FileText}].map(method => (
+                        <div className="grid grid-cols-5 gap-2">
+                            {[{id: 'Banco', icon: Landmark}, {id: 'Tarjeta', icon: CreditCard}, {id: 'Efectivo', icon: Coins}, {id: 'Yappy', icon: Smartphone}, {id: 'Otro', icon: FileText}].map(method => (
                                 <button 
                                     key={method.id}
                                     onClick={() => setPaymentMethod(method.id as any)}
@@ -781,7 +1525,7 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
 
                     {/* Monto Recibido */}
                     <div>
-                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">Monto Recibido</label>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">{isRefundMode ? 'Monto Reembolsado' : 'Monto Recibido'}</label>
                         <div className="relative">
                             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-xl">$</span>
                             <input 
@@ -827,7 +1571,127 @@ const InvoiceDetail: React.FC<InvoiceDetailProps> = ({ invoice, issuer, onBack,
                         onClick={handleRegisterPayment}
                         className="w-full py-4 mt-2 bg-green-500 text-white rounded-2xl font-bold hover:bg-green-600 transition-all shadow-lg hover:shadow-xl hover:-translate-y-1 active:translate-y-0"
                     >
-                        {editingPaymentId ? 'Actualizar Cobro' : 'Confirmar'}
+                        {editingPaymentId ? (isRefundMode ? 'Actualizar Reembolso' : 'Actualizar Cobro') : 'Confirmar'}
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+
+      {/* CREDIT / DEBIT NOTE MODAL */}
+      {adjustmentType && (
+        <div className="fixed inset-0 bg-[#1c2938]/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in">
+            <div className="bg-white rounded-[2rem] p-6 w-full max-w-md shadow-2xl animate-in zoom-in-95 max-h-[90vh] overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-start mb-6">
+                    <div className="flex items-center gap-4">
+                        <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${adjustmentType === 'CreditNote' ? 'bg-amber-50 text-amber-600' : 'bg-indigo-50 text-indigo-600'}`}>
+                            {adjustmentType === 'CreditNote' ? <FileMinus className="w-6 h-6" /> : <FilePlus className="w-6 h-6" />}
+                        </div>
+                        <div>
+                            <h3 className="text-2xl font-bold text-[#1c2938]">{getDocumentTypeLabel(adjustmentType)}</h3>
+                            <p className="text-[10px] font-bold text-slate-400 tracking-widest uppercase mt-0.5">Factura #{invoice.id}</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={closeAdjustmentModal}
+                        className="p-2 rounded-full hover:bg-slate-100 text-slate-400 transition-colors -mr-2"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-6">
+                    {adjustmentType === 'CreditNote' ? (
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">Alcance</label>
+                            <div className="grid grid-cols-2 gap-2 mb-4">
+                                {(['FULL', 'PARTIAL'] as const).map(scope => (
+                                    <button
+                                        key={scope}
+                                        onClick={() => setCreditScope(scope)}
+                                        className={`py-3 rounded-2xl border-2 text-xs font-bold transition-all ${creditScope === scope ? 'border-amber-500 text-amber-700 bg-amber-50' : 'border-slate-50 text-slate-500 bg-slate-50 hover:bg-slate-100'}`}
+                                    >
+                                        {scope === 'FULL' ? 'Total' : 'Parcial (por línea)'}
+                                    </button>
+                                ))}
+                            </div>
+                            {creditScope === 'PARTIAL' && (
+                                <div className="space-y-2">
+                                    {getCreditableLines(invoice, relatedDocuments).map(line => (
+                                        <div key={line.item.id} className="flex items-center justify-between gap-3 bg-slate-50 border border-slate-100 rounded-xl p-3">
+                                            <div className="min-w-0">
+                                                <p className="text-xs font-bold text-[#1c2938] truncate">{line.item.description}</p>
+                                                <p className="text-[10px] text-slate-500">
+                                                    {invoice.currency} {line.item.price.toFixed(2)} · Disponible: {line.remainingQuantity} de {line.item.quantity}
+                                                </p>
+                                            </div>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={line.remainingQuantity}
+                                                value={creditQuantities[line.item.id] || ''}
+                                                onChange={(e) => setCreditQuantities({ ...creditQuantities, [line.item.id]: e.target.value })}
+                                                disabled={line.remainingQuantity <= 0}
+                                                className="w-20 px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-bold text-[#1c2938] outline-none focus:border-amber-500 disabled:opacity-50"
+                                                placeholder="0"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">Concepto del Cargo</label>
+                                <input
+                                    type="text"
+                                    value={debitDescription}
+                                    onChange={(e) => setDebitDescription(e.target.value)}
+                                    className="w-full px-4 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-[#1c2938] outline-none focus:border-indigo-500 focus:bg-white transition-all"
+                                    placeholder="Ej. Cargo adicional por envío"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">Monto (sin ITBMS)</label>
+                                    <input
+                                        type="number"
+                                        value={debitAmount}
+                                        onChange={(e) => setDebitAmount(e.target.value)}
+                                        className="w-full px-4 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-[#1c2938] outline-none focus:border-indigo-500 focus:bg-white transition-all"
+                                        placeholder="0.00"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">ITBMS %</label>
+                                    <input
+                                        type="number"
+                                        value={debitTax}
+                                        onChange={(e) => setDebitTax(parseFloat(e.target.value) || 0)}
+                                        className="w-full px-4 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-[#1c2938] outline-none focus:border-indigo-500 focus:bg-white transition-all"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1 mb-2 block">Motivo</label>
+                        <textarea
+                            value={adjustmentReason}
+                            onChange={(e) => setAdjustmentReason(e.target.value)}
+                            rows={2}
+                            className="w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm text-[#1c2938] outline-none focus:border-[#27bea5] focus:bg-white transition-all resize-none"
+                            placeholder={adjustmentType === 'CreditNote' ? 'Ej. Devolución de mercancía' : 'Ej. Intereses por mora'}
+                        />
+                    </div>
+
+                    <button
+                        onClick={handleCreateAdjustmentNote}
+                        className="w-full py-4 bg-[#1c2938] text-white rounded-2xl font-bold hover:bg-[#27bea5] transition-all shadow-lg"
+                    >
+                        Emitir {getDocumentTypeLabel(adjustmentType)}
                     </button>
                 </div>
             </div>
@@ -8,9 +8,14 @@ import {
 } from 'lucide-react';
 import { 
   Invoice, ParsedInvoiceData, UserProfile, InvoiceItem, InvoiceStatus, CatalogItem,
-  RecurrenceFrequency, InvoiceRecurrence, PaymentRecord
+  RecurrenceFrequency, InvoiceRecurrence, PaymentRecord, ItbmsRateCode
 } from '../types';
 import { parseInvoiceRequest, getDiscountRecommendation, AI_ERROR_BLOCKED } from '../services/geminiService';
+import { ITBMS_RATES, DEFAULT_ITBMS_RATE_CODE, applyItbmsRate, calculateItbmsBreakdown, resolveItbmsRateCode } from '../services/itbmsService';
+import { allocateDocumentIdInDb } from '../services/neon';
+import { DOCUMENT_ID_UNAVAILABLE, DOCUMENT_ID_OFFLINE } from '../services/documentNumberingService';
+import { isIssuedDocument, createDocumentVersion, getCurrentVersion } from '../services/documentVersionService';
+import { useAlert } from './AlertSystem';
 
 interface InvoiceWizardProps {
   currentUser: UserProfile;
@@ -43,6 +48,8 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
 }) => {
   const isTemplateMode = initialData && !initialData.id;
   const isEditMode = initialData && !!initialData.id;
+  // Issued documents are not rewritten: saving creates the next version
+  const isAmendment = !!initialData?.id && isIssuedDocument(initialData);
 
   // Prioritize passed items, fallback to user profile legacy array
   const availableServices = catalogItems || currentUser.defaultServices || [];
@@ -52,6 +59,7 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const alert = useAlert();
   const [aiError, setAiError] = useState<string | null>(null);
 
   const [clientSearch, setClientSearch] = useState(initialData?.clientName || '');
@@ -137,13 +145,15 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
     }
   }, [initialData]);
 
-  // Handle Tax Toggle Change
+  // Handle Tax Toggle Change: off exempts every line, on restores the general rate on exempt lines
   const handleTaxToggle = (enabled: boolean) => {
     setApplyTax(enabled);
-    const newRate = enabled ? 7 : 0;
     setDraft(prev => ({
       ...prev,
-      items: prev.items.map(item => ({ ...item, tax: newRate }))
+      items: prev.items.map(item => {
+        if (!enabled) return applyItbmsRate(item, 'EXENTO');
+        return resolveItbmsRateCode(item) === 'EXENTO' ? applyItbmsRate(item, DEFAULT_ITBMS_RATE_CODE) : item;
+      })
     }));
   };
 
@@ -185,7 +195,10 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
     // Total
     const total = taxableBase + taxAmount;
 
-    return { subtotal, discountAmount, taxAmount, total, effectiveRate, finalWithholding };
+    // Per-rate ITBMS (discount spread the same way as above)
+    const taxBreakdown = calculateItbmsBreakdown(draft.items, subtotal > 0 ? (discountAmount / subtotal) * 100 : 0);
+
+    return { subtotal, discountAmount, taxAmount, total, effectiveRate, finalWithholding, taxBreakdown };
   };
 
   const totals = calculateTotals();
@@ -259,14 +272,14 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
       const result = await parseInvoiceRequest(contextInput, currentUser.apiKeys);
 
       if (result) {
-        const newItems = [{
+        const newItems = [applyItbmsRate({
           id: Date.now().toString(),
           description: result.concept || 'Servicios Profesionales',
           details: '', // AI parsing currently just returns concept
           quantity: 1,
           price: result.amount || 0,
-          tax: applyTax ? 7 : 0
-        }];
+          tax: 0
+        }, applyTax ? DEFAULT_ITBMS_RATE_CODE : 'EXENTO')];
 
         let matchedClient = null;
         if (result.clientName) {
@@ -301,23 +314,6 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
     setStep('SMART_EDITOR');
   };
 
-  const generateUniqueId = () => {
-    const sequences = currentUser.documentSequences || {
-      invoicePrefix: 'FAC', invoiceNextNumber: 1,
-      quotePrefix: 'COT', quoteNextNumber: 1
-    };
-
-    let prefix = docType === 'Invoice' ? sequences.invoicePrefix : sequences.quotePrefix;
-    let nextNum = docType === 'Invoice' ? sequences.invoiceNextNumber : sequences.quoteNextNumber;
-
-    let candidateId = `${prefix}-${String(nextNum).padStart(4, '0')}`;
-    while (invoices.some(inv => inv.id === candidateId)) {
-      nextNum++;
-      candidateId = `${prefix}-${String(nextNum).padStart(4, '0')}`;
-    }
-    return candidateId;
-  };
-
   const addIntervalToDate = (dateStr: string, frequency: RecurrenceFrequency, index: number) => {
     const date = new Date(dateStr);
     
@@ -335,16 +331,26 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
 
   const handleSave = async (targetStatus: 'Borrador' | 'Creada') => {
     if (!draft.clientName) return;
+    if (isOffline && !generatedId) {
+      alert.addToast('error', 'Sin conexión', DOCUMENT_ID_OFFLINE);
+      return;
+    }
     setIsSaving(true);
 
     const baseDate = initialData?.date || new Date().toISOString();
     const baseDueDate = draft.validityDate;
     
-    let newId = generatedId || generateUniqueId();
+    // New documents are numbered by the shared counter when saved
+    const newId = generatedId || await allocateDocumentIdInDb(currentUser.id, docType, baseDate);
+    if (!newId) {
+      alert.addToast('error', 'No se pudo guardar', DOCUMENT_ID_UNAVAILABLE);
+      setIsSaving(false);
+      return;
+    }
 
     const finalAmountPaid = draft.payments.reduce((sum, p) => sum + p.amount, 0);
     
-    // Auto-update status if fully paid
+    // Auto-update status if fully paid. Offline, only existing documents get here (queued edits)
     let finalStatus = isOffline ? 'PendingSync' as const : (isEditMode ? docStatus : targetStatus);
     if (docType === 'Invoice' && finalStatus !== 'Borrador') {
        if (finalAmountPaid >= totals.total - 0.01) {
@@ -368,22 +374,29 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
       status: finalStatus,
       currency: draft.currency,
       type: docType,
-      dueDate: baseDueDate,
+      // An untouched default validity is not a due date the edited document had
+      dueDate: initialData?.id && !initialData.dueDate && baseDueDate === new Date(initialData.date).toISOString().split('T')[0] ? undefined : baseDueDate,
       timeline: initialData?.timeline || [],
       payments: draft.payments,
       amountPaid: finalAmountPaid,
       recurrence: isRecurrent ? {
+        ...initialData?.recurrence, // Keeps scheduler state (pause, skipped cycles, auto-send/charge)
         isRecurrent: true,
         frequency: recurrenceFreq,
         totalCycles: Math.max(1, totalCycles)
       } : undefined,
+      // Generated cycles stay linked, otherwise the scheduler would bill the cycle again
+      recurrenceParentId: initialData?.recurrenceParentId,
+      recurrenceCycle: initialData?.recurrenceCycle,
       payViaGateway
     };
 
+    const savedInvoice = isAmendment && initialData ? createDocumentVersion(initialData, finalInvoice) : finalInvoice;
+
     setGeneratedId(newId);
-    setFinalInvoiceObj(finalInvoice);
+    setFinalInvoiceObj(savedInvoice);
 
-    await onSave(finalInvoice);
+    await onSave(savedInvoice);
 
     setSavedStatus(targetStatus);
     setIsSaving(false);
@@ -401,14 +414,14 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
   const addItem = (catalogItem?: any) => {
     setDraft(prev => ({
       ...prev,
-      items: [...prev.items, {
+      items: [...prev.items, applyItbmsRate({
         id: Date.now().toString(),
         description: catalogItem?.name || '',
         details: catalogItem?.description || '', // Pull description from catalog
         quantity: 1,
         price: catalogItem?.price || 0,
-        tax: applyTax ? 7 : 0
-      }]
+        tax: 0
+      }, catalogItem?.taxRateCode || (applyTax ? DEFAULT_ITBMS_RATE_CODE : 'EXENTO'))]
     }));
     setShowCatalog(false);
   };
@@ -449,7 +462,7 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
           <span className="font-mono text-xl font-bold text-[#1c2938]">{generatedId}</span>
         </div>
         <p className="text-lg text-slate-500 mb-8 max-w-md">
-          {isEditMode ? "El documento ha sido actualizado correctamente." : "Listo para el siguiente paso."}
+          {isEditMode ? (finalInvoiceObj?.version && finalInvoiceObj.version !== initialData?.version ? `Se guardó la versión ${finalInvoiceObj.version}; las anteriores quedan en el historial.` : "El documento ha sido actualizado correctamente.") : "Listo para el siguiente paso."}
         </p>
         <div className="flex gap-4">
           <button onClick={onCancel} className="text-slate-500 font-medium hover:text-slate-800 px-6">
@@ -485,7 +498,7 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
           )}
         </div>
         <div className="text-sm font-medium text-slate-400 uppercase tracking-wide">
-          {step === 'SMART_EDITOR' ? (isEditMode ? 'Editando Documento' : (isTemplateMode ? 'Nuevo para Cliente' : (docType === 'Quote' ? 'Nueva Cotización' : 'Nueva Factura'))) : 'Asistente'}
+          {step === 'SMART_EDITOR' ? (isEditMode ? (isAmendment && initialData ? `Nueva Versión (v${getCurrentVersion(initialData) + 1})` : 'Editando Documento') : (isTemplateMode ? 'Nuevo para Cliente' : (docType === 'Quote' ? 'Nueva Cotización' : 'Nueva Factura'))) : 'Asistente'}
         </div>
       </div>
 
@@ -653,6 +666,20 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
                       <div className="flex gap-2">
                         <div className="w-20"><input type="number" value={item.quantity} onChange={(e) => updateItem(idx, 'quantity', parseFloat(e.target.value))} className="w-full p-2 bg-slate-50 rounded-lg text-sm text-center outline-none focus:ring-1 focus:ring-[#27bea5]" placeholder="Cant" /></div>
                         <div className="flex-1 relative"><span className="absolute left-3 top-2 text-slate-400 text-sm">{draft.currency === 'EUR' ? '€' : '$'}</span><input type="number" value={item.price} onChange={(e) => updateItem(idx, 'price', parseFloat(e.target.value))} className="w-full p-2 pl-6 bg-slate-50 rounded-lg text-sm outline-none focus:ring-1 focus:ring-[#27bea5]" placeholder="Precio" /></div>
+                        <div className="w-32">
+                          <select
+                            value={resolveItbmsRateCode(item)}
+                            onChange={(e) => {
+                              const newItems = [...draft.items];
+                              newItems[idx] = applyItbmsRate(newItems[idx], e.target.value as ItbmsRateCode);
+                              setDraft(prev => ({ ...prev, items: newItems }));
+                            }}
+                            className="w-full p-2 bg-slate-50 rounded-lg text-sm outline-none focus:ring-1 focus:ring-[#27bea5]"
+                            title="Tasa de ITBMS"
+                          >
+                            {ITBMS_RATES.map(r => <option key={r.code} value={r.code}>{r.label}</option>)}
+                          </select>
+                        </div>
                       </div>
                     </div>
                     <button onClick={() => removeItem(idx)} className="p-2 text-slate-300 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
@@ -798,6 +825,7 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
                              <option value="Banco">Banco</option>
                              <option value="Tarjeta">Tarjeta</option>
                              <option value="Efectivo">Efectivo</option>
+                             <option value="Yappy">Yappy</option>
                              <option value="Otro">Otro</option>
                           </select>
                         </div>
@@ -908,13 +936,23 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
                   {/* Tax Row with Toggle */}
                   <div className="flex justify-between items-center text-slate-300">
                     <div className="flex items-center gap-2">
-                      <span>ITBMS (7%)</span>
+                      <span>ITBMS</span>
                       <button onClick={() => handleTaxToggle(!applyTax)} className={`w-8 h-4 rounded-full relative transition-colors ${applyTax ? 'bg-[#27bea5]' : 'bg-slate-600'}`}>
                         <div className={`absolute top-0.5 w-3 h-3 bg-white rounded-full transition-transform ${applyTax ? 'left-4.5 translate-x-full' : 'left-0.5'}`} style={{ left: applyTax ? 'calc(100% - 14px)' : '2px' }}></div>
                       </button>
                     </div>
                     <span>{totals.taxAmount.toFixed(2)}</span>
                   </div>
+                  {totals.taxBreakdown.length > 0 && !(totals.taxBreakdown.length === 1 && totals.taxBreakdown[0].code === DEFAULT_ITBMS_RATE_CODE) && (
+                    <div className="space-y-1 pl-3 border-l border-white/10">
+                      {totals.taxBreakdown.map(line => (
+                        <div key={line.code} className="flex justify-between text-xs text-slate-400">
+                          <span>{line.label} <span className="text-slate-500">s/ {line.base.toFixed(2)}</span></span>
+                          <span>{line.tax.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
 
                   {/* WITHHOLDING ROW */}
                   {docType === 'Invoice' && (
@@ -974,7 +1012,11 @@ const InvoiceWizard: React.FC<InvoiceWizardProps> = ({
                     {isSaving ? (<>Guardando <Loader2 className="w-4 h-4 animate-spin" /></>) : (<>{initialData ? 'Guardar Cambios' : 'Finalizar'} <Check className="w-4 h-4" /></>)}
                   </button>
                 </div>
-                {isOffline && <p className="text-center text-xs text-amber-400 mt-2 font-medium">Modo Offline Activo ⚡️</p>}
+                {isOffline && (
+                  <p className="text-center text-xs text-amber-400 mt-2 font-medium">
+                    {generatedId ? 'Modo Offline Activo ⚡️' : 'Sin conexión: los documentos nuevos se crean en línea'}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    ArrowLeft, ChevronLeft, ChevronRight, Download, FileText, Landmark,
+    Loader2, CheckCircle2, Clock, Save, Building2, AlertCircle
+} from 'lucide-react';
+import { jsPDF } from 'jspdf';
+import { Invoice, UserProfile, TaxFiling, TaxFilingStatus } from '../types';
+import { fetchInvoicesFromDb, fetchTaxFilingsFromDb, saveTaxFilingToDb } from '../services/neon';
+import {
+    buildF430Worksheet, buildF430Csv, formatPeriodLabel, getPeriodKey,
+    getPreviousPeriod, getNextPeriod, F430Section, TAX_FILING_STATUS_LABELS
+} from '../services/f430Service';
+
+interface ItbmsReturnWorksheetProps {
+    currentUser: UserProfile;
+    managedCompanies: UserProfile[];
+    ownDocuments: Invoice[];
+    onBack: () => void;
+}
+
+const SECTION_TITLES: Record<F430Section, string> = {
+    VENTAS: 'Ventas (Débito Fiscal)',
+    COMPRAS: 'Compras (Crédito Fiscal)',
+    LIQUIDACION: 'Liquidación'
+};
+
+const STATUS_STYLES: Record<TaxFilingStatus, string> = {
+    DRAFT: 'bg-slate-100 text-slate-500',
+    READY: 'bg-amber-50 text-amber-600',
+    FILED: 'bg-emerald-50 text-emerald-600'
+};
+
+const downloadFile = (content: Blob, filename: string) => {
+    const url = window.URL.createObjectURL(content);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+};
+
+const ItbmsReturnWorksheet: React.FC<ItbmsReturnWorksheetProps> = ({
+    currentUser,
+    managedCompanies,
+    ownDocuments,
+    onBack
+}) => {
+    const companies = useMemo(() => [currentUser, ...managedCompanies.filter(c => c.id !== currentUser.id)], [currentUser, managedCompanies]);
+
+    const [companyId, setCompanyId] = useState(currentUser.id);
+    // Returns are filed for the month that just closed
+    const [period, setPeriod] = useState(() => getPreviousPeriod(getPeriodKey(new Date())));
+    const [documents, setDocuments] = useState<Invoice[]>(ownDocuments);
+    const [filings, setFilings] = useState<TaxFiling[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [receiptNumber, setReceiptNumber] = useState('');
+
+    const company = companies.find(c => c.id === companyId) || currentUser;
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setIsLoading(true);
+            const [docs, savedFilings] = await Promise.all([
+                companyId === currentUser.id ? Promise.resolve(ownDocuments) : fetchInvoicesFromDb(companyId),
+                fetchTaxFilingsFromDb(companyId)
+            ]);
+            if (cancelled) return;
+            setDocuments(docs || []);
+            setFilings(savedFilings);
+            setIsLoading(false);
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [companyId, currentUser.id, ownDocuments]);
+
+    const worksheet = useMemo(() => buildF430Worksheet(documents, period, filings), [documents, period, filings]);
+    const filing = filings.find(f => f.form === 'F430' && f.period === period);
+    const status: TaxFilingStatus = filing?.status || 'DRAFT';
+
+    useEffect(() => {
+        setReceiptNumber(filing?.receiptNumber || '');
+    }, [filing?.receiptNumber, period, companyId]);
+
+    const handleSetStatus = async (nextStatus: TaxFilingStatus) => {
+        setIsSaving(true);
+        const updated: TaxFiling = {
+            ...filing,
+            userId: companyId,
+            form: 'F430',
+            period,
+            status: nextStatus,
+            taxPayable: worksheet.taxPayable,
+            creditCarriedForward: worksheet.creditCarriedForward,
+            receiptNumber: receiptNumber.trim() || undefined,
+            filedAt: nextStatus === 'FILED' ? (filing?.filedAt || new Date().toISOString()) : undefined,
+            updatedAt: new Date().toISOString()
+        };
+        const ok = await saveTaxFilingToDb(updated);
+        if (ok) {
+            setFilings(prev => [...prev.filter(f => !(f.form === 'F430' && f.period === period)), updated]);
+        } else {
+            alert('No se pudo guardar el estado de la declaración. Intenta de nuevo.');
+        }
+        setIsSaving(false);
+    };
+
+    const handleExportCsv = () => {
+        const csv = buildF430Csv(worksheet, { name: company.legalName || company.name, taxId: company.taxId });
+        downloadFile(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), `F430_${company.taxId || company.name}_${period}.csv`);
+    };
+
+    const handleExportPdf = () => {
+        const pdf = new jsPDF('p', 'mm', 'a4');
+        let y = 20;
+
+        pdf.setFontSize(16);
+        pdf.text('Formulario 430 - Declaración Jurada de ITBMS', 15, y);
+        pdf.setFontSize(10);
+        y += 8;
+        pdf.text(`Contribuyente: ${company.legalName || company.name}`, 15, y);
+        y += 5;
+        pdf.text(`RUC: ${company.taxId || '-'}    Periodo: ${formatPeriodLabel(period)}    Estado: ${TAX_FILING_STATUS_LABELS[status]}`, 15, y);
+        y += 10;
+
+        (['VENTAS', 'COMPRAS', 'LIQUIDACION'] as F430Section[]).forEach(section => {
+            pdf.setFont('helvetica', 'bold');
+            pdf.text(SECTION_TITLES[section], 15, y);
+            pdf.text('Base', 150, y, { align: 'right' });
+            pdf.text('Monto', 195, y, { align: 'right' });
+            pdf.setFont('helvetica', 'normal');
+            y += 6;
+            worksheet.lines.filter(l => l.section === section).forEach(line => {
+                pdf.text(`${line.number}. ${line.label}`, 15, y);
+                if (line.base !== undefined) pdf.text(line.base.toFixed(2), 150, y, { align: 'right' });
+                pdf.text(line.amount.toFixed(2), 195, y, { align: 'right' });
+                y += 5;
+            });
+            y += 5;
+        });
+
+        pdf.setFontSize(8);
+        pdf.text(`Hoja de trabajo generada por Kônsul el ${new Date().toLocaleDateString('es-PA')}. Verifique los valores antes de presentar en e-Tax 2.0.`, 15, y + 5);
+        downloadFile(pdf.output('blob'), `F430_${company.taxId || company.name}_${period}.pdf`);
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto animate-in fade-in duration-500">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+                <div>
+                    <button
+                        onClick={onBack}
+                        className="flex items-center gap-2 text-slate-400 hover:text-[#1c2938] transition-colors mb-2 group"
+                    >
+                        <ArrowLeft className="w-5 h-5 group-hover:-translate-x-1 transition-transform" />
+                        <span className="font-bold text-sm uppercase tracking-widest">Volver al Panel</span>
+                    </button>
+                    <h2 className="text-3xl font-bold text-[#1c2938]">Declaración ITBMS (F430)</h2>
+                </div>
+
+                <div className="flex items-center gap-3 bg-white p-2 rounded-2xl border border-slate-100 shadow-sm">
+                    <button onClick={() => setPeriod(getPreviousPeriod(period))} className="p-2 hover:bg-slate-50 rounded-xl transition-colors">
+                        <ChevronLeft className="w-5 h-5 text-slate-400" />
+                    </button>
+                    <span className="font-bold text-[#1c2938] px-4 min-w-[10rem] text-center">{formatPeriodLabel(period)}</span>
+                    <button onClick={() => setPeriod(getNextPeriod(period))} className="p-2 hover:bg-slate-50 rounded-xl transition-colors">
+                        <ChevronRight className="w-5 h-5 text-slate-400" />
+                    </button>
+                </div>
+            </div>
+
+            {/* COMPANY + STATUS BAR */}
+            <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-6 mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-3 bg-slate-50 text-slate-500 rounded-2xl">
+                        <Building2 className="w-5 h-5" />
+                    </div>
+                    {companies.length > 1 ? (
+                        <select
+                            value={companyId}
+                            onChange={(e) => setCompanyId(e.target.value)}
+                            className="bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold text-[#1c2938] outline-none focus:ring-2 focus:ring-[#27bea5]"
+                        >
+                            {companies.map(c => (
+                                <option key={c.id} value={c.id}>{c.name}{c.taxId ? ` · ${c.taxId}` : ''}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <div>
+                            <p className="font-bold text-[#1c2938]">{company.name}</p>
+                            <p className="text-xs text-slate-400">{company.taxId || 'Sin RUC configurado'}</p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold ${STATUS_STYLES[status]}`}>
+                        {status === 'FILED' ? <CheckCircle2 className="w-3.5 h-3.5" /> : <Clock className="w-3.5 h-3.5" />}
+                        {TAX_FILING_STATUS_LABELS[status]}
+                        {filing?.filedAt && status === 'FILED' && ` · ${new Date(filing.filedAt).toLocaleDateString('es-PA')}`}
+                    </span>
+                    <button onClick={handleExportCsv} disabled={isLoading} className="flex items-center gap-2 px-4 py-2.5 bg-slate-50 border border-slate-100 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-50">
+                        <Download className="w-4 h-4" /> CSV
+                    </button>
+                    <button onClick={handleExportPdf} disabled={isLoading} className="flex items-center gap-2 px-4 py-2.5 bg-[#1c2938] text-white rounded-xl text-sm font-bold hover:bg-[#27bea5] transition-colors disabled:opacity-50">
+                        <FileText className="w-4 h-4" /> PDF
+                    </button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="p-16 text-center text-slate-400">
+                    <Loader2 className="w-8 h-8 mx-auto mb-4 animate-spin" />
+                    <p>Cargando documentos del periodo...</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    {/* WORKSHEET */}
+                    <div className="lg:col-span-2 bg-white rounded-[2.5rem] border border-slate-100 shadow-sm overflow-hidden">
+                        {(['VENTAS', 'COMPRAS', 'LIQUIDACION'] as F430Section[]).map(section => (
+                            <div key={section} className="border-b border-slate-50 last:border-0">
+                                <div className="px-8 py-4 bg-slate-50/50 flex justify-between text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                                    <span>{SECTION_TITLES[section]}</span>
+                                    <span className="flex gap-10">
+                                        {section !== 'LIQUIDACION' && <span className="w-24 text-right">Base</span>}
+                                        <span className="w-24 text-right">Monto</span>
+                                    </span>
+                                </div>
+                                {worksheet.lines.filter(l => l.section === section).map(line => {
+                                    const isResult = line.number === 13 || line.number === 14;
+                                    return (
+                                        <div key={line.number} className={`px-8 py-3 flex justify-between items-center text-sm ${isResult ? 'font-bold text-[#1c2938]' : 'text-slate-600'}`}>
+                                            <span><span className="text-slate-300 font-mono mr-3">{String(line.number).padStart(2, '0')}</span>{line.label}</span>
+                                            <span className="flex gap-10 font-mono">
+                                                {section !== 'LIQUIDACION' && <span className="w-24 text-right">{line.base?.toFixed(2)}</span>}
+                                                <span className="w-24 text-right">{line.amount.toFixed(2)}</span>
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* RESULT + FILING */}
+                    <div className="space-y-6">
+                        <div className={`rounded-[2.5rem] p-8 text-white shadow-xl ${worksheet.taxPayable > 0 ? 'bg-gradient-to-br from-amber-600 to-orange-500' : 'bg-gradient-to-br from-emerald-600 to-teal-500'}`}>
+                            <div className="flex items-center gap-2 text-white/80 font-bold mb-2 uppercase tracking-widest text-xs">
+                                <Landmark className="w-4 h-4" /> {worksheet.taxPayable > 0 ? 'Impuesto a Pagar' : 'Saldo a Favor'}
+                            </div>
+                            <h3 className="text-4xl font-bold">
+                                ${(worksheet.taxPayable > 0 ? worksheet.taxPayable : worksheet.creditCarriedForward).toFixed(2)}
+                            </h3>
+                            <p className="text-white/80 text-xs mt-3">
+                                {worksheet.salesDocuments} documentos de venta · {worksheet.purchaseDocuments} compras con crédito
+                            </p>
+                        </div>
+
+                        {worksheet.nonDeductiblePurchases > 0 && (
+                            <div className="p-5 bg-rose-50 border border-rose-100 rounded-2xl flex gap-3 text-sm text-rose-700">
+                                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                                <p>${worksheet.nonDeductiblePurchases.toFixed(2)} en compras sin derecho a crédito fiscal (no deducibles o sin factura fiscal).</p>
+                            </div>
+                        )}
+
+                        <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-6 space-y-4">
+                            <h4 className="font-bold text-[#1c2938]">Estado de la Declaración</h4>
+                            <div>
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">N° de Recibo e-Tax</label>
+                                <input
+                                    type="text"
+                                    value={receiptNumber}
+                                    onChange={(e) => setReceiptNumber(e.target.value)}
+                                    placeholder="Opcional"
+                                    className="w-full mt-1 px-4 py-2.5 bg-slate-50 border border-slate-100 rounded-xl text-sm outline-none focus:ring-2 focus:ring-[#27bea5]"
+                                />
+                            </div>
+                            <div className="grid grid-cols-1 gap-2">
+                                {(['DRAFT', 'READY', 'FILED'] as TaxFilingStatus[]).map(s => (
+                                    <button
+                                        key={s}
+                                        onClick={() => handleSetStatus(s)}
+                                        disabled={isSaving}
+                                        className={`w-full py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 ${status === s ? 'bg-[#1c2938] text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                                    >
+                                        {isSaving && status !== s ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                                        {TAX_FILING_STATUS_LABELS[s]}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[10px] text-slate-400 leading-relaxed">
+                                Al marcarla como presentada se guarda el saldo a favor declarado y se usa como arrastre del siguiente mes.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ItbmsReturnWorksheet;
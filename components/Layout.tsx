@@ -14,7 +14,8 @@ import {
   LogOut,
   Sparkles,
   Calculator,
-  Calendar
+  Calendar,
+  Landmark
 } from 'lucide-react';
 import { AppView, ProfileType, UserProfile, AccountantTask, BreadcrumbItem } from '../types';
 import SupportWidget from './SupportWidget';
@@ -122,6 +123,13 @@ const Layout: React.FC<LayoutProps> = ({
             isCollapsed={isCollapsed}
             onClick={() => onNavigate(AppView.EXPENSES)}
           />
+          <NavItem
+            icon={<Landmark size={24} />}
+            label="Conciliación"
+            isActive={activeView === AppView.BANK_RECONCILIATION}
+            isCollapsed={isCollapsed}
+            onClick={() => onNavigate(AppView.BANK_RECONCILIATION)}
+          />
           <NavItem
             icon={<ShoppingBag size={24} />}
             label="Catálogo"
@@ -9,6 +9,8 @@ import {
 import { UserProfile, CatalogItem, EmailConfig, ProfileType } from '../types';
 import { suggestCatalogItems, generateEmailTemplate } from '../services/geminiService';
 import { createUserInDb } from '../services/neon'; // Import for direct DB creation
+import { validateRuc, formatRuc } from '../services/dgiService';
+import { consultarRucDGI, describeRucLookupSource, RucLookupResult } from '../services/rucLookupService';
 import { sendWelcomeEmail } from '../services/resendService'; // Import Email Service
 
 interface OnboardingWizardProps {
@@ -38,6 +40,8 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
   const [password, setPassword] = useState(''); // New
   const [showPassword, setShowPassword] = useState(false);
   const [manualEntryMode, setManualEntryMode] = useState(false);
+  const [isLookingUpRuc, setIsLookingUpRuc] = useState(false);
+  const [rucLookup, setRucLookup] = useState<RucLookupResult | null>(null);
 
   // Step 2 State
   const [primaryColor, setPrimaryColor] = useState('#27bea5');
@@ -65,8 +69,23 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
   // Step 7 State (Plan) - MODIFIED: Default to Paid, no Free option
   const [selectedPlan, setSelectedPlan] = useState<'Emprendedor Pro'>('Emprendedor Pro');
 
+  // Issuer RUC must be complete (with DV) since it goes on every fiscal document
+  const rucCheck = taxId.trim() ? validateRuc(taxId, { requireDv: true }) : null;
+
   // --- ACTIONS ---
 
+  const handleRucLookup = async () => {
+    setIsLookingUpRuc(true);
+    const result = await consultarRucDGI(taxId);
+    setRucLookup(result);
+    if (result.found && result.contribuyente) {
+      setTaxId(`${result.contribuyente.ruc} DV ${result.contribuyente.dv}`);
+      if (!companyName) setCompanyName(result.contribuyente.razonSocial);
+      if (!address && result.contribuyente.direccion) setAddress(result.contribuyente.direccion);
+    }
+    setIsLookingUpRuc(false);
+  };
+
   const handlePersonTypeSelect = (type: 'NATURAL' | 'JURIDICA') => {
     setPersonType(type);
     setManualEntryMode(true); 
@@ -321,12 +340,51 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
                     <Hash className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 group-focus-within/input:text-[#27bea5] transition-colors" />
                     <input 
                       value={taxId}
-                      onChange={(e) => setTaxId(e.target.value.toUpperCase())}
-                      className="w-full pl-12 p-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#27bea5] outline-none font-mono font-bold text-[#1c2938] placeholder:text-slate-300 uppercase"
-                      placeholder={personType === 'NATURAL' ? "Ej: 8-123-456" : "Ej: 15569888-2-2021 DV 55"}
+                      onChange={(e) => { setTaxId(e.target.value.toUpperCase()); setRucLookup(null); }}
+                      className="w-full pl-12 pr-32 p-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#27bea5] outline-none font-mono font-bold text-[#1c2938] placeholder:text-slate-300 uppercase"
+                      placeholder={personType === 'NATURAL' ? "Ej: 8-123-456 DV 73" : "Ej: 155698882-2-2021 DV 25"}
                       autoFocus
                     />
+                    <button
+                      type="button"
+                      onClick={handleRucLookup}
+                      disabled={!rucCheck?.parsed || isLookingUpRuc}
+                      className="absolute right-2 top-2 px-3 py-1.5 rounded-lg bg-[#1c2938] text-white text-xs font-bold flex items-center gap-1 hover:bg-[#27bea5] disabled:opacity-30 transition-colors"
+                    >
+                      {isLookingUpRuc ? <Loader2 className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+                      Consultar DGI
+                    </button>
                   </div>
+                  {rucLookup && (
+                    rucLookup.found && rucLookup.contribuyente ? (
+                      <p className="mt-2 text-xs text-emerald-600 flex items-center gap-1">
+                        <CheckCircle2 className="w-3 h-3" /> {rucLookup.contribuyente.razonSocial} · {rucLookup.contribuyente.estado}
+                        <span className="text-slate-400 ml-1">({describeRucLookupSource(rucLookup)})</span>
+                      </p>
+                    ) : (
+                      <p className="mt-2 text-xs text-amber-600 flex items-start gap-1">
+                        <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        {rucLookup.error || 'RUC no encontrado en el registro. Puedes continuar ingresando los datos manualmente.'}
+                      </p>
+                    )
+                  )}
+                  {rucCheck && !rucCheck.valid && (
+                    <div className="mt-2 text-xs text-red-500 flex items-start gap-1">
+                      <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {rucCheck.error}
+                        {rucCheck.parsed && !rucCheck.parsed.dv && (
+                          <button
+                            type="button"
+                            onClick={() => rucCheck.parsed && setTaxId(formatRuc(rucCheck.parsed))}
+                            className="ml-2 font-bold text-[#27bea5] hover:underline"
+                          >
+                            Completar
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  )}
                </div>
 
                {/* 2. Name */}
@@ -412,7 +470,7 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
         <div className="mt-10 flex justify-end">
            <button 
             onClick={() => setStep(2)}
-            disabled={!companyName || !address || !taxId || !email || !password}
+            disabled={!companyName || !address || !taxId || !rucCheck?.valid || !email || !password}
             className="group w-full md:w-auto bg-[#1c2938] text-white py-4 px-10 rounded-2xl font-bold text-lg hover:bg-[#27bea5] disabled:opacity-30 disabled:hover:bg-[#1c2938] transition-all shadow-xl hover:shadow-2xl hover:-translate-y-1 active:translate-y-0 flex items-center justify-center gap-3 cursor-pointer"
           >
             Siguiente <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
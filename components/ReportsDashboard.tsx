@@ -15,8 +15,11 @@ import {
 import { Invoice, FinancialAnalysisResult, DeepDiveReport, UserProfile } from '../types';
 import { generateFinancialAnalysis, generateDeepDiveReport, AI_ERROR_BLOCKED, generateTaxAdvisory } from '../services/geminiService';
 import { sendEmail } from '../services/resendService';
-import { calculatePanamaISR, TaxCalculationResult } from '../services/taxCalculator';
+import { calculatePanamaISR, calculateAnnualIsrWorksheet, TaxCalculationResult, MORTGAGE_INTEREST_CAP } from '../services/taxCalculator';
+import { calculateItbmsBreakdown, mergeItbmsBreakdowns, ItbmsBreakdownLine } from '../services/itbmsService';
 import { convertCurrency, getCachedRates } from '../services/currencyService';
+import { getNetPaymentAmount } from '../services/pagueloFacilService';
+import { isPendingRecurringExpense } from '../services/recurringExpenseService';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 
@@ -129,6 +132,8 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
   // Tax Simulation State
   const [taxAdvisory, setTaxAdvisory] = useState<{ advisory: string, points: string[] } | null>(null);
   const [isAuditingTax, setIsAuditingTax] = useState(false);
+  // Annual ISR worksheet inputs not derivable from documents
+  const [isrInputs, setIsrInputs] = useState({ education: 0, mortgageInterest: 0, medical: 0, withholdings: 0, estimatedPaymentsMade: 0 });
 
   // Refs for individual report sections
   const overviewRef = useRef<HTMLDivElement>(null);
@@ -329,6 +334,8 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
     }
 
     return invoices.filter(inv => {
+      // Pending recurring expenses are only projections until confirmed
+      if (isPendingRecurringExpense(inv)) return false;
       const d = new Date(inv.date);
       return d >= startDate && d <= endDate;
     });
@@ -404,16 +411,13 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
             }
             const pEntry = timelineMap.get(pKey)!;
 
-            let amount = payment.amount;
-            if (payViaGateway && feeRate > 0) {
-              amount = amount * (1 - feeRate / 100);
-            }
+            const amount = getNetPaymentAmount(payment, feeRate, !!payViaGateway);
             const collectedInSystemCurrency = convertCurrency(amount, payment.currency || inv.currency || 'USD', systemCurrency, rates);
 
             pEntry.ingresos += collectedInSystemCurrency;
             totalRevenue += collectedInSystemCurrency;
 
-            if (inv.recurrence?.isRecurrent) {
+            if (inv.recurrence?.isRecurrent || inv.recurrenceParentId) {
               pEntry.ingresosRecurrentes += collectedInSystemCurrency;
             } else {
               pEntry.ingresosNoRecurrentes += collectedInSystemCurrency;
@@ -438,7 +442,7 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
             entry.ingresos += collectedInSystemCurrency;
             totalRevenue += collectedInSystemCurrency;
 
-            const isRec = inv.recurrence?.isRecurrent || false;
+            const isRec = inv.recurrence?.isRecurrent || !!inv.recurrenceParentId;
             if (isRec) {
               entry.ingresosRecurrentes += collectedInSystemCurrency;
             } else {
@@ -545,6 +549,19 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
           const isCurrentOrFutureMonth = (occYear > now.getFullYear()) || (occYear === now.getFullYear() && occMonth >= now.getMonth());
           
           if (isCurrentOrFutureMonth) {
+            // Cycles the scheduler will not bill (skipped, or paused before being generated) are not income
+            const cycle = index + 1;
+            if (inv.recurrence!.skippedCycles?.includes(cycle)) return;
+            if (index > 0) {
+              const generated = invoices.find(d => d.recurrenceParentId === inv.id && d.recurrenceCycle === cycle);
+              if (!generated && inv.recurrence!.paused) return;
+              // A generated cycle already collected (or a confirmed expense) is counted in realMonthlyData
+              const isCounted = inv.type === 'Expense'
+                ? generated?.status !== 'Borrador'
+                : (generated?.amountPaid || 0) > 0 || generated?.status === 'Pagada';
+              if (generated && isCounted) return;
+            }
+
             // Avoid double counting the original document (index === 0) in its creation month if it's already counted in realMonthlyData
             const isCreationMonth = (occMonth === start.getMonth() && occYear === start.getFullYear());
             if (isCreationMonth && index === 0) {
@@ -755,24 +772,23 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
     let totalWithholding = 0;
     let nonDeductibleExpenses = 0;
     let voucherCount = 0;
+    let salesByRate: ItbmsBreakdownLine[] = [];
 
-    filteredInvoices.filter(i => i.type === 'Invoice').forEach(inv => {
-      if (inv.status === 'Borrador' || inv.status === 'Rechazada' || inv.status === 'Incobrable') return;
-
-      const taxAmount = inv.items.reduce((sum, item) => {
-        const itemTotal = item.price * item.quantity;
-        const discount = inv.discountRate ? (itemTotal * (inv.discountRate / 100)) : 0;
-        const taxableBase = itemTotal - discount;
-        return sum + (taxableBase * (item.tax / 100));
-      }, 0);
+    // Output ITBMS per rate: invoices and debit notes add, credit notes subtract
+    filteredInvoices.filter(i => i.type === 'Invoice' || i.type === 'CreditNote' || i.type === 'DebitNote').forEach(inv => {
+      if (inv.status === 'Borrador' || inv.status === 'Rechazada') return;
+      if (inv.type === 'Invoice' && inv.status === 'Incobrable') return;
 
-      debitFiscal += taxAmount;
+      const breakdown = calculateItbmsBreakdown(inv.items, inv.discountRate || 0);
+      salesByRate = mergeItbmsBreakdowns(salesByRate, breakdown, inv.type === 'CreditNote' ? -1 : 1);
 
-      if (inv.withholdingAmount) {
+      if (inv.type === 'Invoice' && inv.withholdingAmount) {
         totalWithholding += inv.withholdingAmount;
       }
     });
 
+    debitFiscal = salesByRate.reduce((sum, line) => sum + line.tax, 0);
+
     filteredInvoices.filter(i => i.type === 'Expense').forEach(exp => {
       const isValidDoc = exp.isValidFiscalDoc !== false;
       const isDeductible = exp.expenseDeductibility !== 'NONE';
@@ -831,9 +847,23 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
     const unpaidInvoices = filteredInvoices.filter(i => i.type === 'Invoice' && i.status === 'Enviada' && i.items.some(it => it.tax > 0));
     if (unpaidInvoices.length > 0) insights.push({ type: 'tip', title: 'Obligación por Devengo', text: `Recuerda: El ITBMS de las facturas emitidas (${unpaidInvoices.length}) se debe declarar este mes, aunque aún no las hayas cobrado.` });
 
-    return { debitFiscal, creditFiscal, withholdings: totalWithholding, payable: taxPayable, isCreditBalance, nonDeductibleTotal: nonDeductibleExpenses, insights, isrProjection };
+    return { debitFiscal, salesByRate, creditFiscal, withholdings: totalWithholding, payable: taxPayable, isCreditBalance, nonDeductibleTotal: nonDeductibleExpenses, insights, isrProjection, annualIncome, annualExpenses };
   }, [data, currentUser, timeRange, filteredInvoices]);
 
+  const isrWorksheet = useMemo(() => {
+    if (!fiscalData || !currentUser?.fiscalConfig) return null;
+    return calculateAnnualIsrWorksheet({
+      fiscalYear: new Date().getFullYear(),
+      entityType: currentUser.fiscalConfig.entityType,
+      specialRegime: currentUser.fiscalConfig.specialRegime,
+      grossIncome: fiscalData.annualIncome,
+      deductibleExpenses: fiscalData.annualExpenses,
+      personalDeductions: { education: isrInputs.education, mortgageInterest: isrInputs.mortgageInterest, medical: isrInputs.medical },
+      withholdings: isrInputs.withholdings,
+      estimatedPaymentsMade: isrInputs.estimatedPaymentsMade
+    });
+  }, [fiscalData, currentUser, isrInputs]);
+
   const handleTaxAudit = async (isrData: TaxCalculationResult) => {
     if (!hasAiAccess) return;
     setIsAuditingTax(true);
@@ -953,7 +983,11 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
             const feeRate = currentUser?.paymentIntegration?.gatewayFeeRate || 0;
             const payViaGateway = inv.payViaGateway ?? (applyAll && gatewayEnabled ? true : false);
 
-            if (payViaGateway && feeRate > 0) {
+            // Fees recorded by the gateway (PagueloFacil) take precedence over the configured rate
+            const recordedFees = (inv.payments || []).reduce((sum, p) => sum + (p.gatewayFee || 0), 0);
+            if (recordedFees > 0) {
+              collected = Math.max(0, collected - recordedFees);
+            } else if (payViaGateway && feeRate > 0) {
               collected = collected * (1 - feeRate / 100);
             }
 
@@ -1978,6 +2012,46 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
             </div>
           </div>
 
+          {/* OUTPUT ITBMS BY RATE */}
+          {fiscalData.salesByRate.length > 0 && (
+            <div className="bg-white rounded-[2.5rem] p-8 shadow-sm border border-slate-50 mb-8">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-3 bg-amber-50 text-amber-600 rounded-2xl">
+                  <Tag className="w-6 h-6" />
+                </div>
+                <div>
+                  <h3 className="text-2xl font-bold text-[#1c2938]">ITBMS Causado por Tasa</h3>
+                  <p className="text-slate-400 text-sm">Ventas del periodo netas de notas de crédito y débito.</p>
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-slate-100">
+                    <th className="text-left py-3">Tasa</th>
+                    <th className="text-right py-3">Base Imponible</th>
+                    <th className="text-right py-3">ITBMS</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fiscalData.salesByRate.map(line => (
+                    <tr key={line.code} className="border-b border-slate-50 last:border-0">
+                      <td className="py-3 font-bold text-[#1c2938]">{line.label}</td>
+                      <td className="py-3 text-right font-mono text-slate-600">{currencySymbol}{line.base.toFixed(2)}</td>
+                      <td className="py-3 text-right font-mono text-slate-600">{currencySymbol}{line.tax.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-bold text-[#1c2938]">
+                    <td className="pt-3">Total</td>
+                    <td className="pt-3 text-right font-mono">{currencySymbol}{fiscalData.salesByRate.reduce((s, l) => s + l.base, 0).toFixed(2)}</td>
+                    <td className="pt-3 text-right font-mono">{currencySymbol}{fiscalData.debitFiscal.toFixed(2)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
           {/* NEW: ISR ANNUAL SIMULATION PROJECTION */}
           <div className="bg-white rounded-[2.5rem] p-8 shadow-sm border border-slate-50 mb-8 overflow-hidden relative group">
             <div className="absolute top-0 right-0 w-64 h-64 bg-[#27bea5]/5 rounded-full blur-3xl -translate-y-1/2 translate-x-1/2 group-hover:bg-[#27bea5]/10 transition-colors"></div>
@@ -2067,6 +2141,113 @@ const ReportsDashboard = ({ invoices, currencySymbol, apiKey, currentUser }: Rep
             </div>
           </div>
 
+          {/* ANNUAL ISR RETURN WORKSHEET */}
+          {isrWorksheet && (
+            <div className="bg-white rounded-[2.5rem] p-8 shadow-sm border border-slate-50 mb-8">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-emerald-50 text-emerald-600 rounded-2xl">
+                    <FileText className="w-6 h-6" />
+                  </div>
+                  <div>
+                    <h3 className="text-2xl font-bold text-[#1c2938]">Declaración de Renta {isrWorksheet.fiscalYear}</h3>
+                    <p className="text-slate-400 text-sm">Hoja de trabajo con deducciones, CAIR, créditos e impuesto estimado.</p>
+                  </div>
+                </div>
+                <span className={`px-3 py-1.5 rounded-full text-xs font-bold ${isrWorksheet.method === 'CAIR' ? 'bg-amber-50 text-amber-600' : 'bg-slate-100 text-slate-500'}`}>
+                  Método: {isrWorksheet.method === 'CAIR' ? 'CAIR (4.67% ingresos brutos)' : 'Ordinario'}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* INPUTS */}
+                <div className="space-y-4">
+                  {currentUser?.fiscalConfig?.entityType === 'NATURAL' && (
+                    <div>
+                      <h5 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Deducciones Personales</h5>
+                      <div className="grid grid-cols-3 gap-3">
+                        {([
+                          { key: 'education', label: 'Educación' },
+                          { key: 'mortgageInterest', label: `Intereses Hipotecarios (máx. ${currencySymbol}${MORTGAGE_INTEREST_CAP.toLocaleString()})` },
+                          { key: 'medical', label: 'Gastos Médicos' }
+                        ] as const).map(field => (
+                          <label key={field.key} className="block">
+                            <span className="text-[10px] font-bold text-slate-400 uppercase">{field.label}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={isrInputs[field.key] || ''}
+                              onChange={(e) => setIsrInputs(prev => ({ ...prev, [field.key]: parseFloat(e.target.value) || 0 }))}
+                              className="w-full mt-1 p-2.5 bg-slate-50 border border-slate-100 rounded-xl text-sm font-bold text-[#1c2938] outline-none focus:ring-2 focus:ring-[#27bea5]"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <h5 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Créditos</h5>
+                    <div className="grid grid-cols-2 gap-3">
+                      {([
+                        { key: 'withholdings', label: 'ISR Retenido por Terceros' },
+                        { key: 'estimatedPaymentsMade', label: 'Estimado Pagado en el Año' }
+                      ] as const).map(field => (
+                        <label key={field.key} className="block">
+                          <span className="text-[10px] font-bold text-slate-400 uppercase">{field.label}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            value={isrInputs[field.key] || ''}
+                            onChange={(e) => setIsrInputs(prev => ({ ...prev, [field.key]: parseFloat(e.target.value) || 0 }))}
+                            className="w-full mt-1 p-2.5 bg-slate-50 border border-slate-100 rounded-xl text-sm font-bold text-[#1c2938] outline-none focus:ring-2 focus:ring-[#27bea5]"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <h5 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Impuesto Estimado {isrWorksheet.fiscalYear + 1}</h5>
+                    <div className="grid grid-cols-3 gap-3">
+                      {isrWorksheet.installments.length > 0 ? isrWorksheet.installments.map(inst => (
+                        <div key={inst.dueDate} className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                          <p className="text-[10px] font-bold text-slate-400 uppercase">{inst.label} · {new Date(inst.dueDate + 'T00:00:00').toLocaleDateString('es-PA', { day: 'numeric', month: 'short' })}</p>
+                          <p className="font-bold text-[#1c2938]">{currencySymbol}{inst.amount.toFixed(2)}</p>
+                        </div>
+                      )) : (
+                        <p className="col-span-3 text-sm text-slate-400">Sin impuesto estimado para el próximo año.</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {/* LIQUIDATION */}
+                <div className="bg-slate-50 rounded-2xl border border-slate-100 divide-y divide-slate-100 text-sm">
+                  {[
+                    { label: 'Ingresos brutos', value: isrWorksheet.grossIncome },
+                    { label: '(-) Costos y gastos deducibles', value: isrWorksheet.deductibleExpenses },
+                    ...(isrWorksheet.personalDeductions.total > 0 ? [{ label: '(-) Deducciones personales', value: isrWorksheet.personalDeductions.total }] : []),
+                    { label: 'Renta neta gravable', value: isrWorksheet.ordinary.taxableIncome },
+                    { label: 'Impuesto método ordinario', value: isrWorksheet.ordinary.estimatedTax },
+                    ...(isrWorksheet.cair.applies ? [{ label: `Impuesto CAIR (renta presunta ${currencySymbol}${isrWorksheet.cair.presumedNetIncome.toLocaleString()})`, value: isrWorksheet.cair.tax }] : []),
+                    { label: 'Impuesto causado', value: isrWorksheet.determinedTax, strong: true },
+                    { label: '(-) Retenciones', value: isrWorksheet.credits.withholdings },
+                    { label: '(-) Estimado pagado', value: isrWorksheet.credits.estimatedPayments }
+                  ].map((row: { label: string, value: number, strong?: boolean }) => (
+                    <div key={row.label} className={`flex justify-between p-3 ${row.strong ? 'font-bold text-[#1c2938]' : 'text-slate-600'}`}>
+                      <span>{row.label}</span>
+                      <span className="font-mono">{currencySymbol}{row.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                  ))}
+                  <div className={`flex justify-between p-4 font-bold text-lg rounded-b-2xl ${isrWorksheet.creditBalance > 0 ? 'text-emerald-600' : 'text-[#1c2938]'}`}>
+                    <span>{isrWorksheet.creditBalance > 0 ? 'Saldo a favor' : 'Saldo a pagar'}</span>
+                    <span className="font-mono">{currencySymbol}{(isrWorksheet.creditBalance > 0 ? isrWorksheet.creditBalance : isrWorksheet.balanceDue).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
 
             {/* LEFT: AUDITOR VIRTUAL ALERTS */}
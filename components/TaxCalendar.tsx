@@ -1,26 +1,131 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
-    Calendar as CalendarIcon, ArrowLeft, ArrowRight,
-    ChevronLeft, ChevronRight, AlertTriangle,
-    CheckCircle2, Clock, Landmark
+    ArrowLeft, ChevronLeft, ChevronRight, AlertTriangle,
+    CheckCircle2, Clock, Landmark, Building2, Loader2, RotateCcw,
+    CalendarPlus, Copy, Check
 } from 'lucide-react';
+import { UserProfile, TaxFiling } from '../types';
+import { fetchTaxFilingsFromDb, saveTaxFilingToDb } from '../services/neon';
+import {
+    buildMergedFiscalCalendar, getPanamaHolidays, toDateKey,
+    FiscalDeadline, DeadlineStatus, DEADLINE_STATUS_LABELS
+} from '../services/fiscalCalendarService';
+import {
+    buildCalendarFeedUrl, CalendarFeedCategory, CALENDAR_FEED_CATEGORIES, CALENDAR_FEED_CATEGORY_LABELS
+} from '../services/icsService';
 
 interface TaxCalendarProps {
+    currentUser: UserProfile;
+    managedCompanies: UserProfile[];
     onBack: () => void;
 }
 
-const TaxCalendar: React.FC<TaxCalendarProps> = ({ onBack }) => {
-    // Demo Data for Panama DGI Deadlines
-    const deadlines = [
-        { date: '2026-01-15', title: 'Informe de Ventas (F43)', category: 'MENSUAL', type: 'MENSUAL', status: 'TODO' },
-        { date: '2026-01-15', title: 'ITBMS (F430)', category: 'MENSUAL', type: 'MENSUAL', status: 'URGENT' },
-        { date: '2026-01-20', title: 'Planilla SIPE (CSS)', category: 'SOCIAL', type: 'MENSUAL', status: 'TODO' },
-        { date: '2026-01-31', title: 'Tasa Única Anual', category: 'CORPORATIVA', type: 'ANUAL', status: 'WARN' },
-        { date: '2026-03-15', title: 'Declaración de Renta (Individual)', category: 'RENTA', type: 'ANUAL', status: 'FUTURE' },
-        { date: '2026-03-31', title: 'Declaración de Renta (Jurídica)', category: 'RENTA', type: 'ANUAL', status: 'FUTURE' },
-    ];
+const MONTHS = ['Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio', 'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'];
+
+const STATUS_STYLES: Record<DeadlineStatus, { bar: string; badge: string }> = {
+    UPCOMING: { bar: 'bg-slate-300', badge: 'bg-slate-50 text-slate-500' },
+    DUE: { bar: 'bg-amber-400', badge: 'bg-amber-50 text-amber-500' },
+    FILED: { bar: 'bg-[#27bea5]', badge: 'bg-emerald-50 text-emerald-600' },
+    LATE: { bar: 'bg-rose-400', badge: 'bg-rose-50 text-rose-500' }
+};
+
+const TaxCalendar: React.FC<TaxCalendarProps> = ({ currentUser, managedCompanies, onBack }) => {
+    // Accountants see their own obligations merged with every managed company
+    const companies = useMemo(() => currentUser.isAccountant
+        ? [currentUser, ...managedCompanies.filter(c => c.id !== currentUser.id)]
+        : [currentUser],
+        [currentUser, managedCompanies]);
+
+    const [month, setMonth] = useState(() => {
+        const now = new Date();
+        return new Date(now.getFullYear(), now.getMonth(), 1);
+    });
+    const [companyFilter, setCompanyFilter] = useState<string>('ALL');
+    const [filingsByUser, setFilingsByUser] = useState<Record<string, TaxFiling[]>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [feedCategories, setFeedCategories] = useState<CalendarFeedCategory[]>(CALENDAR_FEED_CATEGORIES);
+    const [copiedFeedId, setCopiedFeedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setIsLoading(true);
+            const results = await Promise.all(companies.map(c => fetchTaxFilingsFromDb(c.id)));
+            if (cancelled) return;
+            const map: Record<string, TaxFiling[]> = {};
+            companies.forEach((c, i) => { map[c.id] = results[i]; });
+            setFilingsByUser(map);
+            setIsLoading(false);
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [companies]);
+
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+    const deadlines = useMemo(() => buildMergedFiscalCalendar(
+        companies
+            .filter(c => companyFilter === 'ALL' || c.id === companyFilter)
+            .map(c => ({ profile: c, filings: filingsByUser[c.id] || [] })),
+        month,
+        monthEnd
+    ), [companies, companyFilter, filingsByUser, month]);
+
+    const deadlinesByDay = useMemo(() => {
+        const map: Record<string, FiscalDeadline[]> = {};
+        deadlines.forEach(d => { (map[d.dueDate] = map[d.dueDate] || []).push(d); });
+        return map;
+    }, [deadlines]);
 
-    const currentMonth = 'Enero 2026';
+    const holidays = getPanamaHolidays(month.getFullYear());
+    const todayKey = toDateKey(new Date());
+    const leadingBlanks = month.getDay();
+    const cellCount = Math.ceil((leadingBlanks + monthEnd.getDate()) / 7) * 7;
+    const unconfigured = companies.filter(c => !c.fiscalConfig);
+
+    const apiKey = currentUser.apiKeys?.konsul;
+    const feedCompanies = companies.filter(c => companyFilter === 'ALL' || c.id === companyFilter);
+
+    const toggleFeedCategory = (category: CalendarFeedCategory) => setFeedCategories(prev =>
+        prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+
+    const handleCopyFeed = (companyId: string) => {
+        if (!apiKey) return;
+        navigator.clipboard.writeText(buildCalendarFeedUrl(window.location.origin, apiKey, companyId, feedCategories));
+        setCopiedFeedId(companyId);
+        setTimeout(() => setCopiedFeedId(null), 2000);
+    };
+
+    const shiftMonth = (delta: number) => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+
+    const handleToggleFiled = async (deadline: FiscalDeadline) => {
+        setSavingId(deadline.id);
+        const existing = (filingsByUser[deadline.userId] || []).find(f => f.form === deadline.form && f.period === deadline.period);
+        const markFiled = deadline.status !== 'FILED';
+        const updated: TaxFiling = {
+            ...existing,
+            userId: deadline.userId,
+            form: deadline.form,
+            period: deadline.period,
+            status: markFiled ? 'FILED' : 'DRAFT',
+            filedAt: markFiled ? new Date().toISOString() : undefined,
+            updatedAt: new Date().toISOString()
+        };
+        const ok = await saveTaxFilingToDb(updated);
+        if (ok) {
+            setFilingsByUser(prev => ({
+                ...prev,
+                [deadline.userId]: [
+                    ...(prev[deadline.userId] || []).filter(f => !(f.form === deadline.form && f.period === deadline.period)),
+                    updated
+                ]
+            }));
+        } else {
+            alert('No se pudo actualizar el estado de la obligación. Intenta de nuevo.');
+        }
+        setSavingId(null);
+    };
 
     return (
         <div className="max-w-5xl mx-auto animate-in fade-in duration-500">
@@ -36,19 +141,41 @@ const TaxCalendar: React.FC<TaxCalendarProps> = ({ onBack }) => {
                     <h2 className="text-3xl font-bold text-[#1c2938]">Calendario Fiscal</h2>
                 </div>
 
-                <div className="flex items-center gap-3 bg-white p-2 rounded-2xl border border-slate-100 shadow-sm">
-                    <button className="p-2 hover:bg-slate-50 rounded-xl transition-colors">
-                        <ChevronLeft className="w-5 h-5 text-slate-400" />
-                    </button>
-                    <span className="font-bold text-[#1c2938] px-4">{currentMonth}</span>
-                    <button className="p-2 hover:bg-slate-50 rounded-xl transition-colors">
-                        <ChevronRight className="w-5 h-5 text-slate-400" />
-                    </button>
+                <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+                    {companies.length > 1 && (
+                        <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-2xl border border-slate-100 shadow-sm">
+                            <Building2 className="w-4 h-4 text-slate-400" />
+                            <select
+                                value={companyFilter}
+                                onChange={(e) => setCompanyFilter(e.target.value)}
+                                className="bg-transparent text-sm font-bold text-[#1c2938] outline-none"
+                            >
+                                <option value="ALL">Todas las empresas</option>
+                                {companies.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-3 bg-white p-2 rounded-2xl border border-slate-100 shadow-sm">
+                        <button onClick={() => shiftMonth(-1)} className="p-2 hover:bg-slate-50 rounded-xl transition-colors">
+                            <ChevronLeft className="w-5 h-5 text-slate-400" />
+                        </button>
+                        <span className="font-bold text-[#1c2938] px-4 min-w-[9rem] text-center">{MONTHS[month.getMonth()]} {month.getFullYear()}</span>
+                        <button onClick={() => shiftMonth(1)} className="p-2 hover:bg-slate-50 rounded-xl transition-colors">
+                            <ChevronRight className="w-5 h-5 text-slate-400" />
+                        </button>
+                    </div>
                 </div>
             </div>
 
+            {unconfigured.length > 0 && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-100 rounded-2xl flex items-center gap-3 text-amber-700 text-sm">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                    <span>Sin configuración fiscal: {unconfigured.map(c => c.name).join(', ')}. Completa el perfil fiscal para generar sus vencimientos.</span>
+                </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
-                {/* CALENDAR VIEW (Simplified Placeholder) */}
+                {/* CALENDAR GRID */}
                 <div className="lg:col-span-3">
                     <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm overflow-hidden">
                         <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50/50">
@@ -59,28 +186,37 @@ const TaxCalendar: React.FC<TaxCalendarProps> = ({ onBack }) => {
                             ))}
                         </div>
                         <div className="grid grid-cols-7">
-                            {/* This is a visual-only mockup of a calendar grid */}
-                            {Array.from({ length: 35 }).map((_, i) => {
-                                const day = i - 3; // Padding for visual start
-                                const isCurrentMonth = day > 0 && day <= 31;
-                                const hasDeadline = day === 15 || day === 20 || day === 31;
+                            {Array.from({ length: cellCount }).map((_, i) => {
+                                const day = i - leadingBlanks + 1;
+                                const isCurrentMonth = day > 0 && day <= monthEnd.getDate();
+                                const key = isCurrentMonth ? toDateKey(new Date(month.getFullYear(), month.getMonth(), day)) : '';
+                                const dayDeadlines = deadlinesByDay[key] || [];
+                                const isHoliday = holidays.has(key);
 
                                 return (
                                     <div
                                         key={i}
-                                        className={`h-24 md:h-32 p-3 border-b border-r border-slate-50 relative transition-all ${isCurrentMonth ? 'bg-white' : 'bg-slate-50/30'}`}
+                                        className={`h-24 md:h-32 p-3 border-b border-r border-slate-50 relative transition-all ${isCurrentMonth ? (isHoliday ? 'bg-slate-50/60' : 'bg-white') : 'bg-slate-50/30'}`}
                                     >
                                         {isCurrentMonth && (
-                                            <span className={`text-sm font-bold ${hasDeadline ? 'text-[#27bea5]' : 'text-slate-400'}`}>
+                                            <span className={`text-sm font-bold ${key === todayKey ? 'bg-[#1c2938] text-white rounded-lg px-1.5 py-0.5' : dayDeadlines.length > 0 ? 'text-[#27bea5]' : isHoliday ? 'text-slate-300' : 'text-slate-400'}`}>
                                                 {day}
                                             </span>
                                         )}
-                                        {isCurrentMonth && hasDeadline && (
+                                        {isCurrentMonth && isHoliday && (
+                                            <span className="hidden md:inline ml-1 text-[8px] font-bold text-slate-300 uppercase">Feriado</span>
+                                        )}
+                                        {dayDeadlines.length > 0 && (
                                             <div className="mt-2 space-y-1">
-                                                <div className={`w-full h-1.5 rounded-full ${day === 15 ? 'bg-rose-400' : 'bg-amber-400'}`}></div>
-                                                <div className="hidden md:block text-[9px] font-bold text-slate-500 truncate">
-                                                    {day === 15 ? 'ITBMS / Ventas' : day === 20 ? 'SIPE' : 'Tasa Única'}
-                                                </div>
+                                                {dayDeadlines.slice(0, 3).map(d => (
+                                                    <div key={d.id}>
+                                                        <div className={`w-full h-1.5 rounded-full ${STATUS_STYLES[d.status].bar}`}></div>
+                                                        <div className="hidden md:block text-[9px] font-bold text-slate-500 truncate">{d.title}</div>
+                                                    </div>
+                                                ))}
+                                                {dayDeadlines.length > 3 && (
+                                                    <div className="hidden md:block text-[9px] font-bold text-slate-400">+{dayDeadlines.length - 3} más</div>
+                                                )}
                                             </div>
                                         )}
                                     </div>
@@ -88,46 +224,113 @@ const TaxCalendar: React.FC<TaxCalendarProps> = ({ onBack }) => {
                             })}
                         </div>
                     </div>
+
+                    <div className="flex flex-wrap gap-4 mt-4 px-2">
+                        {(Object.keys(DEADLINE_STATUS_LABELS) as DeadlineStatus[]).map(s => (
+                            <span key={s} className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                                <span className={`w-3 h-1.5 rounded-full ${STATUS_STYLES[s].bar}`}></span> {DEADLINE_STATUS_LABELS[s]}
+                            </span>
+                        ))}
+                    </div>
                 </div>
 
                 {/* DEADLINE LIST */}
                 <div className="space-y-6">
                     <h3 className="text-xl font-bold text-[#1c2938] flex items-center gap-2">
-                        <Landmark className="w-5 h-5 text-[#27bea5]" /> Próximas Fechas
+                        <Landmark className="w-5 h-5 text-[#27bea5]" /> Vencimientos del Mes
                     </h3>
-                    <div className="space-y-4">
-                        {deadlines.filter(d => d.date.startsWith('2026-01')).map((d, i) => (
-                            <div key={i} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm relative overflow-hidden group hover:shadow-md transition-all">
-                                {d.status === 'URGENT' && <div className="absolute top-0 right-0 w-12 h-12 bg-rose-50 rounded-bl-[2rem] flex items-center justify-center text-rose-500">
-                                    <AlertTriangle className="w-4 h-4" />
-                                </div>}
-                                <div className="flex items-center gap-3 mb-3">
-                                    <div className={`w-10 h-10 rounded-xl flex items-center justify-center font-bold text-sm ${d.status === 'URGENT' ? 'bg-rose-50 text-rose-500' :
-                                            d.status === 'WARN' ? 'bg-amber-50 text-amber-500' :
-                                                'bg-slate-50 text-slate-500'
-                                        }`}>
-                                        {d.date.split('-')[2]}
-                                    </div>
-                                    <div>
-                                        <h4 className="font-bold text-sm text-[#1c2938]">{d.title}</h4>
-                                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{d.category}</span>
+                    {isLoading ? (
+                        <div className="p-8 text-center text-slate-400">
+                            <Loader2 className="w-6 h-6 mx-auto animate-spin" />
+                        </div>
+                    ) : deadlines.length === 0 ? (
+                        <p className="text-sm text-slate-400">No hay obligaciones con vencimiento este mes.</p>
+                    ) : (
+                        <div className="space-y-4">
+                            {deadlines.map(d => (
+                                <div key={d.id} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm relative overflow-hidden group hover:shadow-md transition-all">
+                                    {d.status === 'LATE' && <div className="absolute top-0 right-0 w-12 h-12 bg-rose-50 rounded-bl-[2rem] flex items-center justify-center text-rose-500">
+                                        <AlertTriangle className="w-4 h-4" />
+                                    </div>}
+                                    <div className="flex items-center gap-3 mb-3">
+                                        <div className={`w-10 h-10 rounded-xl flex items-center justify-center font-bold text-sm flex-shrink-0 ${STATUS_STYLES[d.status].badge}`}>
+                                            {d.dueDate.split('-')[2]}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <h4 className="font-bold text-sm text-[#1c2938]">{d.title}</h4>
+                                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{d.category}</span>
+                                        </div>
                                     </div>
-                                </div>
-                                <div className="flex items-center justify-between text-[10px]">
-                                    <span className="font-bold px-2 py-1 bg-slate-50 rounded text-slate-500">{d.type}</span>
-                                    {d.status === 'URGENT' ? (
-                                        <span className="text-rose-500 font-bold flex items-center gap-1"><Clock className="w-3 h-3" /> Vence Pronto</span>
-                                    ) : (
-                                        <span className="text-[#27bea5] font-bold flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Programado</span>
+                                    <p className="text-xs text-slate-500 mb-1">{d.description}</p>
+                                    {companies.length > 1 && (
+                                        <p className="text-xs font-bold text-[#1c2938] mb-1 flex items-center gap-1"><Building2 className="w-3 h-3" /> {d.companyName}</p>
                                     )}
+                                    {d.dueDate !== d.statutoryDate && (
+                                        <p className="text-[10px] text-slate-400 mb-1">Fecha legal {d.statutoryDate.split('-').reverse().join('/')}, corrida al siguiente día hábil.</p>
+                                    )}
+                                    <div className="flex items-center justify-between text-[10px] mt-3">
+                                        {d.status === 'FILED' ? (
+                                            <span className="text-[#27bea5] font-bold flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> {DEADLINE_STATUS_LABELS[d.status]}</span>
+                                        ) : (
+                                            <span className={`font-bold flex items-center gap-1 ${d.status === 'LATE' ? 'text-rose-500' : d.status === 'DUE' ? 'text-amber-500' : 'text-slate-400'}`}>
+                                                <Clock className="w-3 h-3" /> {DEADLINE_STATUS_LABELS[d.status]}
+                                            </span>
+                                        )}
+                                        <button
+                                            onClick={() => handleToggleFiled(d)}
+                                            disabled={savingId === d.id}
+                                            className={`font-bold px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-40 ${d.status === 'FILED' ? 'bg-slate-50 text-slate-500 hover:bg-slate-100' : 'bg-[#1c2938] text-white hover:bg-[#27bea5]'}`}
+                                        >
+                                            {savingId === d.id ? <Loader2 className="w-3 h-3 animate-spin" /> : d.status === 'FILED' ? <RotateCcw className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+                                            {d.status === 'FILED' ? 'Desmarcar' : 'Marcar presentado'}
+                                        </button>
+                                    </div>
                                 </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* CALENDAR SUBSCRIPTION (iCalendar) */}
+                    <div className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+                        <h4 className="font-bold text-sm text-[#1c2938] flex items-center gap-2">
+                            <CalendarPlus className="w-4 h-4 text-[#27bea5]" /> Suscribirse en Google / Outlook
+                        </h4>
+                        <div className="space-y-2">
+                            {CALENDAR_FEED_CATEGORIES.map(category => (
+                                <label key={category} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={feedCategories.includes(category)}
+                                        onChange={() => toggleFeedCategory(category)}
+                                        className="accent-[#27bea5]"
+                                    />
+                                    {CALENDAR_FEED_CATEGORY_LABELS[category]}
+                                </label>
+                            ))}
+                        </div>
+                        {!apiKey ? (
+                            <p className="text-[10px] text-amber-600">Genera tu API Key en Configuración → API para obtener el enlace de suscripción.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {feedCompanies.map(c => (
+                                    <button
+                                        key={c.id}
+                                        onClick={() => handleCopyFeed(c.id)}
+                                        disabled={feedCategories.length === 0}
+                                        className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-xl text-xs font-bold text-slate-600 transition-colors disabled:opacity-40"
+                                    >
+                                        <span className="truncate">{feedCompanies.length > 1 ? c.name : 'Copiar enlace .ics'}</span>
+                                        {copiedFeedId === c.id ? <Check className="w-3 h-3 text-green-600 flex-shrink-0" /> : <Copy className="w-3 h-3 flex-shrink-0" />}
+                                    </button>
+                                ))}
+                                <p className="text-[10px] text-slate-400">Pega el enlace en "Agregar calendario desde URL". Se actualiza automáticamente.</p>
                             </div>
-                        ))}
+                        )}
                     </div>
 
                     <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
                         <p className="text-xs text-slate-400 leading-relaxed italic">
-                            * Fechas basadas en el último dígito del RUC y regulaciones DGI vigentes para 2026.
+                            * Obligaciones generadas desde la configuración fiscal de cada contribuyente. Los vencimientos en fin de semana o feriado nacional se corren al siguiente día hábil.
                         </p>
                     </div>
                 </div>
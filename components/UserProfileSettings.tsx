@@ -8,17 +8,45 @@ import {
   CheckCircle2, XCircle, Layout, Palette, Crown, UploadCloud,
   ExternalLink, ShieldCheck, AlertCircle, MessageSquare, Database, Share2, Printer, 
   Smartphone, Wallet, Lock, AlertTriangle, Scale, Calculator, Sparkles, Coins,
-  Bell, Activity, Clock, Copy, RefreshCw
+  Bell, Activity, Clock, Copy, RefreshCw, Percent, Hash
 } from 'lucide-react';
 import { updateUserProfileInDb, updateUserPassword } from '../services/neon';
-import { UserProfile, BrandingConfig, FiscalConfig, PaymentIntegration } from '../types';
+import { UserProfile, BrandingConfig, FiscalConfig, PaymentIntegration, PaymentSecretField, LateFeePolicy, BusinessHours } from '../types';
+import { DEFAULT_LATE_FEE_POLICY } from '../services/lateFeeService';
+import { DEFAULT_BUSINESS_HOURS, DEFAULT_TIMEZONE } from '../services/followUpService';
+import DunningSequenceEditor from './DunningSequenceEditor';
+import {
+  NumberedDocumentType, DEFAULT_DOCUMENT_PREFIXES, DEFAULT_DOCUMENT_SEQUENCES,
+  formatDocumentNumber, getNumberPattern, getPrefixField, validateNumberPattern
+} from '../services/documentNumberingService';
 import { testAiConnection } from '../services/geminiService';
+import { uploadSigningCertificate, removeSigningCertificate } from '../services/facturaElectronicaService';
+import { hasPaymentSecret, savePaymentSecret } from '../services/paymentSecretService';
+
+const TIMEZONE_OPTIONS = [
+  { id: 'America/Panama', label: 'Panamá (GMT-5)' },
+  { id: 'America/Bogota', label: 'Bogotá (GMT-5)' },
+  { id: 'America/Costa_Rica', label: 'Costa Rica (GMT-6)' },
+  { id: 'America/Mexico_City', label: 'Ciudad de México (GMT-6)' },
+  { id: 'America/New_York', label: 'Nueva York (GMT-5/-4)' },
+  { id: 'America/Caracas', label: 'Caracas (GMT-4)' },
+  { id: 'America/Santiago', label: 'Santiago (GMT-4/-3)' },
+  { id: 'America/Argentina/Buenos_Aires', label: 'Buenos Aires (GMT-3)' },
+  { id: 'Europe/Madrid', label: 'Madrid (GMT+1/+2)' },
+];
 
 interface UserProfileSettingsProps {
   currentUser: UserProfile;
   onUpdate: (updatedProfile: UserProfile) => Promise<void>;
 }
 
+const NUMBERED_DOCUMENTS: { type: NumberedDocumentType; label: string }[] = [
+  { type: 'Invoice', label: 'Facturas' },
+  { type: 'Quote', label: 'Cotizaciones' },
+  { type: 'CreditNote', label: 'Notas de crédito' },
+  { type: 'DebitNote', label: 'Notas de débito' }
+];
+
 const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser, onUpdate }) => {
   const [profile, setProfile] = useState<UserProfile>(currentUser);
   const [isSaving, setIsSaving] = useState(false);
@@ -42,6 +70,17 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
   const [activeTab, setActiveTab] = useState<'profile' | 'api'>('profile');
   const [copiedField, setCopiedField] = useState<string | null>(null);
 
+  // Signing certificate (.p12) - sent once to the server, never kept in the profile
+  const [certFile, setCertFile] = useState<{ name: string; base64: string } | null>(null);
+  const [certPassword, setCertPassword] = useState('');
+  const [isUploadingCert, setIsUploadingCert] = useState(false);
+  const [certError, setCertError] = useState<string | null>(null);
+
+  // Gateway secret keys - write-only, the profile keeps masked fingerprints
+  const [secretDrafts, setSecretDrafts] = useState<Partial<Record<PaymentSecretField, string>>>({});
+  const [savingSecret, setSavingSecret] = useState<PaymentSecretField | null>(null);
+  const [secretError, setSecretError] = useState<string | null>(null);
+
   const handleCopy = (text: string, field: string) => {
     navigator.clipboard.writeText(text);
     setCopiedField(field);
@@ -120,6 +159,27 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
     setProfile(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleLateFeeChange = <K extends keyof LateFeePolicy>(field: K, value: LateFeePolicy[K]) => {
+    setProfile(prev => ({
+      ...prev,
+      lateFeePolicy: { ...DEFAULT_LATE_FEE_POLICY, ...prev.lateFeePolicy, [field]: value }
+    }));
+  };
+
+  const handleSequencePrefixChange = (type: NumberedDocumentType, value: string) => {
+    setProfile(prev => ({
+      ...prev,
+      documentSequences: { ...DEFAULT_DOCUMENT_SEQUENCES, ...prev.documentSequences, [getPrefixField(type)]: value }
+    }));
+  };
+
+  const handleBusinessHoursChange = <K extends keyof BusinessHours>(field: K, value: BusinessHours[K]) => {
+    setProfile(prev => ({
+      ...prev,
+      businessHours: { ...DEFAULT_BUSINESS_HOURS, ...prev.businessHours, [field]: value }
+    }));
+  };
+
   const handleFiscalChange = (field: keyof FiscalConfig, value: any) => {
     setProfile(prev => ({
       ...prev,
@@ -158,33 +218,104 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
           provider: prev.paymentIntegration?.provider || 'PAGUELOFACIL',
           enabled: isEnabled,
           cclw: prev.paymentIntegration?.cclw || '',
-          token: prev.paymentIntegration?.token || '',
           yappyApiKey: prev.paymentIntegration?.yappyApiKey || '',
-          yappySecretKey: prev.paymentIntegration?.yappySecretKey || '',
-          yappySeed: prev.paymentIntegration?.yappySeed || ''
+          yappySeed: prev.paymentIntegration?.yappySeed || '',
+          secretFingerprints: prev.paymentIntegration?.secretFingerprints
         }
       };
     });
   };
 
+  const withResolvedProvider = (updatedInt: PaymentIntegration): PaymentIntegration => {
+    const hasPaguelo = !!updatedInt.cclw && hasPaymentSecret(updatedInt, 'token');
+    const hasYappy = !!updatedInt.yappyApiKey && hasPaymentSecret(updatedInt, 'yappySecretKey');
+    const hasStripe = hasPaymentSecret(updatedInt, 'stripeSecretKey');
+
+    let newProvider: 'PAGUELOFACIL' | 'YAPPY' | 'STRIPE' | 'MULTIPLE' | 'BOTH' = updatedInt.provider;
+    if (hasPaguelo && hasYappy && hasStripe) newProvider = 'MULTIPLE';
+    else if (hasPaguelo && hasYappy) newProvider = 'BOTH';
+    else if (hasYappy) newProvider = 'YAPPY';
+    else if (hasPaguelo) newProvider = 'PAGUELOFACIL';
+    else if (hasStripe) newProvider = 'STRIPE';
+
+    return { ...updatedInt, provider: newProvider };
+  };
+
   const handlePaymentConfigChange = (field: keyof PaymentIntegration, value: any) => {
     setProfile(prev => {
       const currentInt = prev.paymentIntegration || { provider: 'PAGUELOFACIL', enabled: true };
-      const updatedInt = { ...currentInt, [field]: value };
-      const hasPaguelo = !!updatedInt.cclw && !!updatedInt.token;
-      const hasYappy = !!updatedInt.yappyApiKey && !!updatedInt.yappySecretKey;
-
-      let newProvider: 'PAGUELOFACIL' | 'YAPPY' | 'STRIPE' | 'MULTIPLE' | 'BOTH' = updatedInt.provider;
-      if (hasPaguelo && hasYappy && !!updatedInt.stripeSecretKey) newProvider = 'MULTIPLE';
-      else if (hasPaguelo && hasYappy) newProvider = 'BOTH';
-      else if (hasYappy) newProvider = 'YAPPY';
-      else if (hasPaguelo) newProvider = 'PAGUELOFACIL';
-      else if (!!updatedInt.stripeSecretKey) newProvider = 'STRIPE';
-
-      return { ...prev, paymentIntegration: { ...updatedInt, provider: newProvider } };
+      return { ...prev, paymentIntegration: withResolvedProvider({ ...currentInt, [field]: value }) };
     });
   };
 
+  // Sends the key to the server vault (empty value removes it) and keeps only its mask
+  const handleSecretSave = async (field: PaymentSecretField, value: string) => {
+    setSavingSecret(field);
+    setSecretError(null);
+    try {
+      const secretFingerprints = await savePaymentSecret(profile, field, value);
+      const currentInt = profile.paymentIntegration || { provider: 'PAGUELOFACIL', enabled: true };
+      const updated = { ...profile, paymentIntegration: withResolvedProvider({ ...currentInt, secretFingerprints }) };
+      setProfile(updated);
+      await onUpdate(updated);
+      setSecretDrafts(prev => ({ ...prev, [field]: '' }));
+    } catch (error: any) {
+      console.error("Payment secret save failed:", error);
+      setSecretError(error.message || 'No se pudo guardar la clave');
+    } finally {
+      setSavingSecret(null);
+    }
+  };
+
+  const renderSecretInput = (field: PaymentSecretField, placeholder: string, accent: string) => {
+    const fingerprint = profile.paymentIntegration?.secretFingerprints?.[field];
+    const draft = secretDrafts[field] || '';
+    const isBusy = savingSecret === field;
+    return (
+      <div className="space-y-2">
+        <div className="relative">
+          <input
+            type={showKeys[field] ? "text" : "password"}
+            value={draft}
+            onChange={(e) => setSecretDrafts(prev => ({ ...prev, [field]: e.target.value }))}
+            className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-sm text-white outline-none transition-colors font-mono pr-10"
+            style={{ borderColor: draft ? accent : undefined }}
+            placeholder={fingerprint ? `Guardada: ${fingerprint}` : placeholder}
+          />
+          <button
+            onClick={() => toggleKeyVisibility(field)}
+            className="absolute right-3 top-3 text-slate-500 hover:text-white transition-colors"
+          >
+            {showKeys[field] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </button>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] text-slate-400 flex items-center gap-1">
+            <Lock className="w-3 h-3" /> {fingerprint ? 'Cifrada en el servidor' : 'Sin configurar'}
+          </span>
+          <div className="flex gap-2">
+            {fingerprint && (
+              <button
+                onClick={() => handleSecretSave(field, '')}
+                disabled={isBusy}
+                className="text-[10px] font-bold text-slate-400 hover:text-red-400 disabled:opacity-50"
+              >
+                Eliminar
+              </button>
+            )}
+            <button
+              onClick={() => handleSecretSave(field, draft)}
+              disabled={!draft.trim() || isBusy}
+              className="px-3 py-1 rounded-lg text-[10px] font-bold text-white bg-white/10 hover:bg-white/20 disabled:opacity-40 flex items-center gap-1"
+            >
+              {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const runConnectionTest = async (provider: 'gemini' | 'openai') => {
     const key = profile.apiKeys?.[provider];
     if (!key) return;
@@ -207,7 +338,58 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
     }
   };
 
+  const handleCertFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      setCertFile({ name: file.name, base64: dataUrl.substring(dataUrl.indexOf(',') + 1) });
+      setCertError(null);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleCertUpload = async () => {
+    if (!certFile) return;
+    setIsUploadingCert(true);
+    setCertError(null);
+    try {
+      const info = await uploadSigningCertificate(profile, certFile.base64, certPassword);
+      const updated = { ...profile, fiscalCertificate: info };
+      setProfile(updated);
+      await onUpdate(updated);
+      setCertFile(null);
+      setCertPassword('');
+    } catch (error: any) {
+      console.error("Certificate upload failed:", error);
+      setCertError(error.message || 'No se pudo cargar el certificado');
+    } finally {
+      setIsUploadingCert(false);
+    }
+  };
+
+  const handleCertRemove = async () => {
+    if (!window.confirm("¿Eliminar el certificado de firma? No podrás firmar facturas electrónicas hasta cargar uno nuevo.")) return;
+    setIsUploadingCert(true);
+    try {
+      await removeSigningCertificate(profile);
+      const updated = { ...profile, fiscalCertificate: undefined };
+      setProfile(updated);
+      await onUpdate(updated);
+    } catch (error: any) {
+      console.error("Certificate removal failed:", error);
+      setCertError(error.message || 'No se pudo eliminar el certificado');
+    } finally {
+      setIsUploadingCert(false);
+    }
+  };
+
   const saveChanges = async () => {
+    if (NUMBERED_DOCUMENTS.some(({ type }) => validateNumberPattern(String(profile.documentSequences?.[getPrefixField(type)] || '')))) {
+      setSaveStatus('ERROR');
+      return;
+    }
     setIsSaving(true);
     setSaveStatus('IDLE');
     try {
@@ -345,10 +527,10 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
     };
   }, [profile.fiscalConfig]);
 
-  const isPagueloConfigured = !!profile.paymentIntegration?.cclw && !!profile.paymentIntegration?.token;
-  const isYappyConfigured = !!profile.paymentIntegration?.yappySecretKey && 
+  const isPagueloConfigured = !!profile.paymentIntegration?.cclw && hasPaymentSecret(profile.paymentIntegration, 'token');
+  const isYappyConfigured = hasPaymentSecret(profile.paymentIntegration, 'yappySecretKey') && 
                             !!profile.paymentIntegration?.yappyApiKey;
-  const isStripeConfigured = !!profile.paymentIntegration?.stripeSecretKey;
+  const isStripeConfigured = hasPaymentSecret(profile.paymentIntegration, 'stripeSecretKey');
 
   return (
     <div className="max-w-6xl mx-auto space-y-10 animate-in fade-in pb-12 relative">
@@ -540,6 +722,14 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
                       <option value="EMI">Sociedad de Emprendimiento (S. de R.L.)</option>
                       <option value="SAS">S.A.S.</option>
                     </select>
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block pt-2">Fecha de Constitución</label>
+                    <input
+                      type="date"
+                      value={profile.fiscalConfig?.incorporationDate || ''}
+                      onChange={(e) => handleFiscalChange('incorporationDate', e.target.value || undefined)}
+                      className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-indigo-500"
+                    />
+                    <p className="text-[10px] text-slate-400">Define el vencimiento de la Tasa Única (15 de julio o 15 de enero).</p>
                   </div>
                 )}
 
@@ -636,6 +826,75 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
             </div>
           </div>
 
+          {/* CARD: SIGNING CERTIFICATE */}
+          <div className="bg-white p-8 rounded-[2.5rem] shadow-sm border border-slate-100">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-emerald-50 rounded-xl text-emerald-600">
+                <ShieldCheck className="w-6 h-6" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-[#1c2938]">Firma Electrónica</h3>
+                <p className="text-xs text-slate-400">Certificado .p12 para firmar Facturas Electrónicas (XMLDSig)</p>
+              </div>
+            </div>
+
+            {profile.fiscalCertificate ? (
+              <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-bold text-emerald-700">
+                  <CheckCircle2 className="w-4 h-4" /> Certificado cargado
+                </div>
+                <p className="text-xs text-slate-500"><span className="font-bold">Titular:</span> {profile.fiscalCertificate.subject}</p>
+                <p className="text-xs text-slate-500"><span className="font-bold">Emisor:</span> {profile.fiscalCertificate.issuer}</p>
+                <p className="text-xs text-slate-500">
+                  <span className="font-bold">Vigencia:</span> {new Date(profile.fiscalCertificate.validFrom).toLocaleDateString()} - {new Date(profile.fiscalCertificate.validTo).toLocaleDateString()}
+                  {new Date(profile.fiscalCertificate.validTo) < new Date() && <span className="ml-2 text-red-500 font-bold">Vencido</span>}
+                </p>
+                <p className="text-[10px] text-slate-400 font-mono break-all">SHA-256 {profile.fiscalCertificate.fingerprint}</p>
+                <button
+                  onClick={handleCertRemove}
+                  disabled={isUploadingCert}
+                  className="mt-2 text-xs font-bold text-red-400 hover:text-red-600 flex items-center gap-1 transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" /> Eliminar certificado
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-slate-200 rounded-2xl text-sm font-bold text-slate-500 cursor-pointer hover:border-emerald-300 hover:text-emerald-600 transition-colors">
+                  <UploadCloud className="w-5 h-5" />
+                  {certFile ? certFile.name : 'Seleccionar archivo .p12 / .pfx'}
+                  <input type="file" accept=".p12,.pfx" className="hidden" onChange={handleCertFileSelect} />
+                </label>
+                <div className="space-y-3">
+                  <input
+                    type="password"
+                    value={certPassword}
+                    onChange={(e) => setCertPassword(e.target.value)}
+                    placeholder="Contraseña del certificado"
+                    className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-emerald-500"
+                  />
+                  <button
+                    onClick={handleCertUpload}
+                    disabled={!certFile || isUploadingCert}
+                    className="w-full bg-[#1c2938] text-white py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                  >
+                    {isUploadingCert ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                    Cargar y Cifrar
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {certError && (
+              <p className="mt-3 text-xs text-red-500 flex items-start gap-1">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {certError}
+              </p>
+            )}
+            <p className="mt-4 text-[10px] text-slate-400 flex items-center gap-1">
+              <Lock className="w-3 h-3" /> El archivo y su contraseña se guardan cifrados en el servidor y nunca se devuelven al navegador.
+            </p>
+          </div>
+
           {/* CARD: FINANCIAL VAULT */}
           <div className="bg-gradient-to-br from-[#1c2938] to-slate-900 p-8 rounded-[2.5rem] shadow-2xl text-white relative overflow-hidden group">
             <div className="absolute top-0 right-0 w-64 h-64 bg-[#27bea5] rounded-full blur-[80px] opacity-10 -translate-y-1/2 translate-x-1/2"></div>
@@ -819,21 +1078,7 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
                             <label className="text-[10px] font-bold text-[#27bea5] uppercase tracking-widest flex items-center gap-1">
                               <Key className="w-3 h-3" /> API Token (Llave Secreta)
                             </label>
-                            <div className="relative">
-                              <input
-                                type={showKeys['pf_token'] ? "text" : "password"}
-                                value={profile.paymentIntegration?.token || ''}
-                                onChange={(e) => handlePaymentConfigChange('token', e.target.value)}
-                                className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-[#27bea5] transition-colors font-mono pr-10"
-                                placeholder="Pegar token de PagueloFacil"
-                              />
-                              <button
-                                onClick={() => toggleKeyVisibility('pf_token')}
-                                className="absolute right-3 top-3 text-slate-500 hover:text-white transition-colors"
-                              >
-                                {showKeys['pf_token'] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                              </button>
-                            </div>
+                            {renderSecretInput('token', 'Pegar token de PagueloFacil', '#27bea5')}
                           </div>
                           <div className="flex justify-end">
                             <a
@@ -876,21 +1121,7 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
                             <label className="text-[10px] font-bold text-[#ff6b00] uppercase tracking-widest flex items-center gap-1">
                               <ShieldCheck className="w-3 h-3" /> Secret Key
                             </label>
-                            <div className="relative">
-                              <input
-                                type={showKeys['yappy_secret'] ? "text" : "password"}
-                                value={profile.paymentIntegration?.yappySecretKey || ''}
-                                onChange={(e) => handlePaymentConfigChange('yappySecretKey', e.target.value)}
-                                className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-[#ff6b00] transition-colors font-mono pr-10"
-                                placeholder="Pegar Secret Key"
-                              />
-                              <button
-                                onClick={() => toggleKeyVisibility('yappy_secret')}
-                                className="absolute right-3 top-3 text-slate-500 hover:text-white transition-colors"
-                              >
-                                {showKeys['yappy_secret'] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                              </button>
-                            </div>
+                            {renderSecretInput('yappySecretKey', 'Pegar Secret Key', '#ff6b00')}
                           </div>
 
                           <div className="space-y-2">
@@ -904,6 +1135,14 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
                               placeholder="Semilla de integración"
                             />
                           </div>
+                          <div className="space-y-2">
+                            <p className="text-xs text-slate-400">
+                              URL de notificación (IPN) para confirmar los pagos automáticamente. Configúrala en Yappy Comercial:
+                            </p>
+                            <code className="block text-[11px] text-slate-300 bg-black/20 rounded-lg p-2 break-all select-all">
+                              {`${window.location.origin}/api/yappy/v1/ipn`}
+                            </code>
+                          </div>
                           <div className="flex justify-end">
                             <a
                               href="https://www.yappy.com.pa/comercial/desarrolladores/boton-de-pago-yappy-nueva-integracion/"
@@ -933,28 +1172,33 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
                             <label className="text-[10px] font-bold text-[#635BFF] uppercase tracking-widest flex items-center gap-1">
                               <Key className="w-3 h-3" /> Secret Key (API Key)
                             </label>
-                            <div className="relative">
-                              <input
-                                type={showKeys['stripe_secret'] ? "text" : "password"}
-                                value={profile.paymentIntegration?.stripeSecretKey || ''}
-                                onChange={(e) => handlePaymentConfigChange('stripeSecretKey', e.target.value)}
-                                className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-[#635BFF] transition-colors font-mono pr-10"
-                                placeholder="sk_live_... o sk_test_..."
-                              />
-                              <button
-                                onClick={() => toggleKeyVisibility('stripe_secret')}
-                                className="absolute right-3 top-3 text-slate-500 hover:text-white transition-colors"
-                              >
-                                {showKeys['stripe_secret'] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                              </button>
-                            </div>
+                            {renderSecretInput('stripeSecretKey', 'sk_live_... o sk_test_...', '#635BFF')}
                             <p className="text-xs text-slate-400 mt-1">
                               Puedes crear una Restrict Key en Stripe Dashboard {'>'} Developers {'>'} API keys.
                             </p>
                           </div>
+
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-bold text-[#635BFF] uppercase tracking-widest flex items-center gap-1">
+                              <Key className="w-3 h-3" /> Webhook Signing Secret
+                            </label>
+                            {renderSecretInput('stripeWebhookSecret', 'whsec_...', '#635BFF')}
+                            <p className="text-xs text-slate-400 mt-1">
+                              Crea un endpoint en Stripe Dashboard {'>'} Developers {'>'} Webhooks con los eventos checkout.session.completed, payment_intent.succeeded, charge.refunded e invoice.paid, apuntando a:
+                            </p>
+                            <code className="block text-[11px] text-slate-300 bg-black/20 rounded-lg p-2 break-all select-all">
+                              {`${window.location.origin}/api/webhooks/stripe?userId=${profile.id}`}
+                            </code>
+                          </div>
                         </div>
                       )}
 
+                      {secretError && (
+                        <p className="mt-3 text-xs text-red-400 flex items-start gap-1">
+                          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {secretError}
+                        </p>
+                      )}
+
                       {/* GATEWAY FEE CONFIGURATION (General for any enabled provider) */}
                       <div className="pt-4 border-t border-white/10 mt-6 space-y-4" onClick={(e) => e.stopPropagation()}>
                         <h4 className="text-xs font-bold text-[#27bea5] uppercase tracking-wider">Configuración de Comisión de Pasarela</h4>
@@ -1289,6 +1533,178 @@ const UserProfileSettings: React.FC<UserProfileSettingsProps> = ({ currentUser,
                 </button>
               ))}
             </div>
+
+            {/* CUSTOM DUNNING SEQUENCES */}
+            <div className="mt-8 pt-6 border-t border-slate-100 space-y-4">
+              <div>
+                <p className="font-bold text-sm text-[#1c2938] flex items-center gap-2"><Activity className="w-4 h-4 text-[#27bea5]" /> Secuencias de Cobranza</p>
+                <p className="text-xs text-slate-400 mt-0.5">Define tus propios pasos (correo, WhatsApp o tarea interna) y asígnalos por cliente o por factura.</p>
+              </div>
+              <DunningSequenceEditor
+                sequences={profile.dunningSequences || []}
+                onChange={(sequences) => setProfile(prev => ({
+                  ...prev,
+                  dunningSequences: sequences,
+                  // Drop the default when its sequence is deleted
+                  defaultDunningSequenceId: sequences.some(s => s.id === prev.defaultDunningSequenceId) ? prev.defaultDunningSequenceId : undefined
+                }))}
+              />
+              {(profile.dunningSequences || []).length > 0 && (
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">Secuencia por defecto</label>
+                  <select
+                    value={profile.defaultDunningSequenceId || ''}
+                    onChange={(e) => handleInputChange('defaultDunningSequenceId', e.target.value || undefined)}
+                    className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                  >
+                    <option value="">Perfil seleccionado arriba</option>
+                    {(profile.dunningSequences || []).map(seq => (
+                      <option key={seq.id} value={seq.id}>{seq.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {/* SENDING WINDOW */}
+            <div className="mt-8 pt-6 border-t border-slate-100 space-y-4">
+              <div>
+                <p className="font-bold text-sm text-[#1c2938] flex items-center gap-2"><Clock className="w-4 h-4 text-blue-500" /> Horario de Envío</p>
+                <p className="text-xs text-slate-400 mt-0.5">Los recordatorios solo se envían en este horario, según tu zona horaria.</p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">Zona horaria</label>
+                <select
+                  value={profile.timezone || DEFAULT_TIMEZONE}
+                  onChange={(e) => handleInputChange('timezone', e.target.value)}
+                  className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                >
+                  {TIMEZONE_OPTIONS.map(tz => <option key={tz.id} value={tz.id}>{tz.label}</option>)}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  { field: 'startHour' as const, label: 'Desde (hora)' },
+                  { field: 'endHour' as const, label: 'Hasta (hora)' },
+                ].map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">{label}</label>
+                    <input
+                      type="number"
+                      min={field === 'startHour' ? '0' : '1'}
+                      max={field === 'startHour' ? '23' : '24'}
+                      step="1"
+                      value={(profile.businessHours || DEFAULT_BUSINESS_HOURS)[field]}
+                      onChange={(e) => handleBusinessHoursChange(field, parseInt(e.target.value, 10) || 0)}
+                      className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {['D', 'L', 'M', 'X', 'J', 'V', 'S'].map((label, day) => {
+                  const workdays = (profile.businessHours || DEFAULT_BUSINESS_HOURS).workdays;
+                  const active = workdays.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => handleBusinessHoursChange('workdays', active ? workdays.filter(d => d !== day) : [...workdays, day].sort())}
+                      className={`w-9 h-9 rounded-xl text-xs font-bold transition-all ${active ? 'bg-[#27bea5] text-white' : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* LATE FEE POLICY */}
+            <div className="mt-8 pt-6 border-t border-slate-100 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-bold text-sm text-[#1c2938] flex items-center gap-2"><Percent className="w-4 h-4 text-rose-500" /> Intereses por Mora</p>
+                  <p className="text-xs text-slate-400 mt-0.5">Se cargan automáticamente a facturas vencidas tras el periodo de gracia.</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleLateFeeChange('enabled', !profile.lateFeePolicy?.enabled)}
+                  className={`w-12 h-7 rounded-full transition-colors relative ${profile.lateFeePolicy?.enabled ? 'bg-[#27bea5]' : 'bg-slate-200'}`}
+                >
+                  <span className={`absolute top-1 w-5 h-5 bg-white rounded-full shadow transition-all ${profile.lateFeePolicy?.enabled ? 'left-6' : 'left-1'}`}></span>
+                </button>
+              </div>
+
+              {profile.lateFeePolicy?.enabled && (
+                <div className="grid grid-cols-2 gap-3 animate-in fade-in">
+                  {[
+                    { field: 'annualInterestRate' as const, label: 'Interés anual (%)' },
+                    { field: 'graceDays' as const, label: 'Días de gracia' },
+                    { field: 'flatFee' as const, label: 'Cargo fijo' },
+                    { field: 'maxAmount' as const, label: 'Tope por factura' },
+                  ].map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step={field === 'graceDays' ? '1' : '0.01'}
+                        value={profile.lateFeePolicy?.[field] ?? ''}
+                        placeholder={field === 'maxAmount' ? 'Sin tope' : '0'}
+                        onChange={(e) => handleLateFeeChange(field, e.target.value === '' ? (field === 'maxAmount' ? undefined : 0) : parseFloat(e.target.value))}
+                        className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                      />
+                    </div>
+                  ))}
+                  <div className="col-span-2 space-y-1">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">Cómo se cobra</label>
+                    <select
+                      value={profile.lateFeePolicy?.method || 'LINE'}
+                      onChange={(e) => handleLateFeeChange('method', e.target.value as LateFeePolicy['method'])}
+                      className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl text-sm font-medium text-slate-600 outline-none focus:border-[#27bea5]"
+                    >
+                      <option value="LINE">Línea de intereses en la factura</option>
+                      <option value="DEBIT_NOTE">Nota de débito separada</option>
+                    </select>
+                    <p className="text-[10px] text-slate-400">Las facturas electrónicas ya emitidas siempre usan nota de débito.</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* CARD: DOCUMENT NUMBERING */}
+          <div className="bg-white p-8 rounded-[2rem] shadow-sm hover:shadow-md transition-shadow duration-300 border border-slate-50">
+            <h3 className="text-xl font-bold text-[#1c2938] mb-2 flex items-center gap-3">
+              <div className="p-2 bg-sky-50 rounded-xl text-sky-500">
+                <Hash className="w-6 h-6" />
+              </div>
+              Numeración de Documentos
+            </h3>
+            <p className="text-xs text-slate-400 mb-6">
+              Usa un prefijo (FAC) o un patrón como FAC-{'{YYYY}'}-{'{####}'}. Con el año, la numeración se reinicia en cada año fiscal.
+            </p>
+            <div className="space-y-4">
+              {NUMBERED_DOCUMENTS.map(({ type, label }) => {
+                const value = String(profile.documentSequences?.[getPrefixField(type)] || '');
+                const error = validateNumberPattern(value);
+                return (
+                  <div key={type} className="space-y-1">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">{label}</label>
+                    <input
+                      type="text"
+                      value={value}
+                      placeholder={DEFAULT_DOCUMENT_PREFIXES[type]}
+                      onChange={(e) => handleSequencePrefixChange(type, e.target.value)}
+                      className={`w-full p-3 bg-slate-50 border rounded-xl text-sm font-mono text-slate-600 outline-none focus:border-[#27bea5] ${error ? 'border-red-300' : 'border-slate-100'}`}
+                    />
+                    <p className={`text-[10px] ${error ? 'text-red-500' : 'text-slate-400'}`}>
+                      {error || `Ejemplo: ${formatDocumentNumber(getNumberPattern(profile.documentSequences, type), 1, new Date().toISOString())}`}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
           </div>
 
           {/* CARD: BRANDING */}
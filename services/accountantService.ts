@@ -8,15 +8,14 @@ import { AccountantTask } from '../types.ts';
  * Liquidador de intereses moratorios (Panamá)
  * Rule: 10% annual interest (0.833% monthly approx or exactly per day if strictly following DGI)
  * For simplicity and common practice: (Amount * 0.10 * Days / 365)
+ * `annualRate` overrides the DGI rate (e.g. the user's late-fee policy for invoices).
  */
-export const calculateLateInterest = (amount: number, dueDate: Date, paymentDate: Date): number => {
+export const calculateLateInterest = (amount: number, dueDate: Date, paymentDate: Date, annualRate: number = 0.10): number => {
     if (paymentDate <= dueDate) return 0;
 
     const diffTime = Math.abs(paymentDate.getTime() - dueDate.getTime());
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 
-    // DGI Panama typically uses a 10% annual rate for moratory interest
-    const annualRate = 0.10;
     const interest = amount * annualRate * (diffDays / 365);
 
     return parseFloat(interest.toFixed(2));
@@ -0,0 +1,413 @@
+import { BankMatchSuggestion, BankStatementFormat, BankTransaction, Invoice, PaymentRecord, TimelineEvent } from '../types';
+import { getOpenBalance } from './creditNoteService';
+
+/**
+ * BANK STATEMENT RECONCILIATION
+ * Parses statements exported from online banking (Banco General / Banistmo CSV, OFX, ISO 20022
+ * CAMT.053) into BankTransactions, suggests the open invoice (credits) or pending expense (debits)
+ * each line pays, and applies an accepted match as a 'Banco' PaymentRecord.
+ * Lines without an accepted match stay UNMATCHED: that set is the reconciliation inbox.
+ */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const MIN_MATCH_SCORE = 40;
+
+const UNPAYABLE_STATUSES = ['Borrador', 'Pagada', 'Rechazada', 'Incobrable', 'PendingSync'];
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  CSV: 'CSV',
+  OFX: 'OFX',
+  CAMT053: 'CAMT.053'
+};
+
+type ParsedLine = Pick<BankTransaction, 'date' | 'amount' | 'description' | 'reference' | 'counterparty'> & {
+  bankId?: string;
+  currency?: string;
+};
+
+// --- Shared helpers ---
+
+const normalizeText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// FNV-1a: stable id for statement lines that carry no bank id
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const SPANISH_MONTHS: Record<string, number> = {
+  ene: 1, feb: 2, mar: 3, abr: 4, may: 5, jun: 6, jul: 7, ago: 8, sep: 9, set: 9, oct: 10, nov: 11, dic: 12,
+  jan: 1, apr: 4, aug: 8, dec: 12
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Panamanian exports use day-first dates: 05/01/2026, 05-01-26, 05-ENE-2026. ISO dates are also accepted.
+ */
+export const parseStatementDate = (raw: string): string | null => {
+  const value = raw.trim();
+  let m = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+  m = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (m) return toIsoDate(+m[3], +m[2], +m[1]);
+  m = value.match(/^(\d{1,2})[-/ ]([a-z]{3})[a-z]*[-/ ](\d{2,4})/i);
+  if (m && SPANISH_MONTHS[normalizeText(m[2])]) return toIsoDate(+m[3], SPANISH_MONTHS[normalizeText(m[2])], +m[1]);
+  m = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+  return null;
+};
+
+/**
+ * "1,234.56", "-50.00", "(50.00)", "B/. 25.00" and "1.234,56" all parse; blanks are 0.
+ */
+export const parseStatementAmount = (raw: string | undefined): number => {
+  if (!raw) return 0;
+  let value = raw.trim();
+  const negative = /^\(.*\)$/.test(value) || /^-/.test(value) || /-$/.test(value);
+  // B/. is the balboa sign: its dot is not a decimal separator
+  value = value.replace(/B\/\./gi, '').replace(/[^\d.,]/g, '').replace(/^[.,]+/, '');
+  if (!value) return 0;
+  if (/,\d{1,2}$/.test(value)) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return 0;
+  return round2(negative ? -amount : amount);
+};
+
+// --- CSV (Banco General / Banistmo) ---
+
+// Header aliases seen in Banco General ("Débito"/"Crédito") and Banistmo ("Débitos"/"Créditos", "Monto" + "Tipo") exports
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['fecha', 'fecha transaccion', 'fecha de transaccion', 'fecha valor', 'fecha contable', 'date'],
+  description: ['descripcion', 'concepto', 'detalle', 'descripcion de la transaccion', 'transaccion', 'description', 'memo'],
+  reference: ['referencia', 'no. referencia', 'numero de referencia', 'ref', 'documento', 'no. documento', 'reference'],
+  debit: ['debito', 'debitos', 'retiro', 'retiros', 'cargo', 'cargos', 'debit'],
+  credit: ['credito', 'creditos', 'deposito', 'depositos', 'abono', 'abonos', 'credit'],
+  amount: ['monto', 'importe', 'valor', 'amount'],
+  type: ['tipo', 'tipo de transaccion', 'db/cr', 'type'],
+  counterparty: ['beneficiario', 'ordenante', 'remitente', 'nombre', 'contraparte']
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const mapCsvHeader = (cells: string[]): Record<string, number> => {
+  const columns: Record<string, number> = {};
+  cells.forEach((cell, index) => {
+    const name = normalizeText(cell).replace(/\s+/g, ' ').trim();
+    Object.entries(CSV_COLUMNS).forEach(([key, aliases]) => {
+      if (columns[key] === undefined && aliases.includes(name)) columns[key] = index;
+    });
+  });
+  return columns;
+};
+
+export const parseCsvStatement = (content: string): ParsedLine[] => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  // Exports start with account details: the header is the first row naming a date and an amount column
+  for (let h = 0; h < lines.length; h++) {
+    const delimiter = [';', '\t', ','].find(d => lines[h].includes(d)) || ',';
+    const columns = mapCsvHeader(splitCsvLine(lines[h], delimiter));
+    const hasAmount = columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined;
+    if (columns.date === undefined || !hasAmount) continue;
+
+    const parsed: ParsedLine[] = [];
+    for (const line of lines.slice(h + 1)) {
+      const cells = splitCsvLine(line, delimiter);
+      const date = parseStatementDate(cells[columns.date] || '');
+      if (!date) continue; // Totals and footer rows
+
+      let amount = columns.amount !== undefined
+        ? parseStatementAmount(cells[columns.amount])
+        : round2(Math.abs(parseStatementAmount(cells[columns.credit])) - Math.abs(parseStatementAmount(cells[columns.debit])));
+      if (columns.type !== undefined && /^(d|db|dr|deb|debito|retiro|cargo)\b/.test(normalizeText(cells[columns.type] || ''))) {
+        amount = -Math.abs(amount);
+      }
+      if (!amount) continue;
+
+      parsed.push({
+        date,
+        amount,
+        description: cells[columns.description] || '',
+        reference: cells[columns.reference] || undefined,
+        counterparty: cells[columns.counterparty] || undefined
+      });
+    }
+    return parsed;
+  }
+  return [];
+};
+
+// --- OFX (SGML 1.x and XML 2.x) ---
+
+const ofxField = (block: string, tag: string): string | undefined => {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : undefined;
+};
+
+export const parseOfxStatement = (content: string): ParsedLine[] => {
+  const currency = ofxField(content, 'CURDEF');
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  return blocks.map(block => {
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+    return {
+      bankId: ofxField(block, 'FITID'),
+      date: parseStatementDate(ofxField(block, 'DTPOSTED') || '') || '',
+      amount: parseStatementAmount(ofxField(block, 'TRNAMT')),
+      description: [name, memo].filter(Boolean).join(' - '),
+      reference: ofxField(block, 'REFNUM') || ofxField(block, 'CHECKNUM') || undefined,
+      counterparty: name,
+      currency
+    };
+  }).filter(line => line.date && line.amount);
+};
+
+// --- CAMT.053 (ISO 20022 BankToCustomerStatement) ---
+
+const decodeXml = (value: string): string =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const xmlBlock = (xml: string | undefined, tag: string): string | undefined => {
+  if (!xml) return undefined;
+  const m = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return m ? m[1] : undefined;
+};
+
+const xmlText = (xml: string | undefined, tag: string): string | undefined => {
+  const inner = xmlBlock(xml, tag);
+  return inner !== undefined && !inner.includes('<') ? decodeXml(inner.trim()) : undefined;
+};
+
+export const parseCamt053Statement = (content: string): ParsedLine[] => {
+  const entries = content.match(/<(?:\w+:)?Ntry>[\s\S]*?<\/(?:\w+:)?Ntry>/g) || [];
+  return entries.map(entry => {
+    const amountMatch = entry.match(/<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"[^>]*>([^<]+)</);
+    const isDebit = xmlText(entry, 'CdtDbtInd') === 'DBIT';
+    const parties = xmlBlock(entry, 'RltdPties');
+    // The other party is the debtor of a credit and the creditor of a debit
+    const party = xmlBlock(parties, isDebit ? 'Cdtr' : 'Dbtr');
+    const endToEndId = xmlText(entry, 'EndToEndId');
+    const bankRef = xmlText(entry, 'AcctSvcrRef');
+    const bookingDate = xmlBlock(entry, 'BookgDt');
+    const amount = amountMatch ? Math.abs(parseStatementAmount(amountMatch[2])) : 0;
+    return {
+      bankId: bankRef || xmlText(entry, 'NtryRef'),
+      date: parseStatementDate(xmlText(bookingDate, 'Dt') || xmlText(bookingDate, 'DtTm') || '') || '',
+      amount: isDebit ? -amount : amount,
+      description: xmlText(entry, 'Ustrd') || xmlText(entry, 'AddtlNtryInf') || xmlText(entry, 'AddtlTxInf') || '',
+      reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : bankRef,
+      counterparty: xmlText(party, 'Nm'),
+      currency: amountMatch?.[1]
+    };
+  }).filter(line => line.date && line.amount);
+};
+
+// --- Entry point ---
+
+export const detectStatementFormat = (content: string, fileName: string = ''): BankStatementFormat => {
+  if (/OFXHEADER|<OFX>/i.test(content) || /\.(ofx|qfx)$/i.test(fileName)) return 'OFX';
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt>/.test(content)) return 'CAMT053';
+  return 'CSV';
+};
+
+export const parseBankStatement = (
+  content: string,
+  fileName: string,
+  userId: string,
+  defaultCurrency: string = 'USD',
+  now: Date = new Date()
+): BankTransaction[] => {
+  const source = detectStatementFormat(content, fileName);
+  const lines = source === 'OFX' ? parseOfxStatement(content)
+    : source === 'CAMT053' ? parseCamt053Statement(content)
+    : parseCsvStatement(content);
+
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    let id = line.bankId
+      ? `${source.toLowerCase()}-${line.bankId}`
+      : `${source.toLowerCase()}-${hashString([line.date, line.amount.toFixed(2), line.reference || '', line.description].join('|'))}`;
+    // Two identical transfers on the same day are distinct lines of the same statement
+    const count = seen.get(id) || 0;
+    seen.set(id, count + 1);
+    if (count > 0) id = `${id}-${count}`;
+
+    return {
+      id,
+      userId,
+      date: line.date,
+      amount: line.amount,
+      currency: line.currency || defaultCurrency,
+      description: line.description.trim(),
+      reference: line.reference,
+      counterparty: line.counterparty,
+      source,
+      fileName,
+      status: 'UNMATCHED',
+      importedAt: now.toISOString()
+    };
+  });
+};
+
+// --- Matching ---
+
+const normalizeId = (value: string) => normalizeText(value).replace(/[^a-z0-9]/g, '');
+
+const NAME_STOPWORDS = new Set(['sa', 'inc', 'corp', 'corporation', 'ltd', 'srl', 'de', 'del', 'la', 'el', 'los', 'las', 'y', 'and', 'the', 'cia']);
+
+const nameTokens = (value: string): string[] =>
+  normalizeText(value).split(/[^a-z0-9]+/).filter(t => t.length > 1 && !NAME_STOPWORDS.has(t));
+
+/**
+ * Share of the client name's words found in the bank text (0-1). Bank descriptions wrap the
+ * name in noise ("TRANSF ACH DE JUAN PEREZ S.A."), so this is containment rather than equality.
+ */
+export const nameSimilarity = (bankText: string, name: string): number => {
+  const target = nameTokens(name);
+  if (target.length === 0) return 0;
+  const available = new Set(nameTokens(bankText));
+  return target.filter(t => available.has(t)).length / target.length;
+};
+
+export const getDocumentOpenAmount = (doc: Invoice, documents: Invoice[]): number =>
+  doc.type === 'Expense' ? round2(Math.max(0, doc.total - (doc.amountPaid || 0))) : getOpenBalance(doc, documents);
+
+/**
+ * Credits can pay open invoices; debits can pay expenses not yet marked paid.
+ */
+export const getMatchCandidates = (tx: BankTransaction, documents: Invoice[]): Invoice[] =>
+  documents.filter(doc => {
+    if (tx.amount > 0 ? doc.type !== 'Invoice' : doc.type !== 'Expense') return false;
+    if (UNPAYABLE_STATUSES.includes(doc.status) || (doc.type === 'Expense' && doc.status === 'Aceptada')) return false;
+    if ((doc.currency || 'USD') !== tx.currency) return false;
+    return getDocumentOpenAmount(doc, documents) > 0.01;
+  });
+
+export const scoreBankMatch = (tx: BankTransaction, doc: Invoice, documents: Invoice[]): BankMatchSuggestion => {
+  const reasons: string[] = [];
+  let score = 0;
+  const amount = Math.abs(tx.amount);
+  const open = getDocumentOpenAmount(doc, documents);
+  const bankText = [tx.reference, tx.description, tx.counterparty].filter(Boolean).join(' ');
+
+  const docId = normalizeId(doc.id);
+  if (docId.length >= 3 && normalizeId(bankText).includes(docId)) {
+    score += 50;
+    reasons.push(`Referencia contiene ${doc.id}`);
+  }
+
+  if (Math.abs(amount - open) <= 0.01) {
+    score += 40;
+    reasons.push('Monto exacto');
+  } else if (Math.abs(amount - doc.total) <= 0.01) {
+    score += 30;
+    reasons.push('Monto igual al total');
+  } else if (amount < open) {
+    score += 10;
+    reasons.push('Abono parcial');
+  }
+
+  const similarity = nameSimilarity(bankText, doc.clientName);
+  if (similarity >= 0.5) {
+    score += Math.round(similarity * 30);
+    reasons.push(`Nombre similar (${Math.round(similarity * 100)}%)`);
+  }
+
+  // Payments rarely precede the document by more than a week
+  const daysBefore = (new Date(doc.date).getTime() - new Date(tx.date).getTime()) / 86400000;
+  if (daysBefore > 7) score -= 20;
+
+  return { documentId: doc.id, score: Math.max(0, Math.min(100, score)), reasons };
+};
+
+export const suggestBankMatches = (tx: BankTransaction, documents: Invoice[], limit: number = 3): BankMatchSuggestion[] =>
+  getMatchCandidates(tx, documents)
+    .map(doc => scoreBankMatch(tx, doc, documents))
+    .filter(s => s.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+/**
+ * Document with the bank line applied as a payment, or null if it was already applied.
+ * Invoices move to Pagada/Abonada; expenses are marked Aceptada (paid) once fully covered.
+ */
+export const applyBankMatch = (
+  tx: BankTransaction,
+  doc: Invoice,
+  documents: Invoice[],
+  now: Date = new Date()
+): Invoice | null => {
+  const paymentId = `bank-${tx.id}`;
+  if (doc.payments?.some(p => p.id === paymentId)) return null;
+
+  const amount = Math.abs(tx.amount);
+  const remaining = round2(getDocumentOpenAmount(doc, documents) - amount);
+  const currency = doc.currency || tx.currency;
+  const record: PaymentRecord = {
+    id: paymentId,
+    date: tx.date,
+    amount,
+    method: 'Banco',
+    currency: tx.currency,
+    notes: `Estado de cuenta: ${tx.reference || tx.description}`.slice(0, 140)
+  };
+  const event: TimelineEvent = {
+    id: `${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    type: 'PAID',
+    title: `Pago conciliado: ${tx.currency} ${amount.toFixed(2)}`,
+    description: remaining > 0.01 ? `Resta: ${currency} ${remaining.toFixed(2)}` : 'Deuda saldada',
+    timestamp: now.toISOString()
+  };
+
+  const status = doc.type === 'Expense'
+    ? (remaining <= 0.01 ? 'Aceptada' : doc.status)
+    : (remaining <= 0.01 ? 'Pagada' : 'Abonada');
+
+  return {
+    ...doc,
+    amountPaid: round2((doc.amountPaid || 0) + amount),
+    status,
+    payments: [...(doc.payments || []), record],
+    timeline: [...(doc.timeline || []), event]
+  };
+};
+
+/**
+ * Parsed lines not already imported (same id), so uploading overlapping statements is safe.
+ */
+export const filterNewBankTransactions = (existing: BankTransaction[], parsed: BankTransaction[]): BankTransaction[] => {
+  const known = new Set(existing.map(t => t.id));
+  return parsed.filter(t => !known.has(t.id));
+};
@@ -0,0 +1,194 @@
+import { Invoice, InvoiceStatus, PaymentRecord, TimelineEvent } from '../types';
+import { getAdjustmentTotals, getOpenBalance } from './creditNoteService';
+
+/**
+ * REFUNDS & CLIENT CREDIT (SALDO A FAVOR)
+ * `amountPaid` is always the sum of the invoice's PaymentRecords, which may be negative:
+ *  - Refunds are negative records without `linkedDocumentId`.
+ *  - Applying credit moves money between two invoices of the same client with a linked pair:
+ *    a negative record on the overpaid invoice and a positive one on the invoice it pays.
+ * Whatever an invoice received beyond what it owes (total + debit notes - credit notes) is its
+ * credit; the client's credit balance is the sum over their invoices.
+ */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isIssuedInvoice = (doc: Invoice) =>
+  doc.type === 'Invoice' && doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+const newEvent = (title: string, description: string, now: Date, type: TimelineEvent['type']): TimelineEvent => ({
+  id: `${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+  type,
+  title,
+  description,
+  timestamp: now.toISOString()
+});
+
+/**
+ * Amount paid beyond what the invoice owes.
+ */
+export const getInvoiceCredit = (invoice: Invoice, documents: Invoice[]): number => {
+  if (invoice.type !== 'Invoice') return 0;
+  const { credited, debited } = getAdjustmentTotals(invoice.id, documents);
+  return round2(Math.max(0, (invoice.amountPaid || 0) - (invoice.total + debited - credited)));
+};
+
+/**
+ * Status after `amountPaid` changed: Pagada when nothing is owed, Abonada while something was
+ * received, and back to Enviada once everything received was refunded or moved out.
+ */
+export const resolvePaymentStatus = (invoice: Invoice, documents: Invoice[]): InvoiceStatus => {
+  const paid = invoice.amountPaid || 0;
+  if (paid > 0.01 && getOpenBalance(invoice, documents) <= 0.01) return 'Pagada';
+  if (paid > 0.01) return 'Abonada';
+  return invoice.status === 'Pagada' || invoice.status === 'Abonada' ? 'Enviada' : invoice.status;
+};
+
+const belongsToClient = (doc: Invoice, clientName: string, clientId?: string) =>
+  (!!clientId && doc.clientId === clientId) || doc.clientName.trim().toLowerCase() === clientName.trim().toLowerCase();
+
+/**
+ * Invoices of the client holding credit, oldest first (the order credit is consumed in).
+ */
+export const getClientCreditSources = (
+  clientName: string,
+  documents: Invoice[],
+  clientId?: string
+): { invoice: Invoice; credit: number }[] =>
+  documents
+    .filter(d => isIssuedInvoice(d) && belongsToClient(d, clientName, clientId))
+    .map(invoice => ({ invoice, credit: getInvoiceCredit(invoice, documents) }))
+    .filter(s => s.credit > 0.01)
+    .sort((a, b) => new Date(a.invoice.date).getTime() - new Date(b.invoice.date).getTime());
+
+export const getClientCreditBalance = (clientName: string, documents: Invoice[], clientId?: string, currency?: string): number =>
+  round2(getClientCreditSources(clientName, documents, clientId)
+    .filter(s => !currency || (s.invoice.currency || 'USD') === currency)
+    .reduce((acc, s) => acc + s.credit, 0));
+
+/**
+ * Pays `target` with the client's credit in the same currency, oldest source first, up to its
+ * open balance. Returns every changed invoice (target first), or null when there is nothing to apply.
+ */
+export const applyClientCredit = (
+  target: Invoice,
+  documents: Invoice[],
+  now: Date = new Date()
+): Invoice[] | null => {
+  let remaining = getOpenBalance(target, documents);
+  if (!isIssuedInvoice(target) || remaining <= 0.01) return null;
+
+  const currency = target.currency || 'USD';
+  const sources = getClientCreditSources(target.clientName, documents, target.clientId)
+    .filter(s => s.invoice.id !== target.id && (s.invoice.currency || 'USD') === currency);
+
+  const stamp = now.getTime();
+  const updatedSources: Invoice[] = [];
+  const incoming: PaymentRecord[] = [];
+  const events: TimelineEvent[] = [];
+
+  for (const { invoice: source, credit } of sources) {
+    if (remaining <= 0.01) break;
+    const amount = round2(Math.min(credit, remaining));
+    remaining = round2(remaining - amount);
+
+    const outgoing: PaymentRecord = {
+      id: `credit-out-${target.id}-${stamp}`,
+      date: now.toISOString(),
+      amount: -amount,
+      method: 'Otro',
+      currency,
+      notes: `Saldo a favor aplicado a ${target.id}`,
+      linkedDocumentId: target.id
+    };
+    const sourcePaid = round2((source.amountPaid || 0) - amount);
+    updatedSources.push({
+      ...source,
+      amountPaid: sourcePaid,
+      status: resolvePaymentStatus({ ...source, amountPaid: sourcePaid }, documents),
+      payments: [...(source.payments || []), outgoing],
+      timeline: [
+        ...(source.timeline || []),
+        newEvent(`Saldo a favor transferido: ${currency} ${amount.toFixed(2)}`, `Aplicado a la factura ${target.id}`, now, 'STATUS_CHANGE')
+      ]
+    });
+
+    incoming.push({
+      id: `credit-in-${source.id}-${stamp}`,
+      date: now.toISOString(),
+      amount,
+      method: 'Otro',
+      currency,
+      notes: `Saldo a favor de ${source.id}`,
+      linkedDocumentId: source.id
+    });
+    events.push(newEvent(
+      `Saldo a favor aplicado: ${currency} ${amount.toFixed(2)}`,
+      remaining > 0.01 ? `Desde ${source.id}. Resta: ${currency} ${remaining.toFixed(2)}` : `Desde ${source.id}. Deuda saldada`,
+      now,
+      'PAID'
+    ));
+  }
+
+  if (incoming.length === 0) return null;
+
+  const targetPaid = round2((target.amountPaid || 0) + incoming.reduce((acc, p) => acc + p.amount, 0));
+  const updatedTarget: Invoice = {
+    ...target,
+    amountPaid: targetPaid,
+    status: resolvePaymentStatus({ ...target, amountPaid: targetPaid }, documents),
+    payments: [...(target.payments || []), ...incoming],
+    timeline: [...(target.timeline || []), ...events]
+  };
+  return [updatedTarget, ...updatedSources];
+};
+
+/**
+ * Applies the client's credit to each of their open invoices, oldest first (e.g. after the client
+ * paid an invoice twice). Returns every changed invoice; empty when there is nothing to apply.
+ */
+export const applyClientCreditToOpenInvoices = (
+  clientName: string,
+  documents: Invoice[],
+  clientId?: string,
+  now: Date = new Date()
+): Invoice[] => {
+  const openIds = documents
+    .filter(d => isIssuedInvoice(d) && belongsToClient(d, clientName, clientId) && getOpenBalance(d, documents) > 0.01)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(d => d.id);
+
+  let current = documents;
+  const changed = new Map<string, Invoice>();
+  for (const id of openIds) {
+    const target = current.find(d => d.id === id);
+    const updated = target ? applyClientCredit(target, current, now) : null;
+    if (!updated) continue;
+    updated.forEach(u => changed.set(u.id, u));
+    current = current.map(d => changed.get(d.id) || d);
+  }
+  return Array.from(changed.values());
+};
+
+/**
+ * Cash actually received and returned, from the payment records (credit transfers between
+ * invoices are neither). Invoices without records count their legacy amountPaid or paid status.
+ */
+export const getCollectedTotals = (invoices: Invoice[]): { collected: number; refunded: number } => {
+  let collected = 0;
+  let refunded = 0;
+  invoices.filter(isIssuedInvoice).forEach(inv => {
+    const payments = inv.payments || [];
+    if (payments.length === 0) {
+      if (inv.amountPaid && inv.amountPaid > 0) collected += inv.amountPaid;
+      else if (inv.status === 'Pagada' || inv.status === 'Aceptada') collected += inv.total;
+      return;
+    }
+    payments.forEach(p => {
+      if (p.linkedDocumentId) return;
+      if (p.amount >= 0) collected += p.amount;
+      else refunded -= p.amount;
+    });
+  });
+  return { collected: round2(collected), refunded: round2(refunded) };
+};
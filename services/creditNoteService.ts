@@ -0,0 +1,232 @@
+import { Invoice, InvoiceItem, TimelineEvent } from '../types';
+
+/**
+ * CREDIT & DEBIT NOTES
+ * Adjustment documents linked to an issued invoice through `referenceInvoiceId`.
+ *  - Credit notes (NC) reduce what the client owes, for the whole invoice or per line.
+ *  - Debit notes (ND) add charges to it.
+ * Open balances are always derived from these links, never stored on the invoice.
+ */
+
+export type AdjustmentNoteType = 'CreditNote' | 'DebitNote';
+
+export interface CreditLineSelection {
+  itemId: string;
+  quantity: number;
+}
+
+export interface CreditableLine {
+  item: InvoiceItem;
+  creditedQuantity: number;
+  remainingQuantity: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const isAdjustmentNote = (doc: Pick<Invoice, 'type'>): boolean =>
+  doc.type === 'CreditNote' || doc.type === 'DebitNote';
+
+export const getAdjustmentNoteLabel = (type: AdjustmentNoteType): string =>
+  type === 'CreditNote' ? 'Nota de Crédito' : 'Nota de Débito';
+
+export const getDocumentTypeLabel = (type: Invoice['type']): string => {
+  switch (type) {
+    case 'Quote': return 'Cotización';
+    case 'Expense': return 'Gasto';
+    case 'CreditNote':
+    case 'DebitNote': return getAdjustmentNoteLabel(type);
+    default: return 'Factura';
+  }
+};
+
+// Drafts and voided notes do not affect the referenced invoice
+const isEffectiveNote = (doc: Invoice) =>
+  isAdjustmentNote(doc) && doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+/**
+ * All notes (any status) that reference `invoiceId`, oldest first.
+ */
+export const getLinkedNotes = (invoiceId: string, documents: Invoice[]): Invoice[] =>
+  documents
+    .filter(d => isAdjustmentNote(d) && d.referenceInvoiceId === invoiceId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+export const getAdjustmentTotals = (invoiceId: string, documents: Invoice[]) => {
+  let credited = 0;
+  let debited = 0;
+  documents.forEach(d => {
+    if (d.referenceInvoiceId !== invoiceId || !isEffectiveNote(d)) return;
+    if (d.type === 'CreditNote') credited += d.total;
+    if (d.type === 'DebitNote') debited += d.total;
+  });
+  return { credited: round2(credited), debited: round2(debited) };
+};
+
+/**
+ * What the client still owes: total + debit notes - credit notes - payments.
+ */
+export const getOpenBalance = (invoice: Invoice, documents: Invoice[]): number => {
+  const { credited, debited } = getAdjustmentTotals(invoice.id, documents);
+  return round2(Math.max(0, invoice.total + debited - credited - (invoice.amountPaid || 0)));
+};
+
+/**
+ * Same formula as InvoiceWizard: discount applied proportionally, ITBMS on the discounted base.
+ */
+export const calculateDocumentTotal = (items: InvoiceItem[], discountRate: number = 0): number => {
+  const subtotal = items.reduce((acc, item) => acc + item.price * item.quantity, 0);
+  const taxableBase = subtotal * (1 - discountRate / 100);
+  const taxAmount = items.reduce((acc, item) => {
+    const itemTaxable = item.price * item.quantity * (1 - discountRate / 100);
+    return acc + itemTaxable * ((item.tax || 0) / 100);
+  }, 0);
+  return round2(taxableBase + taxAmount);
+};
+
+/**
+ * Per-line quantities still available for crediting. Credit note lines keep the
+ * id of the original line they credit.
+ */
+export const getCreditableLines = (original: Invoice, documents: Invoice[]): CreditableLine[] => {
+  const credits = documents.filter(d =>
+    d.type === 'CreditNote' && d.referenceInvoiceId === original.id && isEffectiveNote(d)
+  );
+
+  return original.items.map(item => {
+    const creditedQuantity = credits.reduce((acc, note) =>
+      acc + note.items.filter(l => l.id === item.id).reduce((q, l) => q + l.quantity, 0), 0);
+    return {
+      item,
+      creditedQuantity,
+      remainingQuantity: Math.max(0, item.quantity - creditedQuantity)
+    };
+  });
+};
+
+const baseNote = (original: Invoice, type: AdjustmentNoteType, id: string, reason: string): Invoice => ({
+  id,
+  userId: original.userId,
+  clientId: original.clientId,
+  clientName: original.clientName,
+  clientTaxId: original.clientTaxId,
+  clientEmail: original.clientEmail,
+  clientAddress: original.clientAddress,
+  date: new Date().toISOString(),
+  items: [],
+  total: 0,
+  discountRate: original.discountRate,
+  status: 'Creada',
+  currency: original.currency,
+  type,
+  referenceInvoiceId: original.id,
+  adjustmentReason: reason,
+  timeline: [{
+    id: Date.now().toString(),
+    type: type === 'CreditNote' ? 'CREDIT_NOTE' : 'DEBIT_NOTE',
+    title: `${getAdjustmentNoteLabel(type)} emitida`,
+    description: `Referencia: Factura #${original.id}${reason ? ` · ${reason}` : ''}`,
+    timestamp: new Date().toISOString()
+  }]
+});
+
+/**
+ * Builds a credit note for `original`. Without `lines` it credits everything still
+ * creditable (FULL); with `lines` only the selected quantities (PARTIAL).
+ * Throws when the selection exceeds what is left to credit.
+ */
+export const buildCreditNote = (
+  original: Invoice,
+  documents: Invoice[],
+  params: { id: string; reason: string; lines?: CreditLineSelection[] }
+): Invoice => {
+  if (original.type !== 'Invoice') {
+    throw new Error('Solo se pueden emitir notas de crédito sobre facturas.');
+  }
+
+  const creditable = getCreditableLines(original, documents);
+  const isFull = !params.lines;
+  const selection: CreditLineSelection[] = params.lines
+    || creditable.map(c => ({ itemId: c.item.id, quantity: c.remainingQuantity }));
+
+  const items: InvoiceItem[] = [];
+  selection.forEach(sel => {
+    if (sel.quantity <= 0) return;
+    const line = creditable.find(c => c.item.id === sel.itemId);
+    if (!line) throw new Error(`La línea ${sel.itemId} no existe en la factura #${original.id}.`);
+    if (sel.quantity > line.remainingQuantity + 1e-9) {
+      throw new Error(`"${line.item.description}": solo quedan ${line.remainingQuantity} unidades por acreditar.`);
+    }
+    items.push({ ...line.item, quantity: sel.quantity });
+  });
+
+  if (items.length === 0) {
+    throw new Error('No hay líneas pendientes por acreditar en esta factura.');
+  }
+
+  const alreadyCredited = creditable.some(c => c.creditedQuantity > 0);
+  // A first full credit mirrors the invoice total exactly (avoids rounding drift)
+  const total = isFull && !alreadyCredited ? original.total : calculateDocumentTotal(items, original.discountRate);
+
+  return {
+    ...baseNote(original, 'CreditNote', params.id, params.reason),
+    items,
+    total,
+    adjustmentScope: isFull ? 'FULL' : 'PARTIAL'
+  };
+};
+
+/**
+ * Builds a debit note adding `items` (e.g. interest, extra charges) to `original`.
+ */
+export const buildDebitNote = (
+  original: Invoice,
+  params: { id: string; reason: string; items: InvoiceItem[] }
+): Invoice => {
+  if (original.type !== 'Invoice') {
+    throw new Error('Solo se pueden emitir notas de débito sobre facturas.');
+  }
+  const items = params.items.filter(i => i.quantity > 0 && i.price > 0);
+  if (items.length === 0) {
+    throw new Error('La nota de débito necesita al menos un cargo.');
+  }
+
+  return {
+    ...baseNote(original, 'DebitNote', params.id, params.reason),
+    items,
+    discountRate: 0,
+    total: calculateDocumentTotal(items, 0)
+  };
+};
+
+/**
+ * Builds a credit note reversing charges previously added with debit notes
+ * (e.g. waived late interest). `items` are the charges being reversed.
+ */
+export const buildChargeReversalCreditNote = (
+  original: Invoice,
+  params: { id: string; reason: string; items: InvoiceItem[] }
+): Invoice => {
+  const items = params.items.filter(i => i.quantity > 0 && i.price > 0);
+  if (items.length === 0) {
+    throw new Error('La nota de crédito necesita al menos un cargo a revertir.');
+  }
+
+  return {
+    ...baseNote(original, 'CreditNote', params.id, params.reason),
+    items,
+    discountRate: 0,
+    total: calculateDocumentTotal(items, 0),
+    adjustmentScope: 'PARTIAL'
+  };
+};
+
+/**
+ * Timeline entry recorded on the original invoice when a note is issued against it.
+ */
+export const createReferenceTimelineEvent = (note: Invoice): TimelineEvent => ({
+  id: `${Date.now()}-${note.id}`,
+  type: note.type === 'CreditNote' ? 'CREDIT_NOTE' : 'DEBIT_NOTE',
+  title: `${getAdjustmentNoteLabel(note.type as AdjustmentNoteType)} #${note.id}`,
+  description: `${note.type === 'CreditNote' ? '-' : '+'}${note.currency} ${note.total.toFixed(2)}${note.adjustmentReason ? ` · ${note.adjustmentReason}` : ''}`,
+  timestamp: new Date().toISOString()
+});
@@ -0,0 +1,246 @@
+import { Invoice, DbClient, DbProvider } from '../types';
+import { validateRuc } from './dgiService';
+import { calculateItbmsBreakdown } from './itbmsService';
+import { calculateExpenseInputTax } from './f430Service';
+
+/**
+ * DGI INFORMATIVE REPORTS (e-Tax 2.0 upload)
+ *  - F94 Informe de Compras: purchases (expenses) per supplier invoice.
+ *  - F43 Informe de Ventas: sales per issued invoice, credit notes as negative rows.
+ * Rows are written as fixed-width TXT following INFORME_LAYOUTS. Rows whose
+ * counterparty RUC/DV does not validate are returned in `rejected` instead of
+ * being written, so they can be fixed before uploading.
+ */
+
+export type InformeType = 'F94' | 'F43';
+
+export interface InformeRow {
+  documentId: string;
+  tipoPersona: 'N' | 'J' | 'E';
+  ruc: string;
+  dv: string;
+  nombre: string;
+  factura: string;
+  fecha: string; // YYYYMMDD
+  monto: number; // Base without ITBMS
+  itbms: number;
+}
+
+export interface InformeRejection {
+  documentId: string;
+  counterparty: string;
+  taxId?: string;
+  date: string;
+  total: number;
+  reasons: string[];
+}
+
+export interface InformeResult {
+  type: InformeType;
+  from: string;
+  to: string;
+  rows: InformeRow[];
+  rejected: InformeRejection[];
+  totalMonto: number;
+  totalItbms: number;
+  txt: string;
+}
+
+interface LayoutField {
+  key: keyof InformeRow;
+  label: string;
+  width: number;
+  numeric?: boolean;
+}
+
+// Field order and widths of each TXT record. Amounts: sign + zero padded, 2 decimals.
+export const INFORME_LAYOUTS: Record<InformeType, LayoutField[]> = {
+  F94: [
+    { key: 'tipoPersona', label: 'Tipo de persona', width: 1 },
+    { key: 'ruc', label: 'RUC del proveedor', width: 20 },
+    { key: 'dv', label: 'DV', width: 2 },
+    { key: 'nombre', label: 'Nombre o razón social', width: 100 },
+    { key: 'factura', label: 'Número de factura', width: 22 },
+    { key: 'fecha', label: 'Fecha (AAAAMMDD)', width: 8 },
+    { key: 'monto', label: 'Monto de la compra', width: 15, numeric: true },
+    { key: 'itbms', label: 'ITBMS pagado', width: 15, numeric: true }
+  ],
+  F43: [
+    { key: 'tipoPersona', label: 'Tipo de persona', width: 1 },
+    { key: 'ruc', label: 'RUC del cliente', width: 20 },
+    { key: 'dv', label: 'DV', width: 2 },
+    { key: 'nombre', label: 'Nombre o razón social', width: 100 },
+    { key: 'factura', label: 'Número de factura', width: 22 },
+    { key: 'fecha', label: 'Fecha (AAAAMMDD)', width: 8 },
+    { key: 'monto', label: 'Monto de la venta', width: 15, numeric: true },
+    { key: 'itbms', label: 'ITBMS causado', width: 15, numeric: true }
+  ]
+};
+
+export const INFORME_LABELS: Record<InformeType, string> = {
+  F94: 'Informe de Compras (F94)',
+  F43: 'Informe de Ventas (F43)'
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isIssued = (doc: Invoice) => doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+const inRange = (date: string, from: string, to: string) => {
+  const day = date.slice(0, 10);
+  return day >= from && day <= to;
+};
+
+// e-Tax expects plain uppercase ASCII in text fields
+const toAsciiUpper = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '').toUpperCase().trim();
+
+const formatAmount = (value: number, width: number) => {
+  const sign = value < 0 ? '-' : '';
+  return sign + Math.abs(value).toFixed(2).padStart(width - sign.length, '0');
+};
+
+export const formatInformeRow = (row: InformeRow, layout: LayoutField[]): string =>
+  layout.map(field => {
+    const value = row[field.key];
+    if (field.numeric) return formatAmount(Number(value), field.width);
+    return toAsciiUpper(String(value ?? '')).slice(0, field.width).padEnd(field.width, ' ');
+  }).join('');
+
+export const renderInformeTxt = (type: InformeType, rows: InformeRow[]): string =>
+  rows.map(r => formatInformeRow(r, INFORME_LAYOUTS[type])).join('\r\n');
+
+/**
+ * Validates the counterparty RUC and DV; returns the row identity or the reasons it fails.
+ */
+const resolveCounterparty = (taxId: string | undefined, name: string): { ok: true; tipoPersona: InformeRow['tipoPersona']; ruc: string; dv: string } | { ok: false; reasons: string[] } => {
+  const reasons: string[] = [];
+  if (!name.trim()) reasons.push('Falta el nombre o razón social.');
+  if (!taxId || !taxId.trim()) {
+    reasons.push('Sin RUC/Cédula registrado.');
+    return { ok: false, reasons };
+  }
+
+  const validation = validateRuc(taxId, { requireDv: true });
+  if (!validation.valid || !validation.parsed) {
+    reasons.push(validation.error || 'RUC inválido.');
+    return { ok: false, reasons };
+  }
+  if (reasons.length > 0) return { ok: false, reasons };
+
+  const parsed = validation.parsed;
+  const tipoPersona = parsed.kind === 'JURIDICA' ? 'J' : parsed.letter === 'E' ? 'E' : 'N';
+  return { ok: true, tipoPersona, ruc: parsed.ruc, dv: parsed.dv! };
+};
+
+const compactDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const finalize = (type: InformeType, from: string, to: string, rows: InformeRow[], rejected: InformeRejection[]): InformeResult => ({
+  type,
+  from,
+  to,
+  rows,
+  rejected,
+  totalMonto: round2(rows.reduce((acc, r) => acc + r.monto, 0)),
+  totalItbms: round2(rows.reduce((acc, r) => acc + r.itbms, 0)),
+  txt: renderInformeTxt(type, rows)
+});
+
+/**
+ * F94: one row per expense with a fiscal invoice. The supplier RUC comes from the
+ * expense itself or from the provider directory (matched by name).
+ */
+export const buildPurchasesReport = (
+  documents: Invoice[],
+  providers: DbProvider[],
+  range: { from: string; to: string }
+): InformeResult => {
+  const rows: InformeRow[] = [];
+  const rejected: InformeRejection[] = [];
+
+  documents
+    .filter(d => d.type === 'Expense' && isIssued(d) && inRange(d.date, range.from, range.to))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(exp => {
+      const provider = providers.find(p => p.name.trim().toLowerCase() === exp.clientName.trim().toLowerCase());
+      const taxId = exp.clientTaxId || provider?.taxId;
+      const name = provider?.name || exp.clientName;
+      const rejection = { documentId: exp.id, counterparty: name, taxId, date: exp.date, total: exp.total };
+
+      if (exp.isValidFiscalDoc === false) {
+        rejected.push({ ...rejection, reasons: ['Sin factura fiscal (voucher o recibo simple).'] });
+        return;
+      }
+
+      const counterparty = resolveCounterparty(taxId, name);
+      const reasons = counterparty.ok ? [] : [...counterparty.reasons];
+      if (!exp.supplierInvoiceNumber?.trim()) reasons.push('Falta el número de factura del proveedor.');
+      if (!counterparty.ok || reasons.length > 0) {
+        rejected.push({ ...rejection, reasons });
+        return;
+      }
+
+      const { base, tax } = calculateExpenseInputTax(exp);
+      rows.push({
+        documentId: exp.id,
+        tipoPersona: counterparty.tipoPersona,
+        ruc: counterparty.ruc,
+        dv: counterparty.dv,
+        nombre: name,
+        factura: exp.supplierInvoiceNumber!.trim(),
+        fecha: compactDate(exp.date),
+        monto: base,
+        itbms: tax
+      });
+    });
+
+  return finalize('F94', range.from, range.to, rows, rejected);
+};
+
+/**
+ * F43: one row per issued invoice and debit note; credit notes are reported negative.
+ * The client RUC comes from the document or from the client directory.
+ */
+export const buildSalesReport = (
+  documents: Invoice[],
+  clients: DbClient[],
+  range: { from: string; to: string }
+): InformeResult => {
+  const rows: InformeRow[] = [];
+  const rejected: InformeRejection[] = [];
+
+  documents
+    .filter(d => (d.type === 'Invoice' || d.type === 'CreditNote' || d.type === 'DebitNote') && isIssued(d) && inRange(d.date, range.from, range.to))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(doc => {
+      const client = doc.clientId
+        ? clients.find(c => c.id === doc.clientId)
+        : clients.find(c => c.name.trim().toLowerCase() === doc.clientName.trim().toLowerCase());
+      const taxId = doc.clientTaxId || client?.taxId;
+
+      const counterparty = resolveCounterparty(taxId, doc.clientName);
+      if (!counterparty.ok) {
+        rejected.push({ documentId: doc.id, counterparty: doc.clientName, taxId, date: doc.date, total: doc.total, reasons: counterparty.reasons });
+        return;
+      }
+
+      const breakdown = calculateItbmsBreakdown(doc.items, doc.discountRate || 0);
+      const sign = doc.type === 'CreditNote' ? -1 : 1;
+      rows.push({
+        documentId: doc.id,
+        tipoPersona: counterparty.tipoPersona,
+        ruc: counterparty.ruc,
+        dv: counterparty.dv,
+        nombre: doc.clientName,
+        factura: doc.electronicInvoice?.fiscalNumber || doc.id,
+        fecha: compactDate(doc.date),
+        monto: round2(sign * breakdown.reduce((acc, l) => acc + l.base, 0)),
+        itbms: round2(sign * breakdown.reduce((acc, l) => acc + l.tax, 0))
+      });
+    });
+
+  return finalize('F43', range.from, range.to, rows, rejected);
+};
+
+export const buildInformeFileName = (type: InformeType, taxId: string | undefined, from: string): string =>
+  `${type}_${(taxId || 'SIN-RUC').replace(/\s+/g, '')}_${from.slice(0, 7).replace('-', '')}.txt`;
@@ -3,9 +3,9 @@
  * DGI PANAMA SERVICE ADAPTER
  * Based on logic from: https://github.com/Electronic-Signatures-Industries/dgi-fe
  * 
- * NOTE: This service simulates the interaction with DGI's SOAP Web Services (iTax 2.0).
- * In a production environment, this logic requires a backend proxy to handle 
- * XML Signing (X.509) and CORS headers which are not supported directly in browsers.
+ * RUC parsing and DV calculation. Taxpayer lookups (ConsultarRuc) go through
+ * the providers in rucLookupService.ts; XML Signing (X.509) is handled
+ * server-side by api/v1/signature.js.
  */
 
 export interface ContribuyenteDGI {
@@ -18,100 +18,192 @@ export interface ContribuyenteDGI {
   email?: string; // DGI sometimes returns notification email
 }
 
-// Real-world examples of Panamanian companies for the "Live Connection" simulation
-const DGI_DATABASE_MOCK: ContribuyenteDGI[] = [
-  {
-    ruc: '15569888-2-2021',
-    dv: '55',
-    razonSocial: 'COPA AIRLINES INC',
-    tipoPersona: 'JURIDICA',
-    direccion: 'AV. PRINCIPAL, COSTA DEL ESTE, TORRE BLU, PISO 5',
-    estado: 'ACTIVO',
-    email: 'facturacion@copaair.com'
-  },
-  {
-    ruc: '1224-45-12222',
-    dv: '88',
-    razonSocial: 'BANCO GENERAL S.A.',
-    tipoPersona: 'JURIDICA',
-    direccion: 'CALLE 50, TORRE BG, CIUDAD DE PANAMÁ',
-    estado: 'ACTIVO'
-  },
-  {
-    ruc: '344-555-2323',
-    dv: '12',
-    razonSocial: 'SUPERMERCADOS 99 S.A.',
-    tipoPersona: 'JURIDICA',
-    direccion: 'VÍA PORRAS, EDIFICIO SUPER 99',
-    estado: 'ACTIVO'
-  },
-  {
-    ruc: '8-754-1234',
-    dv: '00',
-    razonSocial: 'JUAN PÉREZ (SERVICIOS PROFESIONALES)',
-    tipoPersona: 'NATURAL',
-    direccion: 'CONDADO DEL REY, PH GREEN PARK, TORRE 2',
-    estado: 'ACTIVO'
-  },
-  {
-    ruc: '10-234-567',
-    dv: '44',
-    razonSocial: 'TECH SOLUTIONS PANAMA S.A.',
-    tipoPersona: 'JURIDICA',
-    direccion: 'CLAYTON, CIUDAD DEL SABER, EDIF 234',
-    estado: 'ACTIVO'
+// --- RUC PARSING & DV (DÍGITO VERIFICADOR) ---
+
+export type RucKind = 'NATURAL' | 'JURIDICA' | 'NT';
+
+// Natural person letter (cédula prefix): E = extranjero, N = naturalizado,
+// PE = panameño nacido en el extranjero, AV = antes de vigencia, PI = población indígena
+export type RucLetter = '' | 'E' | 'N' | 'PE' | 'AV' | 'PI';
+
+export interface ParsedRuc {
+  kind: RucKind;
+  letter: RucLetter;
+  province?: string; // 1-13 for cédulas with province
+  segments: string[]; // numeric parts, e.g. ['754', '1234'] or ['155698882', '2', '2021']
+  ruc: string; // canonical RUC without DV, e.g. "8-754-1234", "8-NT-1-12345", "155698882-2-2021"
+  dv?: string; // DV as typed by the user (2 digits), if present
+  legacyFormat?: boolean; // Old legal-entity RUC (crossover weights)
+}
+
+export interface RucValidationResult {
+  valid: boolean;
+  parsed?: ParsedRuc;
+  expectedDv?: string;
+  error?: string;
+}
+
+// Codes used by DGI to build the 20-digit reference for natural persons
+const LETTER_CODES: Record<string, string> = {
+  '': '00',
+  'N': '40',
+  'NT': '43',
+  'E': '50',
+  'PE': '75',
+  'AV': '15',
+  'PI': '79'
+};
+
+const MAX_PROVINCE = 13;
+
+/**
+ * Normalizes the many ways users type a RUC/cédula into structured parts.
+ * Accepts "8-754-1234 DV 14", "8 754 1234", "155698882-2-2021", "E-8-123456",
+ * "8-NT-1-12345", "1PI-12-123", "8AV-123-456", "155698882-2-2021 D.V. 25".
+ * Returns null when the input does not match any known format.
+ */
+export const parseRuc = (input: string = ''): ParsedRuc | null => {
+  let clean = input
+    .toUpperCase()
+    .replace(/[\u2010-\u2015\u2212_]/g, '-') // unicode dashes
+    .trim();
+
+  // 1. Extract DV ("DV 00", "D.V.: 00", "DV-00", "DV00")
+  let dv: string | undefined;
+  const dvMatch = clean.match(/\s*-?\s*D\.?\s*V\.?\s*[:\-]?\s*(\d{1,2})\s*$/);
+  if (dvMatch) {
+    dv = dvMatch[1].padStart(2, '0');
+    clean = clean.slice(0, dvMatch.index).trim();
+  }
+
+  // 2. Segment: spaces act as separators only when no dashes are present
+  clean = clean.replace(/\s*-\s*/g, '-');
+  clean = clean.includes('-') ? clean.replace(/\s+/g, '') : clean.replace(/\s+/g, '-');
+  clean = clean.replace(/-+/g, '-').replace(/^-|-$/g, '');
+
+  const stripZeros = (n: string) => n.replace(/^0+(?=\d)/, '');
+  let m: RegExpMatchArray | null;
+
+  // NT: 8-NT-1-12345
+  if ((m = clean.match(/^(\d{1,2})-?NT-(\d{1,4})-(\d{1,6})$/))) {
+    const province = stripZeros(m[1]);
+    const segments = [stripZeros(m[2]), stripZeros(m[3])];
+    return { kind: 'NT', letter: '', province, segments, ruc: `${province}-NT-${segments.join('-')}`, dv };
+  }
+
+  // Natural with province, optionally AV/PI: 8-754-1234, 8AV-123-456, 1PI-12-123, 8-PI-12-123
+  if ((m = clean.match(/^(\d{1,2})-?(AV|PI)?-(\d{1,4})-(\d{1,6})$/))) {
+    const province = stripZeros(m[1]);
+    const provinceNumber = parseInt(province, 10);
+    if (provinceNumber < 1 || provinceNumber > MAX_PROVINCE) return null;
+    const letter = (m[2] || '') as RucLetter;
+    const segments = [stripZeros(m[3]), stripZeros(m[4])];
+    return { kind: 'NATURAL', letter, province, segments, ruc: `${province}${letter}-${segments.join('-')}`, dv };
+  }
+
+  // Natural without province: E-8-123456, N-19-1234, PE-10-123
+  if ((m = clean.match(/^(E|N|PE)-(\d{1,4})-(\d{1,6})$/))) {
+    const letter = m[1] as RucLetter;
+    const segments = [stripZeros(m[2]), stripZeros(m[3])];
+    return { kind: 'NATURAL', letter, segments, ruc: `${letter}-${segments.join('-')}`, dv };
+  }
+
+  // Legal entity: ficha(folio)-rollo(tomo)-imagen(asiento), old and new (155698882-2-2021)
+  if ((m = clean.match(/^(\d{3,10})-(\d{1,4})-(\d{1,6})$/))) {
+    const segments = [stripZeros(m[1]), stripZeros(m[2]), stripZeros(m[3])];
+    const reference = buildDvReference({ kind: 'JURIDICA', letter: '', segments, ruc: '' });
+    return {
+      kind: 'JURIDICA',
+      letter: '',
+      segments,
+      ruc: segments.join('-'),
+      dv,
+      legacyFormat: isLegacyReference(reference)
+    };
   }
-];
+
+  return null;
+};
 
 /**
- * Calculates the Check Digit (DV) for a given RUC.
- * This mimics the standard mod11 algorithm used in Panama.
+ * Builds the 20-digit reference number DGI uses as DV input.
+ * Natural/NT: 0000005 + province(2) + letter code(2) + tomo(4) + asiento(5)
+ * Legal entity: ficha(10) + rollo(4) + imagen(6)
  */
-export const calculateDV = (rucBase: string): string => {
-  // Simplified mock logic for demo purposes. 
-  // Real algo involves complex weights based on RUC type (NT, PE, E, etc).
+const buildDvReference = (parsed: ParsedRuc): string => {
+  if (parsed.kind === 'JURIDICA') {
+    const [ficha, rollo, imagen] = parsed.segments;
+    return ficha.padStart(10, '0') + rollo.padStart(4, '0') + imagen.padStart(6, '0');
+  }
+
+  const code = parsed.kind === 'NT' ? LETTER_CODES.NT : LETTER_CODES[parsed.letter];
+  const [tomo, asiento] = parsed.segments;
+  return '0000005' + (parsed.province || '0').padStart(2, '0') + code + tomo.padStart(4, '0') + asiento.padStart(5, '0');
+};
+
+// Old legal-entity RUCs (pre-crossover numbering) skip weight 12 in the mod-11 sum
+const isLegacyReference = (reference: string): boolean =>
+  reference.substring(3, 5) === '00' && reference.substring(5, 8) < '130';
+
+const mod11Digit = (reference: string, legacy: boolean): number => {
+  let weight = 2;
   let sum = 0;
-  for (let i = 0; i < rucBase.length; i++) {
-    sum += rucBase.charCodeAt(i);
+  let skipPending = legacy;
+  for (let i = reference.length - 1; i >= 0; i--) {
+    if (skipPending && weight === 12) {
+      skipPending = false;
+      weight -= 1;
+    }
+    sum += weight * parseInt(reference.charAt(i), 10);
+    weight++;
   }
-  return (sum % 100).toString(); 
+  const remainder = sum % 11;
+  return remainder > 1 ? 11 - remainder : 0;
 };
 
 /**
- * Simulates a call to the 'ConsultarRuc' SOAP endpoint.
+ * Calculates the official two-digit DV (mod 11, applied twice) for a RUC.
+ * Accepts a raw string or an already parsed RUC. Throws on unknown formats.
  */
-export const consultarRucDGI = async (rucInput: string): Promise<ContribuyenteDGI | null> => {
-  // Normalize input
-  const cleanRuc = rucInput.trim().toUpperCase();
-
-  // 1. Network Simulation Delay (DGI API is notoriously slow sometimes)
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  // 2. Database Lookup
-  // We check if the input includes the DV or just the RUC base
-  const found = DGI_DATABASE_MOCK.find(c => {
-     // Check full match "RUC DV" or "RUC-DV" or just "RUC"
-     const fullString = `${c.ruc} DV ${c.dv}`;
-     return cleanRuc.includes(c.ruc) || fullString.includes(cleanRuc);
-  });
-
-  if (found) return found;
-
-  // 3. Fallback for "Generic Valid Format" simulation
-  // If it looks like a valid RUC but isn't in our tiny mock DB, return a generic success
-  // to prevent getting stuck during a demo.
-  const isPlausibleRuc = cleanRuc.length > 5 && (cleanRuc.includes('-') || cleanRuc.startsWith('8-') || cleanRuc.startsWith('PE-'));
-  
-  if (isPlausibleRuc) {
-    return {
-      ruc: cleanRuc.split(' DV')[0],
-      dv: '00',
-      razonSocial: 'EMPRESA DEMOSTRACIÓN S.A.',
-      tipoPersona: cleanRuc.startsWith('8-') ? 'NATURAL' : 'JURIDICA',
-      direccion: 'DIRECCIÓN GENÉRICA, PANAMÁ',
-      estado: 'ACTIVO'
-    };
+export const calculateDV = (rucInput: string | ParsedRuc): string => {
+  const parsed = typeof rucInput === 'string' ? parseRuc(rucInput) : rucInput;
+  if (!parsed) {
+    throw new Error(`Formato de RUC no reconocido: ${rucInput}`);
   }
+  const reference = buildDvReference(parsed);
+  const legacy = parsed.kind === 'JURIDICA' && isLegacyReference(reference);
+  const first = mod11Digit(reference, legacy);
+  const second = mod11Digit(reference + first, legacy);
+  return `${first}${second}`;
+};
 
-  return null;
+/**
+ * Validates format and DV. With requireDv, inputs without a DV are rejected;
+ * otherwise the expected DV is returned so the UI can complete it.
+ */
+export const validateRuc = (input: string, options: { requireDv?: boolean } = {}): RucValidationResult => {
+  const parsed = parseRuc(input);
+  if (!parsed) {
+    return { valid: false, error: 'Formato de RUC/Cédula no reconocido (ej. 8-754-1234 DV 14 o 155698882-2-2021 DV 25).' };
+  }
+
+  const expectedDv = calculateDV(parsed);
+
+  if (!parsed.dv) {
+    return options.requireDv
+      ? { valid: false, parsed, expectedDv, error: `Falta el dígito verificador (DV ${expectedDv}).` }
+      : { valid: true, parsed, expectedDv };
+  }
+
+  if (parsed.dv !== expectedDv) {
+    return { valid: false, parsed, expectedDv, error: `El DV ${parsed.dv} no corresponde a ${parsed.ruc} (DV correcto: ${expectedDv}).` };
+  }
+
+  return { valid: true, parsed, expectedDv };
 };
+
+/**
+ * Canonical display form: "8-754-1234 DV 14". Uses the computed DV when none was typed.
+ */
+export const formatRuc = (parsed: ParsedRuc): string =>
+  `${parsed.ruc} DV ${parsed.dv || calculateDV(parsed)}`;
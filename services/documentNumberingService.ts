@@ -0,0 +1,107 @@
+import { DocumentSequences } from '../types';
+
+/**
+ * DOCUMENT NUMBERING
+ * Document ids are assigned by the server-side counters in documentSequenceStore.ts, one per
+ * user, document type and fiscal year. This module holds the pure part: which pattern a type
+ * uses and how a number is rendered with it.
+ * The prefixes in DocumentSequences accept either a plain prefix ('FAC' -> FAC-0001) or a
+ * pattern with tokens:
+ *   {YYYY} / {YY}  fiscal year of the document date; the counter restarts every year
+ *   {####}         the number, zero-padded to as many digits as #
+ */
+
+export type NumberedDocumentType = 'Invoice' | 'Quote' | 'CreditNote' | 'DebitNote';
+
+// Assigns the next id of `type` for the user; `date` is the document date (picks the fiscal year)
+export type DocumentIdAllocator = (userId: string, type: NumberedDocumentType, date: string) => Promise<string>;
+
+// Shown when a document cannot be numbered (the counters live in the database)
+export const DOCUMENT_ID_UNAVAILABLE = 'No se pudo asignar un número al documento. Revisa la conexión e inténtalo de nuevo.';
+
+// New documents cannot be created offline: they are numbered by the counter when saved
+export const DOCUMENT_ID_OFFLINE = 'Los documentos nuevos se numeran al guardarse y eso requiere conexión. Vuelve a intentarlo cuando estés en línea.';
+
+export const DEFAULT_DOCUMENT_PREFIXES: Record<NumberedDocumentType, string> = {
+  Invoice: 'FAC',
+  Quote: 'COT',
+  CreditNote: 'NC',
+  DebitNote: 'ND'
+};
+
+export const DEFAULT_DOCUMENT_SEQUENCES: DocumentSequences = {
+  invoicePrefix: 'FAC',
+  invoiceNextNumber: 1,
+  quotePrefix: 'COT',
+  quoteNextNumber: 1
+};
+
+const SEQUENCE_FIELDS: Record<NumberedDocumentType, { prefix: keyof DocumentSequences; nextNumber: keyof DocumentSequences }> = {
+  Invoice: { prefix: 'invoicePrefix', nextNumber: 'invoiceNextNumber' },
+  Quote: { prefix: 'quotePrefix', nextNumber: 'quoteNextNumber' },
+  CreditNote: { prefix: 'creditNotePrefix', nextNumber: 'creditNoteNextNumber' },
+  DebitNote: { prefix: 'debitNotePrefix', nextNumber: 'debitNoteNextNumber' }
+};
+
+const NUMBER_TOKEN = /\{(#+)\}/g;
+const YEAR_TOKEN = /\{YYYY\}|\{YY\}/;
+
+export const isNumberedDocumentType = (type: string): type is NumberedDocumentType =>
+  Object.prototype.hasOwnProperty.call(DEFAULT_DOCUMENT_PREFIXES, type);
+
+/**
+ * Pattern used for `type`. Plain prefixes get the historical '-{####}' suffix, so existing
+ * ids keep their format.
+ */
+export const getNumberPattern = (sequences: DocumentSequences | undefined, type: NumberedDocumentType): string => {
+  const prefix = String(sequences?.[SEQUENCE_FIELDS[type].prefix] || '').trim() || DEFAULT_DOCUMENT_PREFIXES[type];
+  return prefix.match(NUMBER_TOKEN) ? prefix : `${prefix}-{####}`;
+};
+
+export const usesFiscalYear = (pattern: string): boolean => YEAR_TOKEN.test(pattern);
+
+// Fiscal year = calendar year of the document date, as the DGI periods
+export const getFiscalYear = (date: string): number => {
+  const year = parseInt(date.slice(0, 4), 10);
+  return isNaN(year) ? new Date().getFullYear() : year;
+};
+
+/**
+ * Year that keys the counter: the fiscal year for patterns with a year token, 0 otherwise
+ * (a single counter for all years, otherwise FAC-0001 would be issued again every January).
+ */
+export const getSequenceYear = (pattern: string, date: string): number =>
+  usesFiscalYear(pattern) ? getFiscalYear(date) : 0;
+
+/**
+ * First number of a counter that does not exist yet. Year-less counters continue from the
+ * next number kept in the profile before numbering moved to the server.
+ */
+export const getSeedNumber = (sequences: DocumentSequences | undefined, type: NumberedDocumentType, year: number): number => {
+  const legacy = Number(sequences?.[SEQUENCE_FIELDS[type].nextNumber]);
+  return year === 0 && legacy >= 1 ? Math.floor(legacy) : 1;
+};
+
+export const formatDocumentNumber = (pattern: string, number: number, date: string): string => {
+  const year = String(getFiscalYear(date));
+  return pattern
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(2))
+    .replace(NUMBER_TOKEN, (_, digits: string) => String(number).padStart(digits.length, '0'));
+};
+
+export const getPrefixField = (type: NumberedDocumentType): keyof DocumentSequences => SEQUENCE_FIELDS[type].prefix;
+
+/**
+ * Validation message for a prefix typed in the settings, or null when it is usable
+ * (empty is fine: the default prefix applies).
+ */
+export const validateNumberPattern = (prefix: string): string | null => {
+  const value = prefix.trim();
+  if (!value) return null;
+  if ((value.match(NUMBER_TOKEN) || []).length > 1) return 'Usa un solo bloque {####} para el número';
+  const unknown = value.replace(/\{YYYY\}|\{YY\}|\{#+\}/g, '').match(/[{}]/);
+  if (unknown) return 'Solo se admiten {YYYY}, {YY} y {####}';
+  if (/\s/.test(value)) return 'El prefijo no puede contener espacios';
+  return null;
+};
@@ -0,0 +1,62 @@
+import { Client } from '@neondatabase/serverless';
+import { DocumentSequences } from '../types';
+import {
+  NumberedDocumentType, formatDocumentNumber, getNumberPattern, getSeedNumber, getSequenceYear
+} from './documentNumberingService';
+
+/**
+ * DOCUMENT SEQUENCE STORE
+ * Counters behind every document id, one row per (user, document type, fiscal year).
+ * The year is 0 for patterns without a year token (see documentNumberingService.ts).
+ * Takes the caller's client: API routes, crons and webhooks use their own, the app goes
+ * through allocateDocumentIdInDb in services/neon.ts.
+ * Each number is taken with a single upsert, so the row lock orders concurrent callers
+ * (two tabs, the public API, the Stripe webhook) and no number is handed out twice.
+ * A new counter is seeded from profile_data.documentSequences.
+ */
+
+export const ensureDocumentSequencesTable = async (client: Client): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS document_sequences (
+      user_id TEXT NOT NULL,
+      doc_type TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      last_number INTEGER NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, doc_type, year)
+    );
+  `);
+};
+
+/**
+ * Next id of `type` for the user, following the pattern in the profile.
+ */
+export const allocateDocumentId = async (
+  client: Client,
+  userId: string,
+  type: NumberedDocumentType,
+  date: string
+): Promise<string> => {
+  const profileRes = await client.query(`SELECT profile_data->'documentSequences' AS sequences FROM users WHERE id = $1`, [userId]);
+  const sequences: DocumentSequences | undefined = profileRes.rows[0]?.sequences || undefined;
+  const pattern = getNumberPattern(sequences, type);
+  const year = getSequenceYear(pattern, date);
+  const seed = getSeedNumber(sequences, type, year);
+
+  // invoices.id is global: numbers already in use (typed by hand, or issued before the
+  // counter existed) are skipped
+  for (;;) {
+    const { rows } = await client.query(`
+      INSERT INTO document_sequences (user_id, doc_type, year, last_number)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (user_id, doc_type, year) DO UPDATE SET
+        last_number = document_sequences.last_number + 1,
+        updated_at = NOW()
+      RETURNING last_number;
+    `, [userId, type, year, seed]);
+
+    const id = formatDocumentNumber(pattern, rows[0].last_number, date);
+    const taken = await client.query(`SELECT 1 FROM invoices WHERE id = $1`, [id]);
+    if (taken.rows.length === 0) return id;
+  }
+};
@@ -0,0 +1,178 @@
+import { Invoice, InvoiceItem, InvoiceStatus, DocumentFieldChange, DocumentVersion, DocumentVersionContent, TimelineEvent } from '../types';
+
+/**
+ * DOCUMENT VERSIONS
+ * Once a document reached the client it is not rewritten: an edit becomes a new version and
+ * the replaced content is kept in `versions`, so what the client received can always be shown.
+ * Drafts ('Borrador') and unsent documents ('Creada') are still edited in place.
+ * Invoices with an authorized Factura Electrónica cannot be amended at all: the DGI only
+ * accepts corrections through credit / debit notes.
+ */
+
+export type DocumentEditMode = 'IN_PLACE' | 'NEW_VERSION' | 'LOCKED';
+
+export const DOCUMENT_LOCKED_FE = 'La factura electrónica ya fue autorizada por la DGI. Para corregirla emite una nota de crédito o de débito.';
+export const DOCUMENT_NEEDS_VERSION = 'El documento ya fue emitido: los cambios deben guardarse como una nueva versión.';
+export const DOCUMENT_VERSIONS_REMOVED = 'No se pueden eliminar versiones de un documento emitido.';
+export const DOCUMENT_BACK_TO_DRAFT = 'Un documento emitido no puede volver a borrador.';
+
+// Statuses of documents the client has not received yet
+const UNISSUED_STATUSES: InvoiceStatus[] = ['Borrador', 'Creada', 'PendingSync'];
+
+type ContentField = Exclude<keyof DocumentVersionContent, 'items'>;
+
+const FIELD_LABELS: { key: ContentField; label: string }[] = [
+  { key: 'clientName', label: 'Cliente' },
+  { key: 'clientTaxId', label: 'RUC / Cédula' },
+  { key: 'clientEmail', label: 'Correo' },
+  { key: 'clientAddress', label: 'Dirección' },
+  { key: 'date', label: 'Fecha' },
+  { key: 'dueDate', label: 'Vencimiento' },
+  { key: 'currency', label: 'Moneda' },
+  { key: 'discountRate', label: 'Descuento (%)' },
+  { key: 'withholdingAmount', label: 'Retención ITBMS' },
+  { key: 'notes', label: 'Notas' },
+  { key: 'total', label: 'Total' }
+];
+
+export const isIssuedDocument = (doc: Invoice): boolean =>
+  doc.type !== 'Expense' && (
+    !UNISSUED_STATUSES.includes(doc.status) ||
+    !!doc.versions?.length ||
+    !!doc.timeline?.some(e => e.type === 'SENT') ||
+    isFiscallyLocked(doc)
+  );
+
+export const isFiscallyLocked = (doc: Invoice): boolean => doc.electronicInvoice?.status === 'AUTORIZADA';
+
+export const getEditMode = (doc: Invoice): DocumentEditMode =>
+  isFiscallyLocked(doc) ? 'LOCKED' : isIssuedDocument(doc) ? 'NEW_VERSION' : 'IN_PLACE';
+
+export const getCurrentVersion = (doc: Invoice): number => doc.version || 1;
+
+export const getVersionContent = (doc: Invoice): DocumentVersionContent => ({
+  clientName: doc.clientName,
+  clientTaxId: doc.clientTaxId,
+  clientEmail: doc.clientEmail,
+  clientAddress: doc.clientAddress,
+  date: doc.date,
+  dueDate: doc.dueDate,
+  items: doc.items,
+  total: doc.total,
+  discountRate: doc.discountRate,
+  withholdingAmount: doc.withholdingAmount,
+  notes: doc.notes,
+  currency: doc.currency
+});
+
+// The document as it was in `version`, for the viewer
+export const getDocumentAtVersion = (doc: Invoice, version: DocumentVersion): Invoice => ({
+  ...doc,
+  ...version.content,
+  version: version.version
+});
+
+// Missing amounts read as 0, as the document shows them
+const AMOUNT_FIELDS = ['total', 'discountRate', 'withholdingAmount'];
+
+const formatValue = (key: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return AMOUNT_FIELDS.includes(key) ? '0.00' : '—';
+  if (typeof value === 'number') return value.toFixed(2);
+  if (key === 'date' || key === 'dueDate') return String(value).split('T')[0];
+  return String(value);
+};
+
+const describeItem = (item: InvoiceItem): string =>
+  `${item.quantity} × ${item.price.toFixed(2)}${item.tax > 0 ? ` + ITBMS ${item.tax}%` : ''}`;
+
+const sameItem = (a: InvoiceItem, b: InvoiceItem): boolean =>
+  a.description === b.description && (a.details || '') === (b.details || '') &&
+  a.quantity === b.quantity && a.price === b.price && a.tax === b.tax;
+
+// Late fee lines are charged and waived by the follow-up engine, not by the issuer
+const billedItems = (doc: Pick<Invoice, 'items'>): InvoiceItem[] => (doc.items || []).filter(i => !i.lateFee);
+
+const fieldChange = (key: ContentField, label: string, before: DocumentVersionContent, after: DocumentVersionContent): DocumentFieldChange | null => {
+  const previous = formatValue(key, before[key]);
+  const next = formatValue(key, after[key]);
+  return previous !== next ? { field: label, before: previous, after: next } : null;
+};
+
+/**
+ * Field by field differences between two versions. Lines are matched by id; late fee lines
+ * are left out, they are not part of what the issuer amends. The total is listed only next
+ * to the changes that moved it (on its own it may just be rounding or a late fee).
+ */
+export const getDocumentChanges = (before: DocumentVersionContent, after: DocumentVersionContent): DocumentFieldChange[] => {
+  const changes: DocumentFieldChange[] = [];
+
+  FIELD_LABELS.filter(f => f.key !== 'total').forEach(({ key, label }) => {
+    const change = fieldChange(key, label, before, after);
+    if (change) changes.push(change);
+  });
+
+  const previousItems = billedItems(before);
+  const nextItems = billedItems(after);
+  previousItems.forEach(item => {
+    const match = nextItems.find(i => i.id === item.id);
+    if (!match) {
+      changes.push({ field: `Ítem eliminado: ${item.description}`, before: describeItem(item), after: '—' });
+    } else if (!sameItem(item, match)) {
+      const field = match.description === item.description ? `Ítem: ${item.description}` : `Ítem: ${item.description} → ${match.description}`;
+      changes.push({ field, before: describeItem(item), after: describeItem(match) });
+    }
+  });
+  nextItems
+    .filter(item => !previousItems.some(i => i.id === item.id))
+    .forEach(item => changes.push({ field: `Ítem agregado: ${item.description}`, before: '—', after: describeItem(item) }));
+
+  const total = changes.length > 0 ? fieldChange('total', 'Total', before, after) : null;
+  return total ? [...changes, total] : changes;
+};
+
+/**
+ * Saves `edited` as the next version of the issued document `current`: the current content
+ * goes to `versions` and an EDITED event with the diff is added to the timeline. Fields the
+ * editor does not handle (electronic invoice, installments, Stripe links...) are kept from
+ * `current`. Without content changes only the operational fields are updated.
+ */
+export const createDocumentVersion = (current: Invoice, edited: Invoice, now: Date = new Date()): Invoice => {
+  const merged: Invoice = { ...current, ...edited, version: current.version, versions: current.versions };
+  const changes = getDocumentChanges(getVersionContent(current), getVersionContent(merged));
+  if (changes.length === 0) return merged;
+
+  const previousVersion = getCurrentVersion(current);
+  const version = previousVersion + 1;
+  const event: TimelineEvent = {
+    id: `${now.getTime()}-v${version}`,
+    type: 'EDITED',
+    title: `Versión ${version} emitida`,
+    description: `${changes.length} ${changes.length === 1 ? 'cambio' : 'cambios'} respecto a la versión ${previousVersion}.`,
+    timestamp: now.toISOString(),
+    version,
+    changes
+  };
+
+  return {
+    ...merged,
+    version,
+    versions: [...(current.versions || []), { version: previousVersion, replacedAt: now.toISOString(), content: getVersionContent(current) }],
+    timeline: [...(merged.timeline || []), event]
+  };
+};
+
+/**
+ * Why `incoming` may not overwrite the stored `stored` document, or null when it may.
+ * Status, payments, timeline and late fee changes are always allowed; content changes on an
+ * issued document need a version bump, and versions can never be dropped.
+ */
+export const getImmutableViolation = (stored: Invoice, incoming: Invoice): string | null => {
+  if (!isIssuedDocument(stored)) return null;
+  if (getCurrentVersion(incoming) < getCurrentVersion(stored) || (incoming.versions?.length || 0) < (stored.versions?.length || 0)) {
+    return DOCUMENT_VERSIONS_REMOVED;
+  }
+  if (!isIssuedDocument(incoming)) return DOCUMENT_BACK_TO_DRAFT;
+  if (getDocumentChanges(getVersionContent(stored), getVersionContent(incoming)).length === 0) return null;
+  if (isFiscallyLocked(stored)) return DOCUMENT_LOCKED_FE;
+  return getCurrentVersion(incoming) > getCurrentVersion(stored) ? null : DOCUMENT_NEEDS_VERSION;
+};
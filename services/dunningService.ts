@@ -0,0 +1,140 @@
+import { Invoice, UserProfile, DbClient, FollowUpProfile, DunningSequence, DunningStep, DunningChannel, DunningTone } from '../types';
+
+/**
+ * DUNNING SEQUENCES
+ * Ordered follow-up steps (day offset after the due date, channel, tone, template).
+ * The sequence for an invoice is resolved as: invoice override > client > user default
+ * > followUpProfile preset. The presets keep the original fixed day offsets.
+ */
+
+export const FOLLOW_UP_RULES: Record<Exclude<FollowUpProfile, 'OFF'>, number[]> = {
+    PASSIVE: [7],
+    NORMAL: [3, 7, 15],
+    AGGRESSIVE: [1, 2, 4, 6, 8, 10, 15, 20, 25, 30]
+};
+
+const PRESET_NAMES: Record<Exclude<FollowUpProfile, 'OFF'>, string> = {
+    PASSIVE: 'Pasivo',
+    NORMAL: 'Normal',
+    AGGRESSIVE: 'Agresivo'
+};
+
+// Invoice-level value that disables follow-up for that document
+export const DUNNING_OFF = 'OFF';
+
+export const DUNNING_CHANNEL_LABELS: Record<DunningChannel, string> = {
+    EMAIL: 'Correo',
+    WHATSAPP: 'WhatsApp',
+    TASK: 'Tarea interna'
+};
+
+export const DUNNING_TONE_LABELS: Record<DunningTone, string> = {
+    FRIENDLY: 'Amable',
+    FIRM: 'Firme',
+    FINAL: 'Último aviso'
+};
+
+export const DUNNING_SUBJECTS: Record<DunningTone, string> = {
+    FRIENDLY: 'Recordatorio de Pago',
+    FIRM: 'Pago Vencido',
+    FINAL: 'Último Aviso de Pago'
+};
+
+export const DUNNING_TEMPLATE_PLACEHOLDERS = ['{cliente}', '{factura}', '{saldo}', '{dias}', '{vencimiento}', '{empresa}'];
+
+export const DEFAULT_DUNNING_TEMPLATES: Record<DunningTone, string> = {
+    FRIENDLY: 'Esperamos que estés bien. Te escribimos para recordarte que la Factura #{factura} presenta un saldo pendiente de {saldo}.\n\n'
+        + 'Agradecemos de antemano tu gestión para realizar el pago correspondiente. Si ya has realizado el abono o tienes alguna duda, por favor ignora este mensaje o contáctanos directamente.',
+    FIRM: 'La Factura #{factura} venció el {vencimiento} y lleva {dias} días sin pagarse. El saldo pendiente es de {saldo}.\n\n'
+        + 'Te pedimos regularizar el pago a la brevedad. Si existe algún inconveniente, contáctanos para acordar una solución.',
+    FINAL: 'Este es un último aviso: la Factura #{factura} acumula {dias} días de atraso con un saldo de {saldo}.\n\n'
+        + 'De no recibir el pago en los próximos días, la cuenta será gestionada como incobrable. Contáctanos de inmediato si deseas evitarlo.'
+};
+
+export interface DunningTemplateVars {
+    cliente: string;
+    factura: string;
+    saldo: string;
+    dias: number;
+    vencimiento: string;
+    empresa: string;
+}
+
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+
+export const createDunningStep = (dayOffset: number = 7): DunningStep => ({
+    id: `step_${newId()}`,
+    dayOffset,
+    channel: 'EMAIL',
+    tone: 'FRIENDLY'
+});
+
+export const createDunningSequence = (name: string): DunningSequence => ({
+    id: `seq_${newId()}`,
+    name,
+    steps: [createDunningStep(3), { ...createDunningStep(15), tone: 'FIRM' }]
+});
+
+export const getPresetDunningSequence = (profile: FollowUpProfile): DunningSequence | null => {
+    if (profile === 'OFF') return null;
+    return {
+        id: profile,
+        name: PRESET_NAMES[profile],
+        steps: FOLLOW_UP_RULES[profile].map(days => ({ id: `${profile}-${days}`, dayOffset: days, channel: 'EMAIL' as const, tone: 'FRIENDLY' as const }))
+    };
+};
+
+/**
+ * Presets plus the user's own sequences, as offered in the pickers.
+ */
+export const getAvailableDunningSequences = (user: Pick<UserProfile, 'dunningSequences'>): DunningSequence[] => [
+    ...(['PASSIVE', 'NORMAL', 'AGGRESSIVE'] as const).map(p => getPresetDunningSequence(p)!),
+    ...(user.dunningSequences || [])
+];
+
+export const findDunningSequence = (user: Pick<UserProfile, 'dunningSequences'>, id?: string): DunningSequence | null =>
+    (id && getAvailableDunningSequences(user).find(s => s.id === id)) || null;
+
+export const findInvoiceClient = (invoice: Invoice, clients: DbClient[]): DbClient | undefined =>
+    clients.find(c => !!invoice.clientId && c.id === invoice.clientId)
+    || clients.find(c => c.name.trim().toLowerCase() === invoice.clientName.trim().toLowerCase());
+
+/**
+ * Sequence that applies to `invoice`, or null when follow-up is off for it.
+ * Unknown ids (e.g. a deleted sequence) fall through to the next level.
+ */
+export const resolveDunningSequence = (invoice: Invoice, client: DbClient | undefined, user: UserProfile): DunningSequence | null => {
+    if (invoice.dunningSequenceId === DUNNING_OFF) return null;
+    return findDunningSequence(user, invoice.dunningSequenceId)
+        || findDunningSequence(user, client?.dunningSequenceId)
+        || findDunningSequence(user, user.defaultDunningSequenceId)
+        || getPresetDunningSequence(user.followUpProfile || 'OFF');
+};
+
+/**
+ * Steps that fire at `daysOverdue`: those with the latest offset already reached.
+ * Earlier missed steps are skipped so a late start does not send a burst of reminders.
+ */
+export const getDueDunningSteps = (sequence: DunningSequence, daysOverdue: number): { step: DunningStep; index: number }[] => {
+    // Numbered in day order, as shown in the editor
+    const ordered = [...sequence.steps]
+        .sort((a, b) => a.dayOffset - b.dayOffset)
+        .map((step, index) => ({ step, index }));
+    const reached = ordered.filter(s => s.step.dayOffset <= daysOverdue);
+    if (reached.length === 0) return [];
+    const latest = reached[reached.length - 1].step.dayOffset;
+    return reached.filter(s => s.step.dayOffset === latest);
+};
+
+export const renderDunningTemplate = (template: string, vars: DunningTemplateVars): string =>
+    template.replace(/\{(cliente|factura|saldo|dias|vencimiento|empresa)\}/g, (_, key: keyof DunningTemplateVars) => String(vars[key]));
+
+/**
+ * wa.me link with the message prefilled. Local Panama numbers (7-8 digits) get +507.
+ */
+export const buildWhatsAppLink = (phone: string | undefined, text: string): string | null => {
+    const digits = (phone || '').replace(/\D/g, '');
+    if (!digits) return null;
+    const international = digits.length <= 8 ? `507${digits}` : digits;
+    return `https://wa.me/${international}?text=${encodeURIComponent(text)}`;
+};
@@ -0,0 +1,227 @@
+import { Invoice, TaxFiling, TaxFilingStatus } from '../types';
+import { calculateItbmsBreakdown, mergeItbmsBreakdowns, ItbmsBreakdownLine, ITBMS_RATES } from './itbmsService';
+
+/**
+ * ITBMS MONTHLY RETURN (DGI Formulario 430)
+ * Worksheet for one month:
+ *  - Débito fiscal: ITBMS on invoices issued in the month (accrual basis, collected or not),
+ *    plus debit notes, minus credit notes.
+ *  - Crédito fiscal: ITBMS paid on deductible purchases backed by a valid fiscal document.
+ *  - Retenciones sufridas: ITBMS withheld by clients acting as withholding agents.
+ *  - Saldo a favor from the prior period, carried forward month to month.
+ */
+
+export type F430Section = 'VENTAS' | 'COMPRAS' | 'LIQUIDACION';
+
+export interface F430Line {
+  number: number;
+  section: F430Section;
+  label: string;
+  base?: number; // Taxable base, only for sales/purchase lines
+  amount: number; // ITBMS or settlement amount
+}
+
+export interface F430Worksheet {
+  period: string; // YYYY-MM
+  sales: ItbmsBreakdownLine[]; // By rate, net of credit/debit notes
+  salesDocuments: number;
+  purchasesBase: number;
+  nonDeductiblePurchases: number;
+  purchaseDocuments: number;
+  outputTax: number;
+  inputTax: number;
+  withholdings: number;
+  priorCredit: number;
+  taxPayable: number;
+  creditCarriedForward: number;
+  lines: F430Line[];
+}
+
+export const TAX_FILING_STATUS_LABELS: Record<TaxFilingStatus, string> = {
+  DRAFT: 'Borrador',
+  READY: 'Lista para presentar',
+  FILED: 'Presentada'
+};
+
+// Mixed business/personal purchases only give right to half of the credit
+const PARTIAL_DEDUCTIBILITY_RATIO = 0.5;
+// Single-amount expenses (ExpenseWizard) are recorded ITBMS included at the general rate
+const DEFAULT_INCLUDED_RATE = 7;
+
+const MONTHS = ['Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio', 'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isIssued = (doc: Invoice) => doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+export const getPeriodKey = (date: string | Date): string => {
+  if (typeof date === 'string' && /^\d{4}-\d{2}/.test(date)) return date.slice(0, 7);
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const getPreviousPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+};
+
+export const getNextPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+};
+
+export const formatPeriodLabel = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return `${MONTHS[month - 1]} ${year}`;
+};
+
+/**
+ * Base and ITBMS of a purchase. Lines with an explicit rate are used as-is; a
+ * single-amount expense is treated as ITBMS 7% included.
+ */
+export const calculateExpenseInputTax = (expense: Invoice): { base: number; tax: number } => {
+  const hasExplicitRates = expense.items.some(i => i.taxRateCode || i.tax > 0);
+  if (hasExplicitRates) {
+    const breakdown = calculateItbmsBreakdown(expense.items, expense.discountRate || 0);
+    return {
+      base: round2(breakdown.reduce((acc, l) => acc + l.base, 0)),
+      tax: round2(breakdown.reduce((acc, l) => acc + l.tax, 0))
+    };
+  }
+  const tax = expense.total - expense.total / (1 + DEFAULT_INCLUDED_RATE / 100);
+  return { base: round2(expense.total - tax), tax: round2(tax) };
+};
+
+/**
+ * Share of the purchase ITBMS that can be credited (0, 0.5 or 1).
+ */
+export const getDeductibleRatio = (expense: Invoice): number => {
+  if (expense.isValidFiscalDoc === false || expense.expenseDeductibility === 'NONE') return 0;
+  return expense.expenseDeductibility === 'PARTIAL' ? PARTIAL_DEDUCTIBILITY_RATIO : 1;
+};
+
+/**
+ * F430 worksheet for `period` given the saldo a favor coming from the prior period.
+ */
+export const calculateF430Worksheet = (documents: Invoice[], period: string, priorCredit: number = 0): F430Worksheet => {
+  const inPeriod = documents.filter(d => isIssued(d) && getPeriodKey(d.date) === period);
+
+  let sales: ItbmsBreakdownLine[] = [];
+  let salesDocuments = 0;
+  let withholdings = 0;
+  inPeriod
+    .filter(d => d.type === 'Invoice' || d.type === 'CreditNote' || d.type === 'DebitNote')
+    .forEach(doc => {
+      sales = mergeItbmsBreakdowns(sales, calculateItbmsBreakdown(doc.items, doc.discountRate || 0), doc.type === 'CreditNote' ? -1 : 1);
+      salesDocuments++;
+      if (doc.type === 'Invoice' && doc.withholdingAmount) withholdings += doc.withholdingAmount;
+    });
+
+  let purchasesBase = 0;
+  let inputTax = 0;
+  let nonDeductiblePurchases = 0;
+  let purchaseDocuments = 0;
+  inPeriod.filter(d => d.type === 'Expense').forEach(exp => {
+    const ratio = getDeductibleRatio(exp);
+    const { base, tax } = calculateExpenseInputTax(exp);
+    if (ratio === 0) {
+      nonDeductiblePurchases += exp.total;
+      return;
+    }
+    purchasesBase += base * ratio;
+    inputTax += tax * ratio;
+    nonDeductiblePurchases += (base + tax) * (1 - ratio);
+    purchaseDocuments++;
+  });
+
+  const outputTax = round2(sales.reduce((acc, l) => acc + l.tax, 0));
+  inputTax = round2(inputTax);
+  withholdings = round2(withholdings);
+  priorCredit = round2(Math.max(0, priorCredit));
+
+  const balance = round2(outputTax - inputTax - priorCredit - withholdings);
+  const taxPayable = Math.max(0, balance);
+  const creditCarriedForward = Math.max(0, -balance);
+
+  const salesLine = (code: ItbmsBreakdownLine['code']) => sales.find(l => l.code === code);
+  const saleLines: F430Line[] = ITBMS_RATES.map((rate, idx) => ({
+    number: idx + 1,
+    section: 'VENTAS' as const,
+    label: rate.code === 'TASA_0' ? 'Ventas gravadas tasa 0% (exportaciones)'
+      : rate.code === 'EXENTO' ? 'Ventas exentas'
+        : `Ventas gravadas tarifa ${rate.rate}%`,
+    base: salesLine(rate.code)?.base || 0,
+    amount: salesLine(rate.code)?.tax || 0
+  }));
+
+  const lines: F430Line[] = [
+    ...saleLines,
+    { number: 6, section: 'VENTAS', label: 'Total ventas / Débito fiscal', base: round2(sales.reduce((acc, l) => acc + l.base, 0)), amount: outputTax },
+    { number: 7, section: 'COMPRAS', label: 'Compras con derecho a crédito fiscal', base: round2(purchasesBase), amount: inputTax },
+    { number: 8, section: 'COMPRAS', label: 'Compras sin derecho a crédito (no deducibles o sin factura fiscal)', base: round2(nonDeductiblePurchases), amount: 0 },
+    { number: 9, section: 'LIQUIDACION', label: 'Débito fiscal del periodo', amount: outputTax },
+    { number: 10, section: 'LIQUIDACION', label: '(-) Crédito fiscal por compras', amount: inputTax },
+    { number: 11, section: 'LIQUIDACION', label: '(-) Saldo a favor del periodo anterior', amount: priorCredit },
+    { number: 12, section: 'LIQUIDACION', label: '(-) Retenciones de ITBMS sufridas', amount: withholdings },
+    { number: 13, section: 'LIQUIDACION', label: 'Impuesto a pagar', amount: taxPayable },
+    { number: 14, section: 'LIQUIDACION', label: 'Saldo a favor para el siguiente periodo', amount: creditCarriedForward }
+  ];
+
+  return {
+    period,
+    sales,
+    salesDocuments,
+    purchasesBase: round2(purchasesBase),
+    nonDeductiblePurchases: round2(nonDeductiblePurchases),
+    purchaseDocuments,
+    outputTax,
+    inputTax,
+    withholdings,
+    priorCredit,
+    taxPayable,
+    creditCarriedForward,
+    lines
+  };
+};
+
+/**
+ * Saldo a favor entering `period`. A filed return for the prior month is
+ * authoritative; otherwise the months are recalculated from the first one with activity.
+ */
+export const getF430PriorCredit = (documents: Invoice[], period: string, filings: TaxFiling[] = []): number => {
+  const target = getPreviousPeriod(period);
+  const periods = documents.filter(isIssued).map(d => getPeriodKey(d.date)).sort();
+  if (periods.length === 0 || periods[0] > target) return 0;
+
+  let credit = 0;
+  for (let p = periods[0]; p <= target; p = getNextPeriod(p)) {
+    const filed = filings.find(f => f.form === 'F430' && f.period === p && f.status === 'FILED');
+    credit = filed && filed.creditCarriedForward !== undefined
+      ? filed.creditCarriedForward
+      : calculateF430Worksheet(documents, p, credit).creditCarriedForward;
+  }
+  return credit;
+};
+
+export const buildF430Worksheet = (documents: Invoice[], period: string, filings: TaxFiling[] = []): F430Worksheet =>
+  calculateF430Worksheet(documents, period, getF430PriorCredit(documents, period, filings));
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+/**
+ * CSV export: one row per F430 line, amounts with two decimals.
+ */
+export const buildF430Csv = (worksheet: F430Worksheet, taxpayer: { name: string; taxId?: string }): string => {
+  const header = [
+    ['Formulario', '430 - ITBMS'],
+    ['Contribuyente', taxpayer.name],
+    ['RUC', taxpayer.taxId || ''],
+    ['Periodo', formatPeriodLabel(worksheet.period)],
+    []
+  ];
+  const rows = [
+    ['Renglón', 'Sección', 'Concepto', 'Base', 'Monto'],
+    ...worksheet.lines.map(l => [l.number, l.section, l.label, l.base !== undefined ? l.base.toFixed(2) : '', l.amount.toFixed(2)])
+  ];
+  return [...header, ...rows].map(r => r.map(csvCell).join(',')).join('\n');
+};
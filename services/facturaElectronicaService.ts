@@ -0,0 +1,480 @@
+import { Invoice, UserProfile, ElectronicInvoiceData, FEPaymentForm, FiscalCertificateInfo } from '../types';
+import { parseRuc, validateRuc, calculateDV } from './dgiService';
+
+/**
+ * FACTURA ELECTRÓNICA PANAMÁ (DGI)
+ * Builds the rFE v1.00 XML document described in the DGI "Ficha Técnica de la
+ * Factura Electrónica", computes its CUFE and validates the mandatory fields.
+ *
+ * The XML produced here is unsigned. Signing (XMLDSig) happens server-side in
+ * api/v1/signature.js; `submitToLocalPac` is a stand-in for the real PAC.
+ */
+
+export const FE_SCHEMA_VERSION = '1.00';
+export const FE_NAMESPACE = 'http://dgi-fep.mef.gob.pa';
+
+// ITBMS rate codes (dTasaITBMS)
+const ITBMS_RATE_CODES: Record<number, string> = {
+  0: '00',
+  7: '01',
+  10: '02',
+  15: '03'
+};
+
+export const FE_PAYMENT_FORMS: Record<FEPaymentForm, string> = {
+  '01': 'Crédito',
+  '02': 'Contado',
+  '03': 'Tarjeta Crédito',
+  '04': 'Tarjeta Débito',
+  '08': 'Transferencia / Depósito',
+  '09': 'Cheque',
+  '99': 'Otro'
+};
+
+export interface FELine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  unitDiscount: number;
+  lineAmount: number; // (unitPrice - unitDiscount) * quantity
+  taxRate: number;
+  taxAmount: number;
+  lineTotal: number;
+}
+
+export interface FETotals {
+  lines: FELine[];
+  net: number;
+  discount: number;
+  taxTotal: number;
+  total: number;
+}
+
+export interface FEValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface FEBuildOptions {
+  securityCode?: string; // 9 digits; random when omitted
+  issuedAt?: Date;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const money = (n: number) => round2(n).toFixed(2);
+
+const escapeXml = (value: string | number | undefined): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * RUC and DV as sent to DGI. Falls back to the computed DV when the user omitted it.
+ */
+export const splitRucDv = (taxId: string = ''): { ruc: string; dv: string } => {
+  const parsed = parseRuc(taxId);
+  if (!parsed) return { ruc: taxId.trim().toUpperCase(), dv: '' };
+  return { ruc: parsed.ruc, dv: parsed.dv || calculateDV(parsed) };
+};
+
+/**
+ * Fiscal number (dNroDF) derived from the document ID ("FAC-0042" -> "0000000042").
+ */
+export const getFiscalNumber = (invoiceId: string): string => {
+  const digits = (invoiceId.match(/(\d+)(?!.*\d)/) || ['0'])[0];
+  return digits.slice(-10).padStart(10, '0');
+};
+
+/**
+ * Formats a date as Panama local time (UTC-5, no DST) in the ISO form required by dFechaEm.
+ */
+export const formatPanamaDateTime = (date: Date): string => {
+  const local = new Date(date.getTime() - 5 * 60 * 60 * 1000);
+  return `${local.toISOString().slice(0, 19)}-05:00`;
+};
+
+/**
+ * Luhn (mod 10) check digit over the numeric characters of the CUFE body.
+ */
+export const calculateCufeCheckDigit = (body: string): string => {
+  const digits = body.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 0) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return ((10 - (sum % 10)) % 10).toString();
+};
+
+/**
+ * CUFE layout:
+ * FE + iDoc(2) + dTipoRuc(1) + dRuc(20) + dDV(3) + dSucEm(4) + dFechaEm(AAAAMMDD) +
+ * dNroDF(10) + dPtoFacDF(3) + iTpEmis(2) + iAmb(1) + dSeg(9) + check digit(1)
+ */
+export const generateCUFE = (params: {
+  docType: string;
+  rucType: '1' | '2';
+  ruc: string;
+  dv: string;
+  branchCode: string;
+  issuedAt: Date;
+  fiscalNumber: string;
+  pointOfSale: string;
+  emissionType: string;
+  environment: '1' | '2';
+  securityCode: string;
+}): string => {
+  const panamaDate = formatPanamaDateTime(params.issuedAt).slice(0, 10).replace(/-/g, '');
+  const body = [
+    'FE',
+    params.docType.padStart(2, '0'),
+    params.rucType,
+    params.ruc.padStart(20, '0'),
+    params.dv.padStart(3, '0'),
+    params.branchCode.padStart(4, '0'),
+    panamaDate,
+    params.fiscalNumber.padStart(10, '0'),
+    params.pointOfSale.padStart(3, '0'),
+    params.emissionType.padStart(2, '0'),
+    params.environment,
+    params.securityCode.padStart(9, '0')
+  ].join('');
+  return body + calculateCufeCheckDigit(body);
+};
+
+/**
+ * Line and document totals with the invoice-level discount distributed per line
+ * (same proportional logic as InvoiceWizard / DocumentTemplate).
+ */
+export const calculateFETotals = (invoice: Invoice): FETotals => {
+  const discountRate = invoice.discountRate || 0;
+
+  const lines: FELine[] = invoice.items.map(item => {
+    const unitDiscount = round2(item.price * (discountRate / 100));
+    const lineAmount = round2((item.price - unitDiscount) * item.quantity);
+    const taxAmount = round2(lineAmount * ((item.tax || 0) / 100));
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      unitDiscount,
+      lineAmount,
+      taxRate: item.tax || 0,
+      taxAmount,
+      lineTotal: round2(lineAmount + taxAmount)
+    };
+  });
+
+  const net = round2(lines.reduce((acc, l) => acc + l.lineAmount, 0));
+  const discount = round2(lines.reduce((acc, l) => acc + l.unitDiscount * l.quantity, 0));
+  const taxTotal = round2(lines.reduce((acc, l) => acc + l.taxAmount, 0));
+
+  return { lines, net, discount, taxTotal, total: round2(net + taxTotal) };
+};
+
+/**
+ * Validates the data DGI requires before an FE can be built.
+ */
+export const validateForFacturaElectronica = (invoice: Invoice, issuer: UserProfile): FEValidationResult => {
+  const errors: string[] = [];
+
+  if (invoice.type !== 'Invoice') {
+    errors.push('Solo las facturas pueden emitirse como Factura Electrónica.');
+  }
+
+  if (!issuer.taxId) {
+    errors.push('El emisor no tiene RUC configurado.');
+  } else {
+    const issuerRuc = validateRuc(issuer.taxId);
+    if (!issuerRuc.valid) errors.push(`RUC del emisor: ${issuerRuc.error}`);
+  }
+  if (!(issuer.legalName || issuer.name)) errors.push('El emisor no tiene razón social.');
+  if (!issuer.address) errors.push('El emisor no tiene dirección registrada.');
+
+  if (invoice.clientTaxId) {
+    const clientRuc = validateRuc(invoice.clientTaxId);
+    if (!clientRuc.valid) errors.push(`RUC del cliente: ${clientRuc.error} Déjelo vacío para Consumidor Final.`);
+  }
+  if (!invoice.clientName) errors.push('El documento no tiene receptor.');
+
+  if (!invoice.items || invoice.items.length === 0) {
+    errors.push('El documento no tiene ítems.');
+  }
+  invoice.items.forEach((item, idx) => {
+    if (!item.description) errors.push(`Ítem ${idx + 1}: falta la descripción.`);
+    if (!(item.quantity > 0)) errors.push(`Ítem ${idx + 1}: la cantidad debe ser mayor a 0.`);
+    if (item.tax === undefined || item.tax === null || ITBMS_RATE_CODES[item.tax] === undefined) {
+      errors.push(`Ítem ${idx + 1}: tasa de ITBMS inválida (${item.tax}). Use 0, 7, 10 o 15%.`);
+    }
+  });
+
+  if (!invoice.paymentForm || !FE_PAYMENT_FORMS[invoice.paymentForm]) {
+    errors.push('Debe indicar la forma de pago.');
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+const getRucType = (taxId: string, fallbackEntity?: 'NATURAL' | 'JURIDICA'): '1' | '2' => {
+  const parsed = parseRuc(taxId);
+  if (parsed) return parsed.kind === 'JURIDICA' ? '2' : '1';
+  return fallbackEntity === 'NATURAL' ? '1' : '2';
+};
+
+const randomSecurityCode = (): string =>
+  Math.floor(Math.random() * 1_000_000_000).toString().padStart(9, '0');
+
+/**
+ * Builds the rFE XML + CUFE for an invoice. Throws when validation fails.
+ */
+export const buildFacturaElectronica = (
+  invoice: Invoice,
+  issuer: UserProfile,
+  options: FEBuildOptions = {}
+): ElectronicInvoiceData => {
+  const validation = validateForFacturaElectronica(invoice, issuer);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(' '));
+  }
+
+  const fiscal = issuer.fiscalConfig;
+  const issuedAt = options.issuedAt || new Date();
+  const securityCode = (options.securityCode || randomSecurityCode()).padStart(9, '0');
+  const environment = fiscal?.feEnvironment || 'PRUEBAS';
+  const ambCode = environment === 'PRODUCCION' ? '1' : '2';
+  const branchCode = (fiscal?.feBranchCode || '0000').padStart(4, '0');
+  const pointOfSale = (fiscal?.fePointOfSale || '001').padStart(3, '0');
+  const fiscalNumber = getFiscalNumber(invoice.id);
+  const docType = '01'; // Factura de operación interna
+
+  const emisor = splitRucDv(issuer.taxId);
+  const emisorRucType = getRucType(issuer.taxId, fiscal?.entityType);
+
+  const cufe = generateCUFE({
+    docType,
+    rucType: emisorRucType,
+    ruc: emisor.ruc,
+    dv: emisor.dv,
+    branchCode,
+    issuedAt,
+    fiscalNumber,
+    pointOfSale,
+    emissionType: '01',
+    environment: ambCode,
+    securityCode
+  });
+
+  const totals = calculateFETotals(invoice);
+  const receptor = splitRucDv(invoice.clientTaxId);
+  const isFinalConsumer = !invoice.clientTaxId;
+
+  const receptorXml = isFinalConsumer
+    ? `
+      <gDatRec>
+        <iTipoRec>02</iTipoRec>
+        <dNombRec>${escapeXml(invoice.clientName)}</dNombRec>
+        <cPaisRec>PA</cPaisRec>
+      </gDatRec>`
+    : `
+      <gDatRec>
+        <iTipoRec>01</iTipoRec>
+        <gRucRec>
+          <dTipoRuc>${getRucType(invoice.clientTaxId!)}</dTipoRuc>
+          <dRuc>${escapeXml(receptor.ruc)}</dRuc>
+          <dDV>${escapeXml(receptor.dv)}</dDV>
+        </gRucRec>
+        <dNombRec>${escapeXml(invoice.clientName)}</dNombRec>
+        <dDirecRec>${escapeXml(invoice.clientAddress || 'PANAMA')}</dDirecRec>
+        <cPaisRec>PA</cPaisRec>
+      </gDatRec>`;
+
+  const itemsXml = totals.lines.map((line, idx) => `
+  <gItem>
+    <dSecItem>${idx + 1}</dSecItem>
+    <dDescProd>${escapeXml(line.description)}</dDescProd>
+    <dCantCodInt>${line.quantity.toFixed(2)}</dCantCodInt>
+    <gPrecios>
+      <dPrUnit>${money(line.unitPrice)}</dPrUnit>
+      <dPrUnitDesc>${money(line.unitDiscount)}</dPrUnitDesc>
+      <dPrItem>${money(line.lineAmount)}</dPrItem>
+      <dValTotItem>${money(line.lineTotal)}</dValTotItem>
+    </gPrecios>
+    <gITBMSItem>
+      <dTasaITBMS>${ITBMS_RATE_CODES[line.taxRate]}</dTasaITBMS>
+      <dValITBMS>${money(line.taxAmount)}</dValITBMS>
+    </gITBMSItem>
+  </gItem>`).join('');
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<rFE xmlns="${FE_NAMESPACE}">
+  <dVerForm>${FE_SCHEMA_VERSION}</dVerForm>
+  <dId>${cufe}</dId>
+  <gDGen>
+    <iAmb>${ambCode}</iAmb>
+    <iTpEmis>01</iTpEmis>
+    <iDoc>${docType}</iDoc>
+    <dNroDF>${fiscalNumber}</dNroDF>
+    <dPtoFacDF>${pointOfSale}</dPtoFacDF>
+    <dSeg>${securityCode}</dSeg>
+    <dFechaEm>${formatPanamaDateTime(issuedAt)}</dFechaEm>
+    <iNatOp>01</iNatOp>
+    <iTipoOp>1</iTipoOp>
+    <iDest>1</iDest>
+    <iFormCAFE>1</iFormCAFE>
+    <iEntCAFE>1</iEntCAFE>
+    <dEnvFE>1</dEnvFE>
+    <iProGen>1</iProGen>
+    <iTipoTranVenta>1</iTipoTranVenta>
+    <gEmis>
+      <gRucEmi>
+        <dTipoRuc>${emisorRucType}</dTipoRuc>
+        <dRuc>${escapeXml(emisor.ruc)}</dRuc>
+        <dDV>${escapeXml(emisor.dv)}</dDV>
+      </gRucEmi>
+      <dNombEm>${escapeXml(issuer.legalName || issuer.name)}</dNombEm>
+      <dSucEm>${branchCode}</dSucEm>
+      <dDirecEm>${escapeXml(issuer.address)}</dDirecEm>
+    </gEmis>${receptorXml}
+  </gDGen>${itemsXml}
+  <gTot>
+    <dTotNeto>${money(totals.net)}</dTotNeto>
+    <dTotITBMS>${money(totals.taxTotal)}</dTotITBMS>
+    <dTotGravado>${money(totals.taxTotal)}</dTotGravado>
+    <dTotDesc>${money(totals.discount)}</dTotDesc>
+    <dVTot>${money(totals.total)}</dVTot>
+    <dTotRec>${money(totals.total)}</dTotRec>
+    <dVuelto>0.00</dVuelto>
+    <iPzPag>${invoice.paymentForm === '01' ? '2' : '1'}</iPzPag>
+    <dNroItems>${totals.lines.length}</dNroItems>
+    <dVTotItems>${money(totals.total)}</dVTotItems>
+    <gFormaPago>
+      <iFormaPago>${invoice.paymentForm}</iFormaPago>
+      <dVlrCuota>${money(totals.total)}</dVlrCuota>
+    </gFormaPago>
+  </gTot>
+</rFE>`;
+
+  return {
+    cufe,
+    xml,
+    status: 'GENERADA',
+    fiscalNumber,
+    pointOfSale,
+    securityCode,
+    environment,
+    generatedAt: issuedAt.toISOString()
+  };
+};
+
+/**
+ * LOCAL PAC STAND-IN
+ * Accepts an rFE document, performs the structural checks a PAC would do
+ * (schema version, CUFE check digit, totals present) and returns an
+ * authorization protocol number. No network access.
+ */
+export const submitToLocalPac = async (
+  xml: string
+): Promise<{ success: boolean; authorizationNumber?: string; authorizedAt?: string; error?: string }> => {
+  const readTag = (tag: string) => {
+    const m = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+    return m ? m[1] : null;
+  };
+
+  if (readTag('dVerForm') !== FE_SCHEMA_VERSION) {
+    return { success: false, error: `Versión de formato no soportada (se esperaba ${FE_SCHEMA_VERSION}).` };
+  }
+
+  const cufe = readTag('dId');
+  if (!cufe || !cufe.startsWith('FE')) {
+    return { success: false, error: 'CUFE ausente o inválido.' };
+  }
+  const body = cufe.slice(0, -1);
+  if (calculateCufeCheckDigit(body) !== cufe.slice(-1)) {
+    return { success: false, error: 'Dígito verificador del CUFE incorrecto.' };
+  }
+
+  if (!readTag('dVTot') || !readTag('iFormaPago')) {
+    return { success: false, error: 'Totales o forma de pago ausentes.' };
+  }
+
+  // Protocol: yyyymmdd + last 12 digits of the CUFE body
+  const authorizedAt = new Date().toISOString();
+  const authorizationNumber = authorizedAt.slice(0, 10).replace(/-/g, '') + body.replace(/\D/g, '').slice(-12);
+
+  return { success: true, authorizationNumber, authorizedAt };
+};
+
+/**
+ * Full issue flow used by the UI: build -> sign (when a certificate is loaded) -> submit to PAC.
+ */
+export const issueFacturaElectronica = async (
+  invoice: Invoice,
+  issuer: UserProfile,
+  options: {
+    submit?: (xml: string) => ReturnType<typeof submitToLocalPac>;
+    sign?: (xml: string) => Promise<string>;
+  } = {}
+): Promise<ElectronicInvoiceData> => {
+  const { submit = submitToLocalPac, sign } = options;
+  const built = buildFacturaElectronica(invoice, issuer);
+  const fe: ElectronicInvoiceData = sign
+    ? { ...built, xml: await sign(built.xml), signedAt: new Date().toISOString() }
+    : built;
+
+  const pacResult = await submit(fe.xml);
+
+  if (!pacResult.success) {
+    return { ...fe, status: 'RECHAZADA', rejectionReason: pacResult.error };
+  }
+
+  return {
+    ...fe,
+    status: 'AUTORIZADA',
+    authorizationNumber: pacResult.authorizationNumber,
+    authorizedAt: pacResult.authorizedAt
+  };
+};
+
+// --- BACKEND SIGNING (api/v1/signature.js) ---
+// The .p12 and its password are only ever sent on upload; the server keeps them encrypted.
+
+const signatureApiHeaders = (profile: UserProfile): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-user-id': profile.id,
+  ...(profile.apiKeys?.konsul ? { 'x-api-key': profile.apiKeys.konsul } : {})
+});
+
+const callSignatureApi = async (profile: UserProfile, method: string, body?: object) => {
+  const res = await fetch('/api/v1/signature', {
+    method,
+    headers: signatureApiHeaders(profile),
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    const details = Array.isArray(data.details) ? ` ${data.details.join(' ')}` : '';
+    throw new Error((data.error || 'Error en el servicio de firma') + details);
+  }
+  return data.data;
+};
+
+export const uploadSigningCertificate = (profile: UserProfile, p12Base64: string, password: string): Promise<FiscalCertificateInfo> =>
+  callSignatureApi(profile, 'POST', { action: 'upload', p12Base64, password });
+
+export const removeSigningCertificate = (profile: UserProfile): Promise<void> =>
+  callSignatureApi(profile, 'DELETE');
+
+export const signXmlWithStoredCertificate = async (profile: UserProfile, xml: string): Promise<string> => {
+  const data = await callSignatureApi(profile, 'POST', { action: 'sign', xml });
+  return data.signedXml;
+};
+
+export const verifySignedXml = (profile: UserProfile, xml: string): Promise<{ valid: boolean; trusted: boolean; errors: string[] }> =>
+  callSignatureApi(profile, 'POST', { action: 'verify', xml });
@@ -0,0 +1,295 @@
+import { FiscalConfig, TaxFiling, TaxFilingForm, UserProfile } from '../types';
+
+/**
+ * FISCAL DEADLINE ENGINE (Panamá)
+ * Works out each obligation of a taxpayer from its FiscalConfig:
+ *  - ITBMS (F430): monthly, 15th of the following month, only if `itbmsRegistered`.
+ *  - Planilla SIPE (CSS): monthly, 20th of the following month, only if `hasEmployees`.
+ *  - Tasa Única: yearly for companies (`companyForm`); July 15 for companies incorporated
+ *    in the first semester, January 15 for the second one. Sociedades de Emprendimiento
+ *    are exempt during their first two years.
+ *  - ISR: annual return on March 15 (natural) / March 31 (jurídica) for the prior year,
+ *    plus the three estimated-tax installments (June 30, September 30, December 31).
+ * Due dates falling on weekends or national holidays move to the next business day.
+ */
+
+export type DeadlineStatus = 'UPCOMING' | 'DUE' | 'FILED' | 'LATE';
+export type DeadlineCategory = 'ITBMS' | 'SOCIAL' | 'CORPORATIVA' | 'RENTA';
+
+export interface FiscalDeadline {
+  id: string; // Stable: userId:form:period
+  userId: string;
+  companyName: string;
+  form: TaxFilingForm;
+  period: string; // Filing period key, same as TaxFiling.period
+  title: string;
+  description: string;
+  category: DeadlineCategory;
+  frequency: 'MENSUAL' | 'ANUAL';
+  statutoryDate: string; // YYYY-MM-DD as set by law
+  dueDate: string; // YYYY-MM-DD after moving over weekends/holidays
+  status: DeadlineStatus;
+}
+
+export const DEADLINE_STATUS_LABELS: Record<DeadlineStatus, string> = {
+  UPCOMING: 'Próximo',
+  DUE: 'Vence pronto',
+  FILED: 'Presentado',
+  LATE: 'Vencido'
+};
+
+// Days before the due date a deadline turns from UPCOMING to DUE
+export const DUE_SOON_DAYS = 7;
+
+const COMPANY_FORM_LABELS: Record<NonNullable<FiscalConfig['companyForm']>, string> = {
+  SA: 'S.A.',
+  SRL: 'S.R.L.',
+  SAS: 'S.A.S.',
+  EMI: 'Sociedad de Emprendimiento',
+  OTHER: 'Sociedad'
+};
+
+const EMPRENDIMIENTO_EXEMPT_YEARS = 2;
+
+const MONTHS = ['Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio', 'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (d: Date): string => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+// Anonymous Gregorian algorithm
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const holidayCache = new Map<number, Set<string>>();
+
+/**
+ * National holidays of Panamá for `year` (YYYY-MM-DD). Fixed holidays that fall on a
+ * Sunday are observed the following Monday.
+ */
+export const getPanamaHolidays = (year: number): Set<string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const fixed = [
+    [1, 1],   // Año Nuevo
+    [1, 9],   // Día de los Mártires
+    [5, 1],   // Día del Trabajo
+    [11, 3],  // Separación de Colombia
+    [11, 4],  // Día de la Bandera
+    [11, 5],  // Gesta de Colón
+    [11, 10], // Primer Grito de Independencia
+    [11, 28], // Independencia de España
+    [12, 8],  // Día de las Madres
+    [12, 20], // Día de Duelo Nacional
+    [12, 25]  // Navidad
+  ];
+
+  const holidays = new Set<string>();
+  fixed.forEach(([month, day]) => {
+    const date = new Date(year, month - 1, day);
+    holidays.add(toDateKey(date));
+    if (date.getDay() === 0) holidays.add(toDateKey(addDays(date, 1)));
+  });
+
+  const easter = getEasterSunday(year);
+  holidays.add(toDateKey(addDays(easter, -48))); // Lunes de Carnaval
+  holidays.add(toDateKey(addDays(easter, -47))); // Martes de Carnaval
+  holidays.add(toDateKey(addDays(easter, -2)));  // Viernes Santo
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+export const isBusinessDay = (d: Date): boolean =>
+  d.getDay() !== 0 && d.getDay() !== 6 && !getPanamaHolidays(d.getFullYear()).has(toDateKey(d));
+
+/**
+ * First business day on or after `date`.
+ */
+export const rollToBusinessDay = (date: Date): Date => {
+  let d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  while (!isBusinessDay(d)) d = addDays(d, 1);
+  return d;
+};
+
+interface ObligationInstance {
+  form: TaxFilingForm;
+  period: string;
+  title: string;
+  description: string;
+  category: DeadlineCategory;
+  frequency: 'MENSUAL' | 'ANUAL';
+  statutoryDate: Date;
+}
+
+/**
+ * Obligations whose statutory date falls in `year`/`month` (0-based month).
+ */
+const getObligationsForMonth = (config: FiscalConfig, year: number, month: number): ObligationInstance[] => {
+  const result: ObligationInstance[] = [];
+  const prevYear = month === 0 ? year - 1 : year;
+  const prevMonth = month === 0 ? 11 : month - 1;
+  const prevPeriod = `${prevYear}-${pad(prevMonth + 1)}`;
+
+  if (config.itbmsRegistered) {
+    result.push({
+      form: 'F430',
+      period: prevPeriod,
+      title: 'ITBMS (F430)',
+      description: `Declaración de ITBMS de ${MONTHS[prevMonth]} ${prevYear}`,
+      category: 'ITBMS',
+      frequency: 'MENSUAL',
+      statutoryDate: new Date(year, month, 15)
+    });
+  }
+
+  if (config.hasEmployees) {
+    result.push({
+      form: 'SIPE',
+      period: prevPeriod,
+      title: 'Planilla SIPE (CSS)',
+      description: `Cuotas obrero-patronales de ${MONTHS[prevMonth]} ${prevYear}`,
+      category: 'SOCIAL',
+      frequency: 'MENSUAL',
+      statutoryDate: new Date(year, month, 20)
+    });
+  }
+
+  const isCompany = config.entityType === 'JURIDICA' && !!config.companyForm;
+  if (isCompany) {
+    const incorporation = config.incorporationDate ? fromDateKey(config.incorporationDate.slice(0, 10)) : null;
+    const dueMonth = incorporation && incorporation.getMonth() >= 6 ? 0 : 6; // January 15 or July 15
+    const isExempt = config.companyForm === 'EMI' && !!incorporation
+      && new Date(year, month, 15) < new Date(incorporation.getFullYear() + EMPRENDIMIENTO_EXEMPT_YEARS, incorporation.getMonth(), incorporation.getDate());
+    if (month === dueMonth && !isExempt) {
+      result.push({
+        form: 'TASA_UNICA',
+        period: String(year),
+        title: 'Tasa Única Anual',
+        description: `Tasa única del Registro Público (${COMPANY_FORM_LABELS[config.companyForm!]})`,
+        category: 'CORPORATIVA',
+        frequency: 'ANUAL',
+        statutoryDate: new Date(year, month, 15)
+      });
+    }
+  }
+
+  if (month === 2) {
+    const isNatural = config.entityType === 'NATURAL';
+    result.push({
+      form: 'ISR',
+      period: String(year - 1),
+      title: `Declaración de Renta (${isNatural ? 'Natural' : 'Jurídica'})`,
+      description: `Impuesto sobre la Renta del periodo fiscal ${year - 1}`,
+      category: 'RENTA',
+      frequency: 'ANUAL',
+      statutoryDate: new Date(year, 2, isNatural ? 15 : 31)
+    });
+  }
+
+  const installment = [5, 8, 11].indexOf(month);
+  if (installment >= 0) {
+    result.push({
+      form: 'ISR_ESTIMADO',
+      period: `${year}-${installment + 1}`,
+      title: `Impuesto Estimado (${installment + 1}/3)`,
+      description: `Partida ${installment + 1} del ISR estimado ${year}`,
+      category: 'RENTA',
+      frequency: 'ANUAL',
+      statutoryDate: new Date(year, month + 1, 0) // Last day of the month
+    });
+  }
+
+  return result;
+};
+
+export const getDeadlineStatus = (
+  deadline: Pick<FiscalDeadline, 'form' | 'period' | 'dueDate'>,
+  filings: TaxFiling[],
+  today: Date = new Date()
+): DeadlineStatus => {
+  const filing = filings.find(f => f.form === deadline.form && f.period === deadline.period);
+  if (filing?.status === 'FILED') return 'FILED';
+
+  const todayKey = toDateKey(today);
+  if (todayKey > deadline.dueDate) return 'LATE';
+  if (toDateKey(addDays(today, DUE_SOON_DAYS)) >= deadline.dueDate) return 'DUE';
+  return 'UPCOMING';
+};
+
+/**
+ * Deadlines of one taxpayer with a due date between `from` and `to` (inclusive).
+ */
+export const generateFiscalDeadlines = (
+  profile: Pick<UserProfile, 'id' | 'name' | 'fiscalConfig'>,
+  filings: TaxFiling[],
+  from: Date,
+  to: Date,
+  today: Date = new Date()
+): FiscalDeadline[] => {
+  if (!profile.fiscalConfig) return [];
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const deadlines: FiscalDeadline[] = [];
+
+  // Start a month early: a statutory date can roll into the next month
+  for (let d = new Date(from.getFullYear(), from.getMonth() - 1, 1); d <= to; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+    getObligationsForMonth(profile.fiscalConfig, d.getFullYear(), d.getMonth()).forEach(ob => {
+      const dueDate = toDateKey(rollToBusinessDay(ob.statutoryDate));
+      if (dueDate < fromKey || dueDate > toKey) return;
+
+      const base = {
+        id: `${profile.id}:${ob.form}:${ob.period}`,
+        userId: profile.id,
+        companyName: profile.name,
+        form: ob.form,
+        period: ob.period,
+        title: ob.title,
+        description: ob.description,
+        category: ob.category,
+        frequency: ob.frequency,
+        statutoryDate: toDateKey(ob.statutoryDate),
+        dueDate
+      };
+      deadlines.push({ ...base, status: getDeadlineStatus(base, filings, today) });
+    });
+  }
+
+  return deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+/**
+ * Merged calendar for several taxpayers (accountant view), sorted by due date.
+ */
+export const buildMergedFiscalCalendar = (
+  companies: { profile: Pick<UserProfile, 'id' | 'name' | 'fiscalConfig'>; filings: TaxFiling[] }[],
+  from: Date,
+  to: Date,
+  today: Date = new Date()
+): FiscalDeadline[] =>
+  companies
+    .flatMap(c => generateFiscalDeadlines(c.profile, c.filings, from, to, today))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.companyName.localeCompare(b.companyName));
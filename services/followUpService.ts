@@ -1,129 +1,362 @@
-import { Invoice, UserProfile, TimelineEvent, FollowUpProfile } from '../types';
-import { sendEmail, generateDocumentHtml } from './resendService';
-import { saveInvoiceToDb } from './neon';
-
-const FOLLOW_UP_RULES: Record<Exclude<FollowUpProfile, 'OFF'>, number[]> = {
-    PASSIVE: [7],
-    NORMAL: [3, 7, 15],
-    AGGRESSIVE: [1, 2, 4, 6, 8, 10, 15, 20, 25, 30]
+import { Invoice, UserProfile, TimelineEvent, BusinessHours, DbClient, DunningSequence, DunningStep } from '../types';
+import { getOpenBalance, createReferenceTimelineEvent } from './creditNoteService';
+import {
+    calculateLateFeeAccrual, applyLateFeeLine, buildLateFeeDebitNote, getInvoiceDueDate,
+    getChargedLateFees, isLateFeeApplicationDue, usesLateFeeDebitNotes
+} from './lateFeeService';
+import {
+    resolveDunningSequence, getDueDunningSteps, findInvoiceClient, renderDunningTemplate, buildWhatsAppLink,
+    DEFAULT_DUNNING_TEMPLATES, DUNNING_SUBJECTS, DUNNING_CHANNEL_LABELS, DunningTemplateVars
+} from './dunningService';
+import { hasInstallmentPlan, getOverdueInstallments, formatInstallmentLabel, InstallmentState } from './installmentService';
+import { DocumentIdAllocator } from './documentNumberingService';
+
+/**
+ * SCHEDULED FOLLOW-UP ENGINE
+ * Runs server-side from the cron endpoint (api/cron/follow-up.js) for every user:
+ *  - Late fees are applied whenever the run finds them due.
+ *  - Dunning steps (email, WhatsApp link, internal task) fire only inside the user's business
+ *    hours, in the user's timezone, following the sequence resolved for each invoice.
+ *  - Invoices with a payment plan are chased per installment: only overdue installments are
+ *    reminded about, and each one runs the sequence from its own due date.
+ * Persistence, email and the clock are injected, so the same engine runs against Neon
+ * in production and in memory (with a fake clock) in tests.
+ * Concurrent runs are safe: each invoice is locked while processed and every reminder
+ * milestone / late-fee charge is claimed once through an idempotency key before it happens.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/Panama';
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+    startHour: 8,
+    endHour: 18,
+    workdays: [1, 2, 3, 4, 5]
+};
+
+// A crashed run frees its invoices after this long
+export const FOLLOW_UP_LOCK_TTL_MS = 5 * 60 * 1000;
+
+export interface FollowUpStore {
+    saveDocument: (document: Invoice) => Promise<void>;
+    allocateDocumentId: DocumentIdAllocator;
+    // False when another run holds an unexpired lock on the invoice
+    acquireLock: (invoiceId: string, owner: string, expiresAt: Date) => Promise<boolean>;
+    releaseLock: (invoiceId: string, owner: string) => Promise<void>;
+    // False when the key was already claimed (the action already happened)
+    claimMilestone: (key: string, userId: string, invoiceId: string) => Promise<boolean>;
+    releaseMilestone: (key: string) => Promise<void>;
+}
+
+export interface FollowUpMailer {
+    send: (email: { to: string; cc?: string; subject: string; html: string; senderName: string }) => Promise<boolean>;
+}
+
+export interface FollowUpDeps {
+    store: FollowUpStore;
+    mailer: FollowUpMailer;
+    now: () => Date;
+    runId: string; // Lock owner
+}
+
+export interface FollowUpResult {
+    remindersSent: number; // Emails
+    stepsFired: number; // All channels
+    escalated: number; // Marked 'Incobrable'
+    lateFeesApplied: number;
+    skippedLocked: number;
+    outsideBusinessHours: boolean;
+}
+
+export interface LocalTime {
+    dateKey: string; // YYYY-MM-DD in the user's timezone
+    hour: number;
+    weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const isValidTimezone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
 };
 
 /**
- * Processes invoices to identify if any follow-up reminders need to be sent.
- * @returns Number of reminders sent.
+ * Wall-clock date, hour and weekday of `now` in `timeZone` (invalid zones fall back to Panama).
+ */
+export const getLocalTime = (now: Date, timeZone: string = DEFAULT_TIMEZONE): LocalTime => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE,
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', weekday: 'short', hourCycle: 'h23'
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+        dateKey: `${part('year')}-${part('month')}-${part('day')}`,
+        hour: parseInt(part('hour'), 10) % 24,
+        weekday: WEEKDAYS.indexOf(part('weekday'))
+    };
+};
+
+export const isWithinBusinessHours = (local: LocalTime, hours: BusinessHours = DEFAULT_BUSINESS_HOURS): boolean =>
+    hours.workdays.includes(local.weekday) && local.hour >= hours.startHour && local.hour < hours.endHour;
+
+export const isFollowUpEnabled = (user: UserProfile): boolean =>
+    (!!user.followUpProfile && user.followUpProfile !== 'OFF')
+    || !!user.defaultDunningSequenceId
+    || (user.dunningSequences || []).length > 0
+    || !!user.lateFeePolicy?.enabled;
+
+/**
+ * Processes one user's invoices: applies the late-fee policy to overdue invoices and
+ * fires the dunning steps whose day offset has been reached.
+ * `clients` provides per-client sequences and phone numbers for WhatsApp steps.
  */
 export const processInvoicesFollowUp = async (
     invoices: Invoice[],
     currentUser: UserProfile,
-    onUpdateInvoice?: (updated: Invoice) => void
-): Promise<number> => {
-    const profile = currentUser.followUpProfile || 'OFF';
-    if (profile === 'OFF') return 0;
+    deps: FollowUpDeps,
+    clients: DbClient[] = []
+): Promise<FollowUpResult> => {
+    const { store, mailer } = deps;
+    const now = deps.now();
+    const local = getLocalTime(now, currentUser.timezone);
+    const outsideBusinessHours = !isWithinBusinessHours(local, currentUser.businessHours);
+    const result: FollowUpResult = { remindersSent: 0, stepsFired: 0, escalated: 0, lateFeesApplied: 0, skippedLocked: 0, outsideBusinessHours };
+
+    if (!isFollowUpEnabled(currentUser)) return result;
+
+    const lateFeePolicy = currentUser.lateFeePolicy;
 
-    const rules = FOLLOW_UP_RULES[profile as Exclude<FollowUpProfile, 'OFF'>];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // The user's calendar day, at local midnight like the due dates it is compared with
+    const [y, m, d] = local.dateKey.split('-').map(Number);
+    const today = new Date(y, m - 1, d);
 
-    let remindersSent = 0;
+    const documents = [...invoices];
 
-    for (const invoice of invoices) {
+    for (const original of invoices) {
         // Only process sent or partially paid invoices that are NOT quotes or expenses
-        if (invoice.type !== 'Invoice') continue;
-        if (invoice.status !== 'Enviada' && invoice.status !== 'Abonada' && invoice.status !== 'Seguimiento') continue;
-        if (!invoice.clientEmail) continue;
-
-        const dueDate = invoice.dueDate ? new Date(invoice.dueDate) : new Date(invoice.date);
-        // If no due date, default to 30 days after creation if paymentTermsDays is not set
-        if (!invoice.dueDate) {
-            dueDate.setDate(dueDate.getDate() + (currentUser.paymentTermsDays || 30));
-        }
-        dueDate.setHours(0, 0, 0, 0);
+        if (original.type !== 'Invoice') continue;
+        if (original.status !== 'Enviada' && original.status !== 'Abonada' && original.status !== 'Seguimiento') continue;
 
-        const diffTime = today.getTime() - dueDate.getTime();
-        const daysOverdue = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+        // With a payment plan, the oldest overdue installment drives the sequence
+        const overdueInstallments = hasInstallmentPlan(original) ? getOverdueInstallments(original, documents, today) : [];
+        if (hasInstallmentPlan(original) && overdueInstallments.length === 0) continue;
+        const chased = overdueInstallments[0];
 
+        const dueDate = chased ? chased.dueDate : getInvoiceDueDate(original, currentUser.paymentTermsDays || 30);
+        const daysOverdue = Math.round((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
         if (daysOverdue <= 0) continue; // Not overdue yet
 
-        // Find the largest rule that applies and hasn't been sent yet
-        const applicableRule = [...rules].reverse().find(days => daysOverdue >= days);
+        const client = findInvoiceClient(original, clients);
+        const sequence = resolveDunningSequence(original, client, currentUser);
+        const dueSteps = sequence && !outsideBusinessHours ? getDueDunningSteps(sequence, daysOverdue) : [];
+        const lateFeeDue = !!lateFeePolicy?.enabled && isLateFeeApplicationDue(original, now);
+        if (!lateFeeDue && dueSteps.length === 0) continue;
 
-        if (applicableRule) {
-            // Check if this rule (day milestone) already has a reminder in the timeline
-            const alreadySent = invoice.timeline?.some(event =>
-                event.type === 'REMINDER' &&
-                event.description?.includes(`${applicableRule} días`)
-            );
+        if (!await store.acquireLock(original.id, deps.runId, new Date(now.getTime() + FOLLOW_UP_LOCK_TTL_MS))) {
+            result.skippedLocked++;
+            continue;
+        }
 
-            if (!alreadySent) {
-                // Trigger reminder
-                try {
-                    const success = await sendReminderEmail(invoice, currentUser, applicableRule);
-                    if (success) {
-                        remindersSent++;
-                        const reminderEvent: TimelineEvent = {
-                            id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
-                            type: 'REMINDER',
-                            title: 'Recordatorio automático enviado',
-                            description: `Recordatorio de pago enviado tras ${applicableRule} días de vencimiento.`,
-                            timestamp: new Date().toISOString()
-                        };
-
-                        const updatedInvoice: Invoice = {
-                            ...invoice,
-                            timeline: [...(invoice.timeline || []), reminderEvent],
-                            status: 'Seguimiento' // Update status to reflect follow-up
-                        };
-
-                        // Persist to DB
-                        await saveInvoiceToDb({ ...updatedInvoice, userId: currentUser.id });
-
-                        // Update UI if callback provided
-                        if (onUpdateInvoice) {
-                            onUpdateInvoice(updatedInvoice);
+        let invoice = original;
+        try {
+            // --- LATE FEES ---
+            if (lateFeePolicy?.enabled && lateFeeDue) {
+                const accrual = calculateLateFeeAccrual(invoice, documents, lateFeePolicy, dueDate, today);
+                const key = `${currentUser.id}:${invoice.id}:late-fee:${local.dateKey}`;
+                if (accrual.pending >= 0.01 && await store.claimMilestone(key, currentUser.id, invoice.id)) {
+                    try {
+                        if (usesLateFeeDebitNotes(invoice, lateFeePolicy)) {
+                            const noteId = await store.allocateDocumentId(currentUser.id, 'DebitNote', local.dateKey);
+                            const note = { ...buildLateFeeDebitNote(invoice, accrual, lateFeePolicy, noteId), userId: currentUser.id };
+                            await store.saveDocument(note);
+                            documents.push(note);
+                            invoice = {
+                                ...invoice,
+                                lateFeeAppliedAt: now.toISOString(),
+                                timeline: [...(invoice.timeline || []), createReferenceTimelineEvent(note)]
+                            };
+                        } else {
+                            invoice = applyLateFeeLine(invoice, accrual, lateFeePolicy, now);
                         }
+                        await store.saveDocument({ ...invoice, userId: currentUser.id });
+                        documents.splice(documents.findIndex(doc => doc.id === invoice.id), 1, invoice);
+                        result.lateFeesApplied++;
+                    } catch (error) {
+                        console.error(`Failed to apply late fees to invoice ${invoice.id}:`, error);
+                        await store.releaseMilestone(key);
                     }
+                }
+            }
+
+            // --- DUNNING STEPS ---
+            for (const { step, index } of dueSteps) {
+                if (invoice.status === 'Incobrable') break;
+
+                // Reminders sent before sequences existed only left a timeline entry
+                const alreadySent = !chased && invoice.timeline?.some(event =>
+                    event.type === 'REMINDER' && !event.dunning &&
+                    event.description?.includes(`${step.dayOffset} días`)
+                );
+                if (alreadySent) continue;
+
+                // Installments not yet due are not part of what is claimed
+                const balance = chased
+                    ? overdueInstallments.reduce((acc, s) => acc + s.remaining, 0)
+                    : getOpenBalance(invoice, documents);
+                const vars: DunningTemplateVars = {
+                    cliente: invoice.clientName,
+                    factura: invoice.id,
+                    saldo: `${invoice.currency} ${balance.toFixed(2)}`,
+                    dias: daysOverdue,
+                    vencimiento: dueDate.toLocaleDateString('es-PA', { day: 'numeric', month: 'long', year: 'numeric' }),
+                    empresa: currentUser.legalName || currentUser.name
+                };
+                const message = renderDunningTemplate(step.template || DEFAULT_DUNNING_TEMPLATES[step.tone], vars);
+                const clientEmail = invoice.clientEmail || client?.email;
+                const actionUrl = step.channel === 'WHATSAPP' ? buildWhatsAppLink(client?.phone, message) : null;
+
+                // Steps that cannot run yet (no contact data) stay pending for a later run
+                if (step.channel === 'EMAIL' && !clientEmail) continue;
+                if (step.channel === 'WHATSAPP' && !actionUrl) continue;
+
+                const key = chased
+                    ? `${currentUser.id}:${invoice.id}:dunning:${chased.installment.id}:${step.id}`
+                    : `${currentUser.id}:${invoice.id}:dunning:${step.id}`;
+                if (!await store.claimMilestone(key, currentUser.id, invoice.id)) continue;
+
+                if (step.channel === 'EMAIL') {
+                    const lateFees = getChargedLateFees(invoice, documents);
+                    const success = await sendReminderEmail(mailer, { ...invoice, clientEmail }, currentUser, step, message, balance, lateFees, overdueInstallments)
+                        .catch(error => {
+                            console.error(`Failed to send reminder for invoice ${invoice.id}:`, error);
+                            return false;
+                        });
+                    if (!success) {
+                        // Free the milestone so the next run retries
+                        await store.releaseMilestone(key);
+                        continue;
+                    }
+                    result.remindersSent++;
+                }
+
+                result.stepsFired++;
+                invoice = applyDunningStep(invoice, sequence!, step, index, daysOverdue, now, actionUrl || undefined, chased);
+                if (invoice.status === 'Incobrable') result.escalated++;
+
+                try {
+                    await store.saveDocument({ ...invoice, userId: currentUser.id });
                 } catch (error) {
-                    console.error(`Failed to send reminder for invoice ${invoice.id}:`, error);
+                    console.error(`Dunning step fired but invoice ${invoice.id} could not be updated:`, error);
                 }
             }
+        } finally {
+            await store.releaseLock(original.id, deps.runId);
         }
     }
 
-    return remindersSent;
+    return result;
 };
 
-const sendReminderEmail = async (invoice: Invoice, issuer: UserProfile, days: number): Promise<boolean> => {
-    const docTypeName = 'Factura';
-    const subject = `Recordatorio de Pago: ${docTypeName} #${invoice.id} - ${issuer.name}`;
+const DUNNING_EVENT_TITLES: Record<DunningStep['channel'], string> = {
+    EMAIL: 'Recordatorio automático enviado',
+    WHATSAPP: 'Mensaje de WhatsApp preparado',
+    TASK: 'Tarea de cobranza creada'
+};
 
-    // Custom reminder message
-    const reminderMessage = `
+/**
+ * Records the fired step on the timeline and moves the invoice to follow-up,
+ * or to 'Incobrable' when the step escalates.
+ */
+const applyDunningStep = (
+    invoice: Invoice,
+    sequence: DunningSequence,
+    step: DunningStep,
+    index: number,
+    daysOverdue: number,
+    now: Date,
+    actionUrl?: string,
+    installment?: InstallmentState
+): Invoice => {
+    const eventId = () => now.getTime().toString() + Math.random().toString(36).substr(2, 5);
+    const events: TimelineEvent[] = [{
+        id: eventId(),
+        type: 'REMINDER',
+        title: DUNNING_EVENT_TITLES[step.channel],
+        description: `Paso ${index + 1} de ${sequence.steps.length} (${sequence.name} · ${DUNNING_CHANNEL_LABELS[step.channel]}) tras ${daysOverdue} días de vencimiento${installment ? ` de la ${formatInstallmentLabel(installment)}` : ''}.`,
+        timestamp: now.toISOString(),
+        dunning: {
+            sequenceName: sequence.name,
+            stepIndex: index,
+            stepCount: sequence.steps.length,
+            channel: step.channel,
+            tone: step.tone,
+            actionUrl
+        }
+    }];
+
+    if (step.escalateToUncollectible) {
+        events.push({
+            id: eventId(),
+            type: 'STATUS_CHANGE',
+            title: 'Factura marcada como Incobrable',
+            description: `Escalada automáticamente por el paso ${index + 1} de "${sequence.name}".`,
+            timestamp: now.toISOString()
+        });
+    }
+
+    return {
+        ...invoice,
+        timeline: [...(invoice.timeline || []), ...events],
+        // A partially paid invoice keeps 'Abonada', otherwise the payments would look missing
+        status: step.escalateToUncollectible ? 'Incobrable' : invoice.status === 'Abonada' ? 'Abonada' : 'Seguimiento'
+    };
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const sendReminderEmail = async (
+    mailer: FollowUpMailer,
+    invoice: Invoice,
+    issuer: UserProfile,
+    step: DunningStep,
+    message: string,
+    balance: number,
+    lateFees: number,
+    overdueInstallments: InstallmentState[] = []
+): Promise<boolean> => {
+    const subject = `${DUNNING_SUBJECTS[step.tone]}: Factura #${invoice.id} - ${issuer.name}`;
+
+    const paragraph = (text: string) => `
     <p style="color: #334155; font-size: 16px; line-height: 1.6; margin-bottom: 24px;">
-      Esperamos que estés bien. Te escribimos para recordarte que la <strong>${docTypeName} #${invoice.id}</strong> 
-      presenta un saldo pendiente de <strong>${invoice.currency} ${(invoice.total - (invoice.amountPaid || 0)).toFixed(2)}</strong>.
-    </p>
+      ${escapeHtml(text).replace(/\n/g, '<br>')}
+    </p>`;
+    const reminderMessage = message.split(/\n\s*\n/).map(paragraph).join('') + (lateFees > 0 ? `
     <p style="color: #334155; font-size: 16px; line-height: 1.6; margin-bottom: 24px;">
-      Agradecemos de antemano tu gestión para realizar el pago correspondiente. 
-      Si ya has realizado el abono o tienes alguna duda, por favor ignora este mensaje o contáctanos directamente.
-    </p>
-  `;
+      Este saldo incluye <strong>${invoice.currency} ${lateFees.toFixed(2)}</strong> en intereses por mora según nuestras condiciones de pago.
+    </p>` : '') + (overdueInstallments.length > 0 ? `
+    <p style="color: #334155; font-size: 16px; line-height: 1.6; margin-bottom: 24px;">
+      Cuotas vencidas de tu plan de pagos:<br>
+      ${overdueInstallments.map(s => `${formatInstallmentLabel(s)} (vencida el ${s.dueDate.toLocaleDateString('es-PA', { day: 'numeric', month: 'long', year: 'numeric' })}): <strong>${invoice.currency} ${s.remaining.toFixed(2)}</strong>`).join('<br>')}
+    </p>` : '');
 
-    // We can reuse generateDocumentHtml but customize the body or create a new one.
-    // For simplicity and consistency, I'll use a modified version of the document HTML.
-    const htmlContent = generateReminderHtml(invoice, issuer, reminderMessage);
+    const htmlContent = generateReminderHtml(invoice, issuer, reminderMessage, balance, lateFees);
 
-    const result = await sendEmail({
+    return mailer.send({
         to: invoice.clientEmail!,
         cc: issuer.email,
         subject: subject,
         html: htmlContent,
         senderName: issuer.legalName || issuer.name,
     });
-
-    return result.success;
 };
 
-const generateReminderHtml = (invoice: Invoice, issuer: UserProfile, message: string): string => {
+const generateReminderHtml = (invoice: Invoice, issuer: UserProfile, message: string, balance: number, lateFees: number): string => {
     const color = issuer.branding?.primaryColor || '#1c2938';
     return `
 <!DOCTYPE html>
@@ -154,10 +387,13 @@ const generateReminderHtml = (invoice: Invoice, issuer: UserProfile, message: st
                             <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="background-color: #f8fafc; border-radius: 12px; border: 1px solid #e2e8f0;">
                                 <tr>
                                     <td style="padding: 24px; text-align: center;">
-                                        <p style="color: #64748b; font-size: 12px; text-transform: uppercase; font-weight: 700; margin: 0 0 8px 0;">Saldo Pendiente</p>
+                                        <p style="color: #64748b; font-size: 12px; text-transform: uppercase; font-weight: 700; margin: 0 0 8px 0;">${hasInstallmentPlan(invoice) ? 'Saldo Vencido' : 'Saldo Pendiente'}</p>
                                         <p style="color: #1c2938; font-size: 32px; font-weight: 800; margin: 0;">
-                                            ${invoice.currency} ${(invoice.total - (invoice.amountPaid || 0)).toLocaleString('es-ES', { minimumFractionDigits: 2 })}
-                                        </p>
+                                            ${invoice.currency} ${balance.toLocaleString('es-ES', { minimumFractionDigits: 2 })}
+                                        </p>${lateFees > 0 ? `
+                                        <p style="color: #b45309; font-size: 13px; font-weight: 700; margin: 8px 0 0 0;">
+                                            Incluye intereses por mora: ${invoice.currency} ${lateFees.toLocaleString('es-ES', { minimumFractionDigits: 2 })}
+                                        </p>` : ''}
                                     </td>
                                 </tr>
                             </table>
@@ -0,0 +1,196 @@
+import { Invoice, TaxFiling, UserProfile } from '../types';
+import { generateFiscalDeadlines, toDateKey, DEADLINE_STATUS_LABELS } from './fiscalCalendarService';
+import { getOpenBalance } from './creditNoteService';
+
+/**
+ * ICALENDAR FEED (RFC 5545)
+ * Subscription feed for Google Calendar / Outlook with all-day events for:
+ *  - FISCAL: deadlines from the fiscal calendar engine.
+ *  - INVOICES: due dates of open invoices.
+ *  - QUOTES: expiration ("Válida hasta") of quotes still awaiting an answer.
+ * UIDs are derived from the deadline/document id, so calendar clients replace an
+ * event on refresh instead of duplicating it. Items that no longer apply (paid
+ * invoices, answered quotes) drop out of the feed and are removed by the client.
+ */
+
+export type CalendarFeedCategory = 'FISCAL' | 'INVOICES' | 'QUOTES';
+
+export const CALENDAR_FEED_CATEGORIES: CalendarFeedCategory[] = ['FISCAL', 'INVOICES', 'QUOTES'];
+
+export const CALENDAR_FEED_CATEGORY_LABELS: Record<CalendarFeedCategory, string> = {
+  FISCAL: 'Vencimientos fiscales',
+  INVOICES: 'Vencimiento de facturas',
+  QUOTES: 'Expiración de cotizaciones'
+};
+
+export interface IcsEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD, all-day event
+  summary: string;
+  description?: string;
+  category: CalendarFeedCategory;
+  alarmDaysBefore?: number;
+}
+
+const UID_DOMAIN = 'konsulbills';
+const OPEN_INVOICE_STATUSES = ['Creada', 'Enviada', 'Seguimiento', 'Abonada'];
+const PENDING_QUOTE_STATUSES = ['Creada', 'Enviada', 'Seguimiento', 'Negociacion'];
+
+/**
+ * Parses the `categories` query parameter ("fiscal,invoices"). Unknown values are
+ * ignored; an empty selection means every category.
+ */
+export const parseFeedCategories = (value?: string | string[]): CalendarFeedCategory[] => {
+  const raw = (Array.isArray(value) ? value.join(',') : value || '').split(',');
+  const selected = CALENDAR_FEED_CATEGORIES.filter(c => raw.some(r => r.trim().toUpperCase() === c));
+  return selected.length > 0 ? selected : CALENDAR_FEED_CATEGORIES;
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Content lines longer than 75 octets are folded with CRLF + space (RFC 5545 §3.1)
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const compactDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+const formatTimestamp = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const renderIcsCalendar = (calendarName: string, events: IcsEvent[], now: Date = new Date()): string => {
+  const stamp = formatTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//KonsulBills//Calendario Fiscal//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:America/Panama',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H'
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(event.date)}`,
+      `DTEND;VALUE=DATE:${nextDay(event.date)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `CATEGORIES:${event.category}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.alarmDaysBefore !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-P${event.alarmDaysBefore}D`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Events of one taxpayer for the selected categories, with due dates in [from, to].
+ */
+export const buildCalendarFeedEvents = (
+  profile: Pick<UserProfile, 'id' | 'name' | 'fiscalConfig'>,
+  documents: Invoice[],
+  filings: TaxFiling[],
+  categories: CalendarFeedCategory[],
+  from: Date,
+  to: Date,
+  today: Date = new Date()
+): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const inRange = (date?: string) => !!date && date.slice(0, 10) >= fromKey && date.slice(0, 10) <= toKey;
+
+  if (categories.includes('FISCAL')) {
+    generateFiscalDeadlines(profile, filings, from, to, today).forEach(d => {
+      events.push({
+        uid: `${d.id}@${UID_DOMAIN}`,
+        date: d.dueDate,
+        summary: `${d.status === 'FILED' ? '✓ ' : ''}${d.title} · ${d.companyName}`,
+        description: `${d.description}\nEstado: ${DEADLINE_STATUS_LABELS[d.status]}`,
+        category: 'FISCAL',
+        alarmDaysBefore: d.status === 'FILED' ? undefined : 3
+      });
+    });
+  }
+
+  if (categories.includes('INVOICES')) {
+    documents
+      .filter(d => d.type === 'Invoice' && OPEN_INVOICE_STATUSES.includes(d.status) && inRange(d.dueDate))
+      .forEach(inv => {
+        events.push({
+          uid: `invoice-${profile.id}-${inv.id}@${UID_DOMAIN}`,
+          date: inv.dueDate!,
+          summary: `Vence factura #${inv.id} · ${inv.clientName}`,
+          description: `Saldo pendiente: ${inv.currency} ${getOpenBalance(inv, documents).toFixed(2)} de ${inv.total.toFixed(2)}`,
+          category: 'INVOICES'
+        });
+      });
+  }
+
+  if (categories.includes('QUOTES')) {
+    documents
+      .filter(d => d.type === 'Quote' && PENDING_QUOTE_STATUSES.includes(d.status) && inRange(d.dueDate))
+      .forEach(quote => {
+        events.push({
+          uid: `quote-${profile.id}-${quote.id}@${UID_DOMAIN}`,
+          date: quote.dueDate!,
+          summary: `Expira cotización #${quote.id} · ${quote.clientName}`,
+          description: `Monto cotizado: ${quote.currency} ${quote.total.toFixed(2)}`,
+          category: 'QUOTES'
+        });
+      });
+  }
+
+  return events.sort((a, b) => a.date.localeCompare(b.date) || a.uid.localeCompare(b.uid));
+};
+
+/**
+ * Subscription URL for a company feed. The API key travels in the query string
+ * because calendar clients cannot send headers.
+ */
+export const buildCalendarFeedUrl = (origin: string, apiKey: string, companyId: string, categories: CalendarFeedCategory[]): string => {
+  const params = new URLSearchParams({ api_key: apiKey, companyId });
+  if (categories.length > 0 && categories.length < CALENDAR_FEED_CATEGORIES.length) {
+    params.set('categories', categories.map(c => c.toLowerCase()).join(','));
+  }
+  return `${origin}/api/v1/calendar.ics?${params.toString()}`;
+};
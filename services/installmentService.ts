@@ -0,0 +1,140 @@
+import { Invoice, InstallmentFrequency, PaymentInstallment } from '../types';
+import { getAdjustmentTotals } from './creditNoteService';
+
+/**
+ * INSTALLMENT PLANS (PAGO EN CUOTAS)
+ * An invoice can be split into dated installments. Installments store only what was agreed;
+ * what each one still owes is derived: payments (and credit notes) settle installments in
+ * due-date order, and anything added after the plan was made (late fees, debit notes, edits)
+ * is owed with the last installment.
+ */
+
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'PENDING' | 'OVERDUE';
+
+export interface InstallmentState {
+  installment: PaymentInstallment;
+  number: number; // 1-based
+  count: number;
+  amount: number; // Agreed amount, plus later charges on the last installment
+  paid: number;
+  remaining: number;
+  dueDate: Date; // Local midnight
+  status: InstallmentStatus;
+  daysOverdue: number; // 0 unless overdue
+}
+
+export const INSTALLMENT_FREQUENCY_LABELS: Record<InstallmentFrequency, string> = {
+  WEEKLY: 'Semanal',
+  BIWEEKLY: 'Quincenal',
+  MONTHLY: 'Mensual'
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const parseDateKey = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.slice(0, 10).split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Monthly plans keep the day of month, clamped to short months (Jan 31 -> Feb 28)
+const addPeriods = (start: Date, frequency: InstallmentFrequency, periods: number): Date => {
+  if (frequency === 'WEEKLY') return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7 * periods);
+  if (frequency === 'BIWEEKLY') return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 14 * periods);
+  const lastDay = new Date(start.getFullYear(), start.getMonth() + periods + 1, 0).getDate();
+  return new Date(start.getFullYear(), start.getMonth() + periods, Math.min(start.getDate(), lastDay));
+};
+
+export const hasInstallmentPlan = (invoice: Invoice): boolean =>
+  invoice.type === 'Invoice' && (invoice.installments?.length || 0) > 1;
+
+/**
+ * Equal installments from `firstDueDate`; the rounding difference goes to the last one.
+ */
+export const buildInstallmentPlan = (
+  total: number,
+  count: number,
+  firstDueDate: string,
+  frequency: InstallmentFrequency = 'MONTHLY'
+): PaymentInstallment[] => {
+  const n = Math.max(1, Math.floor(count));
+  const base = Math.floor((total / n) * 100) / 100;
+  const start = parseDateKey(firstDueDate);
+  return Array.from({ length: n }, (_, i) => ({
+    id: `cuota-${i + 1}`,
+    dueDate: toDateKey(addPeriods(start, frequency, i)),
+    amount: i === n - 1 ? round2(total - base * (n - 1)) : base
+  }));
+};
+
+/**
+ * First problem with a plan, or null when it can be saved.
+ */
+export const validateInstallmentPlan = (installments: PaymentInstallment[], total: number): string | null => {
+  if (installments.length < 2) return 'Un plan de pagos necesita al menos 2 cuotas.';
+  if (installments.some(i => !(i.amount > 0))) return 'Todas las cuotas deben tener un monto mayor a cero.';
+  if (installments.some(i => !/^\d{4}-\d{2}-\d{2}$/.test(i.dueDate))) return 'Todas las cuotas necesitan fecha de vencimiento.';
+  for (let i = 1; i < installments.length; i++) {
+    if (installments[i].dueDate <= installments[i - 1].dueDate) return 'Las fechas de las cuotas deben ser sucesivas.';
+  }
+  const sum = round2(installments.reduce((acc, i) => acc + i.amount, 0));
+  if (Math.abs(sum - total) > 0.01) return `Las cuotas suman ${sum.toFixed(2)} y la factura ${total.toFixed(2)}.`;
+  return null;
+};
+
+/**
+ * Every installment with what it still owes as of `today` (local midnight).
+ * Empty for invoices without a plan.
+ */
+export const getInstallmentSchedule = (
+  invoice: Invoice,
+  documents: Invoice[],
+  today: Date = new Date()
+): InstallmentState[] => {
+  if (!hasInstallmentPlan(invoice)) return [];
+  const plan = [...invoice.installments!].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const { credited, debited } = getAdjustmentTotals(invoice.id, documents);
+  const planned = plan.reduce((acc, i) => acc + i.amount, 0);
+  const extra = round2(invoice.total + debited - planned);
+  const day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+  let covered = round2((invoice.amountPaid || 0) + credited);
+  return plan.map((installment, index) => {
+    const amount = round2(installment.amount + (index === plan.length - 1 ? extra : 0));
+    const paid = round2(Math.max(0, Math.min(amount, covered)));
+    covered = round2(covered - paid);
+    const remaining = round2(amount - paid);
+    const dueDate = parseDateKey(installment.dueDate);
+    const daysLate = Math.round((day.getTime() - dueDate.getTime()) / DAY_MS);
+    const status: InstallmentStatus = remaining <= 0.01 ? 'PAID'
+      : daysLate > 0 ? 'OVERDUE'
+      : paid > 0.01 ? 'PARTIAL' : 'PENDING';
+    return {
+      installment,
+      number: index + 1,
+      count: plan.length,
+      amount,
+      paid,
+      remaining,
+      dueDate,
+      status,
+      daysOverdue: status === 'OVERDUE' ? daysLate : 0
+    };
+  });
+};
+
+export const getOverdueInstallments = (invoice: Invoice, documents: Invoice[], today: Date = new Date()): InstallmentState[] =>
+  getInstallmentSchedule(invoice, documents, today).filter(s => s.status === 'OVERDUE');
+
+/**
+ * Installment the client should pay next (the oldest one not fully paid).
+ */
+export const getNextInstallment = (invoice: Invoice, documents: Invoice[], today: Date = new Date()): InstallmentState | null =>
+  getInstallmentSchedule(invoice, documents, today).find(s => s.remaining > 0.01) || null;
+
+export const formatInstallmentLabel = (state: Pick<InstallmentState, 'number' | 'count'>): string =>
+  `Cuota ${state.number}/${state.count}`;
@@ -0,0 +1,109 @@
+import { InvoiceItem, ItbmsRateCode } from '../types';
+
+/**
+ * ITBMS RATE CATALOG (DGI Panamá)
+ * Each line carries a rate code; `InvoiceItem.tax` keeps the numeric percentage
+ * so existing totals logic keeps working. Exempt lines are reported apart from
+ * lines taxed at 0% (e.g. exports), as the F430 requires.
+ */
+
+export interface ItbmsRate {
+  code: ItbmsRateCode;
+  label: string;
+  rate: number; // Percentage
+  description: string;
+}
+
+export interface ItbmsBreakdownLine {
+  code: ItbmsRateCode;
+  label: string;
+  rate: number;
+  base: number; // Taxable base after discount
+  tax: number;
+}
+
+export const ITBMS_RATES: ItbmsRate[] = [
+  { code: 'TASA_7', label: 'ITBMS 7%', rate: 7, description: 'Tarifa general' },
+  { code: 'TASA_10', label: 'ITBMS 10%', rate: 10, description: 'Bebidas alcohólicas, hospedaje' },
+  { code: 'TASA_15', label: 'ITBMS 15%', rate: 15, description: 'Productos derivados del tabaco' },
+  { code: 'TASA_0', label: 'Tasa 0%', rate: 0, description: 'Gravado a tasa cero (exportaciones)' },
+  { code: 'EXENTO', label: 'Exento', rate: 0, description: 'Exento de ITBMS' }
+];
+
+export const DEFAULT_ITBMS_RATE_CODE: ItbmsRateCode = 'TASA_7';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const getItbmsRate = (code: ItbmsRateCode): ItbmsRate =>
+  ITBMS_RATES.find(r => r.code === code) || ITBMS_RATES[0];
+
+export const isItbmsRateCode = (value: any): value is ItbmsRateCode =>
+  ITBMS_RATES.some(r => r.code === value);
+
+/**
+ * Rate code of a line. Lines saved before the catalog existed only have `tax`
+ * (the old toggle wrote 7 or 0), so 0 maps to EXENTO.
+ */
+export const resolveItbmsRateCode = (item: Pick<InvoiceItem, 'tax' | 'taxRateCode'>): ItbmsRateCode => {
+  if (item.taxRateCode && isItbmsRateCode(item.taxRateCode)) return item.taxRateCode;
+  const legacy = ITBMS_RATES.find(r => r.rate > 0 && r.rate === Number(item.tax));
+  if (legacy) return legacy.code;
+  return Number(item.tax) > 0 ? DEFAULT_ITBMS_RATE_CODE : 'EXENTO';
+};
+
+/**
+ * Returns the line with both the code and the numeric `tax` set consistently.
+ */
+export const applyItbmsRate = <T extends InvoiceItem>(item: T, code: ItbmsRateCode): T => ({
+  ...item,
+  taxRateCode: code,
+  tax: getItbmsRate(code).rate
+});
+
+/**
+ * Per-rate subtotals. The document discount is spread proportionally over the
+ * lines, same as InvoiceWizard, so the sum of `tax` matches the document tax.
+ */
+export const calculateItbmsBreakdown = (items: InvoiceItem[], discountRate: number = 0): ItbmsBreakdownLine[] => {
+  const buckets = new Map<ItbmsRateCode, { base: number; tax: number }>();
+
+  items.forEach(item => {
+    const code = resolveItbmsRateCode(item);
+    const base = (Number(item.price) || 0) * (Number(item.quantity) || 0) * (1 - discountRate / 100);
+    const rate = getItbmsRate(code).rate;
+    const bucket = buckets.get(code) || { base: 0, tax: 0 };
+    bucket.base += base;
+    bucket.tax += base * (rate / 100);
+    buckets.set(code, bucket);
+  });
+
+  return ITBMS_RATES
+    .filter(r => buckets.has(r.code))
+    .map(r => {
+      const bucket = buckets.get(r.code)!;
+      return { code: r.code, label: r.label, rate: r.rate, base: round2(bucket.base), tax: round2(bucket.tax) };
+    });
+};
+
+/**
+ * Adds several breakdowns together (e.g. all invoices of a period).
+ * `sign` = -1 subtracts (credit notes).
+ */
+export const mergeItbmsBreakdowns = (
+  target: ItbmsBreakdownLine[],
+  source: ItbmsBreakdownLine[],
+  sign: 1 | -1 = 1
+): ItbmsBreakdownLine[] => {
+  const result = target.map(l => ({ ...l }));
+  source.forEach(line => {
+    const existing = result.find(l => l.code === line.code);
+    if (existing) {
+      existing.base = round2(existing.base + sign * line.base);
+      existing.tax = round2(existing.tax + sign * line.tax);
+    } else {
+      result.push({ ...line, base: round2(sign * line.base), tax: round2(sign * line.tax) });
+    }
+  });
+  const order = ITBMS_RATES.map(r => r.code);
+  return result.sort((a, b) => order.indexOf(a.code) - order.indexOf(b.code));
+};
@@ -0,0 +1,205 @@
+import { Invoice, InvoiceItem, LateFeePolicy, TimelineEvent } from '../types';
+import { calculateLateInterest } from './accountantService';
+import { buildDebitNote, buildChargeReversalCreditNote, getOpenBalance } from './creditNoteService';
+
+/**
+ * LATE FEES ON OVERDUE INVOICES
+ * Applies the user's LateFeePolicy once the grace period is over:
+ *  - Simple interest on the overdue principal from the due date, plus a one-off flat fee,
+ *    both limited by `maxAmount`.
+ *  - Charged as an interest line on the invoice (LINE) or as debit notes (DEBIT_NOTE).
+ *    Invoices already issued as Factura Electrónica always use debit notes, their lines
+ *    can no longer change.
+ * Charges are marked with `lateFee` on the item, so what was already charged is always
+ * derived from the documents and never compounds.
+ */
+
+export interface LateFeeAccrual {
+  daysOverdue: number;
+  principal: number; // Open balance excluding late fees
+  interest: number;
+  flatFee: number;
+  accrued: number; // Interest + flat fee, capped
+  charged: number; // Already on the invoice or its debit notes
+  pending: number; // Still to be charged
+}
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  enabled: false,
+  annualInterestRate: 10,
+  graceDays: 5,
+  flatFee: 0,
+  method: 'LINE'
+};
+
+// Charges are applied at most once per interval to avoid a debit note (or timeline entry) per day
+export const LATE_FEE_APPLICATION_INTERVAL_DAYS = 30;
+
+const LATE_FEE_LINE_ID = 'late-fee';
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isEffective = (doc: Invoice) => doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+const lateFeeAmount = (items: InvoiceItem[], discountRate: number = 0) =>
+  items.filter(i => i.lateFee).reduce((acc, i) => acc + i.price * i.quantity * (1 - discountRate / 100), 0);
+
+/**
+ * Due date used by the follow-up engine: explicit `dueDate`, otherwise issue date + payment terms.
+ */
+export const getInvoiceDueDate = (invoice: Invoice, paymentTermsDays: number = 30): Date => {
+  // Calendar date as written on the document, at local midnight
+  const [y, m, d] = (invoice.dueDate || invoice.date).slice(0, 10).split('-').map(Number);
+  return new Date(y, m - 1, d + (invoice.dueDate ? 0 : paymentTermsDays));
+};
+
+/**
+ * Late fees charged so far: the interest line plus late-fee debit notes, net of reversals.
+ */
+export const getChargedLateFees = (invoice: Invoice, documents: Invoice[]): number => {
+  const notes = documents.filter(d => d.referenceInvoiceId === invoice.id && isEffective(d));
+  const debited = notes.filter(n => n.type === 'DebitNote').reduce((acc, n) => acc + lateFeeAmount(n.items), 0);
+  const reversed = notes.filter(n => n.type === 'CreditNote').reduce((acc, n) => acc + lateFeeAmount(n.items), 0);
+  return round2(lateFeeAmount(invoice.items, invoice.discountRate) + debited - reversed);
+};
+
+export const calculateLateFeeAccrual = (
+  invoice: Invoice,
+  documents: Invoice[],
+  policy: LateFeePolicy,
+  dueDate: Date,
+  today: Date = new Date()
+): LateFeeAccrual => {
+  const charged = getChargedLateFees(invoice, documents);
+  const principal = round2(Math.max(0, getOpenBalance(invoice, documents) - charged));
+  const daysOverdue = Math.max(0, Math.round((today.getTime() - dueDate.getTime()) / DAY_MS));
+  const empty = { daysOverdue, principal, interest: 0, flatFee: 0, accrued: charged, charged, pending: 0 };
+
+  if (!policy.enabled || invoice.lateFeeWaived || principal <= 0 || daysOverdue <= policy.graceDays) return empty;
+
+  const interest = calculateLateInterest(principal, dueDate, today, policy.annualInterestRate / 100);
+  const flatFee = policy.flatFee || 0;
+  const uncapped = interest + flatFee;
+  const accrued = round2(policy.maxAmount !== undefined && policy.maxAmount > 0 ? Math.min(policy.maxAmount, uncapped) : uncapped);
+
+  return { daysOverdue, principal, interest, flatFee, accrued, charged, pending: round2(Math.max(0, accrued - charged)) };
+};
+
+/**
+ * Whether the engine may charge again: first time, or after the application interval.
+ */
+export const isLateFeeApplicationDue = (invoice: Invoice, today: Date = new Date()): boolean =>
+  !invoice.lateFeeAppliedAt
+  || (today.getTime() - new Date(invoice.lateFeeAppliedAt).getTime()) / DAY_MS >= LATE_FEE_APPLICATION_INTERVAL_DAYS;
+
+export const usesLateFeeDebitNotes = (invoice: Invoice, policy: LateFeePolicy): boolean =>
+  policy.method === 'DEBIT_NOTE' || !!invoice.electronicInvoice;
+
+const describeAccrual = (accrual: LateFeeAccrual, policy: LateFeePolicy) =>
+  `${accrual.daysOverdue} días de mora al ${policy.annualInterestRate}% anual${accrual.flatFee > 0 ? ` + cargo fijo ${accrual.flatFee.toFixed(2)}` : ''}`;
+
+export const createLateFeeTimelineEvent = (title: string, description: string): TimelineEvent => ({
+  id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  type: 'LATE_FEE',
+  title,
+  description,
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Sets the interest line to the full accrued amount (replacing the previous one) and
+ * adjusts the invoice total accordingly.
+ */
+export const applyLateFeeLine = (invoice: Invoice, accrual: LateFeeAccrual, policy: LateFeePolicy, now: Date = new Date()): Invoice => {
+  const discountFactor = 1 - (invoice.discountRate || 0) / 100;
+  const previous = lateFeeAmount(invoice.items, invoice.discountRate);
+  const line: InvoiceItem = {
+    id: LATE_FEE_LINE_ID,
+    description: 'Intereses por mora',
+    details: describeAccrual(accrual, policy),
+    quantity: 1,
+    // Grossed up so the invoice discount does not reduce the charge
+    price: round2(accrual.accrued / discountFactor),
+    tax: 0,
+    taxRateCode: 'EXENTO',
+    lateFee: true
+  };
+
+  return {
+    ...invoice,
+    items: [...invoice.items.filter(i => !i.lateFee), line],
+    total: round2(invoice.total - previous + accrual.accrued),
+    lateFeeAppliedAt: now.toISOString(),
+    timeline: [
+      ...(invoice.timeline || []),
+      createLateFeeTimelineEvent(
+        `Intereses por mora: +${invoice.currency} ${accrual.pending.toFixed(2)}`,
+        `Total intereses ${invoice.currency} ${accrual.accrued.toFixed(2)} (${describeAccrual(accrual, policy)}).`
+      )
+    ]
+  };
+};
+
+export const buildLateFeeDebitNote = (invoice: Invoice, accrual: LateFeeAccrual, policy: LateFeePolicy, id: string): Invoice =>
+  buildDebitNote(invoice, {
+    id,
+    reason: 'Intereses por mora',
+    items: [{
+      id: `${LATE_FEE_LINE_ID}-${Date.now()}`,
+      description: 'Intereses por mora',
+      details: describeAccrual(accrual, policy),
+      quantity: 1,
+      price: accrual.pending,
+      tax: 0,
+      taxRateCode: 'EXENTO',
+      lateFee: true
+    }]
+  });
+
+/**
+ * Waives late fees on `invoice`: no further charges, the interest line is removed and,
+ * when charges went out as debit notes, a credit note reversing them is returned.
+ */
+export const waiveLateFees = (
+  invoice: Invoice,
+  documents: Invoice[],
+  creditNoteId?: string
+): { invoice: Invoice; creditNote?: Invoice } => {
+  const lineAmount = round2(lateFeeAmount(invoice.items, invoice.discountRate));
+  const noteAmount = round2(getChargedLateFees(invoice, documents) - lineAmount);
+
+  const creditNote = noteAmount > 0 && creditNoteId
+    ? buildChargeReversalCreditNote(invoice, {
+      id: creditNoteId,
+      reason: 'Condonación de intereses por mora',
+      items: [{
+        id: `${LATE_FEE_LINE_ID}-waiver`,
+        description: 'Condonación de intereses por mora',
+        quantity: 1,
+        price: noteAmount,
+        tax: 0,
+        taxRateCode: 'EXENTO',
+        lateFee: true
+      }]
+    })
+    : undefined;
+
+  const waived = round2(lineAmount + (creditNote ? noteAmount : 0));
+  return {
+    invoice: {
+      ...invoice,
+      items: invoice.items.filter(i => !i.lateFee),
+      total: round2(invoice.total - lineAmount),
+      lateFeeWaived: true,
+      timeline: [
+        ...(invoice.timeline || []),
+        createLateFeeTimelineEvent(
+          'Intereses por mora condonados',
+          waived > 0 ? `Se condonaron ${invoice.currency} ${waived.toFixed(2)}. No se aplicarán nuevos cargos.` : 'No se aplicarán cargos por mora a esta factura.'
+        )
+      ]
+    },
+    creditNote
+  };
+};
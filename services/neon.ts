@@ -1,7 +1,12 @@
 
 import { Client } from '@neondatabase/serverless';
-import { Invoice, UserProfile, DbClient, DbProvider, CatalogItem, PaymentIntegration } from '../types';
+import { Invoice, UserProfile, DbClient, DbProvider, CatalogItem, TaxFiling, BankTransaction } from '../types';
 import bcrypt from 'bcryptjs';
+import type { ContribuyenteDGI } from './dgiService';
+import { PAYMENT_SECRET_FIELDS, maskPaymentSecrets } from './paymentSecretService';
+import { ensureDocumentSequencesTable, allocateDocumentId } from './documentSequenceStore';
+import { getImmutableViolation } from './documentVersionService';
+import type { NumberedDocumentType } from './documentNumberingService';
 
 // Monkey-patch Client.connect to support automatic retries when database is waking up
 const originalConnect = Client.prototype.connect;
@@ -34,10 +39,11 @@ Client.prototype.connect = async function (this: any, callback?: any) {
 
 const getDbClient = () => {
   try {
-    const url = process.env.DATABASE_URL;
+    // The browser bundle only receives VITE_DATABASE_URL (see vite.config.ts)
+    const url = process.env.VITE_DATABASE_URL || process.env.DATABASE_URL;
 
     if (!url) {
-      console.warn("DATABASE_URL environment variable is not set.");
+      console.warn("VITE_DATABASE_URL environment variable is not set.");
       return null;
     }
 
@@ -154,6 +160,8 @@ const mapUserRowToProfile = (row: any): UserProfile => {
     renewalDate: row.renewal_date || profileSettings.renewalDate,
 
     ...profileSettings, // Spread the rest (branding, apiKeys, etc.)
+    // Gateway keys: masks only (legacy plaintext copies are moved server-side)
+    ...(profileSettings.paymentIntegration ? { paymentIntegration: maskPaymentSecrets(profileSettings.paymentIntegration) } : {}),
     managedUserIds: row.managed_user_ids || profileSettings.managedUserIds || [],
     isAccountant: row.type === 'ACCOUNTANT' || !!profileSettings.isAccountant,
     isOnboardingComplete: true
@@ -406,6 +414,19 @@ export const updateUserProfileInDb = async (profile: UserProfile): Promise<boole
       console.warn("Saving profile without fiscalConfig - checks might fail later.");
     }
 
+    // The browser only holds masked gateway keys: keep any stored plaintext copy until
+    // the server moves it into the secret store, and never write one from here
+    if (profileData.paymentIntegration) {
+      const { rows } = await client.query(`SELECT profile_data->'paymentIntegration' AS integration FROM users WHERE id = $1`, [profile.id]);
+      const stored = rows[0]?.integration || {};
+      const integration = { ...profileData.paymentIntegration };
+      PAYMENT_SECRET_FIELDS.forEach(field => {
+        if (stored[field]) integration[field] = stored[field];
+        else delete integration[field];
+      });
+      profileData.paymentIntegration = integration;
+    }
+
     const dbType = profile.type === 'Contador Público / Firma' ? 'ACCOUNTANT' :
       (profile.type || '').includes('Empresa') ? 'COMPANY' : 'FREELANCE';
 
@@ -492,6 +513,7 @@ export const fetchCatalogItemsFromDb = async (userId: string): Promise<CatalogIt
       await client.query(`ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS description TEXT;`);
       await client.query(`ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS cost NUMERIC;`);
       await client.query(`ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();`);
+      await client.query(`ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS tax_rate_code TEXT;`);
     } catch (migError) {
       // Ignore errors if columns already exist or generic warnings
       console.log("Catalog Schema Check: OK");
@@ -507,7 +529,8 @@ export const fetchCatalogItemsFromDb = async (userId: string): Promise<CatalogIt
       cost: row.cost ? parseFloat(row.cost) : undefined,
       description: row.description,
       isRecurring: row.is_recurring,
-      sku: row.sku
+      sku: row.sku,
+      taxRateCode: row.tax_rate_code || undefined
     }));
   } catch (error) {
     console.error("Fetch Catalog Error:", error);
@@ -524,8 +547,8 @@ export const saveCatalogItemToDb = async (item: CatalogItem, userId: string): Pr
     await client.connect();
 
     const query = `
-      INSERT INTO catalog_items (id, user_id, name, price, cost, description, is_recurring, sku, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+      INSERT INTO catalog_items (id, user_id, name, price, cost, description, is_recurring, sku, tax_rate_code, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
       ON CONFLICT (id) DO UPDATE SET 
         name = EXCLUDED.name,
         price = EXCLUDED.price,
@@ -533,6 +556,7 @@ export const saveCatalogItemToDb = async (item: CatalogItem, userId: string): Pr
         description = EXCLUDED.description,
         is_recurring = EXCLUDED.is_recurring,
         sku = EXCLUDED.sku,
+        tax_rate_code = EXCLUDED.tax_rate_code,
         updated_at = NOW();
     `;
 
@@ -544,7 +568,8 @@ export const saveCatalogItemToDb = async (item: CatalogItem, userId: string): Pr
       item.cost !== undefined ? item.cost : null,
       item.description || null,
       item.isRecurring || false,
-      item.sku || null
+      item.sku || null,
+      item.taxRateCode || null
     ]);
 
     await client.end();
@@ -696,16 +721,18 @@ export const fetchClientsFromDb = async (userId: string): Promise<DbClient[]> =>
       ALTER TABLE prospects ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
       
       ALTER TABLE clients ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS dunning_sequence_id TEXT;
+      ALTER TABLE prospects ADD COLUMN IF NOT EXISTS dunning_sequence_id TEXT;
     `);
 
     // 2. Fetch Separately to isolate potential table errors
     const clientsRes = await client.query(
-      `SELECT id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, 'CLIENT' as status FROM clients WHERE user_id = $1`,
+      `SELECT id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, dunning_sequence_id, 'CLIENT' as status FROM clients WHERE user_id = $1`,
       [userId]
     );
 
     const prospectsRes = await client.query(
-      `SELECT id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, 'PROSPECT' as status FROM prospects WHERE user_id = $1`,
+      `SELECT id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, dunning_sequence_id, 'PROSPECT' as status FROM prospects WHERE user_id = $1`,
       [userId]
     );
 
@@ -723,6 +750,7 @@ export const fetchClientsFromDb = async (userId: string): Promise<DbClient[]> =>
       tags: row.tags,
       notes: row.notes,
       stripeCustomerId: row.stripe_customer_id,
+      dunningSequenceId: row.dunning_sequence_id || undefined,
       status: (row.status || 'PROSPECT') as 'CLIENT' | 'PROSPECT'
     }));
 
@@ -857,8 +885,8 @@ export const saveClientToDb = async (clientData: DbClient, userId: string, statu
       // --- CASE 1: IT IS A CLIENT (Invoice Created) ---
       // 1. Insert/Update into CLIENTS table
       const upsertClient = `
-            INSERT INTO clients (id, user_id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, updated_at)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+            INSERT INTO clients (id, user_id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, dunning_sequence_id, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
             ON CONFLICT (id) DO UPDATE SET 
               name = EXCLUDED.name,
               tax_id = COALESCE(EXCLUDED.tax_id, clients.tax_id),
@@ -868,10 +896,11 @@ export const saveClientToDb = async (clientData: DbClient, userId: string, statu
               tags = EXCLUDED.tags,
               notes = EXCLUDED.notes,
               stripe_customer_id = EXCLUDED.stripe_customer_id,
+              dunning_sequence_id = EXCLUDED.dunning_sequence_id,
               updated_at = NOW();
         `;
       await clientDb.query(upsertClient, [
-        id, userId, clientData.name, clientData.taxId || null, clientData.email || null, clientData.address || null, clientData.phone || null, parsedTags, clientData.notes || null, clientData.stripeCustomerId || null
+        id, userId, clientData.name, clientData.taxId || null, clientData.email || null, clientData.address || null, clientData.phone || null, parsedTags, clientData.notes || null, clientData.stripeCustomerId || null, clientData.dunningSequenceId || null
       ]);
 
       // 2. Remove from PROSPECTS if it existed there (Promotion Logic)
@@ -892,15 +921,16 @@ export const saveClientToDb = async (clientData: DbClient, userId: string, statu
                   address = COALESCE($3, address),
                   phone = COALESCE($4, phone),
                   stripe_customer_id = COALESCE($5, stripe_customer_id),
+                  dunning_sequence_id = COALESCE($6, dunning_sequence_id),
                   updated_at = NOW()
-                WHERE id = $6
+                WHERE id = $7
              `;
-        await clientDb.query(updateClient, [clientData.taxId || null, clientData.email || null, clientData.address || null, clientData.phone || null, clientData.stripeCustomerId || null, id]);
+        await clientDb.query(updateClient, [clientData.taxId || null, clientData.email || null, clientData.address || null, clientData.phone || null, clientData.stripeCustomerId || null, clientData.dunningSequenceId || null, id]);
       } else {
         // 2. Not a client, Insert/Update into PROSPECTS table
         const upsertProspect = `
-                INSERT INTO prospects (id, user_id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, updated_at)
-                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+                INSERT INTO prospects (id, user_id, name, tax_id, email, address, phone, tags, notes, stripe_customer_id, dunning_sequence_id, updated_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
                 ON CONFLICT (id) DO UPDATE SET 
                   name = EXCLUDED.name,
                   tax_id = COALESCE(EXCLUDED.tax_id, prospects.tax_id),
@@ -910,10 +940,11 @@ export const saveClientToDb = async (clientData: DbClient, userId: string, statu
                   tags = COALESCE(EXCLUDED.tags, prospects.tags),
                   notes = COALESCE(EXCLUDED.notes, prospects.notes),
                   stripe_customer_id = COALESCE(EXCLUDED.stripe_customer_id, prospects.stripe_customer_id),
+                  dunning_sequence_id = EXCLUDED.dunning_sequence_id,
                   updated_at = NOW();
             `;
         await clientDb.query(upsertProspect, [
-          id, userId, clientData.name, clientData.taxId || null, clientData.email || null, clientData.address || null, clientData.phone || null, parsedTags, clientData.notes || null, clientData.stripeCustomerId || null
+          id, userId, clientData.name, clientData.taxId || null, clientData.email || null, clientData.address || null, clientData.phone || null, parsedTags, clientData.notes || null, clientData.stripeCustomerId || null, clientData.dunningSequenceId || null
         ]);
       }
     }
@@ -1064,6 +1095,27 @@ export const saveClientToDb = async (clientData: DbClient, userId: string, statu
   }
 };
 
+/**
+ * DOCUMENT NUMBERING
+ * Ids of new documents come from the shared counters (documentSequenceStore.ts), never from
+ * the invoices loaded in this tab. Null when the database cannot be reached.
+ */
+export const allocateDocumentIdInDb = async (userId: string, type: NumberedDocumentType, date: string = new Date().toISOString()): Promise<string | null> => {
+  const client = getDbClient();
+  if (!client) return null;
+
+  try {
+    await client.connect();
+    await ensureDocumentSequencesTable(client);
+    const id = await allocateDocumentId(client, userId, type, date);
+    await client.end();
+    return id;
+  } catch (error) {
+    console.error("Neon Allocate Document Id Error:", error);
+    return null;
+  }
+};
+
 /**
  * SAVE DOCUMENT
  */
@@ -1095,11 +1147,20 @@ export const saveInvoiceToDb = async (invoice: Invoice): Promise<boolean> => {
         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         ON CONFLICT (id) DO UPDATE SET 
           provider_name = EXCLUDED.provider_name, total = EXCLUDED.total, date = EXCLUDED.date, 
-          category = EXCLUDED.category, receipt_url = EXCLUDED.receipt_url, data = EXCLUDED.data;
+          category = EXCLUDED.category, receipt_url = EXCLUDED.receipt_url, status = EXCLUDED.status, data = EXCLUDED.data;
       `;
       const category = invoice.items[0]?.description || 'General';
       await client.query(query, [invoice.id, invoice.clientName, invoice.date, invoice.total, invoice.currency, category, invoice.receiptUrl, invoice.status, JSON.stringify(invoice)]);
     } else {
+      // Issued documents only change through a new version
+      const stored = await client.query(`SELECT data FROM invoices WHERE id = $1`, [invoice.id]);
+      const violation = stored.rows[0]?.data ? getImmutableViolation(stored.rows[0].data, invoice) : null;
+      if (violation) {
+        console.error("Neon Save Invoice Rejected:", invoice.id, violation);
+        await client.end();
+        return false;
+      }
+
       const query = `
         INSERT INTO invoices (id, user_id, client_name, client_tax_id, total, status, date, type, data)
         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
@@ -1174,59 +1235,236 @@ export const deleteClientFromDb = async (id: string, userId: string): Promise<bo
 };
 
 /**
- * YAPPY CONECTOR HELPERS
+ * RUC LOOKUP CACHE
+ * Shared across users: taxpayer registry data is public.
  */
-export const getYappySecretByApiKey = async (apiKey: string): Promise<string | null> => {
+export const getCachedRucLookup = async (ruc: string): Promise<{ contribuyente: ContribuyenteDGI; source: string; fetchedAt: string } | null> => {
   const client = getDbClient();
   if (!client) return null;
 
   try {
     await client.connect();
-    // Search within profile_data JSONB
-    const query = `
-      SELECT profile_data->'paymentIntegration'->>'yappySecretKey' as secret 
-      FROM users 
-      WHERE profile_data->'paymentIntegration'->>'yappyApiKey' = $1
-      LIMIT 1
-    `;
-    const { rows } = await client.query(query, [apiKey]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ruc_lookup_cache (
+        ruc TEXT PRIMARY KEY,
+        data JSONB NOT NULL,
+        source TEXT NOT NULL,
+        fetched_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    const { rows } = await client.query(
+      'SELECT data, source, fetched_at FROM ruc_lookup_cache WHERE ruc = $1',
+      [ruc]
+    );
     await client.end();
 
-    if (rows.length > 0) {
-      return rows[0].secret || null;
-    }
-    return null;
+    if (rows.length === 0) return null;
+    return {
+      contribuyente: rows[0].data,
+      source: rows[0].source,
+      fetchedAt: new Date(rows[0].fetched_at).toISOString()
+    };
   } catch (error) {
-    console.error("Neon Get Yappy Secret Error:", error);
+    console.error("Neon Get RUC Cache Error:", error);
     return null;
   }
 };
 
-export const getYappyConfigByApiKey = async (apiKey: string): Promise<PaymentIntegration | null> => {
+export const saveRucLookupToCache = async (ruc: string, contribuyente: ContribuyenteDGI, source: string, fetchedAt: string): Promise<boolean> => {
   const client = getDbClient();
-  if (!client) return null;
+  if (!client) return false;
 
   try {
     await client.connect();
-    const query = `
-      SELECT profile_data->'paymentIntegration' as config 
-      FROM users 
-      WHERE profile_data->'paymentIntegration'->>'yappyApiKey' = $1
-      LIMIT 1
-    `;
-    const { rows } = await client.query(query, [apiKey]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ruc_lookup_cache (
+        ruc TEXT PRIMARY KEY,
+        data JSONB NOT NULL,
+        source TEXT NOT NULL,
+        fetched_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await client.query(`
+      INSERT INTO ruc_lookup_cache (ruc, data, source, fetched_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (ruc) DO UPDATE SET data = EXCLUDED.data, source = EXCLUDED.source, fetched_at = EXCLUDED.fetched_at
+    `, [ruc, JSON.stringify(contribuyente), source, fetchedAt]);
     await client.end();
+    return true;
+  } catch (error) {
+    console.error("Neon Save RUC Cache Error:", error);
+    return false;
+  }
+};
 
-    if (rows.length > 0) {
-      return rows[0].config || null;
+/**
+ * TAX FILINGS (F430...)
+ * One row per user, form and period with the status the user/accountant set.
+ */
+const ensureTaxFilingsTable = async (client: Client) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS tax_filings (
+      user_id TEXT NOT NULL,
+      form TEXT NOT NULL,
+      period TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'DRAFT',
+      data JSONB,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, form, period)
+    );
+  `);
+};
+
+export const fetchTaxFilingsFromDb = async (userId: string): Promise<TaxFiling[]> => {
+  const client = getDbClient();
+  if (!client) return [];
+
+  try {
+    await client.connect();
+    await ensureTaxFilingsTable(client);
+    const { rows } = await client.query(
+      'SELECT * FROM tax_filings WHERE user_id = $1 ORDER BY period DESC',
+      [userId]
+    );
+    await client.end();
+
+    return rows.map((row: any) => ({
+      ...(row.data || {}),
+      userId: row.user_id,
+      form: row.form,
+      period: row.period,
+      status: row.status,
+      updatedAt: new Date(row.updated_at).toISOString()
+    }));
+  } catch (error) {
+    console.error("Neon Fetch Tax Filings Error:", error);
+    return [];
+  }
+};
+
+export const saveTaxFilingToDb = async (filing: TaxFiling): Promise<boolean> => {
+  const client = getDbClient();
+  if (!client) return false;
+
+  try {
+    await client.connect();
+    await ensureTaxFilingsTable(client);
+    await client.query(`
+      INSERT INTO tax_filings (user_id, form, period, status, data, updated_at)
+      VALUES ($1, $2, $3, $4, $5, NOW())
+      ON CONFLICT (user_id, form, period) DO UPDATE SET status = EXCLUDED.status, data = EXCLUDED.data, updated_at = NOW()
+    `, [filing.userId, filing.form, filing.period, filing.status, JSON.stringify(filing)]);
+    await client.end();
+    return true;
+  } catch (error) {
+    console.error("Neon Save Tax Filing Error:", error);
+    return false;
+  }
+};
+
+const ensureBankTransactionsTable = async (client: Client) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS bank_transactions (
+      user_id TEXT NOT NULL,
+      id TEXT NOT NULL,
+      date DATE NOT NULL,
+      amount NUMERIC(12, 2) NOT NULL,
+      status TEXT NOT NULL DEFAULT 'UNMATCHED',
+      matched_document_id TEXT,
+      data JSONB,
+      imported_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, id)
+    );
+  `);
+};
+
+interface BankTransactionRow {
+  user_id: string;
+  id: string;
+  date: string;
+  amount: string;
+  status: BankTransaction['status'];
+  matched_document_id: string | null;
+  data: BankTransaction; // Always written on import
+  imported_at: string;
+}
+
+const mapBankTransactionRow = (row: BankTransactionRow): BankTransaction => ({
+  ...row.data,
+  id: row.id,
+  userId: row.user_id,
+  amount: parseFloat(row.amount),
+  status: row.status,
+  matchedDocumentId: row.matched_document_id || undefined
+});
+
+export const fetchBankTransactionsFromDb = async (userId: string): Promise<BankTransaction[]> => {
+  const client = getDbClient();
+  if (!client) return [];
+
+  try {
+    await client.connect();
+    await ensureBankTransactionsTable(client);
+    const { rows } = await client.query(
+      'SELECT * FROM bank_transactions WHERE user_id = $1 ORDER BY date DESC, imported_at DESC',
+      [userId]
+    );
+    await client.end();
+    return rows.map(mapBankTransactionRow);
+  } catch (error) {
+    console.error("Neon Fetch Bank Transactions Error:", error);
+    return [];
+  }
+};
+
+/**
+ * Inserts statement lines; lines already imported keep their reconciliation state.
+ * Returns the lines actually inserted.
+ */
+export const importBankTransactionsToDb = async (transactions: BankTransaction[]): Promise<BankTransaction[] | null> => {
+  const client = getDbClient();
+  if (!client) return null;
+
+  try {
+    await client.connect();
+    await ensureBankTransactionsTable(client);
+    const inserted: BankTransaction[] = [];
+    for (const tx of transactions) {
+      const { rows } = await client.query(`
+        INSERT INTO bank_transactions (user_id, id, date, amount, status, matched_document_id, data)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (user_id, id) DO NOTHING
+        RETURNING id
+      `, [tx.userId, tx.id, tx.date, tx.amount, tx.status, tx.matchedDocumentId || null, JSON.stringify(tx)]);
+      if (rows.length > 0) inserted.push(tx);
     }
-    return null;
+    await client.end();
+    return inserted;
   } catch (error) {
-    console.error("Neon Get Yappy Config Error:", error);
+    console.error("Neon Import Bank Transactions Error:", error);
     return null;
   }
 };
 
+export const updateBankTransactionInDb = async (tx: BankTransaction): Promise<boolean> => {
+  const client = getDbClient();
+  if (!client) return false;
+
+  try {
+    await client.connect();
+    await ensureBankTransactionsTable(client);
+    await client.query(`
+      UPDATE bank_transactions SET status = $3, matched_document_id = $4, data = $5
+      WHERE user_id = $1 AND id = $2
+    `, [tx.userId, tx.id, tx.status, tx.matchedDocumentId || null, JSON.stringify(tx)]);
+    await client.end();
+    return true;
+  } catch (error) {
+    console.error("Neon Update Bank Transaction Error:", error);
+    return false;
+  }
+};
+
 // Trigger Suite automation helper
 function triggerSuiteAutomation(appCode: string, triggerName: string, userId: string, data: any) {
   let suiteUrl = 'https://suite.konsul.digital';
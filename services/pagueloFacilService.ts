@@ -0,0 +1,412 @@
+import { Client } from '@neondatabase/serverless';
+import { Invoice, PaymentRecord, TimelineEvent, UserProfile } from '../types';
+import { getOpenBalance } from './creditNoteService';
+import { resolvePaymentStatus } from './clientCreditService';
+import { paymentApiHeaders } from './paymentSecretService';
+
+/**
+ * PAGUELOFACIL
+ * Payment links are created server-side (api/paguelofacil/link.js) with the merchant CCLW and
+ * registered in paguelofacil_links (link id, user, invoice, amount); the link id, invoice id and
+ * user id also travel as custom fields. After paying, PagueloFacil sends the customer to
+ * RETURN_URL (api/paguelofacil/callback.js) with our link id and the operation code (Oper); the
+ * callback looks the operation up with the merchant token and only settles it when it matches
+ * the registered link.
+ * PAGUELOFACIL_ENV selects the gateway: production (default), sandbox or mock. The mock is a
+ * local stand-in (api/paguelofacil/mock.js) so the whole flow runs without PagueloFacil.
+ */
+
+export type PagueloFacilEnv = 'production' | 'sandbox' | 'mock';
+
+const PAGUELOFACIL_HOSTS: Record<Exclude<PagueloFacilEnv, 'mock'>, string> = {
+  production: 'https://secure.paguelofacil.com',
+  sandbox: 'https://sandbox.paguelofacil.com'
+};
+
+export const MOCK_PAGUELOFACIL_FEE_RATE = 3.5;
+
+export interface PagueloFacilLinkRequest {
+  linkId: string;
+  amount: number;
+  description: string;
+  returnUrl: string;
+  invoiceId: string;
+  userId: string;
+  expiresInSeconds?: number;
+}
+
+export interface PagueloFacilLink {
+  url: string;
+  code: string;
+}
+
+export interface PagueloFacilTransaction {
+  operationCode: string;
+  status: 'APPROVED' | 'DECLINED';
+  amount: number;
+  fee?: number; // Card fee charged by PagueloFacil, when reported
+  cardType?: string;
+  linkId?: string;
+  invoiceId?: string;
+  userId?: string;
+  date: string;
+}
+
+export interface PagueloFacilLinkRecord {
+  linkId: string;
+  userId: string;
+  invoiceId: string;
+  amount: number;
+  status: string; // PENDING until an operation settles it, then PAID
+  operationCode?: string | null;
+  createdAt?: string;
+}
+
+interface PagueloFacilCustomFieldValue {
+  id?: string;
+  name?: string;
+  value?: string;
+}
+
+// MerchantTransactions row; field names vary between API versions
+export interface PagueloFacilTransactionRow {
+  codOper: string | number;
+  status: string | number;
+  amount?: string | number;
+  totalPay?: string | number;
+  commission?: string | number | null;
+  feeAmount?: string | number | null;
+  fee?: string | number | null;
+  cardType?: string;
+  customFieldValues?: PagueloFacilCustomFieldValue[];
+  customFields?: PagueloFacilCustomFieldValue[];
+  date?: string;
+  dateTms?: string;
+}
+
+interface PagueloFacilLinkResponse {
+  success?: boolean;
+  message?: string;
+  headerStatus?: { description?: string };
+  data?: { url?: string; code?: string };
+}
+
+interface PagueloFacilTransactionsResponse {
+  data?: PagueloFacilTransactionRow[];
+}
+
+export interface PagueloFacilGateway {
+  createLink: (request: PagueloFacilLinkRequest) => Promise<PagueloFacilLink>;
+  getTransaction: (operationCode: string) => Promise<PagueloFacilTransaction | null>;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * RETURN_URL and PF_CF travel hex-encoded (UTF-8 bytes).
+ */
+export const toHex = (value: string): string =>
+  Array.from(new TextEncoder().encode(value)).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+export const fromHex = (hex: string): string => {
+  const pairs = hex.match(/[0-9a-f]{2}/gi) || [];
+  return new TextDecoder().decode(new Uint8Array(pairs.map(p => parseInt(p, 16))));
+};
+
+/**
+ * Link de pago fields (LinkDeamon.cfm). Custom fields are returned with the transaction.
+ */
+export const buildPagueloFacilLinkForm = (cclw: string, request: PagueloFacilLinkRequest): URLSearchParams => {
+  const customFields = [
+    { id: 'linkId', nameOrLabel: 'Referencia', value: request.linkId },
+    { id: 'invoiceId', nameOrLabel: 'Factura', value: request.invoiceId },
+    { id: 'userId', nameOrLabel: 'Comercio', value: request.userId }
+  ];
+  return new URLSearchParams({
+    CCLW: cclw,
+    CMTN: request.amount.toFixed(2),
+    CDSC: request.description.slice(0, 150),
+    RETURN_URL: toHex(request.returnUrl),
+    PF_CF: toHex(JSON.stringify(customFields)),
+    EXPIRES_IN: String(request.expiresInSeconds || 3600)
+  });
+};
+
+const readCustomField = (row: PagueloFacilTransactionRow, id: string): string | undefined => {
+  const fields = row.customFieldValues || row.customFields || [];
+  const match = Array.isArray(fields) ? fields.find(f => f?.id === id || f?.name === id) : undefined;
+  return match?.value ?? undefined;
+};
+
+/**
+ * MerchantTransactions row -> transaction. Status 1 (or "Aprobada") is an approved charge.
+ */
+export const mapPagueloFacilTransaction = (row: PagueloFacilTransactionRow): PagueloFacilTransaction => {
+  const fee = row.commission ?? row.feeAmount ?? row.fee;
+  return {
+    operationCode: String(row.codOper),
+    status: String(row.status) === '1' || /aprobad|approved/i.test(String(row.status)) ? 'APPROVED' : 'DECLINED',
+    amount: round2(Number(row.amount ?? row.totalPay) || 0),
+    fee: fee !== undefined && fee !== null && !isNaN(Number(fee)) ? round2(Number(fee)) : undefined,
+    cardType: row.cardType || undefined,
+    linkId: readCustomField(row, 'linkId'),
+    invoiceId: readCustomField(row, 'invoiceId'),
+    userId: readCustomField(row, 'userId'),
+    date: row.date || row.dateTms || new Date().toISOString()
+  };
+};
+
+export const createHttpPagueloFacilGateway = (
+  env: Exclude<PagueloFacilEnv, 'mock'>,
+  cclw: string,
+  token: string
+): PagueloFacilGateway => {
+  const host = PAGUELOFACIL_HOSTS[env];
+  return {
+    createLink: async (request) => {
+      const res = await fetch(`${host}/LinkDeamon.cfm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: '*/*' },
+        body: buildPagueloFacilLinkForm(cclw, request).toString()
+      });
+      const json: PagueloFacilLinkResponse | null = await res.json().catch(() => null);
+      if (!res.ok || !json?.success || !json?.data?.url) {
+        throw new Error(json?.headerStatus?.description || json?.message || `PagueloFacil respondió ${res.status}`);
+      }
+      return { url: json.data.url, code: json.data.code || '' };
+    },
+    getTransaction: async (operationCode) => {
+      const query = new URLSearchParams({ conditional: `codOper::${operationCode}` });
+      const res = await fetch(`${host}/PFManagementServices/api/v1/MerchantTransactions?${query.toString()}`, {
+        headers: { authorization: token, 'Content-Type': 'application/json' }
+      });
+      if (!res.ok) {
+        throw new Error(`PagueloFacil respondió ${res.status}`);
+      }
+      const json: PagueloFacilTransactionsResponse = await res.json();
+      const row = Array.isArray(json?.data) ? json.data[0] : null;
+      return row ? mapPagueloFacilTransaction(row) : null;
+    }
+  };
+};
+
+// --- Mock gateway ---
+// Stateless: the link code is the hex-encoded link request and the operation code embeds it,
+// so createLink -> checkout -> getTransaction works across serverless invocations.
+
+const MOCK_OPER_PATTERN = /^MOCK-(APPROVED|DECLINED)-([0-9A-F]+)$/i;
+
+export const createMockPagueloFacilGateway = (baseUrl: string): PagueloFacilGateway => ({
+  createLink: async (request) => {
+    const code = toHex(JSON.stringify(request));
+    return { url: `${baseUrl}/api/paguelofacil/mock?code=${code}`, code };
+  },
+  getTransaction: async (operationCode) => {
+    const match = operationCode.match(MOCK_OPER_PATTERN);
+    if (!match) return null;
+    let request: PagueloFacilLinkRequest;
+    try {
+      request = JSON.parse(fromHex(match[2]));
+    } catch (e) {
+      return null;
+    }
+    return {
+      operationCode,
+      status: match[1].toUpperCase() as PagueloFacilTransaction['status'],
+      amount: round2(request.amount),
+      fee: round2(request.amount * MOCK_PAGUELOFACIL_FEE_RATE / 100),
+      cardType: 'VISA',
+      linkId: request.linkId,
+      invoiceId: request.invoiceId,
+      userId: request.userId,
+      date: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * What the mock checkout page does when the customer pays: the return URL with the
+ * query parameters PagueloFacil appends (Oper, Estado, TotalPagado, Tipo...).
+ */
+export const mockPagueloFacilCheckout = (code: string, approved: boolean = true): string => {
+  const request: PagueloFacilLinkRequest = JSON.parse(fromHex(code));
+  const params = new URLSearchParams({
+    Oper: `MOCK-${approved ? 'APPROVED' : 'DECLINED'}-${code}`,
+    Estado: approved ? 'Aprobada' : 'Denegada',
+    TotalPagado: approved ? request.amount.toFixed(2) : '0.00',
+    Tipo: 'VISA',
+    Fecha: new Date().toISOString().slice(0, 10),
+    Razon: approved ? 'Transacción aprobada' : 'Transacción denegada'
+  });
+  const separator = request.returnUrl.includes('?') ? '&' : '?';
+  return `${request.returnUrl}${separator}${params.toString()}`;
+};
+
+export const getPagueloFacilGateway = (
+  env: PagueloFacilEnv,
+  cclw: string,
+  token: string,
+  baseUrl: string
+): PagueloFacilGateway =>
+  env === 'mock' ? createMockPagueloFacilGateway(baseUrl) : createHttpPagueloFacilGateway(env, cclw, token);
+
+/**
+ * The operation was paid through this registered link: same link, merchant, invoice and amount.
+ * Operations without our custom fields never match.
+ */
+export const matchesPagueloFacilLink = (link: PagueloFacilLinkRecord, tx: PagueloFacilTransaction): boolean =>
+  tx.linkId === link.linkId &&
+  tx.userId === link.userId &&
+  tx.invoiceId === link.invoiceId &&
+  Math.abs(tx.amount - link.amount) <= 0.01;
+
+/**
+ * Invoice with the approved PagueloFacil charge applied, or null if it was declined or the
+ * operation is already recorded on any of the user's documents. The card fee is kept on the
+ * payment (estimated from gatewayFeeRate when PagueloFacil doesn't report it) so reports net it out.
+ */
+export const reconcilePagueloFacilPayment = (
+  invoice: Invoice,
+  documents: Invoice[],
+  tx: PagueloFacilTransaction,
+  gatewayFeeRate: number = 0,
+  now: Date = new Date()
+): Invoice | null => {
+  if (tx.status !== 'APPROVED' || !(tx.amount > 0)) return null;
+
+  const paymentId = `pf-${tx.operationCode}`;
+  if ([invoice, ...documents].some(d => d.payments?.some(p => p.id === paymentId))) return null;
+
+  const gatewayFee = tx.fee ?? (gatewayFeeRate > 0 ? round2(tx.amount * gatewayFeeRate / 100) : undefined);
+  const remaining = round2(getOpenBalance(invoice, documents) - tx.amount);
+  const currency = invoice.currency || 'USD';
+  const record: PaymentRecord = {
+    id: paymentId,
+    date: now.toISOString(),
+    amount: tx.amount,
+    method: 'Tarjeta',
+    currency,
+    notes: `PagueloFacil operación ${tx.operationCode}${tx.cardType ? ` (${tx.cardType})` : ''}`,
+    ...(gatewayFee !== undefined ? { gatewayFee } : {})
+  };
+  const event: TimelineEvent = {
+    id: `${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    type: 'PAID',
+    title: `Pago recibido por PagueloFacil: ${currency} ${tx.amount.toFixed(2)}`,
+    description: remaining > 0.01 ? `Resta: ${currency} ${remaining.toFixed(2)}` : 'Deuda saldada',
+    timestamp: now.toISOString()
+  };
+
+  const paid: Invoice = {
+    ...invoice,
+    amountPaid: round2((invoice.amountPaid || 0) + tx.amount),
+    payViaGateway: true,
+    payments: [...(invoice.payments || []), record],
+    timeline: [...(invoice.timeline || []), event]
+  };
+  return { ...paid, status: resolvePaymentStatus(paid, documents) };
+};
+
+/**
+ * Net amount of a payment for reporting: the recorded gateway fee when there is one,
+ * otherwise the configured rate for invoices paid through the gateway.
+ */
+export const getNetPaymentAmount = (payment: PaymentRecord, gatewayFeeRate: number, payViaGateway: boolean): number => {
+  if (payment.gatewayFee !== undefined) return payment.amount - payment.gatewayFee;
+  if (payViaGateway && gatewayFeeRate > 0) return payment.amount * (1 - gatewayFeeRate / 100);
+  return payment.amount;
+};
+
+// --- Link registry (Neon) ---
+
+interface PagueloFacilLinkRow {
+  link_id: string;
+  user_id: string;
+  invoice_id: string;
+  amount: string;
+  status: string;
+  operation_code: string | null;
+  created_at: string;
+}
+
+const mapLinkRow = (r: PagueloFacilLinkRow): PagueloFacilLinkRecord => ({
+  linkId: r.link_id,
+  userId: r.user_id,
+  invoiceId: r.invoice_id,
+  amount: parseFloat(r.amount),
+  status: r.status,
+  operationCode: r.operation_code,
+  createdAt: r.created_at
+});
+
+export const ensurePagueloFacilLinksTable = async (client: Client): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS paguelofacil_links (
+      link_id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      invoice_id TEXT NOT NULL,
+      amount NUMERIC(12, 2) NOT NULL,
+      status TEXT NOT NULL DEFAULT 'PENDING',
+      operation_code TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      paid_at TIMESTAMPTZ
+    );
+  `);
+};
+
+export const createPagueloFacilLinkRecord = async (
+  client: Client,
+  link: Pick<PagueloFacilLinkRecord, 'linkId' | 'userId' | 'invoiceId' | 'amount'>
+): Promise<void> => {
+  await client.query(
+    `INSERT INTO paguelofacil_links (link_id, user_id, invoice_id, amount) VALUES ($1, $2, $3, $4)`,
+    [link.linkId, link.userId, link.invoiceId, link.amount]
+  );
+};
+
+export const getPagueloFacilLinkRecord = async (client: Client, linkId: string): Promise<PagueloFacilLinkRecord | null> => {
+  const { rows } = await client.query(`SELECT * FROM paguelofacil_links WHERE link_id = $1`, [linkId]);
+  return rows[0] ? mapLinkRow(rows[0]) : null;
+};
+
+/**
+ * Marks a PENDING link as paid by the operation. False when another call already did (replay).
+ */
+export const claimPagueloFacilLink = async (client: Client, linkId: string, operationCode: string): Promise<boolean> => {
+  const { rows } = await client.query(`
+    UPDATE paguelofacil_links SET status = 'PAID', operation_code = $2, paid_at = NOW()
+    WHERE link_id = $1 AND status = 'PENDING'
+    RETURNING link_id
+  `, [linkId, operationCode]);
+  return rows.length > 0;
+};
+
+export const releasePagueloFacilLink = async (client: Client, linkId: string): Promise<void> => {
+  await client.query(
+    `UPDATE paguelofacil_links SET status = 'PENDING', operation_code = NULL, paid_at = NULL WHERE link_id = $1`,
+    [linkId]
+  );
+};
+
+// --- Browser ---
+
+export const createPagueloFacilLink = async (
+  invoice: Invoice,
+  issuer: UserProfile,
+  amount: number
+): Promise<string> => {
+  const res = await fetch('/api/paguelofacil/link', {
+    method: 'POST',
+    headers: paymentApiHeaders(issuer),
+    body: JSON.stringify({
+      invoiceId: invoice.id,
+      amount,
+      description: `Factura ${invoice.id}`
+    })
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.url) {
+    throw new Error(data.error || 'No se pudo crear el enlace de PagueloFacil.');
+  }
+  return data.url;
+};
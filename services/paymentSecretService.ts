@@ -0,0 +1,60 @@
+import { PaymentIntegration, PaymentSecretField, UserProfile } from '../types';
+
+/**
+ * PAYMENT SECRETS (CLIENT SIDE)
+ * Gateway secret keys are written once to api/v1/payment-secrets and kept encrypted in Neon.
+ * The browser only holds masked fingerprints; server endpoints look the keys up for the user
+ * authenticated by their personal API key, so requests must carry it (paymentApiHeaders).
+ */
+
+export const PAYMENT_SECRET_FIELDS: PaymentSecretField[] = ['stripeSecretKey', 'stripeWebhookSecret', 'yappySecretKey', 'token'];
+
+/**
+ * "sk_live_••••4242": keeps the key type prefix and the last 4 characters.
+ */
+export const maskSecret = (value: string): string => {
+  const prefix = value.match(/^[a-z]+_(?:live_|test_)?/i)?.[0] || '';
+  return `${prefix}••••${value.slice(-4)}`;
+};
+
+export const hasPaymentSecret = (integration: PaymentIntegration | undefined, field: PaymentSecretField): boolean =>
+  !!integration?.secretFingerprints?.[field] || !!integration?.[field];
+
+/**
+ * Replaces plaintext secrets with their masks. Applied to every profile read from the DB.
+ */
+export const maskPaymentSecrets = (integration: PaymentIntegration): PaymentIntegration => {
+  const masked: PaymentIntegration = { ...integration, secretFingerprints: { ...integration.secretFingerprints } };
+  PAYMENT_SECRET_FIELDS.forEach(field => {
+    const value = masked[field];
+    if (value) masked.secretFingerprints![field] = maskSecret(value);
+    delete masked[field];
+  });
+  return masked;
+};
+
+export const paymentApiHeaders = (profile: UserProfile): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-user-id': profile.id,
+  ...(profile.apiKeys?.konsul ? { 'x-api-key': profile.apiKeys.konsul } : {})
+});
+
+/**
+ * Stores (or removes, with an empty value) a secret and returns the updated fingerprints.
+ */
+export const savePaymentSecret = async (
+  profile: UserProfile,
+  field: PaymentSecretField,
+  value: string
+): Promise<Partial<Record<PaymentSecretField, string>>> => {
+  const res = await fetch('/api/v1/payment-secrets', {
+    method: 'POST',
+    headers: paymentApiHeaders(profile),
+    body: JSON.stringify({ field, value })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'No se pudo guardar la clave.');
+  }
+  return data.data;
+};
@@ -0,0 +1,144 @@
+import { Client } from '@neondatabase/serverless';
+import { PaymentSecretField } from '../types';
+import { encryptSecret, decryptSecret } from './secretVault';
+import { PAYMENT_SECRET_FIELDS, maskSecret } from './paymentSecretService';
+
+/**
+ * PAYMENT SECRET STORE (SERVER-SIDE ONLY)
+ * Gateway keys encrypted with the secret vault, one row per (user, field).
+ * The masks are mirrored in profile_data.paymentIntegration.secretFingerprints so the UI
+ * can tell what is configured without ever receiving the key.
+ * Legacy plaintext copies in profile_data are moved here on first use, or in bulk by
+ * api/migrations/payment-secrets.js.
+ */
+
+type Fingerprints = Partial<Record<PaymentSecretField, string>>;
+
+export const ensurePaymentSecretsTable = async (client: Client): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS payment_secrets (
+      user_id TEXT NOT NULL,
+      field TEXT NOT NULL,
+      encrypted_value TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, field)
+    );
+  `);
+};
+
+export const getPaymentSecretFingerprints = async (client: Client, userId: string): Promise<Fingerprints> => {
+  const { rows } = await client.query(`SELECT field, fingerprint FROM payment_secrets WHERE user_id = $1`, [userId]);
+  return rows.reduce((acc: Fingerprints, r: any) => ({ ...acc, [r.field]: r.fingerprint }), {});
+};
+
+/**
+ * Encrypts and stores `value` (an empty value removes the secret). Returns the user's fingerprints.
+ */
+export const storePaymentSecret = async (client: Client, userId: string, field: PaymentSecretField, value: string): Promise<Fingerprints> => {
+  if (!PAYMENT_SECRET_FIELDS.includes(field)) {
+    throw new Error(`Campo de secreto no soportado: ${field}`);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed) {
+    await client.query(`
+      INSERT INTO payment_secrets (user_id, field, encrypted_value, fingerprint, updated_at)
+      VALUES ($1, $2, $3, $4, NOW())
+      ON CONFLICT (user_id, field) DO UPDATE SET
+        encrypted_value = EXCLUDED.encrypted_value,
+        fingerprint = EXCLUDED.fingerprint,
+        updated_at = NOW();
+    `, [userId, field, encryptSecret(trimmed), maskSecret(trimmed)]);
+  } else {
+    await client.query(`DELETE FROM payment_secrets WHERE user_id = $1 AND field = $2`, [userId, field]);
+  }
+
+  const fingerprints = await getPaymentSecretFingerprints(client, userId);
+
+  // Mirror the masks in the profile and drop the legacy plaintext copy
+  await client.query(`
+    UPDATE users SET profile_data = jsonb_set(
+      COALESCE(profile_data, '{}'::jsonb),
+      '{paymentIntegration}',
+      (COALESCE(profile_data->'paymentIntegration', '{}'::jsonb) - $2) || jsonb_build_object('secretFingerprints', $3::jsonb)
+    )
+    WHERE id = $1
+  `, [userId, field, JSON.stringify(fingerprints)]);
+
+  return fingerprints;
+};
+
+/**
+ * Decrypted secret for the user, or null when not configured.
+ */
+export const getPaymentSecret = async (client: Client, userId: string, field: PaymentSecretField): Promise<string | null> => {
+  const { rows } = await client.query(
+    `SELECT encrypted_value FROM payment_secrets WHERE user_id = $1 AND field = $2`,
+    [userId, field]
+  );
+  if (rows[0]) return decryptSecret(rows[0].encrypted_value);
+
+  // Not migrated yet: move the plaintext copy into the store
+  const legacy = await client.query(
+    `SELECT profile_data->'paymentIntegration'->>$2 AS value FROM users WHERE id = $1`,
+    [userId, field]
+  );
+  const value = legacy.rows[0]?.value;
+  if (!value) return null;
+  await storePaymentSecret(client, userId, field, value);
+  return value;
+};
+
+/**
+ * Moves every plaintext secret left in users.profile_data into the store.
+ */
+export const migratePlaintextPaymentSecrets = async (client: Client): Promise<{ users: number; secrets: number }> => {
+  const { rows } = await client.query(
+    `SELECT id, profile_data->'paymentIntegration' AS integration FROM users WHERE profile_data->'paymentIntegration' ?| $1`,
+    [PAYMENT_SECRET_FIELDS]
+  );
+
+  let secrets = 0;
+  for (const row of rows) {
+    for (const field of PAYMENT_SECRET_FIELDS) {
+      const value = row.integration?.[field];
+      if (typeof value !== 'string') continue;
+      await storePaymentSecret(client, row.id, field, value);
+      if (value.trim()) secrets++;
+    }
+  }
+  return { users: rows.length, secrets };
+};
+
+// --- Standalone lookups for API handlers (own connection) ---
+
+const withClient = async <T>(fn: (client: Client) => Promise<T>): Promise<T> => {
+  const dbUrl = process.env.DATABASE_URL;
+  if (!dbUrl) throw new Error('Database connection string (DATABASE_URL) missing');
+  const client = new Client(dbUrl);
+  try {
+    await client.connect();
+    await ensurePaymentSecretsTable(client);
+    return await fn(client);
+  } finally {
+    try { await client.end(); } catch (e) { }
+  }
+};
+
+export const getPaymentSecretForUser = (userId: string, field: PaymentSecretField): Promise<string | null> =>
+  withClient(client => getPaymentSecret(client, userId, field));
+
+/**
+ * Yappy calls in with the merchant id (yappyApiKey): resolves its owner and secret key.
+ */
+export const getYappyCredentialsByApiKey = (apiKey: string): Promise<{ userId: string; secretKey: string } | null> =>
+  withClient(async client => {
+    const { rows } = await client.query(
+      `SELECT id FROM users WHERE profile_data->'paymentIntegration'->>'yappyApiKey' = $1 LIMIT 1`,
+      [apiKey]
+    );
+    if (!rows[0]) return null;
+    const secretKey = await getPaymentSecret(client, rows[0].id, 'yappySecretKey');
+    return secretKey ? { userId: rows[0].id, secretKey } : null;
+  });
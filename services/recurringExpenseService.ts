@@ -0,0 +1,232 @@
+import { Invoice, UserProfile } from '../types';
+import { getCycleDate, getRecurrenceStatus, getRecurringChildren } from './recurringInvoiceService';
+import { getLocalTime, FollowUpMailer } from './followUpService';
+
+/**
+ * RECURRING EXPENSES
+ * A recurring expense is the first occurrence of a fixed cost (rent, subscriptions, utilities).
+ * The daily cron (api/cron/recurring-invoices.js) materializes each coming occurrence as a
+ * pending entry: an Expense in 'Borrador' linked with `recurrenceParentId`/`recurrenceCycle`,
+ * dated on the occurrence. Drafts are projections: reports, tax forms and the expense totals
+ * leave them out until the user confirms the entry with the real receipt (ExpenseWizard).
+ * The owner gets one email a few days before pending entries fall due.
+ */
+
+export interface RecurringExpenseStore {
+  saveDocument: (document: Invoice) => Promise<void>;
+}
+
+export interface RecurringExpenseDeps {
+  store: RecurringExpenseStore;
+  mailer: FollowUpMailer;
+  now: () => Date;
+}
+
+export interface RecurringExpenseResult {
+  generated: number;
+  remindersSent: number;
+}
+
+export interface UpcomingBill {
+  expense: Invoice;
+  dueDate: Date; // Local midnight
+  daysUntil: number; // Negative once past due
+}
+
+export interface RecurringExpenseCosts {
+  projected: number; // Monthly, from each recurring expense's template amount
+  confirmed: number; // Monthly, from the amounts actually confirmed (template when none yet)
+}
+
+// Occurrences are materialized this many days ahead
+export const UPCOMING_EXPENSE_DAYS = 30;
+
+// Days before the due date a pending entry is reminded about and shown as due soon
+export const EXPENSE_REMINDER_DAYS = 5;
+
+// Confirmed amounts averaged into the monthly cost of a recurring expense
+const CONFIRMED_SAMPLE_SIZE = 3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const parseDateKey = (date: string): Date => {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const calculateMonthlyRecurrenceCost = (doc: Invoice, amount: number = doc.total): number => {
+  if (!doc.recurrence || !doc.recurrence.isRecurrent) return 0;
+  switch (doc.recurrence.frequency) {
+    case 'WEEKLY':
+      return amount * (52 / 12);
+    case 'BIWEEKLY':
+      return amount * (26 / 12);
+    case 'MONTHLY':
+      return amount;
+    case 'BIMONTHLY':
+      return amount / 2;
+    case 'QUARTERLY':
+      return amount / 3;
+    case 'ANNUAL':
+      return amount / 12;
+    default:
+      return 0;
+  }
+};
+
+export const isRecurringExpense = (doc: Invoice): boolean =>
+  doc.type === 'Expense' && !!doc.recurrence?.isRecurrent && !doc.recurrenceParentId
+  && doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+export const isPendingRecurringExpense = (doc: Invoice): boolean =>
+  doc.type === 'Expense' && !!doc.recurrenceParentId && doc.status === 'Borrador';
+
+/**
+ * Occurrences not materialized yet whose date falls within `horizonDays` of `today`.
+ */
+export const getPendingExpenseCycles = (
+  parent: Invoice,
+  documents: Invoice[],
+  today: Date,
+  horizonDays: number = UPCOMING_EXPENSE_DAYS
+): number[] => {
+  if (!isRecurringExpense(parent) || parent.recurrence!.paused) return [];
+  const limit = startOfDay(today).getTime() + horizonDays * DAY_MS;
+  const skipped = parent.recurrence!.skippedCycles || [];
+  const existing = new Set(getRecurringChildren(parent, documents).map(c => c.recurrenceCycle));
+  const cycles: number[] = [];
+  for (let cycle = 2; cycle <= parent.recurrence!.totalCycles; cycle++) {
+    if (getCycleDate(parent, cycle).getTime() > limit) break;
+    if (!existing.has(cycle) && !skipped.includes(cycle)) cycles.push(cycle);
+  }
+  return cycles;
+};
+
+/**
+ * Pending entry for `cycle`, with the template amount. The id is derived from the parent,
+ * so two runs can never create the same occurrence twice.
+ */
+export const buildPendingExpense = (parent: Invoice, cycle: number): Invoice => {
+  const dateKey = toDateKey(getCycleDate(parent, cycle));
+  return {
+    id: `${parent.id}-${cycle}`,
+    userId: parent.userId,
+    type: 'Expense',
+    clientName: parent.clientName,
+    clientTaxId: parent.clientTaxId,
+    date: dateKey,
+    dueDate: dateKey,
+    currency: parent.currency,
+    total: parent.total,
+    status: 'Borrador',
+    expenseDeductibility: parent.expenseDeductibility,
+    isValidFiscalDoc: parent.isValidFiscalDoc,
+    items: parent.items.map((item, i) => ({ ...item, id: `${parent.id}-${cycle}-${i + 1}` })),
+    recurrenceParentId: parent.id,
+    recurrenceCycle: cycle
+  };
+};
+
+/**
+ * Pending entries due within `days` of `today`, plus the ones already past due, oldest first.
+ */
+export const getUpcomingBills = (documents: Invoice[], today: Date = new Date(), days: number = EXPENSE_REMINDER_DAYS): UpcomingBill[] =>
+  documents
+    .filter(isPendingRecurringExpense)
+    .map(expense => {
+      const dueDate = parseDateKey(expense.dueDate || expense.date);
+      return { expense, dueDate, daysUntil: Math.round((dueDate.getTime() - startOfDay(today).getTime()) / DAY_MS) };
+    })
+    .filter(bill => bill.daysUntil <= days)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+/**
+ * Monthly cost of the active recurring expenses. `confirmed` follows what the bills really
+ * came to (average of the latest confirmed occurrences), so variable costs like utilities
+ * feed the hourly-rate calculator with real numbers.
+ */
+export const getRecurringExpenseCosts = (documents: Invoice[]): RecurringExpenseCosts =>
+  documents
+    .filter(doc => isRecurringExpense(doc) && !doc.recurrence!.paused && getRecurrenceStatus(doc, documents).nextCycle !== null)
+    .reduce((acc, parent) => {
+      const confirmed = [parent, ...getRecurringChildren(parent, documents).filter(c => c.status !== 'Borrador' && c.status !== 'Rechazada')]
+        .slice(-CONFIRMED_SAMPLE_SIZE);
+      const average = confirmed.reduce((sum, doc) => sum + doc.total, 0) / confirmed.length;
+      return {
+        projected: round2(acc.projected + calculateMonthlyRecurrenceCost(parent)),
+        confirmed: round2(acc.confirmed + calculateMonthlyRecurrenceCost(parent, average))
+      };
+    }, { projected: 0, confirmed: 0 });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const generateBillReminderHtml = (bills: UpcomingBill[], user: UserProfile): string => {
+  const rows = bills.map(({ expense, dueDate, daysUntil }) => `
+    <tr>
+      <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(expense.items[0]?.description || 'Gasto recurrente')}<br/><span style="color: #888; font-size: 12px;">${escapeHtml(expense.clientName || 'Proveedor')}</span></td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee;">${dueDate.toLocaleDateString('es-PA')}${daysUntil < 0 ? ' <strong style="color: #e11d48;">(vencido)</strong>' : ''}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${expense.currency} ${expense.total.toFixed(2)}</td>
+    </tr>`).join('');
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #1c2938;">
+      <h2 style="margin-bottom: 4px;">Próximos pagos</h2>
+      <p style="color: #666; margin-top: 0;">Hola ${escapeHtml(user.name)}, estos gastos recurrentes vencen pronto:</p>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px;">${rows}</table>
+      <p style="color: #666; font-size: 13px;">Cuando los pagues, confírmalos en Control de Gastos adjuntando el comprobante.</p>
+    </div>`;
+};
+
+/**
+ * Materializes the coming occurrences of every recurring expense and emails the owner
+ * about pending entries that fall due within EXPENSE_REMINDER_DAYS (once per entry).
+ */
+export const processRecurringExpenses = async (
+  documents: Invoice[],
+  user: UserProfile,
+  deps: RecurringExpenseDeps
+): Promise<RecurringExpenseResult> => {
+  const { store, mailer } = deps;
+  const now = deps.now();
+  const today = parseDateKey(getLocalTime(now, user.timezone).dateKey);
+  const result: RecurringExpenseResult = { generated: 0, remindersSent: 0 };
+  const all = [...documents];
+
+  for (const parent of documents.filter(isRecurringExpense)) {
+    for (const cycle of getPendingExpenseCycles(parent, all, today)) {
+      const pending = { ...buildPendingExpense(parent, cycle), userId: user.id };
+      await store.saveDocument(pending);
+      all.push(pending);
+      result.generated++;
+    }
+  }
+
+  const bills = getUpcomingBills(all, today).filter(bill => !bill.expense.billReminderSentAt);
+  if (bills.length > 0 && user.email) {
+    const sent = await mailer.send({
+      to: user.email,
+      subject: bills.length === 1 ? 'Recordatorio: 1 pago por vencer' : `Recordatorio: ${bills.length} pagos por vencer`,
+      html: generateBillReminderHtml(bills, user),
+      senderName: 'Kônsul Bills'
+    }).catch(error => {
+      console.error(`Failed to send bill reminder to ${user.id}:`, error);
+      return false;
+    });
+    if (sent) {
+      for (const bill of bills) {
+        await store.saveDocument({ ...bill.expense, billReminderSentAt: now.toISOString() });
+      }
+      result.remindersSent = bills.length;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,314 @@
+import { Invoice, UserProfile, DbClient, RecurrenceFrequency, TimelineEvent } from '../types';
+import { getLocalTime, FollowUpMailer } from './followUpService';
+import { findInvoiceClient } from './dunningService';
+import { generateDocumentHtml } from './resendService';
+import { reconcileStripePayment } from './stripeWebhookService';
+import { DocumentIdAllocator } from './documentNumberingService';
+
+/**
+ * RECURRING INVOICE SCHEDULER
+ * Runs daily from the cron endpoint (api/cron/recurring-invoices.js). A recurring invoice is
+ * cycle 1 of its recurrence; on each later cycle date the engine creates a new invoice
+ * numbered by the document sequence allocator and linked back with `recurrenceParentId`/`recurrenceCycle`.
+ * Which cycles exist is always read from the documents, so a run that repeats (or catches up
+ * after missed days) never generates a cycle twice.
+ * Optionally each generated invoice is charged to the client's saved Stripe payment method
+ * and emailed. Persistence, email and the Stripe charge are injected, as in followUpService.
+ */
+
+export interface RecurringStore {
+    saveDocument: (document: Invoice) => Promise<void>;
+    allocateDocumentId: DocumentIdAllocator;
+}
+
+export interface RecurringChargeResult {
+    status: 'succeeded' | 'processing' | 'failed';
+    paymentIntentId?: string;
+    error?: string;
+}
+
+export interface RecurringCharger {
+    // Off-session charge of the invoice total to the customer's saved payment method
+    charge: (invoice: Invoice, stripeCustomerId: string) => Promise<RecurringChargeResult>;
+}
+
+export interface RecurringDeps {
+    store: RecurringStore;
+    mailer: FollowUpMailer;
+    charger?: RecurringCharger; // Absent when the user has no Stripe key
+    now: () => Date;
+}
+
+export interface RecurringResult {
+    generated: number;
+    sent: number;
+    charged: number;
+    chargeFailed: number;
+}
+
+export interface RecurrenceStatus {
+    children: Invoice[]; // Generated invoices, by cycle
+    nextCycle: number | null; // Null once every cycle was generated or skipped
+    nextDate: Date | null;
+    paused: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const MONTHS_PER_PERIOD: Partial<Record<RecurrenceFrequency, number>> = {
+    MONTHLY: 1,
+    BIMONTHLY: 2,
+    QUARTERLY: 3,
+    ANNUAL: 12
+};
+
+const parseDateKey = (date: string): Date => {
+    const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * `start` moved `periods` cycles ahead, at local midnight. Month-based frequencies keep the
+ * day of month, clamped to short months (Jan 31 -> Feb 28).
+ */
+export const addRecurrencePeriods = (start: Date, frequency: RecurrenceFrequency, periods: number): Date => {
+    const months = MONTHS_PER_PERIOD[frequency];
+    if (!months) {
+        const days = (frequency === 'BIWEEKLY' ? 14 : 7) * periods;
+        return new Date(start.getFullYear(), start.getMonth(), start.getDate() + days);
+    }
+    const lastDay = new Date(start.getFullYear(), start.getMonth() + months * periods + 1, 0).getDate();
+    return new Date(start.getFullYear(), start.getMonth() + months * periods, Math.min(start.getDate(), lastDay));
+};
+
+export const isRecurringParent = (doc: Invoice): boolean =>
+    doc.type === 'Invoice' && !!doc.recurrence?.isRecurrent && !doc.recurrenceParentId
+    && doc.status !== 'Borrador' && doc.status !== 'Rechazada';
+
+export const getCycleDate = (parent: Invoice, cycle: number): Date =>
+    addRecurrencePeriods(parseDateKey(parent.date), parent.recurrence?.frequency || 'MONTHLY', cycle - 1);
+
+export const getRecurringChildren = (parent: Invoice, documents: Invoice[]): Invoice[] =>
+    documents
+        .filter(d => d.recurrenceParentId === parent.id)
+        .sort((a, b) => (a.recurrenceCycle || 0) - (b.recurrenceCycle || 0));
+
+export const getRecurrenceStatus = (parent: Invoice, documents: Invoice[]): RecurrenceStatus => {
+    const children = getRecurringChildren(parent, documents);
+    const last = Math.max(1, ...children.map(c => c.recurrenceCycle || 0), ...(parent.recurrence?.skippedCycles || []));
+    const nextCycle = parent.recurrence && last < parent.recurrence.totalCycles ? last + 1 : null;
+    return {
+        children,
+        nextCycle,
+        nextDate: nextCycle ? getCycleDate(parent, nextCycle) : null,
+        paused: !!parent.recurrence?.paused
+    };
+};
+
+/**
+ * Cycles to generate on `today` (local midnight): every pending cycle whose date has arrived.
+ */
+export const getDueCycles = (parent: Invoice, documents: Invoice[], today: Date): number[] => {
+    if (!isRecurringParent(parent) || parent.recurrence!.paused) return [];
+    const { nextCycle } = getRecurrenceStatus(parent, documents);
+    const due: number[] = [];
+    for (let cycle = nextCycle || Infinity; cycle <= parent.recurrence!.totalCycles; cycle++) {
+        if (getCycleDate(parent, cycle).getTime() > today.getTime()) break;
+        due.push(cycle);
+    }
+    return due;
+};
+
+const newEvent = (type: TimelineEvent['type'], title: string, description: string, now: Date): TimelineEvent => ({
+    id: `${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    type,
+    title,
+    description,
+    timestamp: now.toISOString()
+});
+
+// Parent total without its late-fee lines: each cycle bills only what was agreed
+const recurringTotal = (parent: Invoice): number => {
+    const lateFees = parent.items.filter(i => i.lateFee).reduce((acc, i) => acc + i.price * i.quantity * (1 - (parent.discountRate || 0) / 100), 0);
+    return Math.round((parent.total - lateFees) * 100) / 100;
+};
+
+/**
+ * Invoice for `cycle`: same client, lines and terms as the parent, dated on the cycle date
+ * (noon UTC, so the calendar day is the same in every American timezone).
+ */
+export const buildRecurringInvoice = (parent: Invoice, cycle: number, id: string, now: Date = new Date()): Invoice => {
+    const date = getCycleDate(parent, cycle);
+    const termDays = parent.dueDate
+        ? Math.round((parseDateKey(parent.dueDate).getTime() - parseDateKey(parent.date).getTime()) / DAY_MS)
+        : null;
+
+    return {
+        id,
+        userId: parent.userId,
+        clientId: parent.clientId,
+        clientName: parent.clientName,
+        clientTaxId: parent.clientTaxId,
+        clientEmail: parent.clientEmail,
+        clientAddress: parent.clientAddress,
+        date: new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 12)).toISOString(),
+        dueDate: termDays !== null ? toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + termDays)) : undefined,
+        items: parent.items.filter(i => !i.lateFee).map(i => ({ ...i })),
+        total: recurringTotal(parent),
+        discountRate: parent.discountRate,
+        withholdingAmount: parent.withholdingAmount,
+        notes: parent.notes,
+        status: 'Creada',
+        currency: parent.currency,
+        type: 'Invoice',
+        paymentForm: parent.paymentForm,
+        dunningSequenceId: parent.dunningSequenceId,
+        payViaGateway: parent.payViaGateway,
+        recurrenceParentId: parent.id,
+        recurrenceCycle: cycle,
+        timeline: [newEvent('CREATED', 'Factura recurrente generada', `Ciclo ${cycle} de ${parent.recurrence?.totalCycles} de la factura ${parent.id}`, now)]
+    };
+};
+
+// --- Pause / resume / skip (parent only) ---
+
+export const pauseRecurrence = (parent: Invoice, now: Date = new Date()): Invoice => ({
+    ...parent,
+    recurrence: { ...parent.recurrence!, paused: true },
+    timeline: [...(parent.timeline || []), newEvent('STATUS_CHANGE', 'Recurrencia pausada', 'No se generarán nuevas facturas hasta reanudarla.', now)]
+});
+
+/**
+ * Resumes from today: cycles whose date passed while paused are skipped, not back-billed.
+ */
+export const resumeRecurrence = (parent: Invoice, documents: Invoice[], today: Date = new Date(), now: Date = new Date()): Invoice => {
+    const missed: number[] = [];
+    const { nextCycle } = getRecurrenceStatus(parent, documents);
+    for (let cycle = nextCycle || Infinity; cycle <= parent.recurrence!.totalCycles; cycle++) {
+        if (getCycleDate(parent, cycle).getTime() >= new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) break;
+        missed.push(cycle);
+    }
+    return {
+        ...parent,
+        recurrence: {
+            ...parent.recurrence!,
+            paused: false,
+            skippedCycles: [...(parent.recurrence!.skippedCycles || []), ...missed]
+        },
+        timeline: [...(parent.timeline || []), newEvent(
+            'STATUS_CHANGE',
+            'Recurrencia reanudada',
+            missed.length > 0 ? `Ciclos omitidos durante la pausa: ${missed.join(', ')}` : 'Sin ciclos omitidos',
+            now
+        )]
+    };
+};
+
+/**
+ * Skips the next pending cycle, or returns null when there is none.
+ */
+export const skipNextCycle = (parent: Invoice, documents: Invoice[], now: Date = new Date()): Invoice | null => {
+    const { nextCycle, nextDate } = getRecurrenceStatus(parent, documents);
+    if (!nextCycle || !nextDate) return null;
+    return {
+        ...parent,
+        recurrence: { ...parent.recurrence!, skippedCycles: [...(parent.recurrence!.skippedCycles || []), nextCycle] },
+        timeline: [...(parent.timeline || []), newEvent('STATUS_CHANGE', `Ciclo ${nextCycle} omitido`, `No se facturará el ${nextDate.toLocaleDateString('es-PA')}`, now)]
+    };
+};
+
+// --- Engine ---
+
+/**
+ * Generates every due cycle of the user's recurring invoices, then charges and/or sends
+ * each new invoice as configured on its parent. Must run under a per-user lock, the
+ * "already generated" check reads `invoices`.
+ */
+export const processRecurringInvoices = async (
+    invoices: Invoice[],
+    user: UserProfile,
+    deps: RecurringDeps,
+    clients: DbClient[] = []
+): Promise<RecurringResult> => {
+    const { store, mailer, charger } = deps;
+    const now = deps.now();
+    const [y, m, d] = getLocalTime(now, user.timezone).dateKey.split('-').map(Number);
+    const today = new Date(y, m - 1, d);
+    const result: RecurringResult = { generated: 0, sent: 0, charged: 0, chargeFailed: 0 };
+
+    const documents = [...invoices];
+
+    for (const parent of invoices.filter(isRecurringParent)) {
+        const client = findInvoiceClient(parent, clients);
+
+        for (const cycle of getDueCycles(parent, documents, today)) {
+            const id = await store.allocateDocumentId(user.id, 'Invoice', toDateKey(getCycleDate(parent, cycle)));
+            let invoice: Invoice = { ...buildRecurringInvoice(parent, cycle, id, now), userId: user.id };
+            await store.saveDocument(invoice);
+            documents.push(invoice);
+            result.generated++;
+
+            // --- AUTO-CHARGE (saved Stripe payment method) ---
+            if (parent.recurrence!.autoCharge && charger) {
+                const charge: RecurringChargeResult = client?.stripeCustomerId
+                    ? await charger.charge(invoice, client.stripeCustomerId).catch(error => ({ status: 'failed' as const, error: error.message }))
+                    : { status: 'failed', error: 'El cliente no tiene un cliente de Stripe vinculado' };
+
+                if (charge.status === 'succeeded' && charge.paymentIntentId) {
+                    // Same record the webhook would add; its later payment_intent.succeeded is a duplicate
+                    const paid = await reconcileStripePayment({
+                        invoiceId: invoice.id,
+                        amountPaid: invoice.total,
+                        currency: invoice.currency,
+                        stripePaymentIntentId: charge.paymentIntentId,
+                        stripeCustomerId: client?.stripeCustomerId,
+                        date: now.toISOString(),
+                        customerName: invoice.clientName,
+                        customerEmail: invoice.clientEmail || '',
+                        description: `Factura #${invoice.id}`
+                    }, documents, [], user, store.allocateDocumentId, now);
+                    if (paid.kind === 'PAID') invoice = paid.invoice;
+                    result.charged++;
+                } else if (charge.status === 'processing') {
+                    invoice = { ...invoice, timeline: [...(invoice.timeline || []), newEvent('PAID', 'Cobro automático en proceso', `Stripe ${charge.paymentIntentId || ''}`.trim(), now)] };
+                } else {
+                    invoice = { ...invoice, timeline: [...(invoice.timeline || []), newEvent('STATUS_CHANGE', 'Cobro automático fallido', charge.error || 'Stripe rechazó el cobro', now)] };
+                    result.chargeFailed++;
+                }
+            }
+
+            // --- AUTO-SEND ---
+            const clientEmail = invoice.clientEmail || client?.email;
+            if (parent.recurrence!.autoSend && clientEmail) {
+                const sent = await mailer.send({
+                    to: clientEmail,
+                    cc: user.email,
+                    subject: `Factura #${invoice.id} - ${user.name}`,
+                    html: generateDocumentHtml(invoice, user),
+                    senderName: user.legalName || user.name
+                }).catch(error => {
+                    console.error(`Failed to send recurring invoice ${invoice.id}:`, error);
+                    return false;
+                });
+                if (sent) {
+                    invoice = {
+                        ...invoice,
+                        status: invoice.status === 'Creada' ? 'Enviada' : invoice.status,
+                        timeline: [...(invoice.timeline || []), newEvent('SENT', 'Enviado por Correo', `Envío automático a ${clientEmail}`, now)]
+                    };
+                    result.sent++;
+                }
+            }
+
+            if (invoice !== documents[documents.length - 1]) {
+                await store.saveDocument(invoice);
+                documents.splice(documents.findIndex(doc => doc.id === invoice.id), 1, invoice);
+            }
+        }
+    }
+
+    return result;
+};
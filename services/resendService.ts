@@ -1,17 +1,20 @@
 
 import { Invoice, UserProfile } from '../types';
+import { getDocumentTypeLabel } from './creditNoteService';
+import { calculateItbmsBreakdown } from './itbmsService';
+import { getInstallmentSchedule, formatInstallmentLabel } from './installmentService';
 
 // Strict System Sender Logic
 // Returns a sender string: "Sender Name <system_email>"
 // The email part MUST match the domain verified in Resend (via ENV VAR)
 const getSender = (name: string = 'Kônsul Bills') => {
-  const verifiedEmail = process.env.RESEND_FROM_EMAIL;
+  const verifiedEmail = process.env.VITE_RESEND_FROM_EMAIL;
 
   if (verifiedEmail) {
     return `${name} <${verifiedEmail}>`;
   }
 
-  console.warn("⚠️ RESEND_FROM_EMAIL no está configurado en .env. Usando modo Sandbox (onboarding@resend.dev).");
+  console.warn("⚠️ VITE_RESEND_FROM_EMAIL no está configurado en .env. Usando modo Sandbox (onboarding@resend.dev).");
   return `${name} <onboarding@resend.dev>`;
 };
 
@@ -86,7 +89,7 @@ export const sendEmail = async (
     if (!response.ok) {
       let errorMsg = data.error || 'Error al enviar email';
       if (data.details?.name === 'validation_error' && data.details?.message?.includes('domain')) {
-        errorMsg = `Error de Dominio: Estás intentando enviar desde "${sender}". Asegúrate de que RESEND_FROM_EMAIL en tu archivo .env coincida con el dominio verificado en Resend.`;
+        errorMsg = `Error de Dominio: Estás intentando enviar desde "${sender}". Asegúrate de que VITE_RESEND_FROM_EMAIL en tu archivo .env coincida con el dominio verificado en Resend.`;
       }
       return { success: false, error: errorMsg };
     }
@@ -202,12 +205,17 @@ export const sendDocumentEmail = async (
  */
 export const generateDocumentHtml = (invoice: Invoice, issuer: UserProfile, paymentUrl?: string, yappyUrl?: string): string => {
   const isQuote = invoice.type === 'Quote';
-  const docTypeLabel = isQuote ? 'Cotización' : 'Factura';
+  const docTypeLabel = getDocumentTypeLabel(invoice.type);
+  const totalLabel = invoice.type === 'CreditNote' ? 'Total Acreditado' : 'Total a Pagar';
   const color = issuer.branding?.primaryColor || '#1c2938';
 
+  // With a payment plan the links charge the next installment
+  const schedule = getInstallmentSchedule(invoice, []);
+  const nextInstallment = schedule.find(s => s.remaining > 0.01);
+
   const stripeButton = paymentUrl ? `
     <a href="${paymentUrl}" style="background-color: ${color}; color: #ffffff; padding: 14px 28px; border-radius: 10px; text-decoration: none; font-weight: bold; font-size: 15px; display: inline-block; margin: 8px;">
-        💳 Pagar con Tarjeta (Stripe)
+        💳 ${nextInstallment ? `Pagar ${formatInstallmentLabel(nextInstallment)} con Tarjeta` : 'Pagar con Tarjeta (Stripe)'}
     </a>` : '';
 
   const yappyButton = yappyUrl ? `
@@ -229,6 +237,53 @@ export const generateDocumentHtml = (invoice: Invoice, issuer: UserProfile, paym
     <p style="color: #94a3b8; font-size: 12px; margin-top: 12px; text-align: center;">Links de pago seguros</p>
   ` : '';
 
+  const installmentsBlock = schedule.length > 0 ? `
+    <!-- PLAN DE PAGOS -->
+    <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="margin-top: 24px; font-size: 13px; color: #334155;">
+        <tr>
+            <th colspan="3" style="text-align: left; color: #64748b; font-size: 11px; text-transform: uppercase; padding: 6px 0; border-bottom: 1px solid #e2e8f0;">Plan de Pagos</th>
+        </tr>
+        ${schedule.map(s => `
+        <tr>
+            <td style="text-align: left; padding: 6px 0;">${formatInstallmentLabel(s)}</td>
+            <td style="text-align: left; padding: 6px 0;">${s.dueDate.toLocaleDateString('es-PA', { day: 'numeric', month: 'short', year: 'numeric' })}</td>
+            <td style="text-align: right; padding: 6px 0;${s.status === 'PAID' ? ' color: #16a34a;' : ''}">${invoice.currency} ${s.amount.toFixed(2)}${s.status === 'PAID' ? ' ✓' : ''}</td>
+        </tr>`).join('')}
+    </table>
+  ` : '';
+
+  const fe = invoice.electronicInvoice;
+  const electronicInvoiceBlock = (!isQuote && fe?.status === 'AUTORIZADA') ? `
+    <!-- FACTURA ELECTRONICA -->
+    <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="margin-top: 24px; border: 1px solid #e2e8f0; border-radius: 12px;">
+        <tr>
+            <td style="padding: 16px; text-align: left;">
+                <p style="color: #64748b; font-size: 11px; text-transform: uppercase; font-weight: 700; margin: 0 0 8px 0;">Factura Electrónica${fe.environment === 'PRUEBAS' ? ' (Ambiente de Pruebas)' : ''}</p>
+                <p style="color: #334155; font-size: 12px; margin: 0 0 4px 0;"><strong>CUFE:</strong> <span style="font-family: monospace; word-break: break-all;">${fe.cufe}</span></p>
+                <p style="color: #334155; font-size: 12px; margin: 0;"><strong>Autorización:</strong> <span style="font-family: monospace;">${fe.authorizationNumber}</span></p>
+            </td>
+        </tr>
+    </table>
+  ` : '';
+
+  const taxBreakdown = calculateItbmsBreakdown(invoice.items || [], invoice.discountRate || 0);
+  const taxBreakdownBlock = (taxBreakdown.length > 1 || taxBreakdown.some(l => l.tax > 0)) ? `
+    <!-- DESGLOSE ITBMS -->
+    <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="margin-top: 16px; font-size: 12px; color: #334155;">
+        <tr>
+            <th style="text-align: left; color: #64748b; font-size: 11px; text-transform: uppercase; padding: 6px 0; border-bottom: 1px solid #e2e8f0;">Tasa</th>
+            <th style="text-align: right; color: #64748b; font-size: 11px; text-transform: uppercase; padding: 6px 0; border-bottom: 1px solid #e2e8f0;">Base</th>
+            <th style="text-align: right; color: #64748b; font-size: 11px; text-transform: uppercase; padding: 6px 0; border-bottom: 1px solid #e2e8f0;">ITBMS</th>
+        </tr>
+        ${taxBreakdown.map(line => `
+        <tr>
+            <td style="text-align: left; padding: 6px 0;">${line.label}</td>
+            <td style="text-align: right; padding: 6px 0;">${invoice.currency} ${line.base.toFixed(2)}</td>
+            <td style="text-align: right; padding: 6px 0;">${invoice.currency} ${line.tax.toFixed(2)}</td>
+        </tr>`).join('')}
+    </table>
+  ` : '';
+
 
   return `
 <!DOCTYPE html>
@@ -260,7 +315,7 @@ export const generateDocumentHtml = (invoice: Invoice, issuer: UserProfile, paym
                                 Hola <strong>${invoice.clientName}</strong>,
                             </p>
                             <p style="color: #334155; font-size: 18px; line-height: 1.6; margin-bottom: 32px;">
-                                Te enviamos la <strong>${docTypeLabel} #${invoice.id}</strong>.
+                                Te enviamos la <strong>${docTypeLabel} #${invoice.id}</strong>${invoice.referenceInvoiceId ? ` referente a la Factura #${invoice.referenceInvoiceId}` : ''}.
                                 <br>
                                 Encontrarás el documento PDF adjunto a este correo para tu revisión.
                             </p>
@@ -269,7 +324,7 @@ export const generateDocumentHtml = (invoice: Invoice, issuer: UserProfile, paym
                             <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="background-color: #f8fafc; border-radius: 12px; border: 1px solid #e2e8f0;">
                                 <tr>
                                     <td style="padding: 24px; text-align: center;">
-                                        <p style="color: #64748b; font-size: 12px; text-transform: uppercase; font-weight: 700; margin: 0 0 8px 0;">Total a Pagar</p>
+                                        <p style="color: #64748b; font-size: 12px; text-transform: uppercase; font-weight: 700; margin: 0 0 8px 0;">${totalLabel}</p>
                                         <p style="color: #1c2938; font-size: 32px; font-weight: 800; margin: 0;">
                                             ${invoice.currency} ${invoice.total.toLocaleString('es-ES', { minimumFractionDigits: 2 })}
                                         </p>
@@ -277,8 +332,14 @@ export const generateDocumentHtml = (invoice: Invoice, issuer: UserProfile, paym
                                 </tr>
                             </table>
 
+                            ${taxBreakdownBlock}
+
+                            ${installmentsBlock}
+
                             ${paymentButtons}
 
+                            ${electronicInvoiceBlock}
+
                             <p style="color: #94a3b8; font-size: 14px; margin-top: 32px; text-align: center;">
                                 Si tienes alguna pregunta, no dudes en responder a este correo.
                             </p>
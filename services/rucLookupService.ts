@@ -0,0 +1,228 @@
+import { UserProfile } from '../types';
+import { ContribuyenteDGI, ParsedRuc, parseRuc, validateRuc } from './dgiService';
+import { getCachedRucLookup, saveRucLookupToCache } from './neon';
+import { paymentApiHeaders } from './paymentSecretService';
+
+/**
+ * RUC LOOKUP PROVIDERS
+ * Taxpayer lookups (DGI "ConsultarRuc") behind a small provider interface:
+ *  - HTTP: calls our api/v1/ruc-lookup proxy, which talks to the upstream registry server-side.
+ *    The proxy bills a paid registry, so it requires the user's personal API key.
+ *  - Cache: wraps another provider and keeps results in Neon for a TTL.
+ *  - Demo: a fixed list of sample taxpayers, clearly labelled as DEMO.
+ *
+ * A provider never invents data: unknown RUCs come back as not found.
+ */
+
+export type RucLookupSource = 'DGI' | 'CACHE' | 'DEMO';
+
+export interface RucLookupResult {
+  found: boolean;
+  contribuyente?: ContribuyenteDGI;
+  source: RucLookupSource;
+  origin?: RucLookupSource; // For CACHE hits: where the cached data originally came from
+  fetchedAt: string; // When the data was obtained from its origin
+  ageSeconds: number;
+  error?: string; // Lookup could not be completed (network, not configured...)
+}
+
+export interface RucLookupProvider {
+  name: string;
+  lookup: (ruc: ParsedRuc) => Promise<RucLookupResult>;
+}
+
+const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+
+const ageInSeconds = (fetchedAt: string) =>
+  Math.max(0, Math.round((Date.now() - new Date(fetchedAt).getTime()) / 1000));
+
+const notFound = (source: RucLookupSource, error?: string): RucLookupResult => ({
+  found: false,
+  source,
+  fetchedAt: new Date().toISOString(),
+  ageSeconds: 0,
+  error
+});
+
+const API_KEY_REQUIRED = 'La consulta al registro DGI requiere la clave API personal de su cuenta (Configuración > API). Puede ingresar los datos manualmente.';
+
+/**
+ * HTTP provider: the browser only talks to our proxy; credentials for the
+ * upstream registry stay server-side (see api/v1/ruc-lookup.js).
+ * Without a personal API key (e.g. during onboarding) no request is made.
+ */
+export const createHttpRucLookupProvider = (
+  profile?: UserProfile | null,
+  endpoint: string = '/api/v1/ruc-lookup'
+): RucLookupProvider => ({
+  name: 'http',
+  lookup: async (ruc) => {
+    if (!profile?.apiKeys?.konsul) return notFound('DGI', API_KEY_REQUIRED);
+
+    try {
+      const res = await fetch(`${endpoint}?ruc=${encodeURIComponent(ruc.ruc)}`, { headers: paymentApiHeaders(profile) });
+      const data = await res.json();
+
+      if (res.status === 404) return notFound('DGI');
+      if (res.status === 401 || res.status === 403) return notFound('DGI', API_KEY_REQUIRED);
+      if (!res.ok) return notFound('DGI', data.details || data.error || `HTTP ${res.status}`);
+
+      return {
+        found: true,
+        contribuyente: data.data,
+        source: 'DGI',
+        fetchedAt: data.fetchedAt,
+        ageSeconds: ageInSeconds(data.fetchedAt)
+      };
+    } catch (e: any) {
+      console.error("RUC Lookup HTTP Error:", e);
+      return notFound('DGI', 'No se pudo conectar con el servicio de consulta de RUC.');
+    }
+  }
+});
+
+export interface RucLookupCache {
+  get: (ruc: string) => Promise<{ contribuyente: ContribuyenteDGI; source: string; fetchedAt: string } | null>;
+  save: (ruc: string, contribuyente: ContribuyenteDGI, source: string, fetchedAt: string) => Promise<boolean>;
+}
+
+const neonRucLookupCache: RucLookupCache = { get: getCachedRucLookup, save: saveRucLookupToCache };
+
+/**
+ * Cache provider (Neon by default): serves fresh cached results, otherwise asks `inner` and stores hits.
+ * When `inner` fails, an expired cache entry is returned rather than nothing.
+ */
+export const createCachedRucLookupProvider = (
+  inner: RucLookupProvider,
+  ttlHours: number = DEFAULT_CACHE_TTL_HOURS,
+  cache: RucLookupCache = neonRucLookupCache
+): RucLookupProvider => ({
+  name: `cache(${inner.name})`,
+  lookup: async (ruc) => {
+    const cached = await cache.get(ruc.ruc);
+    const cachedResult = cached ? {
+      found: true,
+      contribuyente: cached.contribuyente,
+      source: 'CACHE' as const,
+      origin: cached.source as RucLookupSource,
+      fetchedAt: cached.fetchedAt,
+      ageSeconds: ageInSeconds(cached.fetchedAt)
+    } : null;
+
+    if (cachedResult && cachedResult.ageSeconds < ttlHours * 3600) {
+      return cachedResult;
+    }
+
+    const result = await inner.lookup(ruc);
+
+    if (result.found && result.contribuyente) {
+      await cache.save(ruc.ruc, result.contribuyente, result.source, result.fetchedAt);
+      return result;
+    }
+
+    if (result.error && cachedResult) {
+      return { ...cachedResult, error: `Datos en caché vencidos: ${result.error}` };
+    }
+
+    return result;
+  }
+});
+
+// Sample taxpayers for demos and local development. DVs follow the DGI algorithm.
+const DEMO_CONTRIBUYENTES: ContribuyenteDGI[] = [
+  {
+    ruc: '15569888-2-2021',
+    dv: '08',
+    razonSocial: 'COPA AIRLINES INC (DEMO)',
+    tipoPersona: 'JURIDICA',
+    direccion: 'AV. PRINCIPAL, COSTA DEL ESTE, TORRE BLU, PISO 5',
+    estado: 'ACTIVO',
+    email: 'facturacion@copaair.com'
+  },
+  {
+    ruc: '1224-45-12222',
+    dv: '24',
+    razonSocial: 'BANCO GENERAL S.A. (DEMO)',
+    tipoPersona: 'JURIDICA',
+    direccion: 'CALLE 50, TORRE BG, CIUDAD DE PANAMÁ',
+    estado: 'ACTIVO'
+  },
+  {
+    ruc: '344-555-2323',
+    dv: '80',
+    razonSocial: 'SUPERMERCADOS 99 S.A. (DEMO)',
+    tipoPersona: 'JURIDICA',
+    direccion: 'VÍA PORRAS, EDIFICIO SUPER 99',
+    estado: 'ACTIVO'
+  },
+  {
+    ruc: '8-754-1234',
+    dv: '14',
+    razonSocial: 'JUAN PÉREZ (DEMO)',
+    tipoPersona: 'NATURAL',
+    direccion: 'CONDADO DEL REY, PH GREEN PARK, TORRE 2',
+    estado: 'ACTIVO'
+  },
+  {
+    ruc: '2345670-1-2019',
+    dv: '04',
+    razonSocial: 'TECH SOLUTIONS PANAMA S.A. (DEMO)',
+    tipoPersona: 'JURIDICA',
+    direccion: 'CLAYTON, CIUDAD DEL SABER, EDIF 234',
+    estado: 'ACTIVO'
+  }
+];
+
+/**
+ * Demo provider: exact match against DEMO_CONTRIBUYENTES only.
+ */
+export const createDemoRucLookupProvider = (): RucLookupProvider => ({
+  name: 'demo',
+  lookup: async (ruc) => {
+    const found = DEMO_CONTRIBUYENTES.find(c => parseRuc(c.ruc)?.ruc === ruc.ruc);
+    if (!found) return notFound('DEMO');
+    return { found: true, contribuyente: found, source: 'DEMO', fetchedAt: new Date().toISOString(), ageSeconds: 0 };
+  }
+});
+
+/**
+ * Provider configured for this deployment: VITE_RUC_LOOKUP_PROVIDER=demo enables the
+ * demo list explicitly; anything else uses the HTTP proxy (authenticated as `profile`) behind the Neon cache.
+ */
+export const getRucLookupProvider = (profile?: UserProfile | null): RucLookupProvider => {
+  if (process.env.VITE_RUC_LOOKUP_PROVIDER === 'demo') {
+    return createDemoRucLookupProvider();
+  }
+  return createCachedRucLookupProvider(createHttpRucLookupProvider(profile));
+};
+
+/**
+ * Looks up a taxpayer by RUC. Invalid formats and DVs resolve as not found with an error,
+ * without reaching the provider.
+ */
+export const consultarRucDGI = async (
+  rucInput: string,
+  provider: RucLookupProvider = getRucLookupProvider()
+): Promise<RucLookupResult> => {
+  const parsed = parseRuc(rucInput);
+  if (!parsed) {
+    return notFound('DGI', 'Formato de RUC/Cédula no reconocido.');
+  }
+  const check = validateRuc(rucInput);
+  if (!check.valid) {
+    return notFound('DGI', check.error);
+  }
+  return provider.lookup(parsed);
+};
+
+/**
+ * Human-readable provenance for the UI ("DGI · hace 3 h", "Demo").
+ */
+export const describeRucLookupSource = (result: RucLookupResult): string => {
+  const origin = result.source === 'CACHE' ? result.origin : result.source;
+  const label = origin === 'DEMO' ? 'Datos de demostración' : 'Registro DGI';
+  if (result.ageSeconds < 60) return `${label} · ahora`;
+  if (result.ageSeconds < 3600) return `${label} · hace ${Math.round(result.ageSeconds / 60)} min (caché)`;
+  if (result.ageSeconds < 86400) return `${label} · hace ${Math.round(result.ageSeconds / 3600)} h (caché)`;
+  return `${label} · hace ${Math.round(result.ageSeconds / 86400)} días (caché)`;
+};
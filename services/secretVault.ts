@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+/**
+ * SECRET VAULT (SERVER-SIDE ONLY)
+ * AES-256-GCM envelope for secrets stored in Neon (certificates, passwords, API keys).
+ * The key is derived from KONSUL_ENCRYPTION_KEY and never leaves the serverless runtime.
+ *
+ * Stored format: "v1:<iv>:<authTag>:<ciphertext>" (base64 parts)
+ */
+
+const VAULT_VERSION = 'v1';
+
+const getVaultKey = (): Buffer => {
+  const raw = process.env.KONSUL_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error('KONSUL_ENCRYPTION_KEY no está configurada en el servidor.');
+  }
+  return crypto.createHash('sha256').update(raw).digest();
+};
+
+export const encryptSecret = (plain: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getVaultKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VAULT_VERSION, iv.toString('base64'), tag.toString('base64'), encrypted.toString('base64')].join(':');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [version, iv, tag, data] = payload.split(':');
+  if (version !== VAULT_VERSION || !iv || !tag || !data) {
+    throw new Error('Formato de secreto cifrado no reconocido.');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getVaultKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+export const isEncryptedSecret = (value?: string | null): boolean =>
+  !!value && value.startsWith(`${VAULT_VERSION}:`) && value.split(':').length === 4;
@@ -1,5 +1,7 @@
 
 import { Invoice, UserProfile, DbClient } from '../types';
+import { hasPaymentSecret, paymentApiHeaders } from './paymentSecretService';
+import { allocateDocumentIdInDb } from './neon';
 
 export const performAutomatedStripeSync = async (
   currentUser: UserProfile,
@@ -8,13 +10,12 @@ export const performAutomatedStripeSync = async (
   onUpdateInvoice: (invoice: Invoice) => Promise<void>,
   onUpdateStatus: (id: string, status: any, extras: any) => void
 ) => {
-  if (!currentUser?.paymentIntegration?.stripeSecretKey) return { autoCount: 0, createdCount: 0 };
+  if (!hasPaymentSecret(currentUser?.paymentIntegration, 'stripeSecretKey')) return { autoCount: 0, createdCount: 0 };
 
   try {
     const res = await fetch('/api/stripe-sync', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ stripeSecretKey: currentUser.paymentIntegration.stripeSecretKey })
+      headers: paymentApiHeaders(currentUser)
     });
     const data = await res.json();
     
@@ -33,7 +34,7 @@ export const performAutomatedStripeSync = async (
       if (alreadySynced) continue;
 
       // 2. Try to match by Invoice ID (Metadata)
-      const targetInvoice = invoices.find(i => i.id === payment.invoiceId && i.status !== 'Pagada' && i.status !== 'Rechazada');
+      const targetInvoice = invoices.find(i => i.id === payment.invoiceId && i.status !== 'Rechazada');
       
       if (payment.invoiceId && targetInvoice) {
         const currentPaid = targetInvoice.amountPaid || 0;
@@ -53,16 +54,10 @@ export const performAutomatedStripeSync = async (
       if (payment.stripeCustomerId) {
         const client = dbClients.find(c => c.stripeCustomerId === payment.stripeCustomerId);
         if (client) {
-          // Auto-create invoice
-          const sequences = currentUser.documentSequences || { invoicePrefix: 'FAC', invoiceNextNumber: 1 };
-          let nextNum = sequences.invoiceNextNumber;
-          let newId = `${sequences.invoicePrefix}-${String(nextNum + createdCount).padStart(4, '0')}`;
-          
-          // Basic collision check against local invoices
-          while (invoices.some(i => i.id === newId)) {
-            nextNum++;
-            newId = `${sequences.invoicePrefix}-${String(nextNum + createdCount).padStart(4, '0')}`;
-          }
+          // Auto-create invoice, numbered by the shared counter (the webhook may be creating others)
+          const paymentDate = payment.date || new Date().toISOString();
+          const newId = await allocateDocumentIdInDb(currentUser.id, 'Invoice', paymentDate);
+          if (!newId) continue;
 
           const newInvoice: Invoice = {
             id: newId,
@@ -70,7 +65,7 @@ export const performAutomatedStripeSync = async (
             clientName: client.name,
             clientEmail: client.email,
             clientTaxId: client.taxId,
-            date: payment.date || new Date().toISOString(),
+            date: paymentDate,
             status: 'Pagada',
             total: payment.amountPaid,
             amountPaid: payment.amountPaid,
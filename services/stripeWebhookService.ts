@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import { Invoice, DbClient, UserProfile, PaymentRecord, TimelineEvent } from '../types';
+import { getOpenBalance } from './creditNoteService';
+import { resolvePaymentStatus, applyClientCreditToOpenInvoices } from './clientCreditService';
+import { DocumentIdAllocator } from './documentNumberingService';
+
+/**
+ * STRIPE WEBHOOKS (SERVER-SIDE ONLY)
+ * Real-time counterpart of performAutomatedStripeSync, used by api/webhooks/stripe.js:
+ *  - Verifies the `Stripe-Signature` header (HMAC-SHA256 of "<timestamp>.<payload>").
+ *  - Normalizes the handled events into the same payment shape as api/stripe-sync.js.
+ *  - Applies the same matching rules: skip already mapped Stripe ids, match by
+ *    `metadata.invoiceId`, otherwise auto-create a paid invoice for a client linked
+ *    through `stripeCustomerId`.
+ * Every Stripe id is added to `stripeMapping`, so the polling sync and the webhook never
+ * count the same payment twice.
+ */
+
+export const STRIPE_SIGNATURE_TOLERANCE_SEC = 300;
+
+export const HANDLED_STRIPE_EVENTS = [
+  'checkout.session.completed',
+  'payment_intent.succeeded',
+  'charge.refunded',
+  'invoice.paid'
+];
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: any };
+}
+
+export interface StripePayment {
+  invoiceId: string | null;
+  amountPaid: number;
+  currency: string;
+  stripeSessionId?: string | null;
+  stripePaymentIntentId: string;
+  stripeInvoiceId?: string | null;
+  stripeCustomerId?: string | null;
+  date: string;
+  customerName: string;
+  customerEmail: string;
+  description: string;
+}
+
+export interface StripeRefund {
+  stripePaymentIntentId: string;
+  stripeChargeId: string;
+  amountRefunded: number; // Cumulative for the charge, as reported by Stripe
+  currency: string;
+  date: string;
+}
+
+export type StripeReconciliation =
+  | { kind: 'PAID'; invoice: Invoice; credited?: Invoice[] } // credited: other invoices paid with the excess
+  | { kind: 'CREATED'; invoice: Invoice }
+  | { kind: 'REFUNDED'; invoice: Invoice }
+  | { kind: 'DUPLICATE' }
+  | { kind: 'UNMATCHED' };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const idOf = (value: any): string | null => (typeof value === 'string' ? value : value?.id) || null;
+
+const hmac = (payload: string, secret: string, timestamp: number) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+
+/**
+ * Builds a `Stripe-Signature` header for `payload`, for local fixtures and tests.
+ */
+export const signStripePayload = (payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string =>
+  `t=${timestamp},v1=${hmac(payload, secret, timestamp)}`;
+
+/**
+ * True when one of the v1 signatures matches and the timestamp is within the tolerance.
+ */
+export const verifyStripeSignature = (
+  payload: string,
+  header: string | undefined,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSec: number = STRIPE_SIGNATURE_TOLERANCE_SEC
+): boolean => {
+  if (!header || !secret) return false;
+  const parts = header.split(',').map(p => p.trim().split('='));
+  const timestamp = parseInt(parts.find(([k]) => k === 't')?.[1] || '', 10);
+  const signatures = parts.filter(([k]) => k === 'v1').map(([, v]) => v);
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSec) return false;
+
+  const expected = Buffer.from(hmac(payload, secret, timestamp), 'hex');
+  return signatures.some(sig => {
+    const given = Buffer.from(sig, 'hex');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  });
+};
+
+/**
+ * Payment carried by a handled event, or null (unpaid session, subscription PI handled
+ * through invoice.paid, refunds, unknown types).
+ */
+export const parseStripePayment = (event: StripeEvent): StripePayment | null => {
+  const obj = event.data.object;
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const piId = idOf(obj.payment_intent);
+      if (obj.payment_status !== 'paid' || !piId) return null;
+      return {
+        invoiceId: obj.metadata?.invoiceId || null,
+        amountPaid: obj.amount_total / 100,
+        currency: obj.currency?.toUpperCase() || 'USD',
+        stripeSessionId: obj.id,
+        stripePaymentIntentId: piId,
+        stripeCustomerId: idOf(obj.customer),
+        date: new Date(obj.created * 1000).toISOString(),
+        customerName: obj.customer_details?.name || 'Cliente Desconocido',
+        customerEmail: obj.customer_details?.email || '',
+        description: obj.metadata?.invoiceDesc || 'Pago Stripe (Checkout)'
+      };
+    }
+    case 'invoice.paid': {
+      const piId = idOf(obj.payment_intent);
+      if (!piId) return null;
+      return {
+        invoiceId: obj.metadata?.invoiceId || null,
+        amountPaid: obj.amount_paid / 100,
+        currency: obj.currency?.toUpperCase() || 'USD',
+        stripeSessionId: null,
+        stripeInvoiceId: obj.id,
+        stripePaymentIntentId: piId,
+        stripeCustomerId: idOf(obj.customer),
+        date: new Date(obj.created * 1000).toISOString(),
+        customerName: obj.customer_name || obj.customer_email || 'Suscriptor Stripe',
+        customerEmail: obj.customer_email || '',
+        description: obj.description || (obj.subscription ? 'Cobro de Suscripción' : 'Factura Stripe')
+      };
+    }
+    case 'payment_intent.succeeded': {
+      // Stripe invoice payments are reconciled from invoice.paid (richer data)
+      if (obj.invoice) return null;
+      return {
+        invoiceId: obj.metadata?.invoiceId || null,
+        amountPaid: obj.amount_received / 100,
+        currency: obj.currency?.toUpperCase() || 'USD',
+        stripeSessionId: null,
+        stripePaymentIntentId: obj.id,
+        stripeCustomerId: idOf(obj.customer),
+        date: new Date(obj.created * 1000).toISOString(),
+        customerName: obj.receipt_email || 'Comprador Directo',
+        customerEmail: obj.receipt_email || '',
+        description: obj.metadata?.invoiceDesc || obj.description || 'Transacción Stripe'
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+export const parseStripeRefund = (event: StripeEvent): StripeRefund | null => {
+  if (event.type !== 'charge.refunded') return null;
+  const charge = event.data.object;
+  const piId = idOf(charge.payment_intent);
+  if (!piId) return null;
+  return {
+    stripePaymentIntentId: piId,
+    stripeChargeId: charge.id,
+    amountRefunded: charge.amount_refunded / 100,
+    currency: charge.currency?.toUpperCase() || 'USD',
+    date: new Date(event.created * 1000).toISOString()
+  };
+};
+
+const paymentEvent = (title: string, description: string, now: Date, type: TimelineEvent['type'] = 'PAID'): TimelineEvent => ({
+  id: `${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+  type,
+  title,
+  description,
+  timestamp: now.toISOString()
+});
+
+/**
+ * Applies a Stripe payment to the user's documents (same rules as the polling sync).
+ * `allocateId` numbers the invoice auto-created on a customer match.
+ */
+export const reconcileStripePayment = async (
+  payment: StripePayment,
+  documents: Invoice[],
+  clients: DbClient[],
+  user: Pick<UserProfile, 'id'>,
+  allocateId: DocumentIdAllocator,
+  now: Date = new Date()
+): Promise<StripeReconciliation> => {
+  const stripeIds = [payment.stripeSessionId, payment.stripePaymentIntentId, payment.stripeInvoiceId].filter(Boolean) as string[];
+
+  // 1. Already synced (by the webhook or the polling sync)
+  if (documents.some(d => stripeIds.some(id => d.stripeMapping?.includes(id)))) return { kind: 'DUPLICATE' };
+
+  const record: PaymentRecord = {
+    id: `stripe-${payment.stripePaymentIntentId}`,
+    date: payment.date,
+    amount: payment.amountPaid,
+    method: 'Tarjeta',
+    currency: payment.currency,
+    notes: `Stripe ${payment.stripePaymentIntentId}`
+  };
+
+  // 2. Match by Invoice ID (Metadata). A settled invoice still takes the payment: a client
+  // paying it twice is left with credit, not with a new invoice
+  const target = payment.invoiceId
+    ? documents.find(i => i.id === payment.invoiceId && i.status !== 'Rechazada')
+    : undefined;
+
+  if (target) {
+    const remaining = round2(getOpenBalance(target, documents) - payment.amountPaid);
+    const paid: Invoice = {
+      ...target,
+      amountPaid: round2((target.amountPaid || 0) + payment.amountPaid),
+      payments: [...(target.payments || []), record],
+      stripeMapping: [...(target.stripeMapping || []), ...stripeIds],
+      timeline: [
+        ...(target.timeline || []),
+        paymentEvent(
+          `Pago recibido por Stripe: ${payment.currency} ${payment.amountPaid.toFixed(2)}`,
+          remaining > 0.01
+            ? `Resta: ${target.currency} ${remaining.toFixed(2)}`
+            : remaining < -0.01 ? `Saldo a favor: ${target.currency} ${(-remaining).toFixed(2)}` : 'Deuda saldada',
+          now
+        )
+      ]
+    };
+    const invoice = { ...paid, status: resolvePaymentStatus(paid, documents) };
+    if (remaining >= -0.01) return { kind: 'PAID', invoice };
+
+    // The excess pays the client's other open invoices; whatever is left stays as credit
+    const credited = applyClientCreditToOpenInvoices(
+      invoice.clientName,
+      documents.map(d => (d.id === invoice.id ? invoice : d)),
+      invoice.clientId,
+      now
+    );
+    return {
+      kind: 'PAID',
+      invoice: credited.find(d => d.id === invoice.id) || invoice,
+      credited: credited.filter(d => d.id !== invoice.id)
+    };
+  }
+
+  // 3. Match by Stripe Customer ID (Mapping): auto-create a paid invoice
+  const client = payment.stripeCustomerId ? clients.find(c => c.stripeCustomerId === payment.stripeCustomerId) : undefined;
+  if (!client) return { kind: 'UNMATCHED' };
+
+  return {
+    kind: 'CREATED',
+    invoice: {
+      id: await allocateId(user.id, 'Invoice', payment.date),
+      userId: user.id,
+      clientId: client.id,
+      clientName: client.name,
+      clientEmail: client.email,
+      clientTaxId: client.taxId,
+      date: payment.date,
+      status: 'Pagada',
+      total: payment.amountPaid,
+      amountPaid: payment.amountPaid,
+      currency: payment.currency,
+      type: 'Invoice',
+      items: [{
+        id: `item-${payment.stripePaymentIntentId}`,
+        description: payment.description || 'Cobro Automático Stripe',
+        quantity: 1,
+        price: payment.amountPaid,
+        tax: 0
+      }],
+      payments: [record],
+      stripeMapping: stripeIds,
+      timeline: [
+        paymentEvent('Factura auto-generada (Match Stripe Customer)', `ID Stripe: ${payment.stripeCustomerId}`, now, 'CREATED'),
+        paymentEvent(`Pago recibido por Stripe: ${payment.currency} ${payment.amountPaid.toFixed(2)}`, 'Deuda saldada', now)
+      ]
+    }
+  };
+};
+
+/**
+ * Records the refunded difference on the invoice paid by the refunded PaymentIntent.
+ * `charge.refunded` reports the cumulative amount, so repeated events add nothing.
+ */
+export const reconcileStripeRefund = (
+  refund: StripeRefund,
+  documents: Invoice[],
+  now: Date = new Date()
+): StripeReconciliation => {
+  const invoice = documents.find(d => d.stripeMapping?.includes(refund.stripePaymentIntentId));
+  if (!invoice) return { kind: 'UNMATCHED' };
+
+  const refundPrefix = `stripe-refund-${refund.stripeChargeId}`;
+  const alreadyRefunded = (invoice.payments || [])
+    .filter(p => p.id.startsWith(refundPrefix))
+    .reduce((acc, p) => acc - p.amount, 0);
+  const delta = round2(refund.amountRefunded - alreadyRefunded);
+  if (delta < 0.01) return { kind: 'DUPLICATE' };
+
+  // Refunding a duplicate charge can leave the invoice fully paid
+  const amountPaid = round2(Math.max(0, (invoice.amountPaid || 0) - delta));
+  return {
+    kind: 'REFUNDED',
+    invoice: {
+      ...invoice,
+      amountPaid,
+      status: resolvePaymentStatus({ ...invoice, amountPaid }, documents),
+      payments: [...(invoice.payments || []), {
+        id: `${refundPrefix}-${Math.round(refund.amountRefunded * 100)}`,
+        date: refund.date,
+        amount: -delta,
+        method: 'Tarjeta',
+        currency: refund.currency,
+        notes: `Reembolso Stripe ${refund.stripeChargeId}`
+      }],
+      timeline: [
+        ...(invoice.timeline || []),
+        paymentEvent(
+          `Reembolso Stripe: -${refund.currency} ${delta.toFixed(2)}`,
+          `Total reembolsado del cargo: ${refund.currency} ${refund.amountRefunded.toFixed(2)}`,
+          now,
+          'STATUS_CHANGE'
+        )
+      ]
+    }
+  };
+};
@@ -8,7 +8,9 @@
  * 
  * PERSONA JURIDICA (Corporate):
  * - Flat 25% on taxable income.
- * - Minimum tax (CAIR) exists but usually applies to revenues > $1.5M (not handled here for simplicity).
+ *
+ * calculatePanamaISR applies the brackets only; calculateAnnualIsrWorksheet builds the
+ * full annual return on top of it (personal deductions, CAIR, credits, estimated tax).
  */
 
 export interface TaxCalculationResult {
@@ -81,3 +83,113 @@ export const calculatePanamaISR = (
         brackets
     };
 };
+
+/**
+ * ANNUAL ISR WORKSHEET
+ * - Personal deductions (natural persons only): educational expenses, mortgage interest on
+ *   the main residence (capped at $15,000 a year) and medical expenses not covered by insurance.
+ * - CAIR (Cálculo Alternativo del Impuesto sobre la Renta): with gross income over $1.5M,
+ *   4.67% of gross income is taxed at the regular rates; the higher of both methods is due.
+ * - Impuesto estimado: the determined tax is paid again as next year's estimate in three
+ *   installments (June 30, September 30, December 31).
+ * - Credits: ISR withheld by third parties and the estimated installments paid during the year.
+ */
+
+export const CAIR_GROSS_INCOME_THRESHOLD = 1500000;
+export const CAIR_PRESUMED_NET_RATE = 0.0467;
+export const MORTGAGE_INTEREST_CAP = 15000;
+
+export interface IsrPersonalDeductions {
+    education?: number;
+    mortgageInterest?: number;
+    medical?: number;
+}
+
+export interface IsrWorksheetInput {
+    fiscalYear: number;
+    entityType: 'NATURAL' | 'JURIDICA';
+    specialRegime?: string;
+    grossIncome: number;
+    deductibleExpenses: number;
+    personalDeductions?: IsrPersonalDeductions;
+    withholdings?: number; // ISR retenido por terceros
+    estimatedPaymentsMade?: number; // Impuesto estimado pagado durante el año
+}
+
+export interface IsrInstallment {
+    label: string;
+    dueDate: string; // YYYY-MM-DD
+    amount: number;
+}
+
+export interface IsrWorksheet {
+    fiscalYear: number;
+    grossIncome: number;
+    deductibleExpenses: number;
+    personalDeductions: Required<IsrPersonalDeductions> & { total: number };
+    ordinary: TaxCalculationResult;
+    cair: { applies: boolean; presumedNetIncome: number; tax: number };
+    method: 'ORDINARIO' | 'CAIR';
+    determinedTax: number;
+    credits: { withholdings: number; estimatedPayments: number; total: number };
+    balanceDue: number;
+    creditBalance: number;
+    installments: IsrInstallment[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const calculateAnnualIsrWorksheet = (input: IsrWorksheetInput): IsrWorksheet => {
+    const isNatural = input.entityType === 'NATURAL';
+    const raw = isNatural ? (input.personalDeductions || {}) : {};
+    const personal = {
+        education: Math.max(0, raw.education || 0),
+        mortgageInterest: Math.min(MORTGAGE_INTEREST_CAP, Math.max(0, raw.mortgageInterest || 0)),
+        medical: Math.max(0, raw.medical || 0)
+    };
+    const personalTotal = personal.education + personal.mortgageInterest + personal.medical;
+
+    const ordinary = calculatePanamaISR(
+        input.grossIncome,
+        input.deductibleExpenses + personalTotal,
+        input.entityType,
+        input.specialRegime
+    );
+
+    const cairApplies = input.grossIncome > CAIR_GROSS_INCOME_THRESHOLD;
+    const presumedNetIncome = cairApplies ? round2(input.grossIncome * CAIR_PRESUMED_NET_RATE) : 0;
+    const cairTax = cairApplies
+        ? calculatePanamaISR(presumedNetIncome, 0, input.entityType, input.specialRegime).estimatedTax
+        : 0;
+
+    const method = cairApplies && cairTax > ordinary.estimatedTax ? 'CAIR' : 'ORDINARIO';
+    const determinedTax = round2(method === 'CAIR' ? cairTax : ordinary.estimatedTax);
+
+    const withholdings = Math.max(0, input.withholdings || 0);
+    const estimatedPayments = Math.max(0, input.estimatedPaymentsMade || 0);
+    const balance = round2(determinedTax - withholdings - estimatedPayments);
+
+    // Next year's estimate = this year's tax; rounding remainder goes to the last installment
+    const nextYear = input.fiscalYear + 1;
+    const share = Math.floor((determinedTax / 3) * 100) / 100;
+    const installments: IsrInstallment[] = determinedTax > 0 ? [
+        { label: '1ra partida', dueDate: `${nextYear}-06-30`, amount: share },
+        { label: '2da partida', dueDate: `${nextYear}-09-30`, amount: share },
+        { label: '3ra partida', dueDate: `${nextYear}-12-31`, amount: round2(determinedTax - share * 2) }
+    ] : [];
+
+    return {
+        fiscalYear: input.fiscalYear,
+        grossIncome: input.grossIncome,
+        deductibleExpenses: input.deductibleExpenses,
+        personalDeductions: { ...personal, total: personalTotal },
+        ordinary,
+        cair: { applies: cairApplies, presumedNetIncome, tax: round2(cairTax) },
+        method,
+        determinedTax,
+        credits: { withholdings, estimatedPayments, total: round2(withholdings + estimatedPayments) },
+        balanceDue: Math.max(0, balance),
+        creditBalance: Math.max(0, -balance),
+        installments
+    };
+};
@@ -0,0 +1,325 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import { FiscalCertificateInfo } from '../types';
+
+/**
+ * XML DIGITAL SIGNATURE SERVICE (SERVER-SIDE ONLY)
+ * XMLDSig enveloped signatures (RSA-SHA256, C14N 1.0) for DGI fiscal documents,
+ * using the PKCS#12 certificate issued to the taxpayer by an authorized CA.
+ *
+ * Used by api/v1/signature.js. Never import this from browser components:
+ * private keys must stay inside the serverless runtime.
+ */
+
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const C14N_ALGORITHM = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+const RSA_SHA256_ALGORITHM = 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256';
+const SHA256_ALGORITHM = 'http://www.w3.org/2001/04/xmlenc#sha256';
+const ENVELOPED_ALGORITHM = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+
+export interface ParsedCertificate {
+  privateKeyPem: string;
+  certificatePem: string;
+  chainPem: string[];
+  info: FiscalCertificateInfo;
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  trusted: boolean; // Chain ends at a configured trusted CA (false when none is configured)
+  errors: string[];
+  signer?: Omit<FiscalCertificateInfo, 'uploadedAt'>;
+}
+
+const pemToBase64 = (pem: string) =>
+  pem.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+
+const base64ToPem = (b64: string) =>
+  `-----BEGIN CERTIFICATE-----\n${b64.match(/.{1,64}/g)?.join('\n')}\n-----END CERTIFICATE-----\n`;
+
+const describeCertificate = (pem: string): Omit<FiscalCertificateInfo, 'uploadedAt'> => {
+  const x509 = new crypto.X509Certificate(pem);
+  return {
+    subject: x509.subject.replace(/\n/g, ', '),
+    issuer: x509.issuer.replace(/\n/g, ', '),
+    serialNumber: x509.serialNumber,
+    validFrom: new Date(x509.validFrom).toISOString(),
+    validTo: new Date(x509.validTo).toISOString(),
+    fingerprint: x509.fingerprint256
+  };
+};
+
+// --- CANONICALIZATION ---
+
+const sortAttributes = (attrs: string): string => {
+  const found: { name: string; value: string }[] = [];
+  const re = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(attrs)) !== null) {
+    found.push({ name: m[1], value: m[3] ?? m[4] ?? '' });
+  }
+  // C14N: namespace declarations first (default first), then attributes by name
+  const isNs = (n: string) => n === 'xmlns' || n.startsWith('xmlns:');
+  found.sort((a, b) => {
+    if (isNs(a.name) !== isNs(b.name)) return isNs(a.name) ? -1 : 1;
+    return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+  });
+  return found.map(a => ` ${a.name}="${a.value.replace(/"/g, '&quot;')}"`).join('');
+};
+
+/**
+ * Canonical XML 1.0 (without comments) for the documents this app generates:
+ * drops the XML declaration and comments, normalizes line endings, expands
+ * empty elements and orders attributes. CDATA sections and DTDs are not used
+ * by DGI schemas and are not supported.
+ */
+export const canonicalizeXml = (xml: string): string =>
+  xml
+    .replace(/\r\n?/g, '\n')
+    .replace(/<\?xml[^?]*\?>/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .trim()
+    .replace(/<([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g,
+      (_match, name: string, attrs: string, selfClosing: string) =>
+        `<${name}${sortAttributes(attrs)}>${selfClosing ? `</${name}>` : ''}`);
+
+const sha256Base64 = (data: string) =>
+  crypto.createHash('sha256').update(data, 'utf8').digest('base64');
+
+const buildSignedInfo = (digestValue: string, withNamespace: boolean) =>
+  `<SignedInfo${withNamespace ? ` xmlns="${DSIG_NS}"` : ''}>` +
+  `<CanonicalizationMethod Algorithm="${C14N_ALGORITHM}"></CanonicalizationMethod>` +
+  `<SignatureMethod Algorithm="${RSA_SHA256_ALGORITHM}"></SignatureMethod>` +
+  `<Reference URI="">` +
+  `<Transforms>` +
+  `<Transform Algorithm="${ENVELOPED_ALGORITHM}"></Transform>` +
+  `<Transform Algorithm="${C14N_ALGORITHM}"></Transform>` +
+  `</Transforms>` +
+  `<DigestMethod Algorithm="${SHA256_ALGORITHM}"></DigestMethod>` +
+  `<DigestValue>${digestValue}</DigestValue>` +
+  `</Reference>` +
+  `</SignedInfo>`;
+
+const SIGNATURE_BLOCK = /<Signature[\s>][\s\S]*?<\/Signature>/;
+
+// --- PKCS#12 ---
+
+/**
+ * Opens a PKCS#12 (.p12/.pfx) file and extracts the signing key and certificate.
+ * Throws with a user-facing message when the password or file is wrong.
+ */
+export const parsePkcs12 = (p12Base64: string, password: string): ParsedCertificate => {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const asn1 = forge.asn1.fromDer(forge.util.decode64(p12Base64));
+    p12 = forge.pkcs12.pkcs12FromAsn1(asn1, password);
+  } catch (e) {
+    throw new Error('No se pudo abrir el certificado. Verifique el archivo .p12 y la contraseña.');
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [])
+  ];
+  const certBags = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [];
+
+  const privateKey = keyBags.find(b => b.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!privateKey) throw new Error('El certificado no contiene una llave privada.');
+
+  const certificates = certBags.map(b => b.cert).filter((c): c is forge.pki.Certificate => !!c);
+  // Signing certificate = the one whose public key matches the private key
+  const signingCert = certificates.find(c => {
+    const pub = c.publicKey as forge.pki.rsa.PublicKey;
+    return pub.n && pub.n.equals(privateKey.n);
+  });
+  if (!signingCert) throw new Error('El certificado no corresponde a la llave privada incluida.');
+
+  const certificatePem = forge.pki.certificateToPem(signingCert);
+  const chainPem = certificates.filter(c => c !== signingCert).map(c => forge.pki.certificateToPem(c));
+
+  return {
+    privateKeyPem: forge.pki.privateKeyToPem(privateKey),
+    certificatePem,
+    chainPem,
+    info: { ...describeCertificate(certificatePem), uploadedAt: new Date().toISOString() }
+  };
+};
+
+const isIssuedByTrustedCa = (cert: crypto.X509Certificate, trustedCaPems: string[]): boolean =>
+  trustedCaPems.some(caPem => {
+    const ca = new crypto.X509Certificate(caPem);
+    return cert.checkIssued(ca) && cert.verify(ca.publicKey);
+  });
+
+/**
+ * Checks that a certificate is currently valid and, when CA certificates are
+ * provided, that it was issued by one of them.
+ */
+export const validateCertificate = (certificatePem: string, trustedCaPems: string[] = [], at: Date = new Date()): string[] => {
+  const errors: string[] = [];
+  const cert = new crypto.X509Certificate(certificatePem);
+
+  if (at < new Date(cert.validFrom)) errors.push('El certificado aún no es válido.');
+  if (at > new Date(cert.validTo)) errors.push('El certificado está vencido.');
+
+  if (trustedCaPems.length > 0 && !isIssuedByTrustedCa(cert, trustedCaPems)) {
+    errors.push('El certificado no fue emitido por una autoridad certificadora de confianza.');
+  }
+
+  return errors;
+};
+
+// --- SIGN / VERIFY ---
+
+/**
+ * Adds an enveloped XMLDSig <Signature> as the last child of the document element.
+ */
+export const signXmlEnveloped = (xml: string, privateKeyPem: string, certificatePem: string): string => {
+  if (SIGNATURE_BLOCK.test(xml)) {
+    throw new Error('El documento ya está firmado.');
+  }
+
+  const closing = xml.lastIndexOf('</');
+  if (closing === -1) throw new Error('XML inválido: no se encontró el elemento raíz.');
+
+  const digestValue = sha256Base64(canonicalizeXml(xml));
+  const signatureValue = crypto
+    .sign('sha256', Buffer.from(buildSignedInfo(digestValue, true), 'utf8'), privateKeyPem)
+    .toString('base64');
+
+  const signature =
+    `<Signature xmlns="${DSIG_NS}">` +
+    buildSignedInfo(digestValue, false) +
+    `<SignatureValue>${signatureValue}</SignatureValue>` +
+    `<KeyInfo><X509Data><X509Certificate>${pemToBase64(certificatePem)}</X509Certificate></X509Data></KeyInfo>` +
+    `</Signature>`;
+
+  return xml.slice(0, closing) + signature + xml.slice(closing);
+};
+
+/**
+ * Verifies digest, signature value and (optionally) the signer's CA.
+ */
+export const verifyXmlSignature = (signedXml: string, trustedCaPems: string[] = []): SignatureVerificationResult => {
+  const errors: string[] = [];
+  const block = signedXml.match(SIGNATURE_BLOCK)?.[0];
+  if (!block) return { valid: false, trusted: false, errors: ['El documento no contiene una firma XMLDSig.'] };
+
+  const readTag = (tag: string) => block.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.replace(/\s+/g, '') || '';
+  const digestValue = readTag('DigestValue');
+  const signatureValue = readTag('SignatureValue');
+  const certB64 = readTag('X509Certificate');
+
+  if (!certB64) return { valid: false, trusted: false, errors: ['La firma no incluye el certificado X.509.'] };
+  const certificatePem = base64ToPem(certB64);
+
+  let signer: SignatureVerificationResult['signer'];
+  try {
+    signer = describeCertificate(certificatePem);
+  } catch (e) {
+    return { valid: false, trusted: false, errors: ['El certificado incluido en la firma es inválido.'] };
+  }
+
+  // 1. Reference digest (enveloped transform = document without <Signature>)
+  const unsigned = signedXml.replace(SIGNATURE_BLOCK, '');
+  if (sha256Base64(canonicalizeXml(unsigned)) !== digestValue) {
+    errors.push('El contenido del documento fue modificado después de firmado (digest no coincide).');
+  }
+
+  // 2. SignatureValue over canonical SignedInfo (inherits the xmldsig default namespace)
+  const signedInfo = block.match(/<SignedInfo[\s>][\s\S]*?<\/SignedInfo>/)?.[0] || '';
+  const canonicalSignedInfo = canonicalizeXml(
+    signedInfo.includes('xmlns=') ? signedInfo : signedInfo.replace('<SignedInfo', `<SignedInfo xmlns="${DSIG_NS}"`)
+  );
+  const x509 = new crypto.X509Certificate(certificatePem);
+  const signatureOk = crypto.verify(
+    'sha256',
+    Buffer.from(canonicalSignedInfo, 'utf8'),
+    x509.publicKey,
+    Buffer.from(signatureValue, 'base64')
+  );
+  if (!signatureOk) errors.push('La firma digital no es válida para el certificado incluido.');
+
+  // 3. Certificate validity and trust
+  errors.push(...validateCertificate(certificatePem, trustedCaPems));
+
+  const trusted = trustedCaPems.length > 0 && isIssuedByTrustedCa(x509, trustedCaPems);
+  return { valid: errors.length === 0, trusted, errors, signer };
+};
+
+// --- LOCAL TEST CA ---
+
+const generateRsaKeys = () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    privateKey: forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs1', format: 'pem' }).toString()),
+    publicKey: forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString())
+  };
+};
+
+const randomSerial = () => '01' + crypto.randomBytes(8).toString('hex');
+
+export interface TestCertificateAuthority {
+  certificatePem: string;
+  privateKeyPem: string;
+}
+
+/**
+ * Creates a self-signed CA for local testing of certificate uploads and signatures.
+ */
+export const createTestCertificateAuthority = (commonName = 'Konsul Test CA'): TestCertificateAuthority => {
+  const keys = generateRsaKeys();
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = randomSerial();
+  cert.validity.notBefore = new Date(Date.now() - 60 * 1000);
+  cert.validity.notAfter = new Date(Date.now() + 5 * 365 * 24 * 60 * 60 * 1000);
+  const attrs = [{ name: 'commonName', value: commonName }, { name: 'countryName', value: 'PA' }];
+  cert.setSubject(attrs);
+  cert.setIssuer(attrs);
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: true },
+    { name: 'keyUsage', keyCertSign: true, cRLSign: true }
+  ]);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  return {
+    certificatePem: forge.pki.certificateToPem(cert),
+    privateKeyPem: forge.pki.privateKeyToPem(keys.privateKey)
+  };
+};
+
+/**
+ * Issues a signing certificate from the test CA and packs it as a base64 PKCS#12.
+ */
+export const issueTestPkcs12 = (
+  ca: TestCertificateAuthority,
+  subject: { commonName: string; ruc?: string },
+  password: string,
+  validDays = 365
+): string => {
+  const keys = generateRsaKeys();
+  const caCert = forge.pki.certificateFromPem(ca.certificatePem);
+  const caKey = forge.pki.privateKeyFromPem(ca.privateKeyPem);
+
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = randomSerial();
+  cert.validity.notBefore = new Date(Date.now() - 60 * 1000);
+  cert.validity.notAfter = new Date(Date.now() + validDays * 24 * 60 * 60 * 1000);
+  const attrs: forge.pki.CertificateField[] = [
+    { name: 'commonName', value: subject.commonName },
+    { name: 'countryName', value: 'PA' }
+  ];
+  if (subject.ruc) attrs.push({ name: 'serialNumber', value: subject.ruc });
+  cert.setSubject(attrs);
+  cert.setIssuer(caCert.subject.attributes);
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, nonRepudiation: true }
+  ]);
+  cert.sign(caKey, forge.md.sha256.create());
+
+  const p12Asn1 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [cert, caCert], password, { algorithm: '3des' });
+  return forge.util.encode64(forge.asn1.toDer(p12Asn1).getBytes());
+};
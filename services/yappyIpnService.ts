@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import { Client } from '@neondatabase/serverless';
+import { Invoice, PaymentRecord, TimelineEvent } from '../types';
+import { getOpenBalance } from './creditNoteService';
+import { resolvePaymentStatus } from './clientCreditService';
+
+/**
+ * YAPPY IPN (SERVER-SIDE ONLY)
+ * Botón de Pago Yappy confirms each payment with a GET to the merchant's IPN URL:
+ *   ?orderId=...&status=E|R|C|X&domain=...&hash=...&confirmationNumber=...
+ * hash = HMAC-SHA256(orderId + status + domain), keyed with part 0 of the decoded secret key.
+ * Orders are registered when the checkout is signed (api/yappy/v1/get-token.js), so the
+ * invoice and amount always come from our own record, never from the callback.
+ * Each order settles once: replays of a valid callback are acknowledged without effect.
+ */
+
+export const YAPPY_IPN_STATUS_LABELS: Record<string, string> = {
+  E: 'Ejecutado',
+  R: 'Rechazado',
+  C: 'Cancelado',
+  X: 'Expirado'
+};
+
+export interface YappyIpnParams {
+  orderId: string;
+  status: string;
+  domain: string;
+  hash?: string;
+  confirmationNumber?: string;
+}
+
+export interface YappyOrder {
+  orderId: string;
+  userId: string;
+  invoiceId: string;
+  amount: number;
+  currency: string;
+  domain: string;
+  status: string; // PENDING until the IPN arrives, then the Yappy status code
+  confirmationNumber?: string | null;
+  createdAt?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * The secret key is base64("<hmacSecret>.<apiKey>"): part 0 signs, part 1 authenticates the handshake.
+ */
+export const splitYappySecret = (secretKey: string): { hmacSecret: string; derivedApiKey: string } => {
+  try {
+    const parts = Buffer.from(secretKey, 'base64').toString('utf8').split('.');
+    if (parts.length >= 2) {
+      return { hmacSecret: parts[0], derivedApiKey: parts[1] };
+    }
+  } catch (e) {
+    console.warn('Yappy secret decoding failed, using raw key:', e);
+  }
+  return { hmacSecret: secretKey, derivedApiKey: secretKey };
+};
+
+export const signYappyIpn = (secretKey: string, params: Pick<YappyIpnParams, 'orderId' | 'status' | 'domain'>): string =>
+  crypto
+    .createHmac('sha256', splitYappySecret(secretKey).hmacSecret)
+    .update(`${params.orderId}${params.status}${params.domain}`)
+    .digest('hex');
+
+export const verifyYappyIpn = (secretKey: string, params: YappyIpnParams): boolean => {
+  if (!params.hash || !/^[0-9a-f]+$/i.test(params.hash)) return false;
+  const expected = Buffer.from(signYappyIpn(secretKey, params), 'hex');
+  const given = Buffer.from(params.hash, 'hex');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+/**
+ * Local simulator: query string of a validly signed IPN call, as Yappy would send it.
+ *   fetch(`/api/yappy/v1/ipn?${simulateYappyIpn(secret, order)}`)
+ */
+export const simulateYappyIpn = (
+  secretKey: string,
+  order: Pick<YappyOrder, 'orderId' | 'domain'>,
+  status: string = 'E',
+  confirmationNumber: string = `SIM${Date.now().toString(36).toUpperCase()}`
+): string => {
+  const params = { orderId: order.orderId, status, domain: order.domain, confirmationNumber };
+  return new URLSearchParams({ ...params, hash: signYappyIpn(secretKey, params) }).toString();
+};
+
+/**
+ * Yappy accepts alphanumeric order ids of up to 15 characters.
+ */
+export const generateYappyOrderId = (): string =>
+  `${Date.now().toString(36)}${crypto.randomBytes(4).toString('hex')}`.toUpperCase().slice(0, 15);
+
+/**
+ * Invoice with the confirmed Yappy payment applied, or null if it was already recorded.
+ */
+export const applyYappyPayment = (
+  invoice: Invoice,
+  documents: Invoice[],
+  order: YappyOrder,
+  confirmationNumber: string | undefined,
+  now: Date = new Date()
+): Invoice | null => {
+  const paymentId = `yappy-${order.orderId}`;
+  if (invoice.payments?.some(p => p.id === paymentId)) return null;
+
+  const remaining = round2(getOpenBalance(invoice, documents) - order.amount);
+  const record: PaymentRecord = {
+    id: paymentId,
+    date: now.toISOString(),
+    amount: order.amount,
+    method: 'Yappy',
+    currency: order.currency,
+    notes: confirmationNumber ? `Yappy confirmación ${confirmationNumber}` : `Yappy orden ${order.orderId}`
+  };
+  const event: TimelineEvent = {
+    id: `${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    type: 'PAID',
+    title: `Pago recibido por Yappy: ${order.currency} ${order.amount.toFixed(2)}`,
+    description: remaining > 0.01 ? `Resta: ${invoice.currency} ${remaining.toFixed(2)}` : 'Deuda saldada',
+    timestamp: now.toISOString()
+  };
+
+  const paid: Invoice = {
+    ...invoice,
+    amountPaid: round2((invoice.amountPaid || 0) + order.amount),
+    payments: [...(invoice.payments || []), record],
+    timeline: [...(invoice.timeline || []), event]
+  };
+  return { ...paid, status: resolvePaymentStatus(paid, documents) };
+};
+
+// --- Order registry (Neon) ---
+
+interface YappyOrderRow {
+  order_id: string;
+  user_id: string;
+  invoice_id: string;
+  amount: string;
+  currency: string;
+  domain: string;
+  status: string;
+  confirmation_number: string | null;
+  created_at: string;
+}
+
+const mapOrderRow = (r: YappyOrderRow): YappyOrder => ({
+  orderId: r.order_id,
+  userId: r.user_id,
+  invoiceId: r.invoice_id,
+  amount: parseFloat(r.amount),
+  currency: r.currency,
+  domain: r.domain,
+  status: r.status,
+  confirmationNumber: r.confirmation_number,
+  createdAt: r.created_at
+});
+
+export const ensureYappyOrdersTable = async (client: Client): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS yappy_orders (
+      order_id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      invoice_id TEXT NOT NULL,
+      amount NUMERIC(12, 2) NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      domain TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'PENDING',
+      confirmation_number TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      confirmed_at TIMESTAMPTZ
+    );
+  `);
+};
+
+export const createYappyOrder = async (client: Client, order: Omit<YappyOrder, 'status'>): Promise<void> => {
+  await client.query(
+    `INSERT INTO yappy_orders (order_id, user_id, invoice_id, amount, currency, domain) VALUES ($1, $2, $3, $4, $5, $6)`,
+    [order.orderId, order.userId, order.invoiceId, order.amount, order.currency, order.domain]
+  );
+};
+
+export const getYappyOrder = async (client: Client, orderId: string): Promise<YappyOrder | null> => {
+  const { rows } = await client.query(`SELECT * FROM yappy_orders WHERE order_id = $1`, [orderId]);
+  return rows[0] ? mapOrderRow(rows[0]) : null;
+};
+
+/**
+ * Moves a PENDING order to its final status. False when another call already did (replay).
+ */
+export const claimYappyOrder = async (client: Client, orderId: string, status: string, confirmationNumber?: string): Promise<boolean> => {
+  const { rows } = await client.query(`
+    UPDATE yappy_orders SET status = $2, confirmation_number = $3, confirmed_at = NOW()
+    WHERE order_id = $1 AND status = 'PENDING'
+    RETURNING order_id
+  `, [orderId, status, confirmationNumber || null]);
+  return rows.length > 0;
+};
+
+export const releaseYappyOrder = async (client: Client, orderId: string): Promise<void> => {
+  await client.query(
+    `UPDATE yappy_orders SET status = 'PENDING', confirmation_number = NULL, confirmed_at = NULL WHERE order_id = $1`,
+    [orderId]
+  );
+};
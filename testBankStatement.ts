@@ -0,0 +1,109 @@
+import { Invoice } from './types.ts';
+import {
+    parseBankStatement, detectStatementFormat, parseStatementAmount, parseStatementDate, suggestBankMatches,
+    applyBankMatch, filterNewBankTransactions, nameSimilarity
+} from './services/bankStatementService.ts';
+
+const NOW = new Date('2026-06-10T14:00:00Z');
+
+// Banco General export: account preamble, Débito/Crédito columns, day-first dates
+const BG_CSV = [
+    'Cuenta,04-72-98-123456-7',
+    'Titular,KONSUL DIGITAL S.A.',
+    '',
+    'Fecha,Referencia,Descripción,Débito,Crédito,Saldo',
+    '02/06/2026,88123,"TRANSF ACH DE ACME, S.A. PAGO FAC-0031",,"1,070.00","5,070.00"',
+    '03/06/2026,88124,PAGO TARJETA CLARO PANAMA,45.50,,"5,024.50"',
+    '03/06/2026,88125,DEPOSITO EFECTIVO,,20.00,"5,044.50"',
+    'Total,,,45.50,"1,090.00",'
+].join('\n');
+
+// Banistmo export: semicolons, single amount column plus debit/credit type
+const BANISTMO_CSV = [
+    'Fecha;Descripción;Referencia;Monto;Tipo',
+    '05/06/2026;ACH JUAN PEREZ;556;250.00;CR',
+    '05/06/2026;ACH JUAN PEREZ;556;250.00;CR'
+].join('\n');
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260604120000[-5:EST]<TRNAMT>400.00<FITID>OFX-1<NAME>GLOBEX CORP<MEMO>ABONO
+</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260604<TRNAMT>-45.50<FITID>OFX-2<NAME>CLARO PANAMA
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry><Amt Ccy="USD">1070.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><BookgDt><Dt>2026-06-02</Dt></BookgDt>
+<AcctSvcrRef>BNK-777</AcctSvcrRef><NtryDtls><TxDtls><Refs><EndToEndId>FAC-0031</EndToEndId></Refs>
+<RltdPties><Dbtr><Nm>ACME S.A.</Nm></Dbtr><Cdtr><Nm>KONSUL DIGITAL</Nm></Cdtr></RltdPties>
+<RmtInf><Ustrd>Pago factura</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+<Ntry><Amt Ccy="USD">45.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><BookgDt><Dt>2026-06-03</Dt></BookgDt>
+<AcctSvcrRef>BNK-778</AcctSvcrRef><NtryDtls><TxDtls><RltdPties><Cdtr><Nm>Claro Panamá</Nm></Cdtr></RltdPties></TxDtls></NtryDtls></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+const doc = (id: string, clientName: string, total: number, type: Invoice['type'] = 'Invoice', status: Invoice['status'] = 'Enviada'): Invoice => ({
+    id, clientName, total, type, status,
+    date: '2026-06-01',
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: total, tax: 0 }],
+    currency: 'USD'
+});
+
+const documents: Invoice[] = [
+    doc('FAC-0031', 'Acme S.A.', 1070),
+    doc('FAC-0032', 'Globex Corp', 1000),
+    doc('FAC-0033', 'Juan Pérez', 250),
+    doc('GAS-0005', 'Claro Panamá', 45.5, 'Expense', 'Creada')
+];
+
+const run = () => {
+    console.log("--- STARTING BANK STATEMENT TEST ---");
+
+    const bg = parseBankStatement(BG_CSV, 'bg.csv', 'user_1', 'USD', NOW);
+    const banistmo = parseBankStatement(BANISTMO_CSV, 'banistmo.csv', 'user_1', 'USD', NOW);
+    const ofx = parseBankStatement(OFX, 'junio.ofx', 'user_1', 'USD', NOW);
+    const camt = parseBankStatement(CAMT, 'camt.xml', 'user_1', 'USD', NOW);
+
+    const acmeSuggestions = suggestBankMatches(bg[0], documents);
+    const globexSuggestions = suggestBankMatches(ofx[0], documents);
+    const expenseSuggestions = suggestBankMatches(camt[1], documents);
+    const cashSuggestions = suggestBankMatches(bg[2], documents);
+
+    const paid = applyBankMatch(bg[0], documents[0], documents, NOW)!;
+    const partial = applyBankMatch(ofx[0], documents[1], documents, NOW)!;
+    const expense = applyBankMatch(camt[1], documents[3], documents, NOW)!;
+
+    const testCases = [
+        { name: 'Format detection', got: [detectStatementFormat(BG_CSV), detectStatementFormat(OFX), detectStatementFormat(CAMT)].join('/'), expected: 'CSV/OFX/CAMT053' },
+        { name: 'Amount formats', got: [parseStatementAmount('1,070.00'), parseStatementAmount('(45.50)'), parseStatementAmount('1.234,56'), parseStatementAmount('B/. 25.00')].join('|'), expected: '1070|-45.5|1234.56|25' },
+        { name: 'Day-first dates', got: [parseStatementDate('02/06/2026'), parseStatementDate('05-ene-26'), parseStatementDate('20260604120000')].join('|'), expected: '2026-06-02|2026-01-05|2026-06-04' },
+        { name: 'Banco General CSV skips preamble and totals', got: bg.length, expected: 3 },
+        { name: 'Banco General credit and debit', got: `${bg[0].amount}/${bg[1].amount}/${bg[0].reference}`, expected: '1070/-45.5/88123' },
+        { name: 'Banistmo duplicates kept distinct', got: `${banistmo.length}/${banistmo[0].id !== banistmo[1].id}`, expected: '2/true' },
+        { name: 'OFX lines', got: `${ofx[0].id}/${ofx[0].date}/${ofx[1].amount}/${ofx[0].counterparty}`, expected: 'ofx-OFX-1/2026-06-04/-45.5/GLOBEX CORP' },
+        { name: 'CAMT.053 lines', got: `${camt[0].id}/${camt[0].reference}/${camt[0].counterparty}/${camt[1].amount}/${camt[1].counterparty}`, expected: 'camt053-BNK-777/FAC-0031/ACME S.A./-45.5/Claro Panamá' },
+        { name: 'Re-import is filtered', got: filterNewBankTransactions(bg, parseBankStatement(BG_CSV, 'bg.csv', 'user_1', 'USD', NOW)).length, expected: 0 },
+        { name: 'Name similarity ignores noise', got: nameSimilarity('TRANSF ACH DE ACME, S.A. PAGO', 'Acme S.A.'), expected: 1 },
+        { name: 'Reference + amount + name ranks invoice first', got: `${acmeSuggestions[0]?.documentId}/${acmeSuggestions[0]?.score}`, expected: 'FAC-0031/100' },
+        { name: 'Partial transfer suggested by name', got: globexSuggestions[0]?.documentId, expected: 'FAC-0032' },
+        { name: 'Debit suggests expense only', got: expenseSuggestions.map(s => s.documentId).join(','), expected: 'GAS-0005' },
+        { name: 'Unrelated deposit stays unmatched', got: cashSuggestions.length, expected: 0 },
+        { name: 'Accepted match settles invoice', got: `${paid.status}/${paid.amountPaid}/${paid.payments?.[0].method}`, expected: 'Pagada/1070/Banco' },
+        { name: 'Partial transfer', got: `${partial.status}/${partial.timeline?.[0].description}`, expected: 'Abonada/Resta: USD 600.00' },
+        { name: 'Expense marked paid', got: `${expense.status}/${expense.amountPaid}`, expected: 'Aceptada/45.5' },
+        { name: 'Same line not applied twice', got: applyBankMatch(bg[0], paid, [paid], NOW), expected: null },
+        { name: 'Paid invoice no longer suggested', got: suggestBankMatches(bg[0], [paid]).length, expected: 0 },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,67 @@
+import { Invoice } from './types.ts';
+import {
+    getInvoiceCredit, resolvePaymentStatus, getClientCreditBalance, applyClientCredit, getCollectedTotals
+} from './services/clientCreditService.ts';
+
+const NOW = new Date('2026-04-02T12:00:00Z');
+
+const base = (id: string, date: string, total: number, amountPaid: number, extras: Partial<Invoice> = {}): Invoice => ({
+    id,
+    clientName: 'Cliente Saldo',
+    date,
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: total, tax: 0 }],
+    total,
+    amountPaid,
+    status: amountPaid >= total ? 'Pagada' : amountPaid > 0 ? 'Abonada' : 'Enviada',
+    currency: 'USD',
+    type: 'Invoice',
+    payments: amountPaid ? [{ id: `p-${id}`, date, amount: amountPaid, method: 'Banco', currency: 'USD' }] : [],
+    ...extras
+});
+
+const run = () => {
+    console.log("--- TEST: CLIENT CREDIT & REFUNDS ---");
+
+    const overpaid = base('FAC-0001', '2026-03-01', 100, 160);
+    const older = base('FAC-0002', '2026-02-01', 50, 70);
+    const open = base('FAC-0003', '2026-03-20', 120, 30);
+    const eur = base('FAC-0004', '2026-03-05', 80, 100, { currency: 'EUR' });
+    const otherClient = base('FAC-0005', '2026-03-05', 10, 40, { clientName: 'Otro Cliente' });
+    const creditNote: Invoice = { ...base('NC-0001', '2026-03-02', 20, 0), type: 'CreditNote', referenceInvoiceId: 'FAC-0001', status: 'Aceptada' };
+    const docs = [overpaid, older, open, eur, otherClient];
+
+    // Applying credit to FAC-0003 (owes 90): oldest USD source first (20 from FAC-0002), then all 60 of FAC-0001
+    const applied = applyClientCredit(open, docs, NOW)!;
+    const [target, ...sources] = applied;
+    const afterApply = docs.map(d => applied.find(u => u.id === d.id) || d);
+
+    const refunded = { ...overpaid, amountPaid: 100, payments: [...overpaid.payments!, { id: 'r1', date: '2026-03-03', amount: -60, method: 'Banco' as const }] };
+    const fullyRefunded = { ...overpaid, amountPaid: 0, status: 'Pagada' as const };
+
+    const testCases = [
+        { name: 'Overpayment is credit', got: getInvoiceCredit(overpaid, docs), expected: 60 },
+        { name: 'Credit note adds to credit', got: getInvoiceCredit(overpaid, [...docs, creditNote]), expected: 80 },
+        { name: 'Client balance in USD', got: getClientCreditBalance('Cliente Saldo', docs, undefined, 'USD'), expected: 80 },
+        { name: 'Other currencies and clients excluded', got: getClientCreditBalance('cliente saldo', docs, undefined, 'EUR'), expected: 20 },
+        { name: 'Apply credit updates target and sources', got: applied.map(d => d.id).join(','), expected: 'FAC-0003,FAC-0002,FAC-0001' },
+        { name: 'Target partially covered', got: `${target.status}/${target.amountPaid}`, expected: 'Abonada/110' },
+        { name: 'Oldest source consumed first', got: sources[0].payments!.slice(-1)[0].amount, expected: -20 },
+        { name: 'Sources keep what they owe', got: sources.map(s => `${s.status}/${s.amountPaid}`).join(','), expected: 'Pagada/50,Pagada/100' },
+        { name: 'Records are linked', got: target.payments!.filter(p => p.linkedDocumentId).map(p => p.linkedDocumentId).join(','), expected: 'FAC-0002,FAC-0001' },
+        { name: 'Remaining USD credit', got: getClientCreditBalance('Cliente Saldo', afterApply, undefined, 'USD'), expected: 0 },
+        { name: 'Nothing to apply returns null', got: applyClientCredit(target, afterApply, NOW), expected: null },
+        { name: 'Refund of overpayment keeps paid', got: resolvePaymentStatus(refunded, docs), expected: 'Pagada' },
+        { name: 'Partial refund reopens', got: resolvePaymentStatus({ ...overpaid, amountPaid: 40 }, docs), expected: 'Abonada' },
+        { name: 'Full refund back to sent', got: resolvePaymentStatus(fullyRefunded, docs), expected: 'Enviada' },
+        { name: 'Collected nets refunds, ignores transfers', got: JSON.stringify(getCollectedTotals([...afterApply.slice(0, 4), refunded])), expected: '{"collected":520,"refunded":60}' },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,53 @@
+import { Invoice } from './types.ts';
+import {
+    buildCreditNote,
+    buildDebitNote,
+    getCreditableLines,
+    getOpenBalance
+} from './services/creditNoteService.ts';
+
+const invoice: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente Demo',
+    date: '2026-01-10T00:00:00.000Z',
+    items: [
+        { id: 'a', description: 'Consultoría', quantity: 10, price: 50, tax: 7 },
+        { id: 'b', description: 'Licencia', quantity: 2, price: 100, tax: 7 }
+    ],
+    total: 749, // (500 + 200) * 1.07
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+console.log("--- STARTING CREDIT / DEBIT NOTE TEST ---");
+
+const partial = buildCreditNote(invoice, [invoice], { id: 'NC-0001', reason: 'Horas no prestadas', lines: [{ itemId: 'a', quantity: 4 }] });
+const afterPartial = [invoice, partial];
+const debit = buildDebitNote(invoice, { id: 'ND-0001', reason: 'Intereses', items: [{ id: 'x', description: 'Interés', quantity: 1, price: 10, tax: 0 }] });
+const full = buildCreditNote(invoice, afterPartial, { id: 'NC-0002', reason: 'Anulación' });
+
+let overCreditRejected = false;
+try {
+    buildCreditNote(invoice, afterPartial, { id: 'NC-0003', reason: 'Exceso', lines: [{ itemId: 'a', quantity: 7 }] });
+} catch (e) { overCreditRejected = true; }
+
+const testCases = [
+    { name: 'Partial credit total (4 x 50 + 7%)', got: partial.total, expected: 214 },
+    { name: 'Partial credit scope', got: partial.adjustmentScope, expected: 'PARTIAL' },
+    { name: 'Open balance after partial credit', got: getOpenBalance(invoice, afterPartial), expected: 535 },
+    { name: 'Remaining creditable hours', got: getCreditableLines(invoice, afterPartial)[0].remainingQuantity, expected: 6 },
+    { name: 'Debit note raises the balance', got: getOpenBalance(invoice, [...afterPartial, debit]), expected: 545 },
+    { name: 'Full credit covers only what is left', got: full.total, expected: 535 },
+    { name: 'Balance after full credit', got: getOpenBalance(invoice, [...afterPartial, full]), expected: 0 },
+    { name: 'Draft notes are ignored', got: getOpenBalance(invoice, [invoice, { ...partial, status: 'Borrador' }]), expected: 749 },
+    { name: 'Payments reduce the balance', got: getOpenBalance({ ...invoice, amountPaid: 100 }, afterPartial), expected: 435 },
+    { name: 'Over-crediting rejected', got: overCreditRejected, expected: true },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
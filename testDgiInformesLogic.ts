@@ -0,0 +1,54 @@
+import { Invoice, DbProvider } from './types.ts';
+import { buildPurchasesReport, buildSalesReport, INFORME_LAYOUTS } from './services/dgiInformesService.ts';
+
+const doc = (partial: Partial<Invoice>): Invoice => ({
+    id: Math.random().toString(36).slice(2),
+    clientName: 'Cliente',
+    date: '2026-03-10',
+    items: [],
+    total: 0,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice',
+    ...partial
+});
+
+const providers: DbProvider[] = [{ name: 'Copa Airlines Inc', taxId: '15569888-2-2021 DV 08' }];
+const range = { from: '2026-03-01', to: '2026-03-31' };
+
+const purchases = buildPurchasesReport([
+    doc({ id: 'EXP-1', type: 'Expense', status: 'Pagada', clientName: 'Copa Airlines Inc', supplierInvoiceNumber: '0001-2345', total: 107, items: [{ id: 'a', description: 'Boleto', quantity: 1, price: 107, tax: 0 }] }),
+    doc({ id: 'EXP-2', type: 'Expense', status: 'Pagada', clientName: 'Proveedor X', clientTaxId: '8-754-1234 DV 99', supplierInvoiceNumber: '77', total: 50, items: [] }),
+    doc({ id: 'EXP-3', type: 'Expense', status: 'Pagada', clientName: 'Kiosco', isValidFiscalDoc: false, total: 5, items: [] }),
+    doc({ id: 'EXP-4', type: 'Expense', status: 'Pagada', date: '2026-04-02', clientName: 'Copa Airlines Inc', supplierInvoiceNumber: '9', total: 10, items: [] })
+], providers, range);
+
+const sales = buildSalesReport([
+    doc({ id: 'FAC-0001', clientName: 'Juan Pérez', clientTaxId: '8-754-1234 DV 14', items: [{ id: '1', description: 'Servicio', quantity: 1, price: 100, tax: 7 }], total: 107 }),
+    doc({ id: 'NC-0001', type: 'CreditNote', clientName: 'Juan Pérez', clientTaxId: '8-754-1234 DV 14', items: [{ id: '1', description: 'Servicio', quantity: 1, price: 20, tax: 7 }], total: 21.4 }),
+    doc({ id: 'FAC-0002', clientName: 'Consumidor Final', items: [{ id: '1', description: 'Venta', quantity: 1, price: 10, tax: 7 }], total: 10.7 })
+], [], range);
+
+const lineWidth = INFORME_LAYOUTS.F94.reduce((acc, f) => acc + f.width, 0);
+const firstLine = purchases.txt.split('\r\n')[0];
+
+console.log("--- STARTING DGI INFORMES TEST ---");
+
+const testCases = [
+    { name: 'F94 valid rows (provider RUC from directory)', got: purchases.rows.length, expected: 1 },
+    { name: 'F94 wrong DV and voucher rejected', got: purchases.rejected.map(r => r.documentId).join(','), expected: 'EXP-2,EXP-3' },
+    { name: 'F94 ITBMS backed out of total', got: purchases.rows[0]?.itbms, expected: 7 },
+    { name: 'F94 record has fixed width', got: firstLine.length, expected: lineWidth },
+    { name: 'F94 juridical person type', got: firstLine[0], expected: 'J' },
+    { name: 'F43 credit note reported negative', got: sales.rows[1]?.monto, expected: -20 },
+    { name: 'F43 net ITBMS', got: sales.totalItbms, expected: 5.6 },
+    { name: 'F43 sale without RUC rejected', got: sales.rejected[0]?.documentId, expected: 'FAC-0002' },
+    { name: 'F43 negative amount layout', got: sales.txt.split('\r\n')[1].slice(-30, -15), expected: '-00000000020.00' },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
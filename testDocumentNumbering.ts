@@ -0,0 +1,30 @@
+import { DocumentSequences } from './types.ts';
+import {
+    formatDocumentNumber, getNumberPattern, getSeedNumber, getSequenceYear, validateNumberPattern
+} from './services/documentNumberingService.ts';
+
+const legacy: DocumentSequences = { invoicePrefix: 'FAC', invoiceNextNumber: 57, quotePrefix: 'COT', quoteNextNumber: 3 };
+const yearly: DocumentSequences = { ...legacy, invoicePrefix: 'FAC-{YYYY}-{####}', creditNotePrefix: 'NC{YY}/{######}' };
+
+console.log("--- STARTING DOCUMENT NUMBERING TEST ---");
+
+const testCases = [
+    { name: 'Plain prefix keeps the historical format', got: formatDocumentNumber(getNumberPattern(legacy, 'Invoice'), 57, '2026-03-01'), expected: 'FAC-0057' },
+    { name: 'Default prefix for notes', got: formatDocumentNumber(getNumberPattern(legacy, 'DebitNote'), 1, '2026-03-01'), expected: 'ND-0001' },
+    { name: 'Year pattern', got: formatDocumentNumber(getNumberPattern(yearly, 'Invoice'), 12, '2026-03-01T15:00:00.000Z'), expected: 'FAC-2026-0012' },
+    { name: 'Short year and custom padding', got: formatDocumentNumber(getNumberPattern(yearly, 'CreditNote'), 7, '2027-01-02'), expected: 'NC27/000007' },
+    { name: 'Year patterns get one counter per fiscal year', got: `${getSequenceYear('FAC-{YYYY}-{####}', '2026-12-31')}/${getSequenceYear('FAC-{YYYY}-{####}', '2027-01-01')}`, expected: '2026/2027' },
+    { name: 'Plain prefixes share a single counter', got: getSequenceYear('FAC-{####}', '2027-01-01'), expected: 0 },
+    { name: 'Single counter continues from the profile', got: getSeedNumber(legacy, 'Invoice', 0), expected: 57 },
+    { name: 'Yearly counter starts at 1', got: getSeedNumber(yearly, 'Invoice', 2026), expected: 1 },
+    { name: 'Unknown token rejected', got: validateNumberPattern('FAC-{MM}-{####}') !== null, expected: true },
+    { name: 'Two number blocks rejected', got: validateNumberPattern('{###}-{###}') !== null, expected: true },
+    { name: 'Valid pattern accepted', got: validateNumberPattern('FAC-{YYYY}-{####}'), expected: null },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
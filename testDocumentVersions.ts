@@ -0,0 +1,79 @@
+import { Invoice } from './types.ts';
+import {
+    isIssuedDocument, getEditMode, createDocumentVersion, getImmutableViolation, getDocumentAtVersion,
+    DOCUMENT_NEEDS_VERSION, DOCUMENT_LOCKED_FE, DOCUMENT_BACK_TO_DRAFT, DOCUMENT_VERSIONS_REMOVED
+} from './services/documentVersionService.ts';
+
+const sent: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente Demo',
+    date: '2026-03-01T15:00:00.000Z',
+    items: [
+        { id: '1', description: 'Consultoría', quantity: 2, price: 100, tax: 7, taxRateCode: 'TASA_7' },
+        { id: '2', description: 'Soporte', quantity: 1, price: 50, tax: 0, taxRateCode: 'EXENTO' }
+    ],
+    total: 264,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice',
+    stripeMapping: ['cs_1'],
+    timeline: [{ id: 't1', type: 'SENT', title: 'Enviado', timestamp: '2026-03-01T16:00:00.000Z' }]
+};
+
+const draft: Invoice = { ...sent, id: 'FAC-0002', status: 'Borrador', timeline: [] };
+const authorized: Invoice = {
+    ...sent,
+    electronicInvoice: {
+        cufe: 'FE01', xml: '<rFE/>', status: 'AUTORIZADA', fiscalNumber: '1', pointOfSale: '001',
+        securityCode: '1', environment: 'PRUEBAS', generatedAt: '2026-03-01T16:00:00.000Z'
+    }
+};
+
+// The editor does not carry Stripe links: they must survive the new version
+const edited: Invoice = {
+    ...sent,
+    notes: 'Entrega en abril',
+    items: [{ ...sent.items[0], quantity: 3 }, { id: '3', description: 'Capacitación', quantity: 1, price: 80, tax: 0 }],
+    total: 401
+};
+delete edited.stripeMapping;
+
+const v2 = createDocumentVersion(sent, edited, new Date('2026-03-05T12:00:00.000Z'));
+const v2Event = v2.timeline![v2.timeline!.length - 1];
+const v3 = createDocumentVersion(v2, { ...v2, clientName: 'Cliente Demo S.A.' }, new Date('2026-03-06T12:00:00.000Z'));
+const untouched = createDocumentVersion(sent, { ...sent, status: 'Abonada', amountPaid: 100 });
+const lateFee: Invoice = {
+    ...sent,
+    items: [...sent.items, { id: 'late-fee', description: 'Intereses por mora', quantity: 1, price: 4.5, tax: 0, lateFee: true }],
+    total: 268.5
+};
+
+console.log("--- STARTING DOCUMENT VERSIONS TEST ---");
+
+const testCases = [
+    { name: 'Sent invoice is issued', got: isIssuedDocument(sent), expected: true },
+    { name: 'Draft edits in place', got: getEditMode(draft), expected: 'IN_PLACE' },
+    { name: 'Authorized FE is locked', got: getEditMode(authorized), expected: 'LOCKED' },
+    { name: 'Edit creates version 2', got: `${v2.version}/${v2.versions?.length}`, expected: '2/1' },
+    { name: 'Previous content kept', got: v2.versions?.[0].content.items.map(i => i.quantity).join(','), expected: '2,1' },
+    { name: 'Fields outside the editor kept', got: v2.stripeMapping?.join(','), expected: 'cs_1' },
+    { name: 'Diff lists every change', got: v2Event.changes?.map(c => c.field).join(' | '), expected: 'Notas | Ítem: Consultoría | Ítem eliminado: Soporte | Ítem agregado: Capacitación | Total' },
+    { name: 'Diff shows before and after', got: `${v2Event.changes?.[1].before} → ${v2Event.changes?.[1].after}`, expected: '2 × 100.00 + ITBMS 7% → 3 × 100.00 + ITBMS 7%' },
+    { name: 'History grows with each version', got: v3.versions?.map(v => v.version).join(','), expected: '1,2' },
+    { name: 'Old version viewable', got: getDocumentAtVersion(v3, v3.versions![1]).clientName, expected: 'Cliente Demo' },
+    { name: 'Status-only change is not a version', got: `${untouched.version ?? 1}/${untouched.status}`, expected: '1/Abonada' },
+    { name: 'In-place rewrite rejected', got: getImmutableViolation(sent, edited), expected: DOCUMENT_NEEDS_VERSION },
+    { name: 'New version accepted', got: getImmutableViolation(sent, v2), expected: null },
+    { name: 'Late fee line is not an amendment', got: getImmutableViolation(sent, lateFee), expected: null },
+    { name: 'Draft rewrite accepted', got: getImmutableViolation(draft, { ...draft, notes: 'x' }), expected: null },
+    { name: 'FE invoice cannot be amended', got: getImmutableViolation(authorized, createDocumentVersion(authorized, { ...authorized, notes: 'x' })), expected: DOCUMENT_LOCKED_FE },
+    { name: 'Issued cannot go back to draft', got: getImmutableViolation({ ...sent, timeline: [] }, { ...sent, timeline: [], status: 'Borrador' }), expected: DOCUMENT_BACK_TO_DRAFT },
+    { name: 'Versions cannot be dropped', got: getImmutableViolation(v3, { ...v3, versions: v2.versions }), expected: DOCUMENT_VERSIONS_REMOVED },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
@@ -0,0 +1,109 @@
+import { Invoice, UserProfile, DbClient, DunningSequence } from './types.ts';
+import { processInvoicesFollowUp, FollowUpStore } from './services/followUpService.ts';
+import { resolveDunningSequence, getDueDunningSteps, renderDunningTemplate } from './services/dunningService.ts';
+
+const gentle: DunningSequence = {
+    id: 'seq_vip',
+    name: 'VIP',
+    steps: [{ id: 'vip-10', dayOffset: 10, channel: 'EMAIL', tone: 'FRIENDLY' }]
+};
+
+const hard: DunningSequence = {
+    id: 'seq_hard',
+    name: 'Estricta',
+    steps: [
+        { id: 'hard-3', dayOffset: 3, channel: 'EMAIL', tone: 'FIRM' },
+        { id: 'hard-10-wa', dayOffset: 10, channel: 'WHATSAPP', tone: 'FIRM' },
+        { id: 'hard-10-task', dayOffset: 10, channel: 'TASK', tone: 'FIRM' },
+        { id: 'hard-30', dayOffset: 30, channel: 'EMAIL', tone: 'FINAL', escalateToUncollectible: true }
+    ]
+};
+
+const user = {
+    id: 'user_1',
+    name: 'Empresa Demo',
+    followUpProfile: 'NORMAL',
+    dunningSequences: [gentle, hard],
+    defaultDunningSequenceId: 'seq_hard',
+    businessHours: { startHour: 0, endHour: 24, workdays: [0, 1, 2, 3, 4, 5, 6] }
+} as UserProfile;
+
+const clients: DbClient[] = [
+    { id: 'cli_vip', name: 'Cliente VIP', dunningSequenceId: 'seq_vip' },
+    { id: 'cli_std', name: 'Cliente Estándar', phone: '6000-1234' }
+];
+
+const baseInvoice: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente Estándar',
+    clientEmail: 'cliente@correo.com',
+    date: '2026-01-01',
+    dueDate: '2026-02-01',
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: 500, tax: 0 }],
+    total: 500,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+const memoryStore = (saved: Map<string, Invoice>): FollowUpStore => {
+    const milestones = new Set<string>();
+    return {
+        saveDocument: async (doc) => { saved.set(doc.id, doc); },
+        allocateDocumentId: async (_userId, type) => `${type}-${saved.size + 1}`,
+        acquireLock: async () => true,
+        releaseLock: async () => {},
+        claimMilestone: async (key) => !milestones.has(key) && !!milestones.add(key),
+        releaseMilestone: async (key) => { milestones.delete(key); }
+    };
+};
+
+const run = async () => {
+    console.log("--- STARTING DUNNING SEQUENCE TEST ---");
+
+    const vipInvoice = { ...baseInvoice, id: 'FAC-0002', clientName: 'Cliente VIP', clientId: 'cli_vip' };
+    const overridden = { ...baseInvoice, dunningSequenceId: 'seq_vip' };
+    const disabled = { ...baseInvoice, dunningSequenceId: 'OFF' };
+
+    // Day 10: WhatsApp + task fire together, the day-3 email is skipped
+    const saved = new Map<string, Invoice>();
+    let emails: string[] = [];
+    const deps = (now: string) => ({
+        store: memoryStore(saved),
+        mailer: { send: async (e: { subject: string }) => { emails.push(e.subject); return true; } },
+        now: () => new Date(now),
+        runId: 'run-1'
+    });
+    const day10 = await processInvoicesFollowUp([baseInvoice], user, deps('2026-02-11T15:00:00Z'), clients);
+    const events = saved.get(baseInvoice.id)?.timeline || [];
+    const waEvent = events.find(e => e.dunning?.channel === 'WHATSAPP');
+
+    // Day 30: final email escalates
+    saved.clear();
+    emails = [];
+    const day30 = await processInvoicesFollowUp([baseInvoice], user, deps('2026-03-03T15:00:00Z'), clients);
+
+    const testCases = [
+        { name: 'Client sequence beats user default', got: resolveDunningSequence(vipInvoice, clients[0], user)?.id, expected: 'seq_vip' },
+        { name: 'Invoice override beats client', got: resolveDunningSequence(overridden, clients[1], user)?.id, expected: 'seq_vip' },
+        { name: 'Invoice override OFF disables', got: resolveDunningSequence(disabled, clients[1], user), expected: null },
+        { name: 'User default before preset', got: resolveDunningSequence(baseInvoice, clients[1], user)?.id, expected: 'seq_hard' },
+        { name: 'Latest reached offset only', got: getDueDunningSteps(hard, 12).map(s => s.step.id).join(','), expected: 'hard-10-wa,hard-10-task' },
+        { name: 'Template placeholders', got: renderDunningTemplate('{cliente}: {saldo}', { cliente: 'Ana', factura: '1', saldo: 'USD 5.00', dias: 3, vencimiento: '', empresa: '' }), expected: 'Ana: USD 5.00' },
+        { name: 'Day 10 fires two steps, no email', got: `${day10.stepsFired}/${day10.remindersSent}`, expected: '2/0' },
+        { name: 'WhatsApp link with local prefix', got: waEvent?.dunning?.actionUrl?.startsWith('https://wa.me/50760001234?text='), expected: true },
+        { name: 'Timeline shows the step', got: waEvent?.dunning ? `${waEvent.dunning.stepIndex + 1}/${waEvent.dunning.stepCount}` : '', expected: '2/4' },
+        { name: 'Final step escalates', got: saved.get(baseInvoice.id)?.status, expected: 'Incobrable' },
+        { name: 'Final step uses tone subject', got: emails[0]?.startsWith('Último Aviso de Pago'), expected: true },
+        { name: 'Escalation counted', got: day30.escalated, expected: 1 },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,107 @@
+import { Invoice, ProfileType, UserProfile } from './types.ts';
+import {
+    generateCUFE, calculateCufeCheckDigit, validateForFacturaElectronica, buildFacturaElectronica,
+    submitToLocalPac, issueFacturaElectronica, getFiscalNumber
+} from './services/facturaElectronicaService.ts';
+import { validateRuc } from './services/dgiService.ts';
+
+const ISSUED_AT = new Date('2026-03-10T20:30:00Z'); // 15:30 in Panama
+
+const issuer: UserProfile = {
+    id: 'user_1',
+    name: 'Empresa Demo',
+    legalName: 'EMPRESA DEMO <& HIJOS>, S.A.',
+    type: ProfileType.COMPANY,
+    taxId: '155698882-2-2021 DV 25',
+    address: 'Calle 50, Ciudad de Panamá',
+    avatar: '',
+    isOnboardingComplete: true
+};
+
+const invoice: Invoice = {
+    id: 'FAC-0042',
+    clientName: 'Cliente "Uno" & Cía',
+    clientTaxId: '8-754-1234 DV 14',
+    date: '2026-03-10',
+    items: [
+        { id: '1', description: 'Consultoría <fase 1>', quantity: 2, price: 50, tax: 7 },
+        { id: '2', description: 'Licencia', quantity: 1, price: 100, tax: 0 }
+    ],
+    total: 207,
+    status: 'Creada',
+    currency: 'USD',
+    type: 'Invoice',
+    paymentForm: '02'
+};
+
+const cufe = generateCUFE({
+    docType: '01', rucType: '2', ruc: '155698882-2-2021', dv: '25', branchCode: '0000', issuedAt: ISSUED_AT,
+    fiscalNumber: '42', pointOfSale: '001', emissionType: '01', environment: '2', securityCode: '123456789'
+});
+
+const built = buildFacturaElectronica(invoice, issuer, { issuedAt: ISSUED_AT, securityCode: '123456789' });
+
+const errorsOf = (inv: Partial<Invoice>, profile: Partial<UserProfile> = {}) =>
+    validateForFacturaElectronica({ ...invoice, ...inv }, { ...issuer, ...profile }).errors.join(' | ');
+
+// Every example in the "unrecognized format" hint must itself validate
+const formatHint = validateRuc('no es un ruc').error || '';
+const hintExamples = (formatHint.match(/ej\. (.*)\)/)?.[1] || '').split(' o ');
+
+const run = async () => {
+    console.log("--- STARTING FACTURA ELECTRONICA TEST ---");
+
+    const accepted = await submitToLocalPac(built.xml);
+    const badCheckDigit = await submitToLocalPac(built.xml.replace(`<dId>${built.cufe}</dId>`, `<dId>${built.cufe.slice(0, -1)}${(Number(built.cufe.slice(-1)) + 1) % 10}</dId>`));
+    const badVersion = await submitToLocalPac(built.xml.replace('<dVerForm>1.00</dVerForm>', '<dVerForm>0.90</dVerForm>'));
+    const noPaymentForm = await submitToLocalPac(built.xml.replace(/<iFormaPago>[^<]*<\/iFormaPago>/, ''));
+
+    const authorized = await issueFacturaElectronica(invoice, issuer);
+    const rejected = await issueFacturaElectronica(invoice, issuer, { submit: async () => ({ success: false, error: 'RUC del receptor no registrado.' }) });
+    const signed = await issueFacturaElectronica(invoice, issuer, { sign: async xml => xml.replace('</rFE>', '<Signature/></rFE>') });
+
+    const testCases = [
+        // CUFE
+        { name: 'CUFE length (65 body + check digit)', got: cufe.length, expected: 66 },
+        { name: 'CUFE starts with FE + document type', got: cufe.slice(0, 4), expected: 'FE01' },
+        { name: 'CUFE date is the Panama date', got: cufe.slice(32, 40), expected: '20260310' },
+        { name: 'CUFE check digit matches its body', got: calculateCufeCheckDigit(cufe.slice(0, -1)), expected: cufe.slice(-1) },
+        { name: 'Luhn check digit of a known value', got: calculateCufeCheckDigit('7992739871'), expected: '3' },
+        { name: 'Fiscal number from document id', got: getFiscalNumber('FAC-2026-0042'), expected: '0000000042' },
+        // Validation
+        { name: 'Complete invoice validates', got: validateForFacturaElectronica(invoice, issuer).valid, expected: true },
+        { name: 'Quotes cannot be issued', got: errorsOf({ type: 'Quote' }), expected: 'Solo las facturas pueden emitirse como Factura Electrónica.' },
+        { name: 'Issuer without RUC', got: errorsOf({}, { taxId: '' }), expected: 'El emisor no tiene RUC configurado.' },
+        { name: 'Issuer without address', got: errorsOf({}, { address: undefined }), expected: 'El emisor no tiene dirección registrada.' },
+        { name: 'Client DV that does not match', got: errorsOf({ clientTaxId: '8-754-1234 DV 99' }), expected: 'RUC del cliente: El DV 99 no corresponde a 8-754-1234 (DV correcto: 14). Déjelo vacío para Consumidor Final.' },
+        { name: 'Invalid ITBMS rate', got: errorsOf({ items: [{ id: '1', description: 'X', quantity: 1, price: 10, tax: 12 }] }), expected: 'Ítem 1: tasa de ITBMS inválida (12). Use 0, 7, 10 o 15%.' },
+        { name: 'Missing payment form', got: errorsOf({ paymentForm: undefined }), expected: 'Debe indicar la forma de pago.' },
+        { name: 'Format hint examples pass validation', got: hintExamples.length === 2 && hintExamples.every(e => validateRuc(e).valid), expected: true },
+        { name: 'Build throws on invalid data', got: (() => { try { buildFacturaElectronica({ ...invoice, paymentForm: undefined }, issuer); return 'built'; } catch (e) { return 'thrown'; } })(), expected: 'thrown' },
+        // XML
+        { name: 'XML carries the CUFE', got: built.xml.includes(`<dId>${built.cufe}</dId>`), expected: true },
+        { name: 'Escapes issuer name', got: built.xml.includes('<dNombEm>EMPRESA DEMO &lt;&amp; HIJOS&gt;, S.A.</dNombEm>'), expected: true },
+        { name: 'Escapes client name', got: built.xml.includes('<dNombRec>Cliente &quot;Uno&quot; &amp; Cía</dNombRec>'), expected: true },
+        { name: 'Escapes item description', got: built.xml.includes('<dDescProd>Consultoría &lt;fase 1&gt;</dDescProd>'), expected: true },
+        { name: 'Totals', got: /<dTotITBMS>7.00<\/dTotITBMS>[\s\S]*<dVTot>207.00<\/dVTot>/.test(built.xml), expected: true },
+        { name: 'Receptor RUC and DV', got: /<dRuc>8-754-1234<\/dRuc>\s*<dDV>14<\/dDV>/.test(built.xml), expected: true },
+        { name: 'Emission time in Panama', got: built.xml.includes('<dFechaEm>2026-03-10T15:30:00-05:00</dFechaEm>'), expected: true },
+        // PAC
+        { name: 'PAC authorizes a valid document', got: `${accepted.success}/${accepted.authorizationNumber?.length}`, expected: 'true/20' },
+        { name: 'PAC rejects a wrong check digit', got: badCheckDigit.error, expected: 'Dígito verificador del CUFE incorrecto.' },
+        { name: 'PAC rejects another schema version', got: badVersion.success, expected: false },
+        { name: 'PAC rejects a missing payment form', got: noPaymentForm.error, expected: 'Totales o forma de pago ausentes.' },
+        { name: 'Issue flow authorizes', got: `${authorized.status}/${!!authorized.authorizationNumber}`, expected: 'AUTORIZADA/true' },
+        { name: 'Issue flow records the rejection', got: `${rejected.status}/${rejected.rejectionReason}`, expected: 'RECHAZADA/RUC del receptor no registrado.' },
+        { name: 'Issue flow signs before submitting', got: `${signed.status}/${signed.xml.includes('<Signature/>')}/${!!signed.signedAt}`, expected: 'AUTORIZADA/true/true' },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,44 @@
+import { FiscalConfig, TaxFiling } from './types.ts';
+import {
+    generateFiscalDeadlines, buildMergedFiscalCalendar, rollToBusinessDay, getDeadlineStatus, toDateKey
+} from './services/fiscalCalendarService.ts';
+
+const profile = (id: string, fiscalConfig: Partial<FiscalConfig>) => ({ id, name: `Empresa ${id}`, fiscalConfig: fiscalConfig as FiscalConfig });
+
+const natural = profile('n', { entityType: 'NATURAL', itbmsRegistered: true });
+const company = profile('j', { entityType: 'JURIDICA', companyForm: 'SA', hasEmployees: true });
+const emprendimiento = profile('e', { entityType: 'JURIDICA', companyForm: 'EMI', incorporationDate: '2025-03-01' });
+
+const march = generateFiscalDeadlines(natural, [], new Date(2026, 2, 1), new Date(2026, 2, 31), new Date(2026, 2, 1));
+const companyMarch = generateFiscalDeadlines(company, [], new Date(2026, 2, 1), new Date(2026, 2, 31), new Date(2026, 2, 1));
+const july = (year: number) => generateFiscalDeadlines(emprendimiento, [], new Date(year, 6, 1), new Date(year, 6, 31));
+const filings: TaxFiling[] = [{ userId: 'n', form: 'F430', period: '2026-02', status: 'FILED' }];
+const merged = buildMergedFiscalCalendar([{ profile: natural, filings }, { profile: company, filings: [] }], new Date(2026, 2, 1), new Date(2026, 2, 31));
+
+const find = (list: typeof march, form: string) => list.find(d => d.form === form);
+const due = { form: 'F430' as const, period: '2026-02', dueDate: '2026-03-16' };
+
+console.log("--- STARTING FISCAL CALENDAR TEST ---");
+
+const testCases = [
+    { name: 'Holiday (Mártires, Friday) rolls to Monday', got: toDateKey(rollToBusinessDay(new Date(2026, 0, 9))), expected: '2026-01-12' },
+    { name: 'Carnival Monday rolls past Tuesday', got: toDateKey(rollToBusinessDay(new Date(2026, 1, 16))), expected: '2026-02-18' },
+    { name: 'F430 only when ITBMS registered', got: `${!!find(march, 'F430')}/${!!find(companyMarch, 'F430')}`, expected: 'true/false' },
+    { name: 'F430 of February, Sunday 15th rolls to 16th', got: find(march, 'F430')?.dueDate, expected: '2026-03-16' },
+    { name: 'SIPE only when there are employees', got: `${!!find(march, 'SIPE')}/${!!find(companyMarch, 'SIPE')}`, expected: 'false/true' },
+    { name: 'ISR natural due March 15 (rolled)', got: find(march, 'ISR')?.dueDate, expected: '2026-03-16' },
+    { name: 'ISR jurídica due March 31', got: find(companyMarch, 'ISR')?.dueDate, expected: '2026-03-31' },
+    { name: 'Sociedad de Emprendimiento exempt in first two years', got: `${!!find(july(2026), 'TASA_UNICA')}/${!!find(july(2027), 'TASA_UNICA')}`, expected: 'false/true' },
+    { name: 'Status DUE within a week', got: getDeadlineStatus(due, [], new Date(2026, 2, 10)), expected: 'DUE' },
+    { name: 'Status UPCOMING otherwise', got: getDeadlineStatus(due, [], new Date(2026, 2, 1)), expected: 'UPCOMING' },
+    { name: 'Status LATE after due date', got: getDeadlineStatus(due, [], new Date(2026, 2, 17)), expected: 'LATE' },
+    { name: 'Status FILED when marked', got: getDeadlineStatus(due, filings, new Date(2026, 2, 17)), expected: 'FILED' },
+    { name: 'Merged calendar keeps both companies', got: new Set(merged.map(d => d.userId)).size, expected: 2 },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
@@ -0,0 +1,114 @@
+import { Invoice, UserProfile } from './types.ts';
+import { processInvoicesFollowUp, getLocalTime, FollowUpStore, FollowUpDeps } from './services/followUpService.ts';
+
+// In-memory store and mailer, same contract as the Neon store in api/cron/follow-up.js
+const createMemoryStore = () => {
+    const documents = new Map<string, Invoice>();
+    const locks = new Map<string, { owner: string; expiresAt: Date }>();
+    const milestones = new Set<string>();
+    let clock = new Date();
+
+    const store: FollowUpStore = {
+        saveDocument: async (doc) => { documents.set(doc.id, doc); },
+        allocateDocumentId: async (_userId, type) => `${type}-${documents.size + 1}`,
+        acquireLock: async (invoiceId, owner, expiresAt) => {
+            const lock = locks.get(invoiceId);
+            if (lock && lock.expiresAt > clock) return false;
+            locks.set(invoiceId, { owner, expiresAt });
+            return true;
+        },
+        releaseLock: async (invoiceId, owner) => {
+            if (locks.get(invoiceId)?.owner === owner) locks.delete(invoiceId);
+        },
+        claimMilestone: async (key) => {
+            if (milestones.has(key)) return false;
+            milestones.add(key);
+            return true;
+        },
+        releaseMilestone: async (key) => { milestones.delete(key); }
+    };
+    return { store, documents, locks, milestones, setClock: (d: Date) => { clock = d; } };
+};
+
+const user = {
+    id: 'user_1',
+    name: 'Empresa Demo',
+    email: 'demo@empresa.com',
+    followUpProfile: 'NORMAL',
+    timezone: 'America/Panama',
+    businessHours: { startHour: 8, endHour: 18, workdays: [1, 2, 3, 4, 5] }
+} as UserProfile;
+
+const invoice: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente',
+    clientEmail: 'cliente@correo.com',
+    date: '2026-01-01',
+    dueDate: '2026-02-20',
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: 1000, tax: 0 }],
+    total: 1000,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+const run = async () => {
+    console.log("--- STARTING FOLLOW-UP ENGINE TEST ---");
+
+    const mem = createMemoryStore();
+    let sent = 0;
+    let failNext = false;
+    const deps = (now: string, runId = 'run-1'): FollowUpDeps => {
+        mem.setClock(new Date(now));
+        return {
+            store: mem.store,
+            mailer: { send: async () => { if (failNext) { failNext = false; return false; } sent++; return true; } },
+            now: () => new Date(now),
+            runId
+        };
+    };
+    const current = () => [mem.documents.get(invoice.id) || invoice];
+
+    // Mon 2026-03-02 14:00 UTC = 09:00 Panama, 10 days overdue -> NORMAL rule 7
+    const first = await processInvoicesFollowUp(current(), user, deps('2026-03-02T14:00:00Z'));
+    // Same milestone on a later run, even with the stale (pre-reminder) invoice
+    const second = await processInvoicesFollowUp([invoice], user, deps('2026-03-02T15:00:00Z'));
+
+    // Saturday 2026-03-07 15:00 UTC: outside workdays
+    const weekend = await processInvoicesFollowUp(current(), user, deps('2026-03-07T15:00:00Z'));
+
+    // Tue 2026-03-10 02:00 UTC is still Mon 2026-03-09 21:00 in Panama
+    const local = getLocalTime(new Date('2026-03-10T02:00:00Z'), 'America/Panama');
+
+    // Another run holds the lock
+    mem.locks.set(invoice.id, { owner: 'run-other', expiresAt: new Date('2026-03-09T16:00:00Z') });
+    const locked = await processInvoicesFollowUp(current(), user, deps('2026-03-09T15:00:00Z'));
+
+    // Failed send frees the milestone; the next run retries
+    mem.locks.clear();
+    failNext = true;
+    const failed = await processInvoicesFollowUp(current(), user, deps('2026-03-09T15:00:00Z'));
+    const retried = await processInvoicesFollowUp(current(), user, deps('2026-03-09T16:00:00Z'));
+
+    const testCases = [
+        { name: 'Reminder sent inside business hours', got: first.remindersSent, expected: 1 },
+        { name: 'Milestone not sent twice', got: second.remindersSent, expected: 0 },
+        { name: 'Invoice moved to follow-up', got: mem.documents.get(invoice.id)?.status, expected: 'Seguimiento' },
+        { name: 'Nothing sent on the weekend', got: weekend.outsideBusinessHours && weekend.remindersSent === 0, expected: true },
+        { name: 'Local date in user timezone', got: `${local.dateKey} ${local.hour}h`, expected: '2026-03-09 21h' },
+        { name: 'Locked invoice skipped', got: locked.skippedLocked, expected: 1 },
+        { name: 'Failed send not recorded', got: failed.remindersSent, expected: 0 },
+        { name: 'Failed send retried next run', got: retried.remindersSent, expected: 1 },
+        { name: 'Lock released after run', got: mem.locks.size, expected: 0 },
+        { name: 'Total emails delivered', got: sent, expected: 2 },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
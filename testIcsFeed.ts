@@ -0,0 +1,89 @@
+import { FiscalConfig, Invoice } from './types.ts';
+import {
+    renderIcsCalendar, buildCalendarFeedEvents, parseFeedCategories, buildCalendarFeedUrl, IcsEvent
+} from './services/icsService.ts';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const FROM = new Date(2026, 2, 1);
+const TO = new Date(2026, 3, 30);
+
+const profile = { id: 'user_1', name: 'Empresa Demo', fiscalConfig: { entityType: 'NATURAL', itbmsRegistered: true } as FiscalConfig };
+
+const doc = (id: string, type: Invoice['type'], status: Invoice['status'], dueDate: string): Invoice => ({
+    id,
+    clientName: 'Cliente, S.A.',
+    date: '2026-02-15',
+    dueDate,
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: 100, tax: 0 }],
+    total: 100,
+    status,
+    currency: 'USD',
+    type
+});
+
+const documents = [
+    doc('FAC-0001', 'Invoice', 'Enviada', '2026-03-20'),
+    doc('FAC-0002', 'Invoice', 'Pagada', '2026-03-21'),
+    doc('COT-0001', 'Quote', 'Enviada', '2026-04-05')
+];
+
+// Unfolding (RFC 5545 §3.1): remove every CRLF followed by a space
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+const contentLines = (ics: string) => ics.split('\r\n').filter(Boolean);
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+const longEvent: IcsEvent = {
+    uid: 'long@konsulbills',
+    date: '2026-03-10',
+    summary: 'Vence factura con una descripción muy larga · Compañía Panameña de Servicios Técnicos y Logísticos, S.A.',
+    category: 'INVOICES'
+};
+const escapedEvent: IcsEvent = {
+    uid: 'esc@konsulbills',
+    date: '2026-03-31',
+    summary: 'Pago; cliente, S.A. \\ sucursal',
+    description: 'Línea 1\nLínea 2',
+    category: 'INVOICES'
+};
+
+const ics = renderIcsCalendar('Calendario Demo', [longEvent, escapedEvent], NOW);
+const unfolded = unfold(ics);
+
+const events = buildCalendarFeedEvents(profile, documents, [], parseFeedCategories(), FROM, TO, NOW);
+const rebuilt = buildCalendarFeedEvents(profile, documents, [], parseFeedCategories(), FROM, TO, new Date('2026-03-05T12:00:00Z'));
+const afterPayment = buildCalendarFeedEvents(
+    profile,
+    documents.map(d => d.id === 'FAC-0001' ? { ...d, status: 'Pagada' as const } : d),
+    [],
+    parseFeedCategories('invoices'),
+    FROM,
+    TO,
+    NOW
+);
+
+console.log("--- STARTING ICS FEED TEST ---");
+
+const testCases = [
+    { name: 'CRLF line endings', got: ics.endsWith('END:VCALENDAR\r\n') && !/[^\r]\n/.test(ics), expected: true },
+    { name: 'Folded lines fit in 75 octets', got: contentLines(ics).every(l => octets(l) <= 75), expected: true },
+    { name: 'Long summary is folded', got: contentLines(ics).some(l => l.startsWith(' ')), expected: true },
+    { name: 'Unfolding restores the summary', got: unfolded.includes(`SUMMARY:${longEvent.summary.replace(/,/g, '\\,')}`), expected: true },
+    { name: 'Multibyte text survives folding', got: unfolded.includes('Compañía Panameña'), expected: true },
+    { name: 'Escapes ; , and backslash', got: unfolded.includes('SUMMARY:Pago\\; cliente\\, S.A. \\\\ sucursal'), expected: true },
+    { name: 'Escapes newlines', got: unfolded.includes('DESCRIPTION:Línea 1\\nLínea 2'), expected: true },
+    { name: 'All-day event ends the next day', got: unfolded.includes('DTSTART;VALUE=DATE:20260331\r\nDTEND;VALUE=DATE:20260401'), expected: true },
+    { name: 'Invoice UID is stable', got: events.find(e => e.category === 'INVOICES')?.uid, expected: 'invoice-user_1-FAC-0001@konsulbills' },
+    { name: 'Quote UID is stable', got: events.find(e => e.category === 'QUOTES')?.uid, expected: 'quote-user_1-COT-0001@konsulbills' },
+    { name: 'Same UIDs on every refresh', got: events.map(e => e.uid).join(',') === rebuilt.map(e => e.uid).join(','), expected: true },
+    { name: 'Paid invoices are not in the feed', got: events.some(e => e.uid.includes('FAC-0002')), expected: false },
+    { name: 'Invoice drops out once paid', got: afterPayment.length, expected: 0 },
+    { name: 'Unknown categories fall back to all', got: parseFeedCategories('foo').join(','), expected: 'FISCAL,INVOICES,QUOTES' },
+    { name: 'Feed URL carries key and categories', got: buildCalendarFeedUrl('https://app.test', 'kb_live_x', 'user_1', ['FISCAL']), expected: 'https://app.test/api/v1/calendar.ics?api_key=kb_live_x&companyId=user_1&categories=fiscal' },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
@@ -0,0 +1,97 @@
+import { Invoice, UserProfile } from './types.ts';
+import {
+    buildInstallmentPlan, validateInstallmentPlan, getInstallmentSchedule, getOverdueInstallments, getNextInstallment
+} from './services/installmentService.ts';
+import { processInvoicesFollowUp, FollowUpStore } from './services/followUpService.ts';
+
+const invoice: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente Cuotas',
+    clientEmail: 'cliente@correo.com',
+    date: '2026-01-15',
+    items: [{ id: '1', description: 'Proyecto', quantity: 1, price: 1000, tax: 0 }],
+    total: 1000,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice',
+    installments: buildInstallmentPlan(1000, 3, '2026-01-31', 'MONTHLY')
+};
+
+const user = {
+    id: 'user_1',
+    name: 'Empresa Demo',
+    email: 'demo@empresa.com',
+    followUpProfile: 'NORMAL',
+    timezone: 'America/Panama',
+    businessHours: { startHour: 8, endHour: 18, workdays: [1, 2, 3, 4, 5] }
+} as UserProfile;
+
+const createStore = () => {
+    const documents = new Map<string, Invoice>();
+    const milestones = new Set<string>();
+    const store: FollowUpStore = {
+        saveDocument: async (doc) => { documents.set(doc.id, doc); },
+        allocateDocumentId: async (_userId, type) => `${type}-${documents.size + 1}`,
+        acquireLock: async () => true,
+        releaseLock: async () => {},
+        claimMilestone: async (key) => {
+            if (milestones.has(key)) return false;
+            milestones.add(key);
+            return true;
+        },
+        releaseMilestone: async (key) => { milestones.delete(key); }
+    };
+    return { store, documents, milestones };
+};
+
+const run = async () => {
+    console.log("--- STARTING INSTALLMENT PLAN TEST ---");
+
+    const plan = invoice.installments!;
+    const thirds = buildInstallmentPlan(100, 3, '2026-03-10', 'BIWEEKLY');
+    const feb15 = new Date(2026, 1, 15);
+    const partlyPaid = { ...invoice, amountPaid: 400, status: 'Abonada' as const };
+    const creditNote: Invoice = { ...invoice, id: 'NC-0001', type: 'CreditNote', referenceInvoiceId: 'FAC-0001', total: 333.33, status: 'Aceptada', installments: undefined };
+    const lateFeeLine = { ...invoice, total: 1050 };
+
+    // Engine: on Mon 2026-03-16 (09:00 Panama) only the first installment (due Jan 31) is past the NORMAL rule
+    const emails: { subject: string; html: string }[] = [];
+    const mem = createStore();
+    const deps = (now: string) => ({
+        store: mem.store,
+        mailer: { send: async (e: { subject: string; html: string }) => { emails.push(e); return true; } },
+        now: () => new Date(now),
+        runId: 'run-1'
+    });
+    const paidFirst = { ...invoice, amountPaid: 333.33, status: 'Abonada' as const };
+    const notOverdue = await processInvoicesFollowUp([paidFirst], user, deps('2026-02-16T14:00:00Z'));
+    const emailsBeforeDue = emails.length;
+    const overdueRun = await processInvoicesFollowUp([partlyPaid], user, deps('2026-03-16T14:00:00Z'));
+    const reminder = emails[0];
+
+    const testCases = [
+        { name: 'Monthly plan keeps month end', got: plan.map(i => i.dueDate).join(','), expected: '2026-01-31,2026-02-28,2026-03-31' },
+        { name: 'Rounding goes to the last installment', got: plan.map(i => i.amount).join(','), expected: '333.33,333.33,333.34' },
+        { name: 'Biweekly dates', got: thirds.map(i => i.dueDate).join(','), expected: '2026-03-10,2026-03-24,2026-04-07' },
+        { name: 'Valid plan', got: validateInstallmentPlan(plan, 1000), expected: null },
+        { name: 'Plan must add up to total', got: validateInstallmentPlan(plan, 900), expected: 'Las cuotas suman 1000.00 y la factura 900.00.' },
+        { name: 'Payments settle in due-date order', got: getInstallmentSchedule(partlyPaid, [], feb15).map(s => `${s.status}/${s.remaining}`).join(','), expected: 'PAID/0,PARTIAL/266.66,PENDING/333.34' },
+        { name: 'Only past-due installments are overdue', got: getOverdueInstallments(invoice, [], feb15).map(s => s.number).join(','), expected: '1' },
+        { name: 'Credit notes count as paid', got: getNextInstallment(invoice, [creditNote], feb15)?.number, expected: 2 },
+        { name: 'Later charges go to the last installment', got: getInstallmentSchedule(lateFeeLine, [], feb15)[2].amount, expected: 383.34 },
+        { name: 'No installment overdue: no reminder', got: `${notOverdue.stepsFired}/${emailsBeforeDue === 0 ? 'sin correo' : 'correo'}`, expected: '0/sin correo' },
+        { name: 'Overdue installment reminded', got: overdueRun.remindersSent, expected: 1 },
+        { name: 'Reminder claims only overdue installments', got: reminder?.html.includes('USD 266.66') && !reminder.html.includes('USD 600.00'), expected: true },
+        { name: 'Reminder keeps the partial-payment status', got: mem.documents.get(invoice.id)?.status, expected: 'Abonada' },
+        { name: 'Milestone is per installment', got: Array.from(mem.milestones).some(k => k.includes(':dunning:cuota-2:')), expected: true },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,37 @@
+import { InvoiceItem } from './types.ts';
+import { calculateItbmsBreakdown, mergeItbmsBreakdowns, resolveItbmsRateCode } from './services/itbmsService.ts';
+
+const items: InvoiceItem[] = [
+    { id: '1', description: 'Servicio', quantity: 1, price: 100, tax: 7, taxRateCode: 'TASA_7' },
+    { id: '2', description: 'Hospedaje', quantity: 2, price: 50, tax: 10, taxRateCode: 'TASA_10' },
+    { id: '3', description: 'Cigarrillos', quantity: 1, price: 20, tax: 15, taxRateCode: 'TASA_15' },
+    { id: '4', description: 'Exportación', quantity: 1, price: 300, tax: 0, taxRateCode: 'TASA_0' },
+    { id: '5', description: 'Medicamento', quantity: 1, price: 40, tax: 0, taxRateCode: 'EXENTO' }
+];
+
+console.log("--- STARTING ITBMS RATE TEST ---");
+
+const breakdown = calculateItbmsBreakdown(items);
+const discounted = calculateItbmsBreakdown(items, 10);
+const byCode = (lines: typeof breakdown, code: string) => lines.find(l => l.code === code);
+const net = mergeItbmsBreakdowns(breakdown, calculateItbmsBreakdown([items[0]]), -1);
+
+const testCases = [
+    { name: 'One bucket per rate', got: breakdown.length, expected: 5 },
+    { name: 'ITBMS 10% on hospedaje', got: byCode(breakdown, 'TASA_10')?.tax, expected: 10 },
+    { name: 'ITBMS 15% on tabaco', got: byCode(breakdown, 'TASA_15')?.tax, expected: 3 },
+    { name: 'Tasa 0% keeps its base', got: byCode(breakdown, 'TASA_0')?.base, expected: 300 },
+    { name: 'Exento reported apart', got: byCode(breakdown, 'EXENTO')?.base, expected: 40 },
+    { name: 'Discount lowers the 7% base', got: byCode(discounted, 'TASA_7')?.base, expected: 90 },
+    { name: 'Discount lowers the 7% tax', got: byCode(discounted, 'TASA_7')?.tax, expected: 6.3 },
+    { name: 'Credit note subtracts its rate', got: byCode(net, 'TASA_7')?.tax, expected: 0 },
+    { name: 'Legacy tax 7 resolves to TASA_7', got: resolveItbmsRateCode({ tax: 7 }), expected: 'TASA_7' },
+    { name: 'Legacy tax 0 resolves to EXENTO', got: resolveItbmsRateCode({ tax: 0 }), expected: 'EXENTO' },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
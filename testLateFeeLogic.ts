@@ -0,0 +1,54 @@
+import { Invoice, LateFeePolicy } from './types.ts';
+import {
+    calculateLateFeeAccrual, applyLateFeeLine, buildLateFeeDebitNote, getChargedLateFees, waiveLateFees
+} from './services/lateFeeService.ts';
+
+const invoice: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente',
+    date: '2026-01-01',
+    dueDate: '2026-01-31',
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: 1000, tax: 0 }],
+    total: 1000,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+const policy: LateFeePolicy = { enabled: true, annualInterestRate: 10, graceDays: 5, flatFee: 5, method: 'LINE' };
+const dueDate = new Date(2026, 0, 31);
+const after = (days: number) => new Date(2026, 0, 31 + days);
+
+const inGrace = calculateLateFeeAccrual(invoice, [invoice], policy, dueDate, after(5));
+const accrual = calculateLateFeeAccrual(invoice, [invoice], policy, dueDate, after(73));
+const capped = calculateLateFeeAccrual(invoice, [invoice], { ...policy, maxAmount: 10 }, dueDate, after(73));
+
+const withLine = applyLateFeeLine(invoice, accrual, policy);
+const lineAgain = calculateLateFeeAccrual(withLine, [withLine], policy, dueDate, after(73));
+
+const note = { ...buildLateFeeDebitNote(invoice, accrual, { ...policy, method: 'DEBIT_NOTE' }, 'ND-0001'), status: 'Enviada' as const };
+const waived = waiveLateFees(invoice, [invoice, note], 'NC-0001');
+const waivedLine = waiveLateFees(withLine, [withLine]);
+
+console.log("--- STARTING LATE FEE TEST ---");
+
+const testCases = [
+    { name: 'Nothing during grace period', got: inGrace.pending, expected: 0 },
+    { name: 'Interest 73 days at 10% on 1000', got: accrual.interest, expected: 20 },
+    { name: 'Interest + flat fee', got: accrual.pending, expected: 25 },
+    { name: 'Cap limits total charges', got: capped.pending, expected: 10 },
+    { name: 'Interest line raises the total', got: withLine.total, expected: 1025 },
+    { name: 'No double charge after the line', got: lineAgain.pending, expected: 0 },
+    { name: 'Principal excludes charged fees', got: lineAgain.principal, expected: 1000 },
+    { name: 'Debit note counted as charged', got: getChargedLateFees(invoice, [invoice, note]), expected: 25 },
+    { name: 'Waiver reverses debit notes', got: waived.creditNote?.total, expected: 25 },
+    { name: 'Waiver removes the interest line', got: waivedLine.invoice.total, expected: 1000 },
+    { name: 'Waived invoice accrues nothing', got: calculateLateFeeAccrual(waivedLine.invoice, [waivedLine.invoice], policy, dueDate, after(120)).pending, expected: 0 },
+];
+
+testCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
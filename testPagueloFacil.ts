@@ -0,0 +1,87 @@
+import { Invoice } from './types.ts';
+import {
+    createMockPagueloFacilGateway, mockPagueloFacilCheckout, reconcilePagueloFacilPayment, buildPagueloFacilLinkForm,
+    mapPagueloFacilTransaction, getNetPaymentAmount, toHex, fromHex, matchesPagueloFacilLink, PagueloFacilLinkRecord
+} from './services/pagueloFacilService.ts';
+
+const BASE = 'https://app.konsul.test';
+const NOW = new Date('2026-05-04T15:00:00Z');
+
+const invoice: Invoice = {
+    id: 'FAC-0020',
+    clientName: 'Cliente Tarjeta',
+    date: '2026-05-01',
+    items: [{ id: '1', description: 'Consultoría', quantity: 1, price: 200, tax: 0 }],
+    total: 200,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+// Link -> mock checkout -> callback query -> transaction lookup, as the endpoints chain them
+const payThroughMock = async (amount: number, approved = true) => {
+    const gateway = createMockPagueloFacilGateway(BASE);
+    const linkId = `link-${amount}-${approved}`;
+    const record: PagueloFacilLinkRecord = { linkId, userId: 'user_1', invoiceId: invoice.id, amount, status: 'PENDING' };
+    const returnUrl = `${BASE}/api/paguelofacil/callback?ref=${linkId}`;
+    const link = await gateway.createLink({ linkId, amount, description: `Factura ${invoice.id}`, returnUrl, invoiceId: invoice.id, userId: 'user_1' });
+    const callback = new URL(mockPagueloFacilCheckout(new URL(link.url).searchParams.get('code')!, approved));
+    const tx = await gateway.getTransaction(callback.searchParams.get('Oper')!);
+    return { link, record, callback, tx: tx! };
+};
+
+const run = async () => {
+    console.log("--- STARTING PAGUELOFACIL TEST ---");
+
+    const first = await payThroughMock(80);
+    const declined = await payThroughMock(120, false);
+    const second = await payThroughMock(120);
+
+    const partial = reconcilePagueloFacilPayment(invoice, [invoice], first.tx, 0, NOW)!;
+    const replay = reconcilePagueloFacilPayment(partial, [partial], first.tx, 0, NOW);
+    const rejected = reconcilePagueloFacilPayment(partial, [partial], declined.tx, 0, NOW);
+    const settled = reconcilePagueloFacilPayment(partial, [partial], { ...second.tx, fee: undefined }, 5, NOW)!;
+
+    const form = buildPagueloFacilLinkForm('CCLW123', { linkId: 'link-1', amount: 80, description: 'Factura FAC-0020', returnUrl: `${BASE}/cb`, invoiceId: invoice.id, userId: 'user_1' });
+    const row = mapPagueloFacilTransaction({
+        codOper: 'PF-99', status: 1, amount: '50.00', commission: '1.95', cardType: 'MC',
+        customFieldValues: [{ id: 'linkId', value: 'link-9' }, { id: 'invoiceId', value: 'FAC-0020' }, { id: 'userId', value: 'user_1' }]
+    });
+
+    const testCases = [
+        { name: 'Hex round trip', got: fromHex(toHex('https://a.test/?x=ñ')), expected: 'https://a.test/?x=ñ' },
+        { name: 'Link form amount', got: form.get('CMTN'), expected: '80.00' },
+        { name: 'Link form return URL is hex', got: fromHex(form.get('RETURN_URL')!), expected: `${BASE}/cb` },
+        { name: 'Link form carries link and invoice ids', got: JSON.parse(fromHex(form.get('PF_CF')!)).map((f: { value: string }) => f.value).slice(0, 2).join('/'), expected: 'link-1/FAC-0020' },
+        { name: 'Mock link points to local checkout', got: first.link.url.startsWith(`${BASE}/api/paguelofacil/mock?code=`), expected: true },
+        { name: 'Checkout returns to callback', got: `${first.callback.pathname}/${first.callback.searchParams.get('Estado')}`, expected: '/api/paguelofacil/callback/Aprobada' },
+        { name: 'Transaction references invoice', got: `${first.tx.invoiceId}/${first.tx.userId}/${first.tx.status}`, expected: 'FAC-0020/user_1/APPROVED' },
+        { name: 'Operation matches its link', got: matchesPagueloFacilLink(first.record, first.tx), expected: true },
+        { name: 'Operation without custom fields rejected', got: matchesPagueloFacilLink(first.record, { ...first.tx, linkId: undefined, userId: undefined, invoiceId: undefined }), expected: false },
+        { name: 'Operation of another link rejected', got: matchesPagueloFacilLink(first.record, second.tx), expected: false },
+        { name: 'Operation for another invoice rejected', got: matchesPagueloFacilLink({ ...first.record, invoiceId: 'FAC-0099' }, first.tx), expected: false },
+        { name: 'Amount different from the link rejected', got: matchesPagueloFacilLink(first.record, { ...first.tx, amount: 8 }), expected: false },
+        { name: 'Forged operation not found', got: await createMockPagueloFacilGateway(BASE).getTransaction('12345'), expected: null },
+        { name: 'Partial payment', got: `${partial.status}/${partial.amountPaid}/${partial.payViaGateway}`, expected: 'Abonada/80/true' },
+        { name: 'Gateway fee recorded', got: partial.payments?.[0].gatewayFee, expected: 2.8 },
+        { name: 'Timeline event', got: partial.timeline?.[0].title, expected: 'Pago recibido por PagueloFacil: USD 80.00' },
+        { name: 'Same operation not applied twice', got: replay, expected: null },
+        { name: 'Declined charge ignored', got: rejected, expected: null },
+        { name: 'Second payment settles', got: `${settled.status}/${settled.amountPaid}/${settled.timeline?.[1].description}`, expected: 'Pagada/200/Deuda saldada' },
+        { name: 'Unreported fee estimated from rate', got: settled.payments?.[1].gatewayFee, expected: 6 },
+        { name: 'API row mapping', got: `${row.operationCode}/${row.status}/${row.amount}/${row.fee}/${row.invoiceId}`, expected: 'PF-99/APPROVED/50/1.95/FAC-0020' },
+        { name: 'API row link id', got: row.linkId, expected: 'link-9' },
+        { name: 'Net uses recorded fee', got: getNetPaymentAmount(settled.payments![0], 10, true), expected: 77.2 },
+        { name: 'Net falls back to rate', got: getNetPaymentAmount({ id: 'm', date: '', amount: 100 }, 4, true), expected: 96 },
+        { name: 'Net without gateway', got: getNetPaymentAmount({ id: 'm', date: '', amount: 100 }, 4, false), expected: 100 },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
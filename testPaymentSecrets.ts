@@ -0,0 +1,42 @@
+import { PaymentIntegration } from './types.ts';
+import { maskSecret, maskPaymentSecrets, hasPaymentSecret } from './services/paymentSecretService.ts';
+import { encryptSecret, decryptSecret } from './services/secretVault.ts';
+
+process.env.KONSUL_ENCRYPTION_KEY = process.env.KONSUL_ENCRYPTION_KEY || 'test-key';
+
+const run = () => {
+    console.log("--- STARTING PAYMENT SECRETS TEST ---");
+
+    const legacy: PaymentIntegration = {
+        provider: 'MULTIPLE',
+        enabled: true,
+        yappyApiKey: 'merchant-123',
+        yappySecretKey: 'WVBQWS5zZWNyZXQ=',
+        stripeSecretKey: 'sk_live_51Habcdef4242'
+    };
+    const masked = maskPaymentSecrets(legacy);
+    const migrated: PaymentIntegration = { provider: 'STRIPE', enabled: true, secretFingerprints: { stripeSecretKey: 'sk_test_••••9999' } };
+    const stored = encryptSecret(legacy.stripeSecretKey!);
+
+    const testCases = [
+        { name: 'Stripe live key mask', got: maskSecret('sk_live_51Habcdef4242'), expected: 'sk_live_••••4242' },
+        { name: 'Webhook secret mask', got: maskSecret('whsec_abcdef123456'), expected: 'whsec_••••3456' },
+        { name: 'Key without prefix', got: maskSecret('WVBQWS5zZWNyZXQ='), expected: '••••ZXQ=' },
+        { name: 'Plaintext removed', got: 'stripeSecretKey' in masked || 'yappySecretKey' in masked, expected: false },
+        { name: 'Fingerprint kept', got: masked.secretFingerprints?.stripeSecretKey, expected: 'sk_live_••••4242' },
+        { name: 'Public merchant id kept', got: masked.yappyApiKey, expected: 'merchant-123' },
+        { name: 'Configured from fingerprint', got: hasPaymentSecret(migrated, 'stripeSecretKey'), expected: true },
+        { name: 'Missing secret', got: hasPaymentSecret(migrated, 'yappySecretKey'), expected: false },
+        { name: 'Stored value is not plaintext', got: stored.includes('sk_live'), expected: false },
+        { name: 'Vault round trip', got: decryptSecret(stored), expected: 'sk_live_51Habcdef4242' },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,82 @@
+import { Invoice, UserProfile } from './types.ts';
+import {
+    getPendingExpenseCycles, getUpcomingBills, getRecurringExpenseCosts, processRecurringExpenses, isPendingRecurringExpense
+} from './services/recurringExpenseService.ts';
+
+const rent: Invoice = {
+    id: 'EXP-1',
+    type: 'Expense',
+    clientName: 'Inmobiliaria Central',
+    date: '2026-01-05',
+    items: [{ id: '1', description: 'Alquiler oficina', quantity: 1, price: 800, tax: 0 }],
+    total: 800,
+    status: 'Pagada',
+    currency: 'USD',
+    recurrence: { isRecurrent: true, frequency: 'MONTHLY', totalCycles: 12 }
+};
+
+const power: Invoice = {
+    ...rent,
+    id: 'EXP-2',
+    clientName: 'Naturgy',
+    items: [{ id: '1', description: 'Electricidad', quantity: 1, price: 100, tax: 0 }],
+    total: 100
+};
+
+const user = {
+    id: 'user_1',
+    name: 'Empresa Demo',
+    email: 'demo@empresa.com',
+    timezone: 'America/Panama'
+} as UserProfile;
+
+const run = async () => {
+    console.log("--- STARTING RECURRING EXPENSES TEST ---");
+
+    const saved = new Map<string, Invoice>();
+    const emails: { to: string; subject: string; html: string }[] = [];
+    const deps = (now: string) => ({
+        store: { saveDocument: async (doc: Invoice) => { saved.set(doc.id, doc); } },
+        mailer: { send: async (e: { to: string; subject: string; html: string }) => { emails.push(e); return true; } },
+        now: () => new Date(now)
+    });
+
+    // Feb 10 09:00 Panama: Feb 5 (past) and Mar 5 (within 30 days) are materialized
+    const firstRun = await processRecurringExpenses([rent], user, deps('2026-02-10T14:00:00Z'));
+    const afterFirst = [rent, ...saved.values()];
+    const secondRun = await processRecurringExpenses(afterFirst, user, deps('2026-02-10T20:00:00Z'));
+    const february = saved.get('EXP-1-2');
+
+    // Power bills came to 130 and 160 once confirmed
+    const confirmedPower = [
+        power,
+        { ...power, id: 'EXP-2-2', recurrence: undefined, recurrenceParentId: 'EXP-2', recurrenceCycle: 2, total: 130 },
+        { ...power, id: 'EXP-2-3', recurrence: undefined, recurrenceParentId: 'EXP-2', recurrenceCycle: 3, total: 160 },
+        { ...power, id: 'EXP-2-4', recurrence: undefined, recurrenceParentId: 'EXP-2', recurrenceCycle: 4, total: 100, status: 'Borrador' as const }
+    ];
+    const costs = getRecurringExpenseCosts([rent, ...confirmedPower]);
+
+    const testCases = [
+        { name: 'Occurrences within the horizon', got: getPendingExpenseCycles(rent, [rent], new Date(2026, 1, 10)).join(','), expected: '2,3' },
+        { name: 'Paused recurrence materializes nothing', got: getPendingExpenseCycles({ ...rent, recurrence: { ...rent.recurrence!, paused: true } }, [rent], new Date(2026, 1, 10)).length, expected: 0 },
+        { name: 'Pending entries generated', got: firstRun.generated, expected: 2 },
+        { name: 'Pending entry is a linked draft on its date', got: `${february?.status}/${february?.recurrenceParentId}/${february?.date}`, expected: 'Borrador/EXP-1/2026-02-05' },
+        { name: 'Pending entries are recognized', got: isPendingRecurringExpense(february!) && !isPendingRecurringExpense(rent), expected: true },
+        { name: 'Repeated run creates no duplicates', got: secondRun.generated, expected: 0 },
+        { name: 'Past-due entry is an upcoming bill', got: getUpcomingBills(afterFirst, new Date(2026, 1, 10)).map(b => `${b.expense.id}:${b.daysUntil}`).join(','), expected: 'EXP-1-2:-5' },
+        { name: 'Entry within reminder window', got: getUpcomingBills(afterFirst, new Date(2026, 2, 1)).map(b => b.expense.id).join(','), expected: 'EXP-1-2,EXP-1-3' },
+        { name: 'Owner reminded once', got: `${firstRun.remindersSent}/${secondRun.remindersSent}/${emails.length}`, expected: '1/0/1' },
+        { name: 'Reminder goes to the owner', got: emails[0]?.to, expected: 'demo@empresa.com' },
+        { name: 'Projected monthly cost from templates', got: costs.projected, expected: 900 },
+        { name: 'Confirmed cost averages real amounts', got: costs.confirmed, expected: 930 },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
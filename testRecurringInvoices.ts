@@ -0,0 +1,103 @@
+import { Invoice, UserProfile, DbClient } from './types.ts';
+import {
+    addRecurrencePeriods, getDueCycles, getRecurrenceStatus, pauseRecurrence, resumeRecurrence, skipNextCycle,
+    processRecurringInvoices, RecurringStore, RecurringCharger
+} from './services/recurringInvoiceService.ts';
+
+const parent: Invoice = {
+    id: 'FAC-0001',
+    clientId: 'cli_1',
+    clientName: 'Cliente Mensual',
+    clientEmail: 'cliente@correo.com',
+    date: '2026-01-31T12:00:00.000Z',
+    dueDate: '2026-02-15',
+    items: [
+        { id: '1', description: 'Mantenimiento', quantity: 1, price: 200, tax: 0 },
+        { id: '2', description: 'Interés por mora', quantity: 1, price: 5, tax: 0, lateFee: true }
+    ],
+    total: 205,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice',
+    recurrence: { isRecurrent: true, frequency: 'MONTHLY', totalCycles: 4, autoSend: true, autoCharge: true }
+};
+
+const user = {
+    id: 'user_1',
+    name: 'Empresa Demo',
+    email: 'demo@empresa.com',
+    timezone: 'America/Panama',
+    documentSequences: { invoicePrefix: 'FAC', invoiceNextNumber: 1, quotePrefix: 'COT', quoteNextNumber: 1 }
+} as UserProfile;
+
+const clients = [{ id: 'cli_1', name: 'Cliente Mensual', email: 'cliente@correo.com', stripeCustomerId: 'cus_1' }] as DbClient[];
+
+const run = async () => {
+    console.log("--- STARTING RECURRING INVOICES TEST ---");
+
+    const documents = new Map<string, Invoice>([[parent.id, parent]]);
+    let nextNumber = 2;
+    const allocatedDates: string[] = [];
+    const store: RecurringStore = {
+        saveDocument: async (doc) => { documents.set(doc.id, doc); },
+        allocateDocumentId: async (_userId, _type, date) => {
+            allocatedDates.push(date);
+            return `FAC-${String(nextNumber++).padStart(4, '0')}`;
+        }
+    };
+    const emails: { to: string; subject: string }[] = [];
+    const charges: string[] = [];
+    // First charge succeeds, the next one is declined
+    const charger: RecurringCharger = {
+        charge: async (invoice) => {
+            charges.push(invoice.id);
+            return charges.length === 1 ? { status: 'succeeded', paymentIntentId: 'pi_1' } : { status: 'failed', error: 'Tarjeta rechazada' };
+        }
+    };
+    const deps = (now: string) => ({
+        store,
+        mailer: { send: async (e: { to: string; subject: string }) => { emails.push(e); return true; } },
+        charger,
+        now: () => new Date(now)
+    });
+
+    // Mar 31 09:00 Panama: cycles 2 (Feb 28) and 3 (Mar 31) are due
+    const firstRun = await processRecurringInvoices([parent], user, deps('2026-03-31T14:00:00Z'), clients);
+    const afterFirst = Array.from(documents.values());
+    const secondRun = await processRecurringInvoices(afterFirst, user, deps('2026-03-31T20:00:00Z'), clients);
+    const cycle2 = documents.get('FAC-0002');
+    const cycle3 = documents.get('FAC-0003');
+
+    const paused = pauseRecurrence(parent);
+    const resumed = resumeRecurrence(paused, afterFirst, new Date(2026, 4, 10));
+    const skipped = skipNextCycle(parent, afterFirst);
+
+    const testCases = [
+        { name: 'Monthly cycles keep month end', got: addRecurrencePeriods(new Date(2026, 0, 31), 'MONTHLY', 1).getDate(), expected: 28 },
+        { name: 'Quarterly cycles', got: addRecurrencePeriods(new Date(2026, 0, 15), 'QUARTERLY', 2).getMonth(), expected: 6 },
+        { name: 'Due cycles on the cycle date', got: getDueCycles(parent, [parent], new Date(2026, 2, 31)).join(','), expected: '2,3' },
+        { name: 'Paused recurrence has no due cycles', got: getDueCycles(paused, [parent], new Date(2026, 2, 31)).length, expected: 0 },
+        { name: 'Generated every due cycle', got: firstRun.generated, expected: 2 },
+        { name: 'Numbered by the allocator on the cycle date', got: `${cycle2?.recurrenceCycle}/${cycle3?.recurrenceCycle}/${allocatedDates.join(',')}`, expected: '2/3/2026-02-28,2026-03-31' },
+        { name: 'Linked to the parent', got: cycle2?.recurrenceParentId, expected: 'FAC-0001' },
+        { name: 'Dated on the cycle with the same terms', got: `${cycle2?.date.slice(0, 10)}/${cycle2?.dueDate}`, expected: '2026-02-28/2026-03-15' },
+        { name: 'Late fees are not repeated', got: `${cycle2?.total}/${cycle2?.items.length}`, expected: '200/1' },
+        { name: 'Successful auto-charge pays the invoice', got: `${cycle2?.status}/${cycle2?.amountPaid}/${cycle2?.stripeMapping?.join(',')}`, expected: 'Pagada/200/pi_1' },
+        { name: 'Declined auto-charge leaves it sent', got: `${cycle3?.status}/${cycle3?.timeline?.some(e => e.title === 'Cobro automático fallido')}`, expected: 'Enviada/true' },
+        { name: 'Auto-send emails each invoice', got: emails.map(e => e.subject).join(','), expected: 'Factura #FAC-0002 - Empresa Demo,Factura #FAC-0003 - Empresa Demo' },
+        { name: 'Repeated run generates nothing', got: secondRun.generated + charges.length, expected: 2 },
+        { name: 'Next cycle after generated ones', got: getRecurrenceStatus(parent, afterFirst).nextCycle, expected: 4 },
+        { name: 'Resume skips cycles missed while paused', got: `${resumed.recurrence?.skippedCycles?.join(',')}/${getRecurrenceStatus(resumed, afterFirst).nextCycle}`, expected: '4/null' },
+        { name: 'Skip next cycle', got: skipped?.recurrence?.skippedCycles?.join(','), expected: '4' },
+        { name: 'Stops after totalCycles', got: getDueCycles(skipped!, afterFirst, new Date(2026, 11, 31)).length, expected: 0 },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,99 @@
+import { ProfileType, UserProfile } from './types.ts';
+import { ContribuyenteDGI, validateRuc } from './services/dgiService.ts';
+import {
+    consultarRucDGI, createCachedRucLookupProvider, createDemoRucLookupProvider, createHttpRucLookupProvider,
+    describeRucLookupSource, RucLookupCache, RucLookupProvider, RucLookupResult
+} from './services/rucLookupService.ts';
+
+const HOUR = 3600 * 1000;
+const hoursAgo = (h: number) => new Date(Date.now() - h * HOUR).toISOString();
+
+const juan: ContribuyenteDGI = { ruc: '8-754-1234', dv: '14', razonSocial: 'JUAN PÉREZ', tipoPersona: 'NATURAL', estado: 'ACTIVO' };
+
+const userWithoutKey: UserProfile = {
+    id: 'user_1', name: 'Empresa Demo', type: ProfileType.COMPANY, taxId: '', avatar: '', isOnboardingComplete: true,
+    apiKeys: { gemini: '', openai: '', konsul: '' }
+};
+
+// In-memory cache and a registry that counts its queries
+const memoryCache = (entries: Record<string, { contribuyente: ContribuyenteDGI; source: string; fetchedAt: string }>): RucLookupCache & { saved: string[] } => {
+    const saved: string[] = [];
+    return {
+        saved,
+        get: async (ruc) => entries[ruc] || null,
+        save: async (ruc, contribuyente, source, fetchedAt) => { entries[ruc] = { contribuyente, source, fetchedAt }; saved.push(ruc); return true; }
+    };
+};
+
+const registry = (answer: (ruc: string) => RucLookupResult): RucLookupProvider & { calls: number } => {
+    const provider = {
+        name: 'registry',
+        calls: 0,
+        lookup: async (ruc: { ruc: string }) => { provider.calls++; return answer(ruc.ruc); }
+    };
+    return provider;
+};
+
+const registryHit = (): RucLookupResult => ({ found: true, contribuyente: { ...juan, razonSocial: 'JUAN PÉREZ (ACTUALIZADO)' }, source: 'DGI', fetchedAt: new Date().toISOString(), ageSeconds: 0 });
+const registryMiss = (): RucLookupResult => ({ found: false, source: 'DGI', fetchedAt: new Date().toISOString(), ageSeconds: 0 });
+const registryDown = (): RucLookupResult => ({ ...registryMiss(), error: 'HTTP 502' });
+
+const run = async () => {
+    console.log("--- STARTING RUC LOOKUP TEST ---");
+
+    // Cache TTL (24 h)
+    const freshRegistry = registry(registryHit);
+    const fresh = await consultarRucDGI('8-754-1234 DV 14', createCachedRucLookupProvider(freshRegistry, 24, memoryCache({ '8-754-1234': { contribuyente: juan, source: 'DGI', fetchedAt: hoursAgo(2) } })));
+
+    const expiredRegistry = registry(registryHit);
+    const expiredCache = memoryCache({ '8-754-1234': { contribuyente: juan, source: 'DGI', fetchedAt: hoursAgo(25) } });
+    const refreshed = await consultarRucDGI('8-754-1234', createCachedRucLookupProvider(expiredRegistry, 24, expiredCache));
+
+    const stale = await consultarRucDGI('8-754-1234', createCachedRucLookupProvider(registry(registryDown), 24, memoryCache({ '8-754-1234': { contribuyente: juan, source: 'DGI', fetchedAt: hoursAgo(25) } })));
+
+    // Not found
+    const missCache = memoryCache({});
+    const missing = await consultarRucDGI('8-123-456', createCachedRucLookupProvider(registry(registryMiss), 24, missCache));
+    const demoMissing = await consultarRucDGI('8-123-456 DV 73', createDemoRucLookupProvider());
+
+    // Invalid DV / format never reach the provider
+    const guarded = registry(registryHit);
+    const wrongDv = await consultarRucDGI('8-754-1234 DV 99', guarded);
+    const badFormat = await consultarRucDGI('no es un ruc', guarded);
+
+    // No personal API key: the paid proxy is not called
+    const noKey = await consultarRucDGI('8-754-1234', createHttpRucLookupProvider(userWithoutKey));
+
+    // Demo labelling
+    const demo = await consultarRucDGI('8-754-1234 DV 14', createDemoRucLookupProvider());
+    const demoCached = await consultarRucDGI('8-754-1234', createCachedRucLookupProvider(registry(registryHit), 24, memoryCache({ '8-754-1234': { contribuyente: juan, source: 'DEMO', fetchedAt: hoursAgo(3) } })));
+    const demoDvs = ['15569888-2-2021 DV 08', '1224-45-12222 DV 24', '344-555-2323 DV 80', '8-754-1234 DV 14', '2345670-1-2019 DV 04'];
+
+    const testCases = [
+        { name: 'Fresh cache entry is served', got: `${fresh.source}/${fresh.origin}/${freshRegistry.calls}`, expected: 'CACHE/DGI/0' },
+        { name: 'Cache age is reported', got: describeRucLookupSource(fresh), expected: 'Registro DGI · hace 2 h (caché)' },
+        { name: 'Expired entry asks the registry', got: `${refreshed.source}/${expiredRegistry.calls}`, expected: 'DGI/1' },
+        { name: 'Registry answer is cached', got: `${expiredCache.saved.join(',')}/${(await expiredCache.get('8-754-1234'))?.contribuyente.razonSocial}`, expected: '8-754-1234/JUAN PÉREZ (ACTUALIZADO)' },
+        { name: 'Registry down: stale entry flagged', got: `${stale.found}/${stale.source}/${stale.error}`, expected: 'true/CACHE/Datos en caché vencidos: HTTP 502' },
+        { name: 'Not found has no data', got: `${missing.found}/${missing.contribuyente}/${missing.error}`, expected: 'false/undefined/undefined' },
+        { name: 'Not found is not cached', got: missCache.saved.length, expected: 0 },
+        { name: 'Demo never invents taxpayers', got: `${demoMissing.found}/${demoMissing.source}`, expected: 'false/DEMO' },
+        { name: 'Wrong DV short-circuits', got: `${wrongDv.found}/${wrongDv.error}`, expected: 'false/El DV 99 no corresponde a 8-754-1234 (DV correcto: 14).' },
+        { name: 'Bad format short-circuits', got: `${badFormat.found}/${badFormat.error}`, expected: 'false/Formato de RUC/Cédula no reconocido.' },
+        { name: 'Provider not called for invalid input', got: guarded.calls, expected: 0 },
+        { name: 'HTTP lookup needs the personal API key', got: `${noKey.found}/${noKey.error?.includes('clave API personal')}`, expected: 'false/true' },
+        { name: 'Demo result is labelled DEMO', got: `${demo.source}/${demo.contribuyente?.razonSocial}`, expected: 'DEMO/JUAN PÉREZ (DEMO)' },
+        { name: 'Demo result description', got: describeRucLookupSource(demo), expected: 'Datos de demostración · ahora' },
+        { name: 'Cached demo data keeps its label', got: describeRucLookupSource(demoCached), expected: 'Datos de demostración · hace 3 h (caché)' },
+        { name: 'Demo taxpayers have valid DVs', got: demoDvs.every(r => validateRuc(r).valid), expected: true },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -0,0 +1,117 @@
+import { Invoice, DbClient } from './types.ts';
+import {
+    StripeEvent, signStripePayload, verifyStripeSignature, parseStripePayment, parseStripeRefund,
+    reconcileStripePayment, reconcileStripeRefund
+} from './services/stripeWebhookService.ts';
+import { getInvoiceCredit } from './services/clientCreditService.ts';
+
+const SECRET = 'whsec_test_fixture';
+const NOW = new Date('2026-03-10T15:00:00Z');
+const T = Math.floor(NOW.getTime() / 1000);
+
+const user = { id: 'user_1' };
+
+// Stands in for the document_sequences counter
+const allocations: string[] = [];
+const allocateId = async (userId: string, type: string) => {
+    allocations.push(`${userId}:${type}`);
+    return `FAC-${String(allocations.length + 1).padStart(4, '0')}`;
+};
+
+const clients: DbClient[] = [
+    { id: 'cli_1', name: 'Cliente Recurrente', email: 'pagos@cliente.com', stripeCustomerId: 'cus_123' }
+];
+
+const invoice: Invoice = {
+    id: 'FAC-0001',
+    clientName: 'Cliente Stripe',
+    date: '2026-03-01',
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: 400, tax: 0 }],
+    total: 400,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+const event = (id: string, type: string, object: any): StripeEvent => ({ id, type, created: T, data: { object } });
+
+const sessionCompleted = event('evt_1', 'checkout.session.completed', {
+    id: 'cs_1', payment_status: 'paid', payment_intent: 'pi_1', amount_total: 40000, currency: 'usd',
+    created: T, metadata: { invoiceId: 'FAC-0001' }, customer_details: { name: 'Cliente Stripe', email: 'c@s.com' }
+});
+const piSucceeded = event('evt_2', 'payment_intent.succeeded', {
+    id: 'pi_1', amount_received: 40000, currency: 'usd', created: T, metadata: { invoiceId: 'FAC-0001' }
+});
+const customerPayment = event('evt_3', 'payment_intent.succeeded', {
+    id: 'pi_2', amount_received: 15000, currency: 'usd', created: T, customer: 'cus_123', metadata: {}
+});
+const invoicePaid = event('evt_4', 'invoice.paid', {
+    id: 'in_1', payment_intent: 'pi_3', amount_paid: 2500, currency: 'usd', created: T, customer: 'cus_123', subscription: 'sub_1'
+});
+const paidTwice = event('evt_8', 'payment_intent.succeeded', {
+    id: 'pi_9', amount_received: 40000, currency: 'usd', created: T, metadata: { invoiceId: 'FAC-0001' }
+});
+const refund = (id: string, cents: number) => event(id, 'charge.refunded', {
+    id: 'ch_1', payment_intent: 'pi_1', amount_refunded: cents, currency: 'usd'
+});
+
+const run = async () => {
+    console.log("--- STARTING STRIPE WEBHOOK TEST ---");
+
+    const payload = JSON.stringify(sessionCompleted);
+    const header = signStripePayload(payload, SECRET, T);
+
+    // Checkout completed -> invoice paid
+    const paid = await reconcileStripePayment(parseStripePayment(sessionCompleted)!, [invoice], clients, user, allocateId, NOW);
+    const paidInvoice = paid.kind === 'PAID' ? paid.invoice : invoice;
+
+    // Same PaymentIntent reported again
+    const duplicate = await reconcileStripePayment(parseStripePayment(piSucceeded)!, [paidInvoice], clients, user, allocateId, NOW);
+
+    // Customer match -> auto-created invoice
+    const created = await reconcileStripePayment(parseStripePayment(customerPayment)!, [paidInvoice], clients, user, allocateId, NOW);
+
+    // Partial refund, then the same cumulative amount again
+    const refunded = reconcileStripeRefund(parseStripeRefund(refund('evt_5', 10000))!, [paidInvoice], NOW);
+    const refundedInvoice = refunded.kind === 'REFUNDED' ? refunded.invoice : paidInvoice;
+    const refundAgain = reconcileStripeRefund(parseStripeRefund(refund('evt_6', 10000))!, [refundedInvoice], NOW);
+    const fullRefund = reconcileStripeRefund(parseStripeRefund(refund('evt_7', 40000))!, [refundedInvoice], NOW);
+
+    const subscription = parseStripePayment(invoicePaid);
+
+    // The client pays the settled invoice again: the excess pays their open invoice, the rest is credit
+    const openInvoice: Invoice = { ...invoice, id: 'FAC-0003', date: '2026-03-05', total: 100, items: [{ id: '1', description: 'Extra', quantity: 1, price: 100, tax: 0 }] };
+    const twice = await reconcileStripePayment(parseStripePayment(paidTwice)!, [paidInvoice, openInvoice], clients, user, allocateId, NOW);
+    const twiceAlone = await reconcileStripePayment(parseStripePayment(paidTwice)!, [paidInvoice], clients, user, allocateId, NOW);
+
+    const testCases = [
+        { name: 'Valid signature', got: verifyStripeSignature(payload, header, SECRET, NOW), expected: true },
+        { name: 'Tampered payload rejected', got: verifyStripeSignature(payload.replace('40000', '1'), header, SECRET, NOW), expected: false },
+        { name: 'Wrong secret rejected', got: verifyStripeSignature(payload, header, 'whsec_other', NOW), expected: false },
+        { name: 'Expired timestamp rejected', got: verifyStripeSignature(payload, header, SECRET, new Date(NOW.getTime() + 600000)), expected: false },
+        { name: 'Checkout marks invoice paid', got: paid.kind === 'PAID' && paid.invoice.status, expected: 'Pagada' },
+        { name: 'Payment record added', got: paidInvoice.payments?.[0]?.id, expected: 'stripe-pi_1' },
+        { name: 'Timeline event added', got: paidInvoice.timeline?.[0]?.title, expected: 'Pago recibido por Stripe: USD 400.00' },
+        { name: 'PaymentIntent after session is duplicate', got: duplicate.kind, expected: 'DUPLICATE' },
+        { name: 'Customer match creates invoice', got: created.kind === 'CREATED' && `${created.invoice.id}/${created.invoice.clientId}`, expected: 'FAC-0002/cli_1' },
+        { name: 'Only the created invoice takes a number', got: allocations.join(','), expected: 'user_1:Invoice' },
+        { name: 'Partial refund reopens balance', got: refunded.kind === 'REFUNDED' && `${refunded.invoice.status}/${refunded.invoice.amountPaid}`, expected: 'Abonada/300' },
+        { name: 'Repeated refund event ignored', got: refundAgain.kind, expected: 'DUPLICATE' },
+        { name: 'Full refund adds only the difference', got: fullRefund.kind === 'REFUNDED' && `${fullRefund.invoice.status}/${fullRefund.invoice.payments?.slice(-1)[0].amount}`, expected: 'Enviada/-300' },
+        { name: 'Paying a settled invoice twice is recorded on it', got: twice.kind === 'PAID' && `${twice.invoice.id}/${twice.invoice.status}/${twice.invoice.payments?.[1]?.id}`, expected: 'FAC-0001/Pagada/stripe-pi_9' },
+        { name: 'Excess pays the open invoice', got: twice.kind === 'PAID' && twice.credited?.map(d => `${d.id}/${d.status}/${d.amountPaid}`).join(','), expected: 'FAC-0003/Pagada/100' },
+        { name: 'Rest stays as client credit', got: twice.kind === 'PAID' && getInvoiceCredit(twice.invoice, [twice.invoice, ...(twice.credited || [])]), expected: 300 },
+        { name: 'Without open invoices the excess is credit', got: twiceAlone.kind === 'PAID' && `${twiceAlone.invoice.status}/${getInvoiceCredit(twiceAlone.invoice, [twiceAlone.invoice])}/${twiceAlone.credited?.length}`, expected: 'Pagada/400/0' },
+        { name: 'Overpayment timeline shows the credit', got: twiceAlone.kind === 'PAID' && twiceAlone.invoice.timeline?.slice(-1)[0].description, expected: 'Saldo a favor: USD 400.00' },
+        { name: 'invoice.paid parsed', got: `${subscription?.stripeInvoiceId}/${subscription?.amountPaid}/${subscription?.description}`, expected: 'in_1/25/Cobro de Suscripción' },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
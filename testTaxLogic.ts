@@ -1,4 +1,4 @@
-import { calculatePanamaISR } from './services/taxCalculator.ts';
+import { calculatePanamaISR, calculateAnnualIsrWorksheet, IsrWorksheet } from './services/taxCalculator.ts';
 
 const testCases = [
     { income: 10000, expenses: 0, type: 'NATURAL', expected: 0 },
@@ -16,4 +16,26 @@ testCases.forEach((t, i) => {
     console.log(`Test ${i + 1}: ${t.type} ${t.regime || ''} | Income: ${t.income} | Expected: ${t.expected} | Got: ${result.estimatedTax} | Result: ${pass ? 'PASS' : 'FAIL'}`);
 });
 
+// --- ANNUAL WORKSHEET: deductions, CAIR, installments, credits ---
+const worksheetCases: { name: string, input: any, pick: (w: IsrWorksheet) => number | string, expected: number | string }[] = [
+    { name: 'Personal deductions (mortgage capped at 15k)', input: { entityType: 'NATURAL', grossIncome: 60000, deductibleExpenses: 0, personalDeductions: { education: 2000, mortgageInterest: 20000, medical: 3000 } }, pick: w => w.determinedTax, expected: 4350 }, // (60000-20000-11000) * 0.15
+    { name: 'Personal deductions ignored for JURIDICA', input: { entityType: 'JURIDICA', grossIncome: 100000, deductibleExpenses: 20000, personalDeductions: { mortgageInterest: 5000 } }, pick: w => w.determinedTax, expected: 20000 },
+    { name: 'CAIR over ordinary (JURIDICA > 1.5M)', input: { entityType: 'JURIDICA', grossIncome: 2000000, deductibleExpenses: 1990000 }, pick: w => w.determinedTax, expected: 23350 }, // 2M * 4.67% * 25%
+    { name: 'CAIR method flagged', input: { entityType: 'JURIDICA', grossIncome: 2000000, deductibleExpenses: 1990000 }, pick: w => w.method, expected: 'CAIR' },
+    { name: 'Ordinary wins when higher', input: { entityType: 'JURIDICA', grossIncome: 2000000, deductibleExpenses: 1000000 }, pick: w => w.method, expected: 'ORDINARIO' },
+    { name: 'No CAIR at exactly 1.5M', input: { entityType: 'JURIDICA', grossIncome: 1500000, deductibleExpenses: 1499000 }, pick: w => w.determinedTax, expected: 250 },
+    { name: 'CAIR for NATURAL uses brackets', input: { entityType: 'NATURAL', grossIncome: 2000000, deductibleExpenses: 1999000 }, pick: w => w.determinedTax, expected: 16700 }, // 5850 + (93400-50000) * 0.25
+    { name: 'June installment', input: { entityType: 'JURIDICA', grossIncome: 4000, deductibleExpenses: 0 }, pick: w => w.installments[0].amount, expected: 333.33 },
+    { name: 'December installment takes remainder', input: { entityType: 'JURIDICA', grossIncome: 4000, deductibleExpenses: 0 }, pick: w => w.installments[2].amount, expected: 333.34 },
+    { name: 'Installment due dates next year', input: { entityType: 'JURIDICA', grossIncome: 4000, deductibleExpenses: 0 }, pick: w => w.installments.map(i => i.dueDate).join(','), expected: '2027-06-30,2027-09-30,2027-12-31' },
+    { name: 'Withholdings + estimated payments = credit balance', input: { entityType: 'JURIDICA', grossIncome: 80000, deductibleExpenses: 0, withholdings: 5000, estimatedPaymentsMade: 16000 }, pick: w => w.creditBalance, expected: 1000 },
+    { name: 'Balance due after credits', input: { entityType: 'JURIDICA', grossIncome: 80000, deductibleExpenses: 0, withholdings: 5000 }, pick: w => w.balanceDue, expected: 15000 },
+];
+
+worksheetCases.forEach((t, i) => {
+    const got = t.pick(calculateAnnualIsrWorksheet({ fiscalYear: 2026, ...t.input }));
+    const pass = typeof t.expected === 'number' ? Math.abs((got as number) - t.expected) < 0.01 : got === t.expected;
+    console.log(`Worksheet ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
 console.log("--- TEST FINISHED ---");
@@ -0,0 +1,52 @@
+import {
+    createTestCertificateAuthority,
+    issueTestPkcs12,
+    parsePkcs12,
+    signXmlEnveloped,
+    verifyXmlSignature
+} from './services/xmlSignatureService.ts';
+
+const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<rFE xmlns="http://dgi-fep.mef.gob.pa">
+  <dVerForm>1.00</dVerForm>
+  <gTot>
+    <dVTot>107.00</dVTot>
+  </gTot>
+</rFE>`;
+
+console.log("--- STARTING XMLDSIG TEST ---");
+
+const ca = createTestCertificateAuthority();
+const otherCa = createTestCertificateAuthority('Untrusted CA');
+const p12 = issueTestPkcs12(ca, { commonName: 'EMPRESA DEMO S.A.', ruc: '155698882-2-2021' }, 'secreto');
+const cert = parsePkcs12(p12, 'secreto');
+const signed = signXmlEnveloped(xml, cert.privateKeyPem, cert.certificatePem);
+
+const testCases = [
+    { name: 'Valid signature, trusted CA', xml: signed, cas: [ca.certificatePem], expected: true },
+    { name: 'Valid signature, no CA check', xml: signed, cas: [], expected: true },
+    { name: 'Signed by a CA that is not trusted', xml: signed, cas: [otherCa.certificatePem], expected: false },
+    { name: 'Tampered total', xml: signed.replace('107.00', '1.00'), cas: [ca.certificatePem], expected: false },
+    { name: 'CRLF line endings (canonicalized)', xml: signed.replace(/\n/g, '\r\n'), cas: [ca.certificatePem], expected: true },
+];
+
+testCases.forEach((t, i) => {
+    const result = verifyXmlSignature(t.xml, t.cas);
+    const pass = result.valid === t.expected;
+    console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${result.valid} ${result.errors.join(' ')} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+let wrongPasswordRejected = false;
+try { parsePkcs12(p12, 'incorrecta'); } catch (e) { wrongPasswordRejected = true; }
+console.log(`Test ${testCases.length + 1}: Wrong .p12 password rejected | Result: ${wrongPasswordRejected ? 'PASS' : 'FAIL'}`);
+
+const trustCases = [
+    { name: 'Chain to a configured CA is trusted', got: verifyXmlSignature(signed, [ca.certificatePem]).trusted, expected: true },
+    { name: 'Without a trust store nothing is trusted', got: verifyXmlSignature(signed, []).trusted, expected: false },
+];
+trustCases.forEach((t, i) => {
+    const pass = t.got === t.expected;
+    console.log(`Test ${testCases.length + 2 + i}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+});
+
+console.log("--- TEST FINISHED ---");
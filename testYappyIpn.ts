@@ -0,0 +1,66 @@
+import { Invoice } from './types.ts';
+import {
+    YappyOrder, signYappyIpn, verifyYappyIpn, simulateYappyIpn, splitYappySecret, generateYappyOrderId, applyYappyPayment
+} from './services/yappyIpnService.ts';
+
+// base64("<hmac secret>.<api key>") as issued by Yappy Comercial
+const SECRET = Buffer.from('hmac-part.api-part').toString('base64');
+const NOW = new Date('2026-04-02T16:00:00Z');
+
+const invoice: Invoice = {
+    id: 'FAC-0010',
+    clientName: 'Cliente Yappy',
+    date: '2026-04-01',
+    items: [{ id: '1', description: 'Servicio', quantity: 1, price: 300, tax: 0 }],
+    total: 300,
+    status: 'Enviada',
+    currency: 'USD',
+    type: 'Invoice'
+};
+
+const order = (orderId: string, amount: number): YappyOrder => ({
+    orderId,
+    userId: 'user_1',
+    invoiceId: invoice.id,
+    amount,
+    currency: 'USD',
+    domain: 'https://app.konsul.test',
+    status: 'PENDING'
+});
+
+const run = () => {
+    console.log("--- STARTING YAPPY IPN TEST ---");
+
+    // Simulated Yappy callback, parsed back as the endpoint receives it
+    const query = Object.fromEntries(new URLSearchParams(simulateYappyIpn(SECRET, order('ORD1', 100), 'E', 'CONF123')));
+    const params = { orderId: query.orderId, status: query.status, domain: query.domain, hash: query.hash, confirmationNumber: query.confirmationNumber };
+
+    const partial = applyYappyPayment(invoice, [invoice], order('ORD1', 100), 'CONF123', NOW)!;
+    const replay = applyYappyPayment(partial, [partial], order('ORD1', 100), 'CONF123', NOW);
+    const settled = applyYappyPayment(partial, [partial], order('ORD2', 200), 'CONF456', NOW)!;
+
+    const testCases = [
+        { name: 'Secret split for HMAC', got: splitYappySecret(SECRET).hmacSecret, expected: 'hmac-part' },
+        { name: 'Simulated IPN verifies', got: verifyYappyIpn(SECRET, params), expected: true },
+        { name: 'Tampered status rejected', got: verifyYappyIpn(SECRET, { ...params, status: 'R' }), expected: false },
+        { name: 'Other domain rejected', got: verifyYappyIpn(SECRET, { ...params, domain: 'https://evil.test' }), expected: false },
+        { name: 'Wrong secret rejected', got: verifyYappyIpn(Buffer.from('other.key').toString('base64'), params), expected: false },
+        { name: 'Missing hash rejected', got: verifyYappyIpn(SECRET, { ...params, hash: undefined }), expected: false },
+        { name: 'Signature is HMAC of orderId+status+domain', got: params.hash === signYappyIpn(SECRET, { orderId: 'ORD1', status: 'E', domain: 'https://app.konsul.test' }), expected: true },
+        { name: 'Order id fits Yappy limit', got: generateYappyOrderId().length <= 15, expected: true },
+        { name: 'Partial payment', got: `${partial.status}/${partial.amountPaid}`, expected: 'Abonada/100' },
+        { name: 'Payment record method', got: `${partial.payments?.[0].method}/${partial.payments?.[0].notes}`, expected: 'Yappy/Yappy confirmación CONF123' },
+        { name: 'Timeline event', got: partial.timeline?.[0].title, expected: 'Pago recibido por Yappy: USD 100.00' },
+        { name: 'Same order not applied twice', got: replay, expected: null },
+        { name: 'Second order settles', got: `${settled.status}/${settled.amountPaid}/${settled.timeline?.[1].description}`, expected: 'Pagada/300/Deuda saldada' },
+    ];
+
+    testCases.forEach((t, i) => {
+        const pass = t.got === t.expected;
+        console.log(`Test ${i + 1}: ${t.name} | Expected: ${t.expected} | Got: ${t.got} | Result: ${pass ? 'PASS' : 'FAIL'}`);
+    });
+
+    console.log("--- TEST FINISHED ---");
+};
+
+run();
@@ -16,6 +16,9 @@ export enum AppView {
   AI_TASKS = 'AI_TASKS',
   FISCAL_CALCULATORS = 'FISCAL_CALCULATORS',
   TAX_CALENDAR = 'TAX_CALENDAR',
+  ITBMS_RETURN = 'ITBMS_RETURN',
+  DGI_REPORTS = 'DGI_REPORTS',
+  BANK_RECONCILIATION = 'BANK_RECONCILIATION',
 }
 
 export interface BreadcrumbItem {
@@ -42,6 +45,7 @@ export interface DbClient {
   notes?: string;
   status?: 'CLIENT' | 'PROSPECT';
   stripeCustomerId?: string; // NEW: Link to Stripe Customer
+  dunningSequenceId?: string; // Follow-up sequence for this client's invoices
 }
 
 // NEW: Database Provider Structure
@@ -64,6 +68,7 @@ export interface CatalogItem {
   description?: string; // Added optional description
   sku?: string; // Added optional SKU
   isRecurring?: boolean; // New: Monthly/Recurring flag
+  taxRateCode?: ItbmsRateCode; // ITBMS rate applied when added to a document
 }
 
 export interface BrandingConfig {
@@ -91,20 +96,29 @@ export interface DocumentSequences {
   invoiceNextNumber: number;
   quotePrefix: string;
   quoteNextNumber: number;
+  creditNotePrefix?: string; // Default 'NC'
+  creditNoteNextNumber?: number;
+  debitNotePrefix?: string; // Default 'ND'
+  debitNoteNextNumber?: number;
 }
 
+export type PaymentSecretField = 'stripeSecretKey' | 'stripeWebhookSecret' | 'yappySecretKey' | 'token';
+
 export interface PaymentIntegration {
   provider: 'PAGUELOFACIL' | 'YAPPY' | 'STRIPE' | 'MULTIPLE' | 'BOTH';
   enabled: boolean;
   // PagueloFacil
   cclw?: string; // Codigo de Comercio (Merchant ID)
-  token?: string; // API Token / Key
+  token?: string; // API Token / Key. Legacy plaintext, moved to the server vault (see secretFingerprints)
   // Yappy
   yappyApiKey?: string;
-  yappySecretKey?: string;
+  yappySecretKey?: string; // Legacy plaintext, moved to the server vault (see secretFingerprints)
   yappySeed?: string;
   // Stripe
-  stripeSecretKey?: string;
+  stripeSecretKey?: string; // Legacy plaintext, moved to the server vault (see secretFingerprints)
+  stripeWebhookSecret?: string; // Legacy plaintext, moved to the server vault (see secretFingerprints)
+  // Secrets stored encrypted server-side (api/v1/payment-secrets): the client only sees masks
+  secretFingerprints?: Partial<Record<PaymentSecretField, string>>;
   // Fee Config
   gatewayFeeRate?: number; // e.g., 3.5
   gatewayFeeApplyAll?: boolean; // true = apply to all invoices, false = individual select
@@ -122,15 +136,65 @@ export interface HourlyRateConfig {
 export interface FiscalConfig {
   entityType: 'NATURAL' | 'JURIDICA';
   companyForm?: 'SA' | 'SRL' | 'SAS' | 'EMI' | 'OTHER';
+  incorporationDate?: string; // YYYY-MM-DD, sets the Tasa Única due date
   specialRegime: 'NONE' | 'MICRO' | 'ZONA_FRANCA' | 'CIUDAD_SABER';
   annualRevenue: number; // Projected or Real
   declaredCapital: number; // For Aviso Operación
   hasEmployees: boolean; // For CSS
   itbmsRegistered: boolean; // Manual override
+
+  // Factura Electrónica (DGI) emission point
+  feBranchCode?: string; // Código de sucursal (4 digits), default '0000'
+  fePointOfSale?: string; // Punto de facturación (3 digits), default '001'
+  feEnvironment?: 'PRODUCCION' | 'PRUEBAS';
+}
+
+// Public metadata of the signing certificate (.p12). The file and password live encrypted server-side.
+export interface FiscalCertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  fingerprint: string; // SHA-256
+  uploadedAt: string;
 }
 
 export type FollowUpProfile = 'PASSIVE' | 'NORMAL' | 'AGGRESSIVE' | 'OFF';
 
+export type DunningChannel = 'EMAIL' | 'WHATSAPP' | 'TASK';
+export type DunningTone = 'FRIENDLY' | 'FIRM' | 'FINAL';
+
+export interface DunningStep {
+  id: string;
+  dayOffset: number; // Days after the due date
+  channel: DunningChannel; // WHATSAPP prepares a wa.me link, TASK creates an internal to-do
+  tone: DunningTone;
+  template?: string; // Custom message; placeholders like {cliente}, {saldo}. Empty = tone default
+  escalateToUncollectible?: boolean; // Marks the invoice 'Incobrable' once the step fires
+}
+
+export interface DunningSequence {
+  id: string;
+  name: string;
+  steps: DunningStep[];
+}
+
+export interface BusinessHours {
+  startHour: number; // 0-23, local time
+  endHour: number; // Exclusive
+  workdays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface LateFeePolicy {
+  enabled: boolean;
+  annualInterestRate: number; // %, simple interest on the overdue principal
+  graceDays: number; // Days after the due date before any charge is applied
+  flatFee: number; // One-off charge once the grace period ends
+  maxAmount?: number; // Cap on total late charges per invoice
+  method: 'LINE' | 'DEBIT_NOTE'; // Interest line on the invoice or a separate debit note
+}
+
 export interface UserProfile {
   id: string;
   name: string;
@@ -144,9 +208,15 @@ export interface UserProfile {
 
   // NEW: Structured Fiscal Profile
   fiscalConfig?: FiscalConfig;
+  fiscalCertificate?: FiscalCertificateInfo; // Metadata only, never the key material
 
   // NEW: Automatic Follow-up
   followUpProfile?: FollowUpProfile;
+  dunningSequences?: DunningSequence[]; // User-defined; clients and invoices can pick one
+  defaultDunningSequenceId?: string; // Replaces the followUpProfile preset when set
+  lateFeePolicy?: LateFeePolicy;
+  timezone?: string; // IANA zone, e.g. America/Panama
+  businessHours?: BusinessHours; // Window in which automatic reminders are sent
 
   // Branding
   branding?: BrandingConfig;
@@ -211,22 +281,71 @@ export interface AccountantTask {
   aiSuggestion?: string;
 }
 
+// Tax returns prepared in the app, one record per form and period
+export type TaxFilingForm = 'F430' | 'SIPE' | 'TASA_UNICA' | 'ISR' | 'ISR_ESTIMADO';
+export type TaxFilingStatus = 'DRAFT' | 'READY' | 'FILED';
+
+export interface TaxFiling {
+  userId: string;
+  form: TaxFilingForm;
+  period: string; // YYYY-MM (monthly), YYYY (annual) or YYYY-N (ISR installment)
+  status: TaxFilingStatus;
+  taxPayable?: number; // Snapshot when marked READY/FILED
+  creditCarriedForward?: number; // Saldo a favor declared for the next period
+  receiptNumber?: string; // DGI e-Tax acknowledgment
+  filedAt?: string;
+  notes?: string;
+  updatedAt?: string;
+}
+
+// ITBMS rate catalog (see services/itbmsService.ts)
+export type ItbmsRateCode = 'TASA_7' | 'TASA_10' | 'TASA_15' | 'TASA_0' | 'EXENTO';
+
 export interface InvoiceItem {
   id: string;
   description: string; // Used as Item Name/Title
   details?: string;    // New: Extended description
   quantity: number;
   price: number;
-  tax: number;
+  tax: number; // Percentage, mirrors taxRateCode
+  taxRateCode?: ItbmsRateCode;
+  lateFee?: boolean; // Late interest / penalty charge added by the follow-up engine
 }
 
 export interface TimelineEvent {
   id: string;
-  type: 'CREATED' | 'SENT' | 'OPENED' | 'CLICKED' | 'APPROVED' | 'PAID' | 'REMINDER' | 'EDITED' | 'STATUS_CHANGE';
+  type: 'CREATED' | 'SENT' | 'OPENED' | 'CLICKED' | 'APPROVED' | 'PAID' | 'REMINDER' | 'EDITED' | 'STATUS_CHANGE' | 'CREDIT_NOTE' | 'DEBIT_NOTE' | 'LATE_FEE';
   title: string;
   description?: string;
   timestamp: string;
   icon?: string; // Optional custom icon hint
+  dunning?: { // Follow-up step that produced this event
+    sequenceName: string;
+    stepIndex: number; // 0-based
+    stepCount: number;
+    channel: DunningChannel;
+    tone: DunningTone;
+    actionUrl?: string; // WhatsApp link to send the prepared message
+  };
+  version?: number; // EDITED: version created by the amendment
+  changes?: DocumentFieldChange[]; // EDITED: what changed against the previous version
+}
+
+export interface DocumentFieldChange {
+  field: string; // Label shown in the timeline
+  before: string;
+  after: string;
+}
+
+// What the client received: the parts of an issued document that only change through a new version
+export type DocumentVersionContent = Pick<Invoice,
+  'clientName' | 'clientTaxId' | 'clientEmail' | 'clientAddress' | 'date' | 'dueDate' | 'items' |
+  'total' | 'discountRate' | 'withholdingAmount' | 'notes' | 'currency'>;
+
+export interface DocumentVersion {
+  version: number;
+  replacedAt: string; // When the next version superseded it
+  content: DocumentVersionContent;
 }
 
 export type InvoiceStatus =
@@ -248,15 +367,82 @@ export interface InvoiceRecurrence {
   frequency: RecurrenceFrequency;
   totalCycles: number;
   isRecurrent: boolean;
+  // Scheduler (services/recurringInvoiceService.ts); the original invoice is cycle 1
+  paused?: boolean;
+  skippedCycles?: number[]; // Cycles that will not be generated
+  autoSend?: boolean; // Email each generated invoice to the client
+  autoCharge?: boolean; // Charge the client's saved Stripe payment method
 }
 
 export interface PaymentRecord {
   id: string;
   date: string; // ISO string
-  amount: number;
-  method?: 'Banco' | 'Tarjeta' | 'Efectivo' | 'Otro';
+  amount: number; // Negative for refunds and credit moved to another invoice
+  method?: 'Banco' | 'Tarjeta' | 'Efectivo' | 'Yappy' | 'Otro';
   currency?: string;
   notes?: string;
+  gatewayFee?: number; // Fee actually charged by the gateway, in the payment currency
+  linkedDocumentId?: string; // Client credit moved to/from this invoice (see services/clientCreditService.ts)
+}
+
+// Payment plan of an invoice (see services/installmentService.ts)
+export type InstallmentFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+
+export interface PaymentInstallment {
+  id: string;
+  dueDate: string; // YYYY-MM-DD
+  amount: number;
+}
+
+// Bank statement reconciliation (see services/bankStatementService.ts)
+export type BankStatementFormat = 'CSV' | 'OFX' | 'CAMT053';
+export type BankTransactionStatus = 'UNMATCHED' | 'MATCHED' | 'IGNORED';
+
+export interface BankTransaction {
+  id: string; // Bank id (OFX FITID / CAMT AcctSvcrRef) or content hash, so re-imports are skipped
+  userId: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // Credits positive, debits negative
+  currency: string;
+  description: string;
+  reference?: string;
+  counterparty?: string;
+  source: BankStatementFormat;
+  fileName?: string;
+  status: BankTransactionStatus;
+  matchedDocumentId?: string;
+  importedAt: string;
+}
+
+export interface BankMatchSuggestion {
+  documentId: string;
+  score: number; // 0-100
+  reasons: string[];
+}
+
+// DGI Factura Electrónica: Forma de pago (iFormaPago)
+export type FEPaymentForm =
+  | '01' // Crédito
+  | '02' // Contado
+  | '03' // Tarjeta Crédito
+  | '04' // Tarjeta Débito
+  | '08' // Transferencia / Depósito a cuenta bancaria
+  | '09' // Cheque
+  | '99'; // Otro
+
+export interface ElectronicInvoiceData {
+  cufe: string;
+  xml: string; // rFE v1.00 document as sent to the PAC
+  status: 'GENERADA' | 'AUTORIZADA' | 'RECHAZADA';
+  fiscalNumber: string; // dNroDF
+  pointOfSale: string; // dPtoFacDF
+  securityCode: string; // dSeg
+  environment: 'PRODUCCION' | 'PRUEBAS';
+  generatedAt: string;
+  signedAt?: string; // XMLDSig applied with the user's certificate
+  authorizationNumber?: string; // Protocolo de autorización (PAC)
+  authorizedAt?: string;
+  rejectionReason?: string;
 }
 
 export interface Invoice {
@@ -275,26 +461,47 @@ export interface Invoice {
   amountPaid?: number; // New: Track partial payments
   status: InvoiceStatus;
   currency: string;
-  type: 'Invoice' | 'Quote' | 'Expense';
+  type: 'Invoice' | 'Quote' | 'Expense' | 'CreditNote' | 'DebitNote';
   dueDate?: string; // New: User-defined due date
 
+  // Credit / Debit notes
+  referenceInvoiceId?: string; // Invoice adjusted by this note
+  adjustmentReason?: string;
+  adjustmentScope?: 'FULL' | 'PARTIAL'; // Credit notes only
+
   // Fiscal Logic (DGI Panama)
   withholdingAmount?: number; // Retención sufrida (ITBMS) por agentes retenedores
   expenseDeductibility?: 'FULL' | 'NONE' | 'PARTIAL'; // Full (Factura Fiscal), None (Voucher/Personal)
   isValidFiscalDoc?: boolean; // True = Factura Electrónica/Fiscal, False = Voucher/Recibo simple
+  supplierInvoiceNumber?: string; // Expenses: supplier's invoice number (Informe de Compras F94)
+  paymentForm?: FEPaymentForm; // Forma de pago declarada en la FE
+  electronicInvoice?: ElectronicInvoiceData; // XML + CUFE once issued
+
+  // Amendments (issued documents are never rewritten in place)
+  version?: number; // Current version, 1 when missing
+  versions?: DocumentVersion[]; // Superseded versions, oldest first
 
   // Vital Signs
   timeline?: TimelineEvent[];
   successProbability?: number; // 0-100 (Only for Quotes)
   receiptUrl?: string; // New: For Expense receipts
+  billReminderSentAt?: string; // Pending recurring expense: when the owner was reminded it falls due
   resendEmailId?: string; // New: Track email status via Resend
 
   // Payment Tracking
   stripeMapping?: string[]; // Array of Stripe Session/Payment IDs linked to this doc
   payments?: PaymentRecord[]; // New: Granular payment history
+  installments?: PaymentInstallment[]; // Payment plan; payments settle installments in due-date order
+
+  // Late fees (LateFeePolicy)
+  lateFeeAppliedAt?: string; // Last time the follow-up engine charged late fees
+  lateFeeWaived?: boolean; // No further late fees; charged ones were reversed
+  dunningSequenceId?: string; // Overrides the client/user sequence; 'OFF' disables follow-up
 
   // Recurrence
   recurrence?: InvoiceRecurrence;
+  recurrenceParentId?: string; // Recurring invoice this one was generated from
+  recurrenceCycle?: number; // Cycle number within the parent's recurrence (parent = 1)
   // Payment gateway fee flag
   payViaGateway?: boolean;
 }
@@ -1,15 +1,26 @@
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const PUBLIC_ENV_KEYS = [
+  'VITE_DATABASE_URL', // Browser connection: a Neon role limited to the app tables
+  'VITE_API_KEY',
+  'VITE_SUITE_URL',
+  'VITE_RESEND_FROM_EMAIL',
+  'VITE_RUC_LOOKUP_PROVIDER'
+];
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   const env = loadEnv(mode, (process as any).cwd(), '');
+  // Only these public variables reach the browser bundle. Server secrets (DATABASE_URL,
+  // KONSUL_ENCRYPTION_KEY, CRON_SECRET, gateway keys) stay in the api/ functions.
+  const publicEnv = Object.fromEntries(PUBLIC_ENV_KEYS.filter(key => key in env).map(key => [key, env[key]]));
   return {
     plugins: [react()],
     define: {
       // Polyfill process.env for existing code compatibility
-      'process.env': env
+      'process.env': publicEnv
     }
   }
 })
\ No newline at end of file